@@ -182,7 +182,10 @@ function buildUserMessage(
   if (schema.relationships?.length) {
     parts.push('\n## Relationships\n')
     for (const rel of schema.relationships) {
-      parts.push(`- ${rel.sourceTable}.${rel.sourceColumn} → ${rel.targetTable}.${rel.targetColumn} (${rel.type})`)
+      // Composite keys list every column pair, e.g. Orders.(TenantId, OrderId)
+      const src = rel.sourceColumns?.length > 1 ? `(${rel.sourceColumns.join(', ')})` : rel.sourceColumn
+      const dst = rel.targetColumns?.length > 1 ? `(${rel.targetColumns.join(', ')})` : rel.targetColumn
+      parts.push(`- ${rel.sourceTable}.${src} → ${rel.targetTable}.${dst} (${rel.type})`)
     }
   }
 
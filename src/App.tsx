@@ -22,22 +22,33 @@ import type {
 import { removeEdge } from './lib/removeEdge'
 import 'reactflow/dist/style.css'
 import './App.css'
-import { parseFiles, detectDelimiter, parseDelimitedText, slugify } from './lib/parseFiles'
-import { parseSqlServerSchema } from './lib/parseSqlSchema'
+import { isSnapshotSource, reparseSource, slugify, type ParseProgress } from './lib/parseFiles'
+import { parseFilesInWorkers } from './lib/parsePool'
+import { parseSqlSchema, SQL_SCHEMA_QUERIES, type SqlSchemaDialect } from './lib/parseSqlSchema'
 import { generateDummyRowsForSchema } from './lib/dummyData'
-import { buildJoinedDocument, toRelationshipEdges } from './lib/join'
+import { createJsonlWriter, jsonlFileName, openExportFiles, supportsFileSystemAccess, type ExportFile } from './lib/jsonlExport'
+import { createJoinPlan, toRelationshipEdges, edgeAdditionalColumns, edgeColumnPairs, edgeMatchMode, edgeSubset, edgeAggregates, edgeUsesColumn, documentAggregates } from './lib/join'
+import { JOIN_MATCH_MODES } from './lib/matchModes'
+import { expressionError } from './lib/expression'
+import { AGGREGATE_FUNCTIONS, aggregatePropertyName } from './lib/aggregates'
 import { removeTable } from './lib/removeTable'
 import { loadProjectList, loadProject, saveProjectList, saveProject, deleteProject, makeProjectId, type ProjectState, setProjectSource, getProjectSource, renameProject, exportProject, importProject, type ExportedProject } from './lib/projects'
 import { rehydrateTables } from './lib/rehydrate'
-import type { TableData, ParseFileError } from './lib/types'
-import { renameColumn as renameColumnData, renameTable as renameTableData, updateEdgesForColumnRename, renameSelectedColumns, ensureColumnRenames, findOriginalColumn, applyColumnRenames } from './lib/rename'
+import type { TableData, ParseFileError, TableParsingOptions, ColumnPair, JoinMatchMode, RelationshipType, JunctionTable, RelationshipOrder, RelationshipAggregate } from './lib/types'
+import { COLUMN_DATA_TYPES, inferColumnTypes, applyColumnTypeOverrides, clearColumnTypeOverride } from './lib/inferTypes'
+import { suggestRelationships, type RelationshipSuggestion } from './lib/suggestRelationships'
+import { renameColumn as renameColumnData, renameTable as renameTableData, updateEdgesForColumnRename, renameSelectedColumns, ensureColumnRenames, findOriginalColumn, applyColumnRenames, renameColumnTypeOverride, renameJunctionPayloadColumn, renameComputedColumnReferences, renameUnpivotColumn, renameObjectGroupingColumn, renameDocumentSettingsColumn } from './lib/rename'
 import JSZip from 'jszip'
 import { saveAs } from 'file-saver'
 import TableNode, { type TableNodeData } from './components/TableNode'
 import CalloutPopover from './components/CalloutPopover'
 import JsonTree from './components/JsonTree'
-import { estimateRu, type RuEstimate } from './lib/ru'
-import { type ColumnSplit, type TablePivot, applyTransforms } from './lib/transforms'
+import { estimateRu, estimateAggregateUpkeep, createWorkloadAccumulator, formatBytes, oversizedDocuments, setRuModels, DEFAULT_RU_MODELS, type RuEstimate, type AggregateUpkeep, type WorkloadReport, type RuModelConfig } from './lib/ru'
+import { createPartitionKeyAnalyzer, parsePartitionKeyPaths, partitionKeyPathsError, type PartitionKeyAnalyzer } from './lib/partitionKey'
+import { calibrateRuModels, parseRuSamplesCsv, reviveRuModels, type RuCalibration } from './lib/ruCalibration'
+import { type ColumnSplit, type ComputedColumn, type ObjectGrouping, type TablePivot, type TableUnpivot, applyTransforms, formatObjectPaths, parseObjectPaths, parsePivotGroups } from './lib/transforms'
+import { DEFAULT_CAPACITY_SETTINGS, DEFAULT_OPS_PER_SECOND, DEFAULT_PRICES, patternTableName, planCapacity, shapesStorageGb, type CapacitySettings, type DocumentShape, type PriceTable } from './lib/capacity'
+import { type DocumentIdSource, type DocumentSettings, type PartitionKeyLevel, MAX_PARTITION_KEY_LEVELS, createDocumentValidator, describeDocumentIssues, documentSettingsError, shapeDocument } from './lib/documentSettings'
 import logoUrl from './assets/logo.svg'
 import { getEmbeddedModel } from './lib/models'
 import { useHistory } from './lib/useHistory'
@@ -52,6 +63,18 @@ const GIT_COMMIT = import.meta.env.VITE_GIT_COMMIT ?? ''
 const IS_DEV = import.meta.env.VITE_IS_DEV === 'true'
 const VERSION_DISPLAY = IS_DEV && GIT_COMMIT ? `${VERSION}-dev (${GIT_COMMIT})` : VERSION
 const AUTHOR = 'Cosmologist'
+const SUGGESTION_EDGE_PREFIX = 'suggestion:'
+const TABLE_PREVIEW_ROWS = 50
+const DEFAULT_SOFT_LIMIT_KB = 256
+const WORKLOAD_OVERSIZED_SHOWN = 50
+const CAPACITY_SAMPLE_ROWS = 50
+
+/** Workload report of one document root; `sizes[i]` is the size of row i's document. */
+type WorkloadRootReport = { tableId: string; tableName: string; report: WorkloadReport; sizes: number[] }
+/** Partition key analyzer inputs (candidate keys as comma-separated paths) and the last run over `rootId`. */
+type PartitionAnalysis = { rootId: string; candidates: string[]; projectedDocuments?: number; analyzer: PartitionKeyAnalyzer | null }
+/** What an export or report does with each built document of a root, and once the root is done. */
+type RootDocumentVisitor = { add: (doc: Record<string, unknown>, rowIndex: number) => void | Promise<void>; finish?: () => void | Promise<void> }
 const GITHUB_URL = import.meta.env.VITE_APP_GITHUB_URL ?? 'https://github.com/cbattlegear/Cosmologist'
 
 function App() {
@@ -59,24 +82,50 @@ function App() {
   const [nodes, setNodes] = useState<Node<TableNodeData>[]>([])
   const [edges, setEdges] = useState<Edge[]>([])
   const [errors, setErrors] = useState<ParseFileError[]>([])
+  const [parseProgress, setParseProgress] = useState<Record<string, ParseProgress>>({})
+  const [explodeNestedArrays, setExplodeNestedArrays] = useState(() => localStorage.getItem('cosmologist_explode_nested') === '1')
+  const [exportFormat, setExportFormat] = useState<'zip' | 'jsonl'>(() => (localStorage.getItem('cosmologist_export_format') === 'jsonl' ? 'jsonl' : 'zip'))
+  const [exportGzip, setExportGzip] = useState(() => localStorage.getItem('cosmologist_export_gzip') === '1')
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null)
+  const [workloadReports, setWorkloadReports] = useState<WorkloadRootReport[] | null>(null)
+  const [softLimitKb, setSoftLimitKb] = useState(() => Number(localStorage.getItem('cosmologist_soft_limit_kb')) || DEFAULT_SOFT_LIMIT_KB)
+  const [partitionAnalysis, setPartitionAnalysis] = useState<PartitionAnalysis | null>(null)
+  const [capacityShapes, setCapacityShapes] = useState<Record<string, DocumentShape> | null>(null)
+  const [prices, setPrices] = useState<PriceTable>(() => {
+    try {
+      return { ...DEFAULT_PRICES, ...JSON.parse(localStorage.getItem('cosmologist_prices') ?? '{}') }
+    } catch {
+      return DEFAULT_PRICES
+    }
+  })
   const [rootTableId, setRootTableId] = useState('')
   const [documentRootIds, setDocumentRootIds] = useState<string[]>([])
   const [leadRowIndex, setLeadRowIndex] = useState(0)
   const [selectedColumns, setSelectedColumns] = useState<Record<string, string[]>>({})
   const [expandedTables, setExpandedTables] = useState<Record<string, boolean>>({})
-  const [tableParsingOptions, setTableParsingOptions] = useState<Record<string, { delimiter?: 'auto' | 'csv' | 'tsv'; skipRows?: number }>>({})
+  const [tableParsingOptions, setTableParsingOptions] = useState<Record<string, TableParsingOptions>>({})
   const [tableRenames, setTableRenames] = useState<Record<string, string>>({})
   const [columnRenames, setColumnRenames] = useState<Record<string, Record<string, string>>>({})
+  const [columnTypeOverrides, setColumnTypeOverrides] = useState<Record<string, Record<string, string>>>({}) // tableId -> column -> dataType
   const [columnSplits, setColumnSplits] = useState<ColumnSplit[]>([])
   const [tablePivots, setTablePivots] = useState<TablePivot[]>([])
+  const [junctionTables, setJunctionTables] = useState<JunctionTable[]>([])
+  const [computedColumns, setComputedColumns] = useState<ComputedColumn[]>([])
+  const [tableUnpivots, setTableUnpivots] = useState<TableUnpivot[]>([])
+  const [objectGroupings, setObjectGroupings] = useState<ObjectGrouping[]>([])
+  const [documentSettings, setDocumentSettings] = useState<DocumentSettings[]>([])
+  const [documentSettingsTableId, setDocumentSettingsTableId] = useState<string | null>(null)
   const [contextMenu, setContextMenu] = useState<
     | { type: 'table'; x: number; y: number; tableId: string }
     | { type: 'column'; x: number; y: number; tableId: string; column: string }
     | { type: 'edge'; x: number; y: number; edgeId: string }
+    | { type: 'suggestion'; x: number; y: number; suggestionId: string }
     | { type: 'pane'; x: number; y: number }
     | null
   >(null)
-  const [edgeTypes, setEdgeTypes] = useState<Record<string, 'one-to-many' | 'one-to-one'>>({})
+  const [edgeTypes, setEdgeTypes] = useState<Record<string, RelationshipType>>({})
+  const [suggestions, setSuggestions] = useState<RelationshipSuggestion[] | null>(null) // null until the engine has run
+  const rejectedSuggestionsRef = useRef<Set<string>>(new Set())
   const [edgeColumnFilters, setEdgeColumnFilters] = useState<Record<string, string[]>>({})
   const [edgeMaxDepth, setEdgeMaxDepth] = useState<Record<string, number>>({})
   const [edgePropertyNames, setEdgePropertyNames] = useState<Record<string, string>>({})
@@ -87,6 +136,8 @@ function App() {
   const [preview, setPreview] = useState('')
   const [previewData, setPreviewData] = useState<any>(null)
   const [previewRu, setPreviewRu] = useState<RuEstimate | null>(null)
+  const [previewUpkeep, setPreviewUpkeep] = useState<AggregateUpkeep[]>([])
+  const [previewPolicyRu, setPreviewPolicyRu] = useState<RuEstimate | null>(null)
   const [previewMode, setPreviewMode] = useState<'tree' | 'raw'>('tree')
   const [previewOpen, setPreviewOpen] = useState(false)
   const [tablePreviewOpen, setTablePreviewOpen] = useState(false)
@@ -105,7 +156,9 @@ function App() {
   const [dragOverlay, setDragOverlay] = useState(false)
   const [sqlSchemaModalOpen, setSqlSchemaModalOpen] = useState(false)
   const [sqlSchemaText, setSqlSchemaText] = useState('')
+  const [sqlSchemaDialect, setSqlSchemaDialect] = useState<SqlSchemaDialect>('sqlserver')
   const [sqlSchemaSource, setSqlSchemaSource] = useState('')
+  const [sqlSchemaSourceDialect, setSqlSchemaSourceDialect] = useState<SqlSchemaDialect>('sqlserver')
   const [createTableOpen, setCreateTableOpen] = useState(false)
   const [createTableName, setCreateTableName] = useState('')
   const [callouts, setCallouts] = useState<Record<string, string>>({})
@@ -116,6 +169,22 @@ function App() {
   const [advisorFeedbackComment, setAdvisorFeedbackComment] = useState('')
   const [advisorFeedbackSubmitting, setAdvisorFeedbackSubmitting] = useState(false)
   const [advisorInputs, setAdvisorInputs] = useState<{ operations: QueryPattern[]; additionalContext: string } | null>(null)
+  const [capacitySettings, setCapacitySettings] = useState<CapacitySettings>(DEFAULT_CAPACITY_SETTINGS)
+  const [ruModelConfig, setRuModelConfig] = useState<RuModelConfig | null>(null)
+  const [calibrationOpen, setCalibrationOpen] = useState(false)
+  const [calibration, setCalibration] = useState<RuCalibration | null>(null)
+  const calibrationInputRef = useRef<HTMLInputElement>(null)
+  // The estimators read module-level models, so swap them before the render
+  // that uses the new config, and drop figures measured with the old ones
+  const applyRuModelConfig = useCallback((config: RuModelConfig | null) => {
+    setRuModels({ ...DEFAULT_RU_MODELS, ...config })
+    setRuModelConfig(config)
+    setWorkloadReports(null)
+    setPartitionAnalysis((prev) => (prev?.analyzer ? { ...prev, analyzer: null } : prev))
+    setPreviewRu(null)
+    setPreviewPolicyRu(null)
+    setPreviewUpkeep([])
+  }, [])
 
   const [advisorConsentOpen, setAdvisorConsentOpen] = useState(false)
 
@@ -124,6 +193,15 @@ function App() {
     if (stored) return stored
     return window.matchMedia?.('(prefers-color-scheme: dark)').matches ? 'dark' : 'light'
   })
+  useEffect(() => {
+    localStorage.setItem('cosmologist_explode_nested', explodeNestedArrays ? '1' : '0')
+  }, [explodeNestedArrays])
+  useEffect(() => {
+    localStorage.setItem('cosmologist_export_format', exportFormat)
+    localStorage.setItem('cosmologist_export_gzip', exportGzip ? '1' : '0')
+    localStorage.setItem('cosmologist_soft_limit_kb', String(softLimitKb))
+    localStorage.setItem('cosmologist_prices', JSON.stringify(prices))
+  }, [exportFormat, exportGzip, softLimitKb, prices])
   useEffect(() => {
     document.documentElement.dataset.theme = theme
     localStorage.setItem('cosmologist_theme', theme)
@@ -141,6 +219,8 @@ function App() {
   const [createTableRows, setCreateTableRows] = useState<Record<string, string>[]>([])
 
   const loadInputRef = useRef<HTMLInputElement>(null)
+  const parseAbortRef = useRef<AbortController | null>(null)
+  const exportAbortRef = useRef<AbortController | null>(null)
   const addInputRef = useRef<HTMLInputElement>(null)
   const dragCounterRef = useRef(0)
   const modelLoadedRef = useRef(false)
@@ -159,7 +239,7 @@ function App() {
     tables: TableData[]
     nodePositions: Record<string, { x: number; y: number }>
     edges: Edge[]
-    edgeTypes: Record<string, 'one-to-many' | 'one-to-one'>
+    edgeTypes: Record<string, RelationshipType>
     edgeColumnFilters: Record<string, string[]>
     edgeMaxDepth: Record<string, number>
     edgePropertyNames: Record<string, string>
@@ -169,8 +249,14 @@ function App() {
     expandedTables: Record<string, boolean>
     tableRenames: Record<string, string>
     columnRenames: Record<string, Record<string, string>>
+    columnTypeOverrides: Record<string, Record<string, string>>
     columnSplits: ColumnSplit[]
     tablePivots: TablePivot[]
+    junctionTables: JunctionTable[]
+    computedColumns: ComputedColumn[]
+    tableUnpivots: TableUnpivot[]
+    objectGroupings: ObjectGrouping[]
+    documentSettings: DocumentSettings[]
     documentRootIds: string[]
     callouts: Record<string, string>
   }
@@ -230,6 +316,9 @@ function App() {
 
   useEffect(() => {
     if (!projectId) return
+    // Suggestions and rejections are per session and per project
+    setSuggestions(null)
+    rejectedSuggestionsRef.current = new Set()
     if (skipHydrateRef.current) {
       skipHydrateRef.current = false
       setHydrated(true)
@@ -241,6 +330,8 @@ function App() {
       rehydrateTables(state as ProjectState).then(async (tables) => {
         const parsedOpts = state.tableParsingOptions ?? {}
         const applied = await applyParsingOptions(tables, state.edges ?? [], parsedOpts, state.selectedColumns ?? {}, state.projectId)
+        const typeOverrides = state.columnTypeOverrides ?? {}
+        applied.tablesOut = applied.tablesOut.map((t) => applyColumnTypeOverrides(t, typeOverrides[t.id]))
         setTables(applied.tablesOut)
         setNodes(
           applied.tablesOut.map((t, idx) => ({
@@ -262,16 +353,25 @@ function App() {
         setTableParsingOptions(parsedOpts)
         setTableRenames(state.tableRenames ?? {})
         setColumnRenames(state.columnRenames ?? {})
+        setColumnTypeOverrides(typeOverrides)
         setColumnSplits((state as any).columnSplits ?? [])
         setTablePivots((state as any).tablePivots ?? [])
+        setJunctionTables(state.junctionTables ?? [])
+        setComputedColumns(state.computedColumns ?? [])
+        setTableUnpivots(state.tableUnpivots ?? [])
+        setObjectGroupings(state.objectGroupings ?? [])
+        setDocumentSettings(state.documentSettings ?? [])
         setDocumentRootIds(state.documentRootIds ?? (applied.tablesOut[0] ? [applied.tablesOut[0].id] : []))
         setSqlSchemaSource(state.sqlSchemaText ?? '')
+        setSqlSchemaSourceDialect(state.sqlSchemaDialect ?? 'sqlserver')
         setCallouts((state as any).callouts ?? {})
         setAdvisorNotes(state.advisorNotes ?? null)
         const storedFeedback = (state as any).advisorNotes?.feedback
         setAdvisorFeedbackRating(storedFeedback?.rating ?? null)
         setAdvisorFeedbackComment(storedFeedback?.comment ?? '')
         setAdvisorInputs((state as any).advisorInputs ?? null)
+        setCapacitySettings(state.capacitySettings ?? DEFAULT_CAPACITY_SETTINGS)
+        applyRuModelConfig(state.ruModels ? reviveRuModels(state.ruModels) : null)
         setHydrated(true)
       })
     } else {
@@ -287,14 +387,22 @@ function App() {
       setSelectedColumns({})
       setExpandedTables({})
       setTableParsingOptions({})
+      setColumnTypeOverrides({})
       setDocumentRootIds([])
       setColumnSplits([])
       setTablePivots([])
+      setJunctionTables([])
+      setComputedColumns([])
+      setTableUnpivots([])
+      setObjectGroupings([])
+      setDocumentSettings([])
       setCallouts({})
       setAdvisorNotes(null)
       setAdvisorFeedbackRating(null)
       setAdvisorFeedbackComment('')
       setAdvisorInputs(null)
+      setCapacitySettings(DEFAULT_CAPACITY_SETTINGS)
+      applyRuModelConfig(null)
       setHydrated(true)
     }
   }, [projectId])
@@ -307,7 +415,7 @@ function App() {
         tables.map((t) => [t.id, { fileName: t.fileName, sourceType: t.sourceType, name: t.name }]),
       )
       tables.forEach((t) => {
-        if (t.sourceType === 'manual') {
+        if (isSnapshotSource(t.sourceType)) {
           setProjectSource(projectId, t.id, JSON.stringify({
             columns: t.columns, rows: t.rows, columnTypes: t.columnTypes,
             primaryKeys: t.primaryKeys, isDocumentRoot: t.isDocumentRoot,
@@ -330,21 +438,30 @@ function App() {
         edgeTypes,
         tableRenames,
         columnRenames,
+        columnTypeOverrides,
         documentRootIds,
         sqlSchemaText: sqlSchemaSource,
+        sqlSchemaDialect: sqlSchemaSourceDialect,
         columnSplits,
         tablePivots,
+        junctionTables,
+        computedColumns,
+        tableUnpivots,
+        objectGroupings,
+        documentSettings,
         edgeColumnFilters,
         edgeMaxDepth,
         edgePropertyNames,
         callouts,
         advisorNotes,
         advisorInputs,
+        capacitySettings,
+        ruModels: ruModelConfig,
       } as any)
       setPersistError(ok ? '' : 'Project too large to save; persistence disabled for this project.')
     }, 500)
     return () => { if (persistTimerRef.current) clearTimeout(persistTimerRef.current) }
-  }, [hydrated, projectId, tables, nodes, edges, rootTableId, leadRowIndex, selectedColumns, expandedTables, tableParsingOptions, edgeTypes, documentRootIds, columnSplits, tablePivots, edgeColumnFilters, edgeMaxDepth, edgePropertyNames, callouts, advisorNotes, advisorInputs])
+  }, [hydrated, projectId, tables, nodes, edges, rootTableId, leadRowIndex, selectedColumns, expandedTables, tableParsingOptions, columnTypeOverrides, edgeTypes, documentRootIds, columnSplits, tablePivots, junctionTables, computedColumns, tableUnpivots, objectGroupings, documentSettings, edgeColumnFilters, edgeMaxDepth, edgePropertyNames, callouts, advisorNotes, advisorInputs, capacitySettings, ruModelConfig])
 
   // Debounced history capture: push a snapshot whenever tracked state changes
   useEffect(() => {
@@ -354,40 +471,89 @@ function App() {
     const snapshot: HistorySnapshot = {
       tables, nodePositions, edges, edgeTypes, edgeColumnFilters, edgeMaxDepth,
       edgePropertyNames, rootTableId, leadRowIndex, selectedColumns, expandedTables,
-      tableRenames, columnRenames, columnSplits, tablePivots, documentRootIds, callouts,
+      tableRenames, columnRenames, columnTypeOverrides, columnSplits, tablePivots, junctionTables, computedColumns, tableUnpivots, objectGroupings, documentSettings, documentRootIds, callouts,
     }
     historyTimerRef.current = setTimeout(() => { history.push(snapshot) }, 300)
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [hydrated, tables, edges, edgeTypes, edgeColumnFilters, edgeMaxDepth, edgePropertyNames,
     rootTableId, leadRowIndex, selectedColumns, expandedTables, tableRenames, columnRenames,
-    columnSplits, tablePivots, documentRootIds, callouts])
+    columnTypeOverrides, columnSplits, tablePivots, junctionTables, computedColumns, tableUnpivots, objectGroupings, documentSettings, documentRootIds, callouts])
+
+  // Append one freshly parsed table (and its node) as soon as a worker delivers it
+  const appendParsedTable = useCallback((table: TableData) => {
+    setTables((prev) => [...prev, table])
+    setSelectedColumns((prev) => ({ ...prev, [table.id]: [...table.columns] }))
+    setExpandedTables((prev) => ({ ...prev, [table.id]: false }))
+    setNodes((prev) => {
+      const offset = prev.length
+      return [...prev, {
+        id: table.id,
+        type: 'tableNode',
+        position: {
+          x: 120 + (offset % 3) * 320,
+          y: 80 + Math.floor(offset / 3) * 260,
+        },
+        data: { table, isRoot: false, onColumnContextMenu, onEditCallout, onRemoveCallout },
+      }]
+    })
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Parse in the worker pool with progress + cancellation; returns null when cancelled
+  const runParse = useCallback(async (files: FileList | File[], usedIds?: Set<string>) => {
+    parseAbortRef.current?.abort()
+    const controller = new AbortController()
+    parseAbortRef.current = controller
+    setParseProgress({})
+    try {
+      const result = await parseFilesInWorkers(files, {
+        usedIds,
+        signal: controller.signal,
+        explodeNestedArrays,
+        onProgress: (p) => setParseProgress((prev) => ({ ...prev, [p.fileName]: p })),
+        onTable: appendParsedTable,
+      })
+      // Wire child tables split out of nested JSON arrays to their parents
+      if (result.edges.length) {
+        setEdges((prev) => [...prev, ...result.edges])
+        const parents = result.tables.filter((t) => t.sourceText && result.edges.some((e) => e.source === t.id))
+        setTableParsingOptions((prev) => ({
+          ...prev,
+          ...Object.fromEntries(parents.map((t) => [t.id, { ...prev[t.id], explodeNestedArrays: true }])),
+        }))
+      }
+      return result
+    } catch (err) {
+      if ((err as Error)?.name === 'AbortError') return null
+      throw err
+    } finally {
+      if (parseAbortRef.current === controller) {
+        parseAbortRef.current = null
+        setParseProgress({})
+      }
+    }
+  }, [appendParsedTable, explodeNestedArrays])
+
+  const cancelParse = useCallback(() => {
+    parseAbortRef.current?.abort()
+  }, [])
 
   const onFiles = useCallback(async (files: FileList | File[]) => {
-    const { tables: parsed, errors } = await parseFiles(files)
-    setErrors(errors)
-    setTables(parsed)
-    setDocumentRootIds(parsed.filter((t) => t.isDocumentRoot).map((t) => t.id) ?? (parsed[0] ? [parsed[0].id] : []))
-    const computedNodes = parsed.map((table, idx) => ({
-      id: table.id,
-      type: 'tableNode',
-      position: {
-        x: 120 + (idx % 3) * 320,
-        y: 80 + Math.floor(idx / 3) * 260,
-      },
-      data: { table, isRoot: idx === 0, onColumnContextMenu, onEditCallout, onRemoveCallout },
-    }))
-    setNodes(computedNodes)
+    setTables([])
+    setNodes([])
     setEdges([])
-    const selection: Record<string, string[]> = {}
-    const expanded: Record<string, boolean> = {}
-    parsed.forEach((t) => { selection[t.id] = [...t.columns]; expanded[t.id] = false })
-    setSelectedColumns(selection)
-    setExpandedTables(expanded)
+    setSelectedColumns({})
+    setExpandedTables({})
+    setErrors([])
+    const result = await runParse(files)
+    const parsed = result?.tables ?? tablesRef.current
+    if (result) setErrors(result.errors)
+    setDocumentRootIds(parsed.filter((t) => t.isDocumentRoot).map((t) => t.id) ?? (parsed[0] ? [parsed[0].id] : []))
     if (parsed[0]) {
       setRootTableId(parsed[0].id)
       setLeadRowIndex(0)
     }
-  }, [])
+  }, [runParse])
 
   const onConnect: OnConnect = useCallback((connection: Edge | Connection) => {
     const id = `${connection.source}-${connection.sourceHandle}__${connection.target}-${connection.targetHandle}`
@@ -399,6 +565,33 @@ function App() {
     setEdgeTypes((prev) => ({ ...prev, [id]: 'one-to-many' }))
   }, [])
 
+  const handleSuggestRelationships = useCallback(() => {
+    const found = suggestRelationships(tablesRef.current, edges)
+    setSuggestions(found.filter((s) => !rejectedSuggestionsRef.current.has(s.id)))
+  }, [edges])
+
+  const acceptSuggestion = useCallback((id: string) => {
+    const s = suggestions?.find((x) => x.id === id)
+    if (!s) return
+    // Accepted suggestions become ordinary edges, keyed like hand-drawn connections
+    const edgeId = `${s.sourceTableId}-${s.sourceColumn}__${s.targetTableId}-${s.targetColumn}`
+    setEdges((eds) => addEdge({
+      id: edgeId,
+      source: s.sourceTableId,
+      sourceHandle: s.sourceColumn,
+      target: s.targetTableId,
+      targetHandle: s.targetColumn,
+      data: { type: s.type },
+    }, eds))
+    setEdgeTypes((prev) => ({ ...prev, [edgeId]: s.type }))
+    setSuggestions((prev) => prev?.filter((x) => x.id !== id) ?? null)
+  }, [suggestions])
+
+  const rejectSuggestion = useCallback((id: string) => {
+    rejectedSuggestionsRef.current.add(id)
+    setSuggestions((prev) => prev?.filter((x) => x.id !== id) ?? null)
+  }, [])
+
   const onNodesChange: OnNodesChange = useCallback((changes) => setNodes((nds) => applyNodeChanges(changes, nds)), [])
   const onEdgesChange: OnEdgesChange = useCallback((changes) => setEdges((eds) => applyEdgeChanges(changes, eds)), [])
 
@@ -415,18 +608,29 @@ function App() {
 
   const tablePreviewTable = useMemo(() => tables.find((t) => t.id === tablePreviewTableId) ?? null, [tables, tablePreviewTableId])
 
+  // Computed columns whose expression does not parse yet (still being typed) are left out of every document
+  const validComputedColumns = useMemo(
+    () => computedColumns.filter((c) => c.name && !expressionError(c.expression)),
+    [computedColumns],
+  )
+
   const tablePreviewHasTransforms = useMemo(() => {
     if (!tablePreviewTableId) return false
-    return columnSplits.some((s) => s.tableId === tablePreviewTableId) || tablePivots.some((p) => p.tableId === tablePreviewTableId)
-  }, [tablePreviewTableId, columnSplits, tablePivots])
+    return columnSplits.some((s) => s.tableId === tablePreviewTableId)
+      || tablePivots.some((p) => p.tableId === tablePreviewTableId)
+      || computedColumns.some((c) => c.tableId === tablePreviewTableId)
+      || objectGroupings.some((g) => g.tableId === tablePreviewTableId)
+  }, [tablePreviewTableId, columnSplits, tablePivots, computedColumns, objectGroupings])
 
   const tablePreviewRows = useMemo(() => {
     if (!tablePreviewTable) return []
     if (!tablePreviewTransformed || !tablePreviewHasTransforms) return tablePreviewTable.rows
-    return tablePreviewTable.rows.map((row) =>
-      applyTransforms(row, tablePreviewTable.id, tablePreviewTable.columns, columnSplits, tablePivots),
+    // Live preview while expressions are typed: transform only the rows shown
+    const computed = validComputedColumns.filter((c) => c.tableId === tablePreviewTable.id)
+    return tablePreviewTable.rows.slice(0, TABLE_PREVIEW_ROWS).map((row) =>
+      applyTransforms(row, tablePreviewTable.id, tablePreviewTable.columns, columnSplits, tablePivots, computed, objectGroupings),
     )
-  }, [tablePreviewTable, tablePreviewTransformed, tablePreviewHasTransforms, columnSplits, tablePivots])
+  }, [tablePreviewTable, tablePreviewTransformed, tablePreviewHasTransforms, columnSplits, tablePivots, validComputedColumns, objectGroupings])
 
   const tablePreviewColumns = useMemo(() => {
     if (!tablePreviewTable) return []
@@ -448,6 +652,9 @@ function App() {
       const next = prev.map((n) => {
         const splitCols = columnSplits.filter((s) => s.tableId === n.id).map((s) => s.column)
         const hasPivot = tablePivots.some((p) => p.tableId === n.id)
+        const isJunction = junctionTables.some((j) => j.tableId === n.id)
+        const isUnpivot = tableUnpivots.some((u) => u.tableId === n.id)
+        const hasGrouping = objectGroupings.some((g) => g.tableId === n.id)
         const callout = callouts[n.id]
         const isRoot = n.id === rootTableId
         const isDocRoot = documentRootIds.includes(n.id)
@@ -456,40 +663,119 @@ function App() {
           n.data.isRoot === isRoot &&
           n.data.isDocRoot === isDocRoot &&
           n.data.hasPivot === hasPivot &&
+          !!n.data.isJunction === isJunction &&
+          !!n.data.isUnpivot === isUnpivot &&
+          !!n.data.hasGrouping === hasGrouping &&
           n.data.callout === callout &&
           splitCols.length === (n.data.splitColumns?.size ?? 0) &&
           splitCols.every((c) => n.data.splitColumns?.has(c))
         ) return n
         changed = true
-        return { ...n, data: { ...n.data, isRoot, isDocRoot, splitColumns: new Set(splitCols), hasPivot, callout } }
+        return { ...n, data: { ...n.data, isRoot, isDocRoot, splitColumns: new Set(splitCols), hasPivot, isJunction, isUnpivot, hasGrouping, callout } }
       })
       return changed ? next : prev
     })
-  }, [rootTableId, documentRootIds, columnSplits, tablePivots, callouts])
+  }, [rootTableId, documentRootIds, columnSplits, tablePivots, junctionTables, tableUnpivots, objectGroupings, callouts])
 
   const relationshipsSummaries = useMemo(() => {
     return edges.map((e) => {
       const src = tables.find((t) => t.id === e.source)
       const dst = tables.find((t) => t.id === e.target)
+      const pairs = edgeColumnPairs(e)
+      const cols = (side: 'sourceColumn' | 'targetColumn', handle?: string | null) =>
+        pairs.length > 1 ? `(${pairs.map((p) => p[side]).join(', ')})` : handle ?? ''
       return {
         id: e.id,
-        label: `${src?.name ?? e.source}.${e.sourceHandle ?? ''} → ${dst?.name ?? e.target}.${e.targetHandle ?? ''}`,
+        label: `${src?.name ?? e.source}.${cols('sourceColumn', e.sourceHandle)} → ${dst?.name ?? e.target}.${cols('targetColumn', e.targetHandle)}`,
       }
     })
   }, [edges, tables])
 
+  // Pending suggestions that still point at tables on the canvas
+  const liveSuggestions = useMemo(() => {
+    if (!suggestions) return []
+    const names = new Map(tables.map((t) => [t.id, t.name]))
+    return suggestions
+      .filter((s) => names.has(s.sourceTableId) && names.has(s.targetTableId))
+      .map((s) => ({ ...s, label: `${names.get(s.sourceTableId)}.${s.sourceColumn} → ${names.get(s.targetTableId)}.${s.targetColumn}` }))
+  }, [suggestions, tables])
+
   const edgesWithCallouts = useMemo(() => {
-    return edges.map((e) => {
+    const real = edges.map((e) => {
       const note = callouts[e.id]
-      if (!note) return e
-      return { ...e, label: '📝' }
+      const extra = edgeAdditionalColumns(e).length
+      // Composite keys show how many column pairs the edge joins on; ≈ marks non-strict matching, 🔗 references
+      const edgeType = edgeTypes[e.id] ?? (e.data as { type?: RelationshipType } | undefined)?.type
+      const isReference = edgeType === 'reference'
+      // Σ marks aggregate properties, shown with their count when there are several
+      const aggregateCount = edgeAggregates(e).length || (edgeType === 'aggregate' ? 1 : 0)
+      // Subsets read as a compact query: ⏷ filter, ↑/↓ order column, top N
+      const { filter, orderBy, limit } = edgeSubset(e)
+      const subset = [filter ? `⏷ ${filter.length > 24 ? `${filter.slice(0, 23)}…` : filter}` : '', orderBy ? `${orderBy.direction === 'desc' ? '↓' : '↑'}${orderBy.column}` : '', limit ? `top ${limit}` : '']
+      const label = [note ? '📝' : '', isReference ? '🔗' : '', extra ? `🔑×${extra + 1}` : '', edgeMatchMode(e) !== 'strict' ? '≈' : '', aggregateCount ? `Σ${aggregateCount > 1 ? `×${aggregateCount}` : ''}` : '', ...subset].filter(Boolean).join(' ')
+      return label ? { ...e, label } : e
     })
-  }, [edges, callouts])
+    // Ghost edges for suggestions; they live only in the rendered list, never in `edges`
+    const ghosts: Edge[] = liveSuggestions.map((s) => ({
+      id: `${SUGGESTION_EDGE_PREFIX}${s.id}`,
+      source: s.sourceTableId,
+      target: s.targetTableId,
+      sourceHandle: s.sourceColumn,
+      targetHandle: s.targetColumn,
+      className: 'edge--suggested',
+      label: `${Math.round(s.confidence * 100)}%?`,
+      animated: true,
+    }))
+    return ghosts.length ? [...real, ...ghosts] : real
+  }, [edges, edgeTypes, callouts, liveSuggestions])
 
   const handleDeleteEdge = useCallback((id: string) => {
     setEdges((eds) => removeEdge(id, eds))
   }, [])
 
+  // Composite keys: column pairs joined in addition to the edge's handle pair
+  const handleSetEdgeAdditionalColumns = useCallback((id: string, additionalColumns: ColumnPair[]) => {
+    setEdges((eds) => eds.map((e) => {
+      if (e.id !== id) return e
+      const data = { ...e.data }
+      if (additionalColumns.length) data.additionalColumns = additionalColumns
+      else delete data.additionalColumns
+      return { ...e, data }
+    }))
+  }, [])
+
+  const handleSetEdgeMatchMode = useCallback((id: string, matchMode: JoinMatchMode) => {
+    setEdges((eds) => eds.map((e) => {
+      if (e.id !== id) return e
+      const data = { ...e.data }
+      if (matchMode !== 'strict') data.matchMode = matchMode
+      else delete data.matchMode
+      return { ...e, data }
+    }))
+  }, [])
+
+  const handleSetEdgeAggregates = useCallback((id: string, aggregates: RelationshipAggregate[]) => {
+    setEdges((eds) => eds.map((e) => {
+      if (e.id !== id) return e
+      const data = { ...e.data }
+      if (aggregates.length) data.aggregates = aggregates
+      else delete data.aggregates
+      return { ...e, data }
+    }))
+  }, [])
+
+  const handleSetEdgeSubset = useCallback((id: string, patch: { filter?: string; orderBy?: RelationshipOrder | null; limit?: number | null }) => {
+    setEdges((eds) => eds.map((e) => {
+      if (e.id !== id) return e
+      const data = { ...e.data, ...patch }
+      // Cleared settings leave nothing behind on the edge
+      if ('filter' in patch && !patch.filter) delete data.filter
+      if ('orderBy' in patch && !patch.orderBy) delete data.orderBy
+      if ('limit' in patch && !patch.limit) delete data.limit
+      return { ...e, data }
+    }))
+  }, [])
+
   const handleProjectCreate = useCallback(() => {
     const name = prompt('Project name?')?.trim()
     if (!name) return
@@ -592,6 +878,7 @@ function App() {
         targetTableId: e.target,
         sourceColumn: e.sourceHandle!,
         targetColumn: e.targetHandle!,
+        matchMode: edgeMatchMode(e),
       }))
 
     // Create a new project for the advisor output
@@ -694,14 +981,23 @@ function App() {
     setDocumentRootIds(advisorTables.map((t) => t.id))
     setColumnSplits([])
     setTablePivots([])
+    setJunctionTables([])
+    setComputedColumns([])
+    setTableUnpivots([])
+    setObjectGroupings([])
+    setDocumentSettings([])
     setCallouts({})
     setAdvisorNotes(response)
     setAdvisorFeedbackRating(null)
     setAdvisorFeedbackComment('')
     setSqlSchemaSource('')
+    setSqlSchemaSourceDialect('sqlserver')
     setTableParsingOptions({})
     setTableRenames({})
     setColumnRenames({})
+    setColumnTypeOverrides({})
+    setCapacitySettings(DEFAULT_CAPACITY_SETTINGS)
+    applyRuModelConfig(null)
 
     setProjects((prev) => [...prev, meta])
     skipHydrateRef.current = true
@@ -753,10 +1049,19 @@ function App() {
 
   const onEdgeContextMenu: EdgeMouseHandler = useCallback((event, edge) => {
     event.preventDefault()
+    if (edge.id.startsWith(SUGGESTION_EDGE_PREFIX)) {
+      setContextMenu({ type: 'suggestion', x: event.clientX, y: event.clientY, suggestionId: edge.id.slice(SUGGESTION_EDGE_PREFIX.length) })
+      return
+    }
     setContextMenu({ type: 'edge', x: event.clientX, y: event.clientY, edgeId: edge.id })
   }, [])
 
   const onEdgeClick: EdgeMouseHandler = useCallback((event, edge) => {
+    if (edge.id.startsWith(SUGGESTION_EDGE_PREFIX)) {
+      event.stopPropagation()
+      setContextMenu({ type: 'suggestion', x: event.clientX, y: event.clientY, suggestionId: edge.id.slice(SUGGESTION_EDGE_PREFIX.length) })
+      return
+    }
     if (!callouts[edge.id]) return
     event.stopPropagation()
     setEdgeCalloutPopover({ edgeId: edge.id, x: event.clientX, y: event.clientY })
@@ -817,8 +1122,14 @@ function App() {
     setExpandedTables(snapshot.expandedTables)
     setTableRenames(snapshot.tableRenames)
     setColumnRenames(snapshot.columnRenames)
+    setColumnTypeOverrides(snapshot.columnTypeOverrides ?? {})
     setColumnSplits(snapshot.columnSplits)
     setTablePivots(snapshot.tablePivots)
+    setJunctionTables(snapshot.junctionTables ?? [])
+    setComputedColumns(snapshot.computedColumns ?? [])
+    setTableUnpivots(snapshot.tableUnpivots ?? [])
+    setObjectGroupings(snapshot.objectGroupings ?? [])
+    setDocumentSettings(snapshot.documentSettings ?? [])
     setDocumentRootIds(snapshot.documentRootIds)
     setCallouts(snapshot.callouts)
     setTimeout(() => { skipHistoryRef.current = false }, 400)
@@ -953,11 +1264,14 @@ function App() {
     setSelectedError(null)
   }, [])
 
-  const applyParsedTablesAndEdges = useCallback(async (tablesIn: TableData[], edgesIn: Edge[], sqlSchema?: string) => {
+  const applyParsedTablesAndEdges = useCallback(async (tablesIn: TableData[], edgesIn: Edge[], sqlSchema?: string, dialect: SqlSchemaDialect = 'sqlserver') => {
     const withDummy = tablesIn.some((t) => t.sourceType === 'sqlschema')
       ? await generateDummyRowsForSchema(tablesIn, edgesIn, 10)
       : tablesIn
-    if (sqlSchema) setSqlSchemaSource(sqlSchema)
+    if (sqlSchema) {
+      setSqlSchemaSource(sqlSchema)
+      setSqlSchemaSourceDialect(dialect)
+    }
     setTables(withDummy)
     setDocumentRootIds((prev) => (prev.length ? prev : (withDummy.filter((t) => t.isDocumentRoot).map((t) => t.id) ?? (withDummy[0] ? [withDummy[0].id] : []))))
     const computedNodes = tablesIn.map((table, idx) => ({
@@ -983,15 +1297,15 @@ function App() {
   }, [onColumnContextMenu])
 
   const handleSqlSchemaParse = useCallback(() => {
-    const { tables: parsedTables, edges: parsedEdges, errors: parseErrors } = parseSqlServerSchema(sqlSchemaText)
+    const { tables: parsedTables, edges: parsedEdges, errors: parseErrors } = parseSqlSchema(sqlSchemaText, sqlSchemaDialect)
     if (parseErrors.length) {
       setErrors(parseErrors)
       return
     }
-    applyParsedTablesAndEdges(parsedTables, parsedEdges, sqlSchemaText)
+    applyParsedTablesAndEdges(parsedTables, parsedEdges, sqlSchemaText, sqlSchemaDialect)
     setSqlSchemaModalOpen(false)
     setSqlSchemaText('')
-  }, [sqlSchemaText, applyParsedTablesAndEdges])
+  }, [sqlSchemaText, sqlSchemaDialect, applyParsedTablesAndEdges])
 
   const handleCreateTable = useCallback(() => {
     const name = createTableName.trim()
@@ -1085,6 +1399,12 @@ function App() {
       ...prev,
       [tableId]: { ...(prev[tableId] ?? {}), [original]: next },
     }))
+    setColumnTypeOverrides((prev) => renameColumnTypeOverride(prev, tableId, current, next))
+    setJunctionTables((prev) => renameJunctionPayloadColumn(prev, tableId, current, next))
+    setComputedColumns((prev) => renameComputedColumnReferences(prev, tableId, current, next))
+    setTableUnpivots((prev) => renameUnpivotColumn(prev, tableId, current, next))
+    setObjectGroupings((prev) => renameObjectGroupingColumn(prev, tableId, current, next))
+    setDocumentSettings((prev) => renameDocumentSettingsColumn(prev, tableId, current, next))
   }, [pushError])
 
   const toggleDocumentRoot = useCallback((tableId: string) => {
@@ -1113,6 +1433,12 @@ function App() {
       ...prev,
       [tableId]: { ...(prev[tableId] ?? {}), [original]: original },
     }))
+    setColumnTypeOverrides((prev) => renameColumnTypeOverride(prev, tableId, current, original))
+    setJunctionTables((prev) => renameJunctionPayloadColumn(prev, tableId, current, original))
+    setComputedColumns((prev) => renameComputedColumnReferences(prev, tableId, current, original))
+    setTableUnpivots((prev) => renameUnpivotColumn(prev, tableId, current, original))
+    setObjectGroupings((prev) => renameObjectGroupingColumn(prev, tableId, current, original))
+    setDocumentSettings((prev) => renameDocumentSettingsColumn(prev, tableId, current, original))
   }, [])
 
   const handleDeleteColumn = useCallback((tableId: string, column: string) => {
@@ -1130,24 +1456,107 @@ function App() {
       if (original) delete renames[original]
       return { ...t, columns, rows, columnRenames: renames }
     }))
-    setEdges((prev) => prev.filter((e) => !((e.source === tableId && e.sourceHandle === column) || (e.target === tableId && e.targetHandle === column))))
+    setEdges((prev) => prev.filter((e) => !edgeUsesColumn(e, tableId, column)))
     setSelectedColumns((prev) => {
       const next = { ...prev }
       if (next[tableId]) next[tableId] = next[tableId].filter((c) => c !== column)
       return next
     })
+    setColumnTypeOverrides((prev) => renameColumnTypeOverride(prev, tableId, column, null))
+    setJunctionTables((prev) => renameJunctionPayloadColumn(prev, tableId, column, null))
+    setTableUnpivots((prev) => renameUnpivotColumn(prev, tableId, column, null))
+    setObjectGroupings((prev) => renameObjectGroupingColumn(prev, tableId, column, null))
+    setDocumentSettings((prev) => renameDocumentSettingsColumn(prev, tableId, column, null))
   }, [])
 
-  const handlePreview = useCallback(() => {
-    if (!rootTableId || !tables.length) return
+  // Pin a column's data type, or pass '' to drop the override and re-infer it
+  const handleSetColumnType = useCallback((tableId: string, column: string, dataType: string) => {
+    const update = (t: TableData) => {
+      if (t.id !== tableId) return t
+      return dataType ? applyColumnTypeOverrides(t, { [column]: dataType }) : clearColumnTypeOverride(t, column)
+    }
+    setTables((prev) => prev.map(update))
+    setNodes((prev) => prev.map((n) => (n.id === tableId ? { ...n, data: { ...n.data, table: update(n.data.table) } } : n)))
+    setColumnTypeOverrides((prev) => {
+      const forTable = { ...(prev[tableId] ?? {}) }
+      if (dataType) forTable[column] = dataType
+      else delete forTable[column]
+      return { ...prev, [tableId]: forTable }
+    })
+  }, [])
+
+  const documentRootTables = useMemo(() => (documentRootIds.length ? documentRootIds : (rootTableId ? [rootTableId] : []))
+    .map((id) => tables.find((t) => t.id === id))
+    .filter((t): t is TableData => !!t), [documentRootIds, rootTableId, tables])
+
+  const relationships = useMemo(
+    () => toRelationshipEdges(edges, edgeTypes, edgeColumnFilters, edgeMaxDepth, edgePropertyNames),
+    [edges, edgeTypes, edgeColumnFilters, edgeMaxDepth, edgePropertyNames],
+  )
+
+  // One plan per export or report, so child-table indexes are built once, not per row
+  const buildPlan = useCallback(() => createJoinPlan(tables, relationships, {
+    columnsFilter: selectedColumns,
+    columnSplits,
+    tablePivots,
+    computedColumns: validComputedColumns,
+    tableUnpivots,
+    objectGroupings,
+    junctions: junctionTables,
+  }), [tables, relationships, selectedColumns, columnSplits, tablePivots, validComputedColumns, tableUnpivots, objectGroupings, junctionTables])
+
+  /**
+   * Build every document of `roots` as exported and hand it to the visitor
+   * `onRoot` returns for its root, showing progress in the export bar.
+   * Cancelling rejects with an AbortError.
+   */
+  const forEachRootDocument = useCallback(async (
+    roots: TableData[],
+    onRoot: (lead: TableData, settings: DocumentSettings | undefined, index: number) => RootDocumentVisitor,
+  ) => {
+    const controller = new AbortController()
+    exportAbortRef.current = controller
+    const total = roots.reduce((n, t) => n + t.rows.length, 0)
+    let done = 0
+    setExportProgress({ done, total })
     try {
-      const doc = buildJoinedDocument(rootTableId, leadRowIndex, tables, toRelationshipEdges(edges, edgeTypes, edgeColumnFilters, edgeMaxDepth, edgePropertyNames), {
-        columnsFilter: selectedColumns,
-        columnSplits,
-        tablePivots,
-      })
+      const plan = buildPlan()
+      for (const [r, lead] of roots.entries()) {
+        const settings = documentSettings.find((d) => d.tableId === lead.id)
+        const visitor = onRoot(lead, settings, r)
+        for (let idx = 0; idx < lead.rows.length; idx++) {
+          if (controller.signal.aborted) throw new DOMException('Cancelled', 'AbortError')
+          const pending = visitor.add(shapeDocument(plan.build(lead.id, idx), lead.name, lead.rows[idx], settings), idx)
+          if (pending) await pending
+          done++
+          // Yield to the event loop every 200 rows to keep the UI responsive
+          if (done % 200 === 0) {
+            setExportProgress({ done, total })
+            await new Promise((res) => setTimeout(res, 0))
+          }
+        }
+        await visitor.finish?.()
+      }
+    } finally {
+      exportAbortRef.current = null
+      setExportProgress(null)
+    }
+  }, [buildPlan, documentSettings])
+
+  const previewDocument = useCallback((tableId: string, rowIndex: number) => {
+    if (!tableId || !tables.length) return
+    try {
+      const built = buildPlan().build(tableId, rowIndex)
+      const lead = tables.find((t) => t.id === tableId)
+      const settings = documentSettings.find((d) => d.tableId === tableId)
+      const doc = lead ? shapeDocument(built, lead.name, lead.rows[rowIndex] ?? {}, settings) : built
+      const ru = estimateRu(doc)
+      // Advisor projects name their tables after the recommended containers
+      const policy = lead && advisorNotes?.containers.find((c) => c.name === lead.name)?.indexingPolicy
       setPreviewData(doc)
-      setPreviewRu(estimateRu(doc))
+      setPreviewRu(ru)
+      setPreviewPolicyRu(policy ? estimateRu(doc, policy) : null)
+      setPreviewUpkeep(estimateAggregateUpkeep(ru, documentAggregates(tableId, tables, relationships)))
       setPreview(JSON.stringify(doc, null, 2))
       setPreviewMode('tree')
       setPreviewOpen(true)
@@ -1155,40 +1564,263 @@ function App() {
       setPreview(`Error: ${e?.message ?? e}`)
       setPreviewData(null)
       setPreviewRu(null)
+      setPreviewUpkeep([])
+      setPreviewPolicyRu(null)
       setPreviewMode('raw')
     }
-  }, [rootTableId, leadRowIndex, tables, edges, edgeTypes, selectedColumns, columnSplits, tablePivots, edgeColumnFilters, edgeMaxDepth, edgePropertyNames])
+  }, [tables, relationships, buildPlan, documentSettings, advisorNotes])
+
+  const handlePreview = useCallback(() => previewDocument(rootTableId, leadRowIndex), [previewDocument, rootTableId, leadRowIndex])
+
+  /** Open one document of the workload report in the preview. */
+  const jumpToDocument = useCallback((tableId: string, rowIndex: number) => {
+    setRootTableId(tableId)
+    setLeadRowIndex(rowIndex)
+    setWorkloadReports(null)
+    previewDocument(tableId, rowIndex)
+  }, [previewDocument])
+
+  const updateDocumentSettings = useCallback((tableId: string, patch: Partial<DocumentSettings>) => {
+    setDocumentSettings((prev) => {
+      const current = prev.find((d) => d.tableId === tableId) ?? { tableId }
+      const next = { ...current, ...patch }
+      const rest = prev.filter((d) => d.tableId !== tableId)
+      // Settings that change nothing are dropped so exports stay as before
+      const empty = !next.idSource && !next.partitionKey?.length && !next.unwrap && !next.typeValue
+      return empty ? rest : [...rest, next]
+    })
+  }, [])
+
+  /** Report roots whose document settings cannot work; true when every root is ready to export. */
+  const checkDocumentSettings = useCallback((rootIds: string[]) => {
+    let ok = true
+    for (const settings of documentSettings.filter((d) => rootIds.includes(d.tableId))) {
+      const table = tables.find((t) => t.id === settings.tableId)
+      const error = table && documentSettingsError(settings, table.columns)
+      if (error) {
+        pushError(`${table.name} document settings: ${error}`)
+        ok = false
+      }
+    }
+    return ok
+  }, [documentSettings, tables, pushError])
 
   const handleDownload = useCallback(async () => {
     if (!tables.length) return
     const roots = documentRootIds.length ? documentRootIds : (rootTableId ? [rootTableId] : [])
     if (!roots.length) return
-    const relationships = toRelationshipEdges(edges, edgeTypes, edgeColumnFilters, edgeMaxDepth, edgePropertyNames)
-    const zip = new JSZip()
-    for (const rid of roots) {
-      const lead = tables.find((t) => t.id === rid)
-      if (!lead) continue
-      const folder = zip.folder(lead.name) ?? zip
-      for (let idx = 0; idx < lead.rows.length; idx++) {
-        const doc = buildJoinedDocument(lead.id, idx, tables, relationships, {
-          columnsFilter: selectedColumns,
-          columnSplits,
-          tablePivots,
-        })
-        folder.file(`${lead.name}_${idx}.json`, JSON.stringify(doc, null, 2))
-        // Yield to the event loop every 50 rows to avoid freezing the UI
-        if (idx % 50 === 49) await new Promise((r) => setTimeout(r, 0))
+    if (!checkDocumentSettings(roots)) return
+    try {
+      const plan = buildPlan()
+      const zip = new JSZip()
+      for (const rid of roots) {
+        const lead = tables.find((t) => t.id === rid)
+        if (!lead) continue
+        const folder = zip.folder(lead.name) ?? zip
+        const settings = documentSettings.find((d) => d.tableId === lead.id)
+        const validator = settings && createDocumentValidator(settings)
+        for (let idx = 0; idx < lead.rows.length; idx++) {
+          const doc = shapeDocument(plan.build(lead.id, idx), lead.name, lead.rows[idx], settings)
+          validator?.check(doc, idx)
+          folder.file(`${lead.name}_${idx}.json`, JSON.stringify(doc, null, 2))
+          // Yield to the event loop every 50 rows to avoid freezing the UI
+          if (idx % 50 === 49) await new Promise((r) => setTimeout(r, 0))
+        }
+        if (validator?.count) {
+          const { message, detail } = describeDocumentIssues(lead.name, validator.issues, validator.count)
+          pushError(message, detail)
+        }
+      }
+      const blob = await zip.generateAsync({ type: 'blob' })
+      const name = roots.length === 1 ? (tables.find((t) => t.id === roots[0])?.name ?? 'documents') : 'documents'
+      saveAs(blob, `${name}_export.zip`)
+    } catch (err) {
+      // An invalid relationship filter or computed column surfaces from plan.build
+      pushError(`Export failed: ${(err as Error).message}`)
+    }
+  }, [rootTableId, documentRootIds, tables, documentSettings, buildPlan, checkDocumentSettings, pushError])
+
+  const handleExportJsonl = useCallback(async () => {
+    if (!tables.length || exportAbortRef.current) return
+    const roots = documentRootTables
+    if (!roots.length) return
+    if (!checkDocumentSettings(roots.map((t) => t.id))) return
+    // Open the output files first: the pickers need the click's user activation
+    let files: ExportFile[] | null
+    try {
+      files = await openExportFiles(roots.map((t) => jsonlFileName(t.name, exportGzip)), exportGzip)
+    } catch (err) {
+      pushError(`Export failed: ${(err as Error).message}`)
+      return
+    }
+    if (!files) return
+    const sinks = files.map((f) => f.sink)
+    let closed = 0
+    try {
+      await forEachRootDocument(roots, (lead, settings, r) => {
+        const writer = createJsonlWriter(sinks[r])
+        const validator = settings && createDocumentValidator(settings)
+        return {
+          add: (doc, idx) => {
+            validator?.check(doc, idx)
+            return writer.write(doc)
+          },
+          finish: async () => {
+            await writer.close()
+            closed++
+            if (validator?.count) {
+              const { message, detail } = describeDocumentIssues(lead.name, validator.issues, validator.count)
+              pushError(message, detail)
+            }
+          },
+        }
+      })
+    } catch (err) {
+      await Promise.all(sinks.slice(closed).map((sink) => sink.abort().catch(() => undefined)))
+      if ((err as Error).name !== 'AbortError') pushError(`Export failed: ${(err as Error).message}`)
+    }
+  }, [tables, documentRootTables, exportGzip, checkDocumentSettings, forEachRootDocument, pushError])
+
+  const cancelExport = useCallback(() => {
+    exportAbortRef.current?.abort()
+  }, [])
+
+  // Builds every document of every root like an export, but only measures them
+  const handleWorkloadReport = useCallback(async () => {
+    if (!tables.length || exportAbortRef.current) return
+    if (!documentRootTables.length) return
+    const reports: WorkloadRootReport[] = []
+    try {
+      await forEachRootDocument(documentRootTables, (lead) => {
+        const accumulator = createWorkloadAccumulator()
+        return {
+          add: (doc) => { accumulator.add(doc) },
+          finish: () => {
+            reports.push({ tableId: lead.id, tableName: lead.name, report: accumulator.report(), sizes: accumulator.sizes })
+          },
+        }
+      })
+      setWorkloadReports(reports)
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') pushError(`Workload report failed: ${(err as Error).message}`)
+    }
+  }, [tables, documentRootTables, forEachRootDocument, pushError])
+
+  // Prices each root from a sample of its documents; a workload report, when
+  // there is one, gives the average size over every document instead
+  const openCapacityPlanner = useCallback(() => {
+    if (!documentRootTables.length) return
+    try {
+      const plan = buildPlan()
+      const shapes: Record<string, DocumentShape> = {}
+      for (const lead of documentRootTables) {
+        const settings = documentSettings.find((d) => d.tableId === lead.id)
+        const sample = Math.min(lead.rows.length, CAPACITY_SAMPLE_ROWS)
+        let sizeBytes = 0
+        let numProperties = 0
+        for (let idx = 0; idx < sample; idx++) {
+          const ru = estimateRu(shapeDocument(plan.build(lead.id, idx), lead.name, lead.rows[idx], settings))
+          sizeBytes += ru.sizeBytes
+          numProperties += ru.numProperties
+        }
+        const measured = workloadReports?.find((r) => r.tableId === lead.id)?.report.sizeBytes.avg
+        shapes[lead.id] = {
+          sizeBytes: measured ?? (sample ? sizeBytes / sample : 0),
+          numProperties: sample ? numProperties / sample : 0,
+          documents: lead.rows.length,
+        }
+      }
+      setCapacityShapes(shapes)
+    } catch (err) {
+      pushError(`Capacity planner failed: ${(err as Error).message}`)
+    }
+  }, [documentRootTables, documentSettings, buildPlan, workloadReports, pushError])
+
+  // The planner edits the advisor's query patterns in place, so both stay in step
+  const updateCapacityPatterns = useCallback((update: (operations: QueryPattern[]) => QueryPattern[]) => {
+    setAdvisorInputs((prev) => ({ operations: update(prev?.operations ?? []), additionalContext: prev?.additionalContext ?? '' }))
+  }, [])
+
+  // Patterns without a chosen root go to the root their filters name, else the first root
+  // ruModelConfig is a dependency because planCapacity prices operations with the active RU models
+  const capacityPlan = useMemo(() => {
+    if (!capacityShapes) return null
+    const rootIds = Object.keys(capacityShapes)
+    const operations = advisorInputs?.operations ?? []
+    const roots = operations.map((pattern) => {
+      if (pattern.documentRootId && capacityShapes[pattern.documentRootId]) return pattern.documentRootId
+      const name = patternTableName(pattern)?.toLowerCase()
+      return rootIds.find((id) => name && tables.find((t) => t.id === id)?.name.toLowerCase() === name) ?? rootIds[0]
+    })
+    const measuredGb = shapesStorageGb(Object.values(capacityShapes))
+    const plan = planCapacity({
+      operations: operations.map((pattern, i) => ({ pattern, shape: capacityShapes[roots[i]] })),
+      storageGb: capacitySettings.storageGb ?? measuredGb,
+      regions: capacitySettings.regions,
+      peakShare: capacitySettings.peakShare,
+      prices,
+    })
+    return { plan, roots, measuredGb }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [capacityShapes, advisorInputs, capacitySettings, prices, tables, ruModelConfig])
+
+  // Starts from the root's configured partition key, else its primary key
+  // under the `{ [tableName]: ... }` wrapper documents keep unless unwrapped
+  const openPartitionAnalyzer = useCallback((rootId: string) => {
+    const table = tables.find((t) => t.id === rootId)
+    const settings = documentSettings.find((d) => d.tableId === rootId)
+    const configured = settings?.partitionKey?.map((l) => l.path).join(', ')
+    const primaryKey = table?.primaryKeys?.[0] ? `${settings?.unwrap ? '' : `/${table.name}`}/${table.primaryKeys[0]}` : ''
+    setPartitionAnalysis({ rootId, candidates: [configured || primaryKey], analyzer: null })
+  }, [tables, documentSettings])
+
+  // Builds every document of the root like an export and files it under each candidate key
+  const handleAnalyzePartitions = useCallback(async () => {
+    if (!partitionAnalysis || exportAbortRef.current) return
+    const lead = tables.find((t) => t.id === partitionAnalysis.rootId)
+    if (!lead) return
+    const candidates = partitionAnalysis.candidates.map(parsePartitionKeyPaths)
+    for (const [i, paths] of candidates.entries()) {
+      const error = partitionKeyPathsError(paths)
+      if (error) {
+        pushError(`Candidate key ${i + 1}: ${error}`)
+        return
+      }
+    }
+    const analyzer = createPartitionKeyAnalyzer(candidates)
+    try {
+      await forEachRootDocument([lead], () => ({ add: (doc) => analyzer.add(doc) }))
+      setPartitionAnalysis((prev) => (prev && prev.rootId === lead.id ? { ...prev, analyzer } : prev))
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') pushError(`Partition key analysis failed: ${(err as Error).message}`)
+    }
+  }, [partitionAnalysis, tables, forEachRootDocument, pushError])
+
+  const partitionReports = useMemo(
+    () => partitionAnalysis?.analyzer?.report(partitionAnalysis.projectedDocuments) ?? null,
+    [partitionAnalysis],
+  )
+
+  const handleCalibrationFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    try {
+      const { samples, skipped } = parseRuSamplesCsv(await file.text())
+      if (!samples.length) {
+        pushError('No RU samples found; expected columns operation, size_kb (or size_bytes), num_properties and ru', undefined, file.name)
+        return
       }
+      setCalibration(calibrateRuModels(samples, { ...DEFAULT_RU_MODELS, ...ruModelConfig }, skipped))
+    } catch (err) {
+      pushError(`Calibration failed: ${(err as Error).message}`, undefined, file.name)
     }
-    const blob = await zip.generateAsync({ type: 'blob' })
-    const name = roots.length === 1 ? (tables.find((t) => t.id === roots[0])?.name ?? 'documents') : 'documents'
-    saveAs(blob, `${name}_export.zip`)
-  }, [rootTableId, documentRootIds, tables, edges, edgeTypes, selectedColumns, columnSplits, tablePivots, edgeColumnFilters, edgeMaxDepth, edgePropertyNames])
+  }, [ruModelConfig, pushError])
 
   const applyParsingOptions = useCallback(async (
     tablesInput: TableData[],
     edgesInput: Edge[],
-    opts: Record<string, { delimiter?: 'auto' | 'csv' | 'tsv'; skipRows?: number }>,
+    opts: Record<string, TableParsingOptions>,
     selectedCols: Record<string, string[]>,
     pid?: string,
   ) => {
@@ -1201,19 +1833,16 @@ function App() {
       if (!opt) continue
       const sourceText = t.sourceText ?? (pid ? await getProjectSource(pid, t.id) : undefined)
       if (!sourceText) continue
-      const delimiter = opt.delimiter === 'csv' ? ',' : opt.delimiter === 'tsv' ? '\t' : detectDelimiter(sourceText)
-      const rows = await parseDelimitedText(sourceText, delimiter, opt.skipRows ?? 0)
+      const rows = await reparseSource(sourceText, t.sourceType, opt)
       const columns = Array.from(new Set(rows.flatMap((r) => Object.keys(r))))
       let tableNew: TableData = { ...t, sourceText, rows, columns }
       if (t.columnRenames) {
         tableNew = applyColumnRenames(tableNew, t.columnRenames)
       }
+      tableNew = inferColumnTypes(tableNew)
       tablesOut = tablesOut.map((tt) => (tt.id === t.id ? tableNew : tt))
-      edgesOut = edgesOut.filter((e) => {
-        if (e.source === t.id && e.sourceHandle && !columns.includes(e.sourceHandle)) return false
-        if (e.target === t.id && e.targetHandle && !columns.includes(e.targetHandle)) return false
-        return true
-      })
+      edgesOut = edgesOut.filter((e) => edgeColumnPairs(e).every((p) =>
+        (e.source !== t.id || columns.includes(p.sourceColumn)) && (e.target !== t.id || columns.includes(p.targetColumn))))
       const current = new Set(selectedOut[t.id] ?? columns)
       const filtered = Array.from(current).filter((c) => columns.includes(c))
       selectedOut[t.id] = filtered.length ? filtered : columns
@@ -1222,24 +1851,19 @@ function App() {
     return { tablesOut, edgesOut, selectedOut }
   }, [])
 
-  const reparseTable = useCallback(async (tableId: string, opts: { delimiter?: 'auto' | 'csv' | 'tsv'; skipRows?: number }) => {
+  const reparseTable = useCallback(async (tableId: string, opts: TableParsingOptions) => {
     const table = tablesRef.current.find((t) => t.id === tableId)
     if (!table) return
     const sourceText = table.sourceText ?? (projectId ? await getProjectSource(projectId, tableId) : undefined)
     if (!sourceText) return
-    const delimiter = opts.delimiter === 'csv' ? ',' : opts.delimiter === 'tsv' ? '\t' : detectDelimiter(sourceText)
-    const skipRows = opts.skipRows ?? 0
-    const rows = await parseDelimitedText(sourceText, delimiter, skipRows)
+    const rows = await reparseSource(sourceText, table.sourceType, opts)
     const columns = Array.from(new Set(rows.flatMap((r) => Object.keys(r))))
     const withSource = { ...table, sourceText }
-    const recomputed = table.columnRenames ? applyColumnRenames({ ...withSource, rows, columns }, table.columnRenames) : { ...withSource, rows, columns }
+    const recomputed = inferColumnTypes(table.columnRenames ? applyColumnRenames({ ...withSource, rows, columns }, table.columnRenames) : { ...withSource, rows, columns })
     setTables((prev) => prev.map((t) => (t.id === tableId ? recomputed : t)))
     setNodes((prev) => prev.map((n) => (n.id === tableId ? { ...n, data: { ...n.data, table: recomputed } } : n)))
-    setEdges((prev) => prev.filter((e) => {
-      if (e.source === tableId && e.sourceHandle && !columns.includes(e.sourceHandle)) return false
-      if (e.target === tableId && e.targetHandle && !columns.includes(e.targetHandle)) return false
-      return true
-    }))
+    setEdges((prev) => prev.filter((e) => edgeColumnPairs(e).every((p) =>
+      (e.source !== tableId || columns.includes(p.sourceColumn)) && (e.target !== tableId || columns.includes(p.targetColumn)))))
     setSelectedColumns((prev) => {
       const next = { ...prev }
       const current = new Set(prev[tableId] ?? columns)
@@ -1252,37 +1876,31 @@ function App() {
 
   const onAddFiles = useCallback(async (files: FileList | File[]) => {
     const usedIds = new Set<string>(tablesRef.current.map((t) => t.id))
-    const { tables: parsed, errors: newErrors } = await parseFiles(files, { usedIds })
-    setErrors((prev) => prev.concat(newErrors))
-    setTables((prev) => [...prev, ...parsed])
-    setSelectedColumns((prev) => {
-      const next = { ...prev }
-      parsed.forEach((t) => { next[t.id] = [...t.columns] })
-      return next
-    })
-    setExpandedTables((prev) => {
-      const next = { ...prev }
-      parsed.forEach((t) => { next[t.id] = false })
-      return next
-    })
-    setNodes((prev) => {
-      const offset = prev.length
-      const extraNodes = parsed.map((table, idx) => ({
-        id: table.id,
-        type: 'tableNode',
-        position: {
-          x: 120 + ((offset + idx) % 3) * 320,
-          y: 80 + Math.floor((offset + idx) / 3) * 260,
-        },
-        data: { table, isRoot: false, onColumnContextMenu, onEditCallout, onRemoveCallout },
-      }))
-      return [...prev, ...extraNodes]
-    })
-  }, [])
+    const result = await runParse(files, usedIds)
+    if (result) setErrors((prev) => prev.concat(result.errors))
+  }, [runParse])
+
+  // `.sql` files are DDL scripts and load like the schema modal, replacing the canvas
+  const loadSqlScripts = useCallback(async (files: File[]) => {
+    const scripts = files.filter((f) => /\.sql$/i.test(f.name))
+    const others = files.filter((f) => !scripts.includes(f))
+    const text = (await Promise.all(scripts.map((f) => f.text()))).join('\n;\n')
+    const { tables: parsedTables, edges: parsedEdges, errors: parseErrors } = parseSqlSchema(text, 'ddl')
+    const fileName = scripts.map((f) => f.name).join(', ')
+    setErrors(parseErrors.map((e) => ({ ...e, fileName })))
+    if (others.length) pushError(`Skipped ${others.length} data file(s)`, 'A SQL schema replaces the canvas; load data files separately.', others.map((f) => f.name).join(', '))
+    if (!parseErrors.length) await applyParsedTablesAndEdges(parsedTables, parsedEdges, text, 'ddl')
+  }, [applyParsedTablesAndEdges, pushError])
+
+  const routeFiles = useCallback((files: FileList | File[], load: (files: FileList | File[]) => unknown) => {
+    const list = Array.from(files)
+    if (list.some((f) => /\.sql$/i.test(f.name))) loadSqlScripts(list)
+    else load(files)
+  }, [loadSqlScripts])
 
   const handleGlobalDrop = useCallback((files: FileList | File[]) => {
-    onAddFiles(files)
-  }, [onAddFiles])
+    routeFiles(files, onAddFiles)
+  }, [routeFiles, onAddFiles])
 
   useEffect(() => {
     const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types ?? []).includes('Files')
@@ -1323,12 +1941,12 @@ function App() {
   }, [handleGlobalDrop])
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.length) onFiles(e.target.files)
-  }, [onFiles])
+    if (e.target.files?.length) routeFiles(e.target.files, onFiles)
+  }, [routeFiles, onFiles])
 
   const handleAddFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.length) onAddFiles(e.target.files)
-  }, [onAddFiles])
+    if (e.target.files?.length) routeFiles(e.target.files, onAddFiles)
+  }, [routeFiles, onAddFiles])
 
   const triggerLoadFiles = useCallback(() => {
     loadInputRef.current?.click()
@@ -1342,6 +1960,11 @@ function App() {
 
   const handleDeleteTable = useCallback((id: string) => {
     setDocumentRootIds((prev) => prev.filter((i) => i !== id))
+    setJunctionTables((prev) => prev.filter((j) => j.tableId !== id))
+    setComputedColumns((prev) => prev.filter((c) => c.tableId !== id))
+    setTableUnpivots((prev) => prev.filter((u) => u.tableId !== id))
+    setObjectGroupings((prev) => prev.filter((g) => g.tableId !== id))
+    setDocumentSettings((prev) => prev.filter((d) => d.tableId !== id))
     setTables((prevTables) => {
       const { tables: nt, nodes: nn, edges: ne, rootTableId: newRoot } = removeTable(id, prevTables, nodesRef.current, edgesRef.current)
       setNodes(nn)
@@ -1430,8 +2053,13 @@ function App() {
               <div className="menu-dropdown" role="menu">
                 <button onClick={triggerLoadFiles}>Load dataset(s)</button>
                 <button onClick={triggerAddFiles}>Add file(s)</button>
-                <button onClick={() => { setSqlSchemaModalOpen(true); closeMenus() }}>Load SQL Server Schema</button>
+                <button onClick={() => { setSqlSchemaModalOpen(true); closeMenus() }}>Load SQL Schema</button>
                 <button onClick={() => { setCreateTableOpen(true); closeMenus() }}>Create Table</button>
+                <hr className="menu-separator" />
+                <label className="menu-option" title="Normalize arrays of objects in JSON/JSONL files into child tables with generated keys and relationships">
+                  <input type="checkbox" checked={explodeNestedArrays} onChange={(e) => setExplodeNestedArrays(e.target.checked)} />
+                  Split nested JSON arrays into tables
+                </label>
               </div>
             )}
           </div>
@@ -1457,6 +2085,7 @@ function App() {
                   }
                   closeMenus()
                 }} disabled={!tables.length}>Data Model Advisor</button>
+                <button onClick={() => { setCalibrationOpen(true); closeMenus() }}>Calibrate RU Models</button>
               </div>
             )}
           </div>
@@ -1479,13 +2108,34 @@ function App() {
         </div>
       </header>
 
-      <input ref={loadInputRef} type="file" multiple webkitdirectory="true" directory="true" accept=".csv,.tsv,.txt,.json,.jsonl,.zip,.gz,.tgz,.tar,.tar.gz" style={{ display: 'none' }} onChange={handleFileInput} />
-      <input ref={addInputRef} type="file" multiple accept=".csv,.tsv,.txt,.json,.jsonl,.zip,.gz,.tgz,.tar,.tar.gz" style={{ display: 'none' }} onChange={handleAddFileInput} />
+      <input ref={loadInputRef} type="file" multiple webkitdirectory="true" directory="true" accept=".csv,.tsv,.txt,.json,.jsonl,.xlsx,.parquet,.avro,.sql,.zip,.gz,.tgz,.tar,.tar.gz" style={{ display: 'none' }} onChange={handleFileInput} />
+      <input ref={addInputRef} type="file" multiple accept=".csv,.tsv,.txt,.json,.jsonl,.xlsx,.parquet,.avro,.sql,.zip,.gz,.tgz,.tar,.tar.gz" style={{ display: 'none' }} onChange={handleAddFileInput} />
       <input ref={importInputRef} type="file" accept=".json" style={{ display: 'none' }} onChange={handleImportFile} />
+      <input ref={calibrationInputRef} type="file" accept=".csv,.txt" style={{ display: 'none' }} onChange={handleCalibrationFile} />
 
       <div className="app-body">
         <aside className="sidebar">
         {persistError && <div className="persist-error">{persistError}</div>}
+        {Object.keys(parseProgress).length > 0 && (
+          <div className="parse-progress">
+            <div className="parse-progress__header">
+              <span>Parsing files…</span>
+              <button className="parse-progress__cancel" onClick={cancelParse}>Cancel</button>
+            </div>
+            <ul className="parse-progress__list">
+              {Object.values(parseProgress).map((p) => {
+                const pct = p.phase === 'done' ? 100 : p.total ? Math.round(((p.loaded ?? 0) / p.total) * 100) : undefined
+                return (
+                  <li key={p.fileName} className={['parse-progress__item', `parse-progress__item--${p.phase}`].join(' ')}>
+                    <span className="parse-progress__name" title={p.fileName}>{p.fileName}</span>
+                    <span className="parse-progress__phase">{p.phase}{pct !== undefined && p.phase === 'reading' ? ` ${pct}%` : ''}</span>
+                    <progress max={100} value={pct} />
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+        )}
         {errors.length > 0 && (
           <div className="error-panel">
             <div className="error-panel__header">
@@ -1525,6 +2175,9 @@ function App() {
                       <button className={['table-item__docroot', documentRootIds.includes(t.id) ? 'active' : ''].join(' ')} onClick={() => toggleDocumentRoot(t.id)} aria-label={`Toggle document root for ${t.name}`}>
                         📄
                       </button>
+                      {documentRootIds.includes(t.id) && (
+                        <button className={['table-item__settings', documentSettings.some((d) => d.tableId === t.id) ? 'active' : ''].join(' ')} onClick={() => setDocumentSettingsTableId(t.id)} aria-label={`Document settings for ${t.name}`}>⚙</button>
+                      )}
                       <button className="table-item__rename" onClick={() => handleRenameTable(t.id)} aria-label={`Rename ${t.name}`}>✎</button>
                       {t.originalName && t.originalName !== t.name && (
                         <button className="table-item__reset" onClick={() => handleResetTableName(t.id)} aria-label={`Reset ${t.name}`}>
@@ -1592,6 +2245,21 @@ function App() {
               </li>
             ))}
           </ul>
+          <button className="relationships-section__suggest" onClick={handleSuggestRelationships} disabled={tables.length === 0}>
+            Suggest relationships
+          </button>
+          {suggestions && (
+            <ul className="relationship-list relationship-list--suggested">
+              {liveSuggestions.length === 0 && <li className="relationship-item empty">No suggestions</li>}
+              {liveSuggestions.map((sg) => (
+                <li key={sg.id} className="relationship-item relationship-item--suggested" title={`${Math.round(sg.inclusion * 100)}% of values match${sg.nameScore ? ', names match' : ''} · ${sg.type}`}>
+                  <span>{sg.label} <em>{Math.round(sg.confidence * 100)}%</em></span>
+                  <button className="relationship-item__accept" onClick={() => acceptSuggestion(sg.id)} aria-label={`Accept ${sg.label}`}>✓</button>
+                  <button className="relationship-item__delete" onClick={() => rejectSuggestion(sg.id)} aria-label={`Reject ${sg.label}`}>×</button>
+                </li>
+              ))}
+            </ul>
+          )}
         </section>
 
         <section className="advisor-launch">
@@ -1630,9 +2298,36 @@ function App() {
           <button onClick={handlePreview} disabled={!tables.length}>
             Generate Preview
           </button>
-          <button onClick={handleDownload} disabled={!tables.length}>
-            Download ZIP
+          <button onClick={handleWorkloadReport} disabled={!tables.length || !!exportProgress} title="Size and RU estimates over every document of every document root">
+            Workload Report
           </button>
+          <button onClick={openCapacityPlanner} disabled={!tables.length} title="Throughput and monthly cost for the advisor's query patterns">
+            Capacity Planner
+          </button>
+          <button onClick={() => openPartitionAnalyzer(documentRootTables.some((t) => t.id === rootTableId) ? rootTableId : documentRootTables[0]?.id)} disabled={!documentRootTables.length} title="Logical partition sizes, RU and skew for candidate partition keys">
+            Partition Keys
+          </button>
+          <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as 'zip' | 'jsonl')} aria-label="Export format">
+            <option value="zip">ZIP — one JSON file per row</option>
+            <option value="jsonl">JSONL — one file per root (streamed)</option>
+          </select>
+          {exportFormat === 'jsonl' && (
+            <label className="controls__option" title={supportsFileSystemAccess() ? 'Documents are written to disk as they are built' : 'This browser cannot write to disk directly; files download when complete'}>
+              <input type="checkbox" checked={exportGzip} onChange={(e) => setExportGzip(e.target.checked)} />
+              Gzip (.jsonl.gz)
+            </label>
+          )}
+          {exportProgress ? (
+            <div className="export-progress">
+              <progress max={exportProgress.total} value={exportProgress.done} />
+              <span>{exportProgress.done.toLocaleString()} / {exportProgress.total.toLocaleString()}</span>
+              <button onClick={cancelExport}>Cancel</button>
+            </div>
+          ) : (
+            <button onClick={exportFormat === 'jsonl' ? handleExportJsonl : handleDownload} disabled={!tables.length}>
+              {exportFormat === 'jsonl' ? 'Export JSONL' : 'Download ZIP'}
+            </button>
+          )}
           <div className="stats">
             <div>Tables: {tables.length}</div>
             <div>Relationships: {edges.length}</div>
@@ -1777,7 +2472,19 @@ function App() {
                     <div>Size: {previewRu.sizeKB.toFixed(2)} KB</div>
                     <div>Read RU (point): {previewRu.readPointRU.toFixed(2)}</div>
                     <div>Read RU (query): {previewRu.readQueryRU.toFixed(2)}</div>
-                    <div>Write RU: {previewRu.writeRU.toFixed(2)}</div>
+                    <div title={`${previewRu.index.terms} indexed values over ${previewRu.index.leafPaths} paths (${previewRu.index.arrayElements} array elements), nested ${previewRu.index.maxDepth} deep`}>
+                      Write RU{previewPolicyRu ? ' (index everything)' : ''}: {previewRu.writeRU.toFixed(2)}
+                    </div>
+                    {previewPolicyRu && (
+                      <div title={`${previewPolicyRu.index.indexedTerms} of ${previewPolicyRu.index.terms} values indexed, plus ${previewPolicyRu.index.compositeTerms} composite index entries`}>
+                        Write RU (advisor policy): {previewPolicyRu.writeRU.toFixed(2)}
+                      </div>
+                    )}
+                    {previewUpkeep.map((u) => (
+                      <div key={u.tableName} title={`Keeping ${u.properties.join(', ')} current rewrites this document on every ${u.tableName} write`}>
+                        Σ {u.tableName} write: +{u.writeRU.toFixed(2)} RU
+                      </div>
+                    ))}
                   </div>
                 )}
                 {previewMode === 'tree' && previewData ? (
@@ -1812,9 +2519,44 @@ function App() {
                     <span className="table-preview__transform-badge">
                       {columnSplits.filter((s) => s.tableId === tablePreviewTable.id).length > 0 && <span>✂ {columnSplits.filter((s) => s.tableId === tablePreviewTable.id).length} split(s)</span>}
                       {tablePivots.filter((p) => p.tableId === tablePreviewTable.id).length > 0 && <span>⟳ {tablePivots.filter((p) => p.tableId === tablePreviewTable.id).length} pivot(s)</span>}
+                      {computedColumns.filter((c) => c.tableId === tablePreviewTable.id).length > 0 && <span>ƒx {computedColumns.filter((c) => c.tableId === tablePreviewTable.id).length} computed</span>}
                     </span>
                   )}
                 </div>
+                <details className="table-preview__computed" open={computedColumns.some((c) => c.tableId === tablePreviewTable.id)}>
+                  <summary>Computed columns</summary>
+                  <ul>
+                    {computedColumns.map((c, idx) => {
+                      if (c.tableId !== tablePreviewTable.id) return null
+                      const error = c.expression.trim() ? expressionError(c.expression) : 'Enter an expression'
+                      const update = (patch: Partial<ComputedColumn>) => setComputedColumns((prev) => prev.map((p, i) => (i === idx ? { ...p, ...patch } : p)))
+                      return (
+                        <li key={idx}>
+                          <input type="text" value={c.name} placeholder="property" onChange={(e) => update({ name: e.target.value })} aria-label="Computed column name" />
+                          =
+                          <input
+                            type="text"
+                            className="table-preview__computed-expression"
+                            value={c.expression}
+                            placeholder="first || ' ' || last"
+                            onChange={(e) => update({ expression: e.target.value })}
+                            aria-label="Computed column expression"
+                          />
+                          <button onClick={() => setComputedColumns((prev) => prev.filter((_, i) => i !== idx))} aria-label="Remove computed column">×</button>
+                          {error && <div className="table-preview__computed-error">{error}</div>}
+                        </li>
+                      )
+                    })}
+                  </ul>
+                  <button onClick={() => {
+                    setComputedColumns((prev) => [...prev, { tableId: tablePreviewTable.id, name: '', expression: '' }])
+                    setTablePreviewTransformed(true)
+                  }}>+ Computed column</button>
+                  <div className="table-preview__computed-hint">
+                    Columns by name (<code>[Order Date]</code> when they contain spaces), <code>'text'</code>, numbers, <code>+ - * / %</code>, <code>||</code> to concatenate, comparisons and
+                    CONCAT, COALESCE, IF, UPPER, LOWER, TRIM, LENGTH, SUBSTRING, REPLACE, NUMBER, INT, ROUND, STRING, BOOL, FORMAT_DATE(value, 'YYYY-MM-DD'), UUID().
+                  </div>
+                </details>
                 <div className="table-preview__table-wrapper">
                   <table className="table-preview__table">
                     <thead>
@@ -1825,7 +2567,7 @@ function App() {
                       </tr>
                     </thead>
                     <tbody>
-                      {tablePreviewRows.slice(0, 50).map((row, idx) => (
+                      {tablePreviewRows.slice(0, TABLE_PREVIEW_ROWS).map((row, idx) => (
                         <tr key={idx}>
                           {tablePreviewColumns.map((c) => {
                             const val = (row as any)[c]
@@ -1889,6 +2631,420 @@ function App() {
           </div>
         )}
 
+        {documentSettingsTableId && (() => {
+          const table = tables.find((t) => t.id === documentSettingsTableId)
+          if (!table) return null
+          const settings = documentSettings.find((d) => d.tableId === table.id) ?? { tableId: table.id }
+          const levels = settings.partitionKey ?? []
+          const update = (patch: Partial<DocumentSettings>) => updateDocumentSettings(table.id, patch)
+          const setLevel = (i: number, patch: Partial<PartitionKeyLevel>) => update({ partitionKey: levels.map((l, j) => (j === i ? { ...l, ...patch } : l)) })
+          const error = documentSettingsError(settings, table.columns)
+          return (
+            <div className="modal" onClick={() => setDocumentSettingsTableId(null)}>
+              <div className="modal__content" onClick={(e) => e.stopPropagation()}>
+                <div className="modal__header">
+                  <h3>Document settings · {table.name}</h3>
+                  <button onClick={() => setDocumentSettingsTableId(null)}>Close</button>
+                </div>
+                <div className="modal__body document-settings">
+                  <p>How each exported <strong>{table.name}</strong> document is shaped for bulk import into Cosmos DB. Templates fill <code>{'{column}'}</code> placeholders from the row.</p>
+                  <label>
+                    id
+                    <select value={settings.idSource ?? ''} onChange={(e) => update({ idSource: (e.target.value || undefined) as DocumentIdSource | undefined })}>
+                      <option value="">None</option>
+                      <option value="column">Column</option>
+                      <option value="template">Template</option>
+                      <option value="guid">New GUID per document</option>
+                    </select>
+                  </label>
+                  {settings.idSource === 'column' && (
+                    <label>
+                      id column
+                      <select value={settings.idColumn ?? ''} onChange={(e) => update({ idColumn: e.target.value || undefined })}>
+                        <option value="">Choose…</option>
+                        {table.columns.map((c) => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                    </label>
+                  )}
+                  {settings.idSource === 'template' && (
+                    <label>
+                      id template
+                      <input value={settings.idTemplate ?? ''} placeholder="order-{id}" onChange={(e) => update({ idTemplate: e.target.value })} />
+                    </label>
+                  )}
+                  <h4>Partition key</h4>
+                  {levels.map((level, i) => (
+                    <div key={i} className="document-settings__level">
+                      <input value={level.path} placeholder="/customerId" aria-label={`Partition key path ${i + 1}`} onChange={(e) => setLevel(i, { path: e.target.value })} />
+                      <input value={level.template ?? ''} placeholder="Synthetic value, e.g. {tenantId}|{region}" aria-label={`Partition key template ${i + 1}`} onChange={(e) => setLevel(i, { template: e.target.value || undefined })} />
+                      <button onClick={() => update({ partitionKey: levels.filter((_, j) => j !== i) })} aria-label={`Remove partition key level ${i + 1}`}>×</button>
+                    </div>
+                  ))}
+                  {levels.length < MAX_PARTITION_KEY_LEVELS && (
+                    <button onClick={() => update({ partitionKey: [...levels, { path: '' }] })}>{levels.length ? '+ Level (hierarchical key)' : '+ Partition key path'}</button>
+                  )}
+                  <label className="document-settings__check">
+                    <input type="checkbox" checked={!!settings.unwrap} onChange={(e) => update({ unwrap: e.target.checked || undefined })} />
+                    Unwrap the root object (no <code>{`{ "${table.name}": … }`}</code> wrapper)
+                  </label>
+                  <h4>Type discriminator</h4>
+                  <div className="document-settings__level">
+                    <input value={settings.typeProperty ?? ''} placeholder="type" aria-label="Type property" onChange={(e) => update({ typeProperty: e.target.value || undefined })} />
+                    <input value={settings.typeValue ?? ''} placeholder="Value, e.g. order" aria-label="Type value" onChange={(e) => update({ typeValue: e.target.value || undefined })} />
+                  </div>
+                  {error && <p className="document-settings__error">{error}</p>}
+                  <p className="document-settings__hint">Exports check every document: ids must be non-empty, unique within their partition and free of / \ ? #; partition key values must exist and be scalars; documents must stay under 2 MB.</p>
+                </div>
+              </div>
+            </div>
+          )
+        })()}
+
+        {workloadReports && (
+          <div className="modal" onClick={() => setWorkloadReports(null)}>
+            <div className="modal__content modal__content--wide" onClick={(e) => e.stopPropagation()}>
+              <div className="modal__header">
+                <h3>Workload Report</h3>
+                <button onClick={() => setWorkloadReports(null)}>Close</button>
+              </div>
+              <div className="modal__body workload-report">
+                <label className="workload-report__limit">
+                  Soft size limit (KB)
+                  <input type="number" min={1} value={softLimitKb} onChange={(e) => setSoftLimitKb(Math.max(1, Number(e.target.value) || DEFAULT_SOFT_LIMIT_KB))} />
+                </label>
+                {workloadReports.map(({ tableId, tableName, report, sizes }) => {
+                  const oversized = oversizedDocuments(sizes, softLimitKb * 1024)
+                  const rows: [string, Exclude<keyof WorkloadReport, 'documents' | 'totalBytes'>, (v: number) => string][] = [
+                    ['Size', 'sizeBytes', formatBytes],
+                    ['Read RU (point)', 'readPointRU', (v) => v.toFixed(2)],
+                    ['Read RU (query)', 'readQueryRU', (v) => v.toFixed(2)],
+                    ['Write RU', 'writeRU', (v) => v.toFixed(2)],
+                  ]
+                  return (
+                    <section key={tableId} className="workload-report__root">
+                      <h4>{tableName}</h4>
+                      <div>{report.documents.toLocaleString()} documents · {formatBytes(report.totalBytes)} total storage</div>
+                      <table className="table-preview__table">
+                        <thead>
+                          <tr><th></th><th>Average</th><th>p50</th><th>p95</th><th>Max</th></tr>
+                        </thead>
+                        <tbody>
+                          {rows.map(([label, key, format]) => {
+                            const d = report[key]
+                            return <tr key={key}><th>{label}</th><td>{format(d.avg)}</td><td>{format(d.p50)}</td><td>{format(d.p95)}</td><td>{format(d.max)}</td></tr>
+                          })}
+                        </tbody>
+                      </table>
+                      {oversized.length ? (
+                        <ul className="workload-report__oversized">
+                          {oversized.slice(0, WORKLOAD_OVERSIZED_SHOWN).map((o) => (
+                            <li key={o.rowIndex} className={o.overHardLimit ? 'workload-report__hard' : ''}>
+                              <span>Row {o.rowIndex} · {formatBytes(o.sizeBytes)}{o.overHardLimit ? ' — over the 2 MB item limit' : ''}</span>
+                              <button onClick={() => jumpToDocument(tableId, o.rowIndex)}>View</button>
+                            </li>
+                          ))}
+                          {oversized.length > WORKLOAD_OVERSIZED_SHOWN && <li>…and {(oversized.length - WORKLOAD_OVERSIZED_SHOWN).toLocaleString()} more</li>}
+                        </ul>
+                      ) : (
+                        <div className="workload-report__ok">No documents above {softLimitKb} KB</div>
+                      )}
+                    </section>
+                  )
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {capacityShapes && capacityPlan && (() => {
+          const { plan, roots, measuredGb } = capacityPlan
+          const operations = advisorInputs?.operations ?? []
+          const money = (v: number) => v.toLocaleString(undefined, { style: 'currency', currency: 'USD' })
+          const priceFields: [string, keyof PriceTable][] = [
+            ['Provisioned, per 100 RU/s per hour', 'provisionedPer100RuHour'],
+            ['Autoscale, per 100 RU/s per hour', 'autoscalePer100RuHour'],
+            ['Serverless, per million RU', 'serverlessPerMillionRu'],
+            ['Storage, per GB per month', 'storagePerGbMonth'],
+          ]
+          return (
+            <div className="modal" onClick={() => setCapacityShapes(null)}>
+              <div className="modal__content modal__content--wide" onClick={(e) => e.stopPropagation()}>
+                <div className="modal__header">
+                  <h3>Capacity Planner</h3>
+                  <button onClick={() => setCapacityShapes(null)}>Close</button>
+                </div>
+                <div className="modal__body capacity-planner">
+                  <table className="table-preview__table">
+                    <thead>
+                      <tr><th>Pattern</th><th>Type</th><th>Ops/s at peak</th><th>Document root</th><th>RU/op</th><th>RU/s</th><th></th></tr>
+                    </thead>
+                    <tbody>
+                      {operations.map((op, idx) => (
+                        <tr key={idx}>
+                          <td>
+                            <input value={op.name} placeholder="Pattern name" onChange={(e) => updateCapacityPatterns((ops) => ops.map((o, i) => (i === idx ? { ...o, name: e.target.value } : o)))} />
+                          </td>
+                          <td>
+                            <select value={op.type} onChange={(e) => updateCapacityPatterns((ops) => ops.map((o, i) => (i === idx ? { ...o, type: e.target.value as QueryPattern['type'] } : o)))}>
+                              <option value="point-read">Point read</option>
+                              <option value="query">Query</option>
+                              <option value="write">Write</option>
+                              <option value="delete">Delete</option>
+                            </select>
+                          </td>
+                          <td>
+                            <input
+                              type="number"
+                              min={0}
+                              value={op.opsPerSecond ?? ''}
+                              placeholder={`${DEFAULT_OPS_PER_SECOND[op.frequency]} (${op.frequency})`}
+                              onChange={(e) => updateCapacityPatterns((ops) => ops.map((o, i) => (i === idx ? { ...o, opsPerSecond: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) } : o)))}
+                            />
+                          </td>
+                          <td>
+                            <select value={roots[idx]} onChange={(e) => updateCapacityPatterns((ops) => ops.map((o, i) => (i === idx ? { ...o, documentRootId: e.target.value } : o)))}>
+                              {Object.keys(capacityShapes).map((id) => (
+                                <option key={id} value={id}>{tables.find((t) => t.id === id)?.name ?? id}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td>{plan.loads[idx].ruPerOperation.toFixed(2)}</td>
+                          <td>{Math.round(plan.loads[idx].ruPerSecond).toLocaleString()}</td>
+                          <td>
+                            <button onClick={() => updateCapacityPatterns((ops) => ops.filter((_, i) => i !== idx))} title="Remove pattern">×</button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <button onClick={() => updateCapacityPatterns((ops) => [...ops, { name: '', type: 'query', frequency: 'warm', description: '' }])}>+ Pattern</button>
+                  <div className="capacity-planner__settings">
+                    <label>
+                      Regions
+                      <input type="number" min={1} value={capacitySettings.regions} onChange={(e) => setCapacitySettings((prev) => ({ ...prev, regions: Math.max(1, Math.round(Number(e.target.value)) || 1) }))} />
+                    </label>
+                    <label title="Share of the month spent at peak; the rest runs at 10% of peak">
+                      Time at peak (%)
+                      <input type="number" min={0} max={100} value={Math.round(capacitySettings.peakShare * 100)} onChange={(e) => setCapacitySettings((prev) => ({ ...prev, peakShare: Math.min(100, Math.max(0, Number(e.target.value) || 0)) / 100 }))} />
+                    </label>
+                    <label>
+                      Storage (GB)
+                      <input
+                        type="number"
+                        min={0}
+                        value={capacitySettings.storageGb ?? ''}
+                        placeholder={measuredGb.toFixed(3)}
+                        onChange={(e) => setCapacitySettings((prev) => ({ ...prev, storageGb: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) }))}
+                      />
+                    </label>
+                  </div>
+                  <div>
+                    Peak {Math.round(plan.peakRuPerSecond).toLocaleString()} RU/s · average {Math.round(plan.averageRuPerSecond).toLocaleString()} RU/s
+                  </div>
+                  {operations.length ? (
+                    <table className="table-preview__table">
+                      <thead>
+                        <tr><th>Mode</th><th>RU/s</th><th>Throughput / month</th><th>Storage / month</th><th>Total / month</th><th></th></tr>
+                      </thead>
+                      <tbody>
+                        {plan.options.map((o) => (
+                          <tr key={o.mode} className={o.mode === plan.recommended ? 'capacity-planner__recommended' : !o.feasible ? 'capacity-planner__infeasible' : ''}>
+                            <th>{o.mode === 'provisioned' ? 'Provisioned' : o.mode === 'autoscale' ? 'Autoscale (max)' : 'Serverless (peak)'}</th>
+                            <td>{o.ruPerSecond.toLocaleString()}</td>
+                            <td>{money(o.throughputCost)}</td>
+                            <td>{money(o.storageCost)}</td>
+                            <td>{money(o.totalCost)}</td>
+                            <td>{o.mode === plan.recommended ? 'Recommended' : o.note ?? ''}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <div>Add the query patterns your application runs, or describe them in the Schema Advisor.</div>
+                  )}
+                  <details className="capacity-planner__prices">
+                    <summary>Prices</summary>
+                    {priceFields.map(([label, key]) => (
+                      <label key={key}>
+                        {label}
+                        <input type="number" min={0} step="any" value={prices[key]} onChange={(e) => setPrices((prev) => ({ ...prev, [key]: Math.max(0, Number(e.target.value) || 0) }))} />
+                      </label>
+                    ))}
+                    <button onClick={() => setPrices(DEFAULT_PRICES)}>Reset to list prices</button>
+                  </details>
+                </div>
+              </div>
+            </div>
+          )
+        })()}
+
+        {partitionAnalysis && (() => {
+          const lead = tables.find((t) => t.id === partitionAnalysis.rootId)
+          const wrapped = lead && !documentSettings.find((d) => d.tableId === lead.id)?.unwrap
+          const formatKey = (key: unknown[]) => key.map((v) => (v === null ? '(missing)' : String(v))).join(' / ')
+          const updateCandidates = (update: (candidates: string[]) => string[]) =>
+            setPartitionAnalysis((prev) => prev && { ...prev, candidates: update(prev.candidates) })
+          return (
+            <div className="modal" onClick={() => setPartitionAnalysis(null)}>
+              <div className="modal__content modal__content--wide" onClick={(e) => e.stopPropagation()}>
+                <div className="modal__header">
+                  <h3>Partition Key Analyzer</h3>
+                  <button onClick={() => setPartitionAnalysis(null)}>Close</button>
+                </div>
+                <div className="modal__body partition-analyzer">
+                  <label>
+                    Document root
+                    <select value={partitionAnalysis.rootId} onChange={(e) => openPartitionAnalyzer(e.target.value)}>
+                      {documentRootTables.map((t) => (
+                        <option key={t.id} value={t.id}>{t.name}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="partition-analyzer__candidates">
+                    {partitionAnalysis.candidates.map((candidate, idx) => (
+                      <div key={idx} className="partition-analyzer__candidate">
+                        <input
+                          value={candidate}
+                          placeholder="/tenantId, /userId"
+                          title="One path, or up to three comma-separated paths for a hierarchical key"
+                          onChange={(e) => updateCandidates((list) => list.map((c, i) => (i === idx ? e.target.value : c)))}
+                        />
+                        {partitionAnalysis.candidates.length > 1 && (
+                          <button onClick={() => updateCandidates((list) => list.filter((_, i) => i !== idx))} title="Remove candidate">×</button>
+                        )}
+                      </div>
+                    ))}
+                    <button onClick={() => updateCandidates((list) => [...list, ''])}>+ Candidate Key</button>
+                  </div>
+                  {wrapped && (
+                    <p className="partition-analyzer__hint">
+                      {lead.name} documents are wrapped as <code>{`{ "${lead.name}": { … } }`}</code>, so paths start with <code>/{lead.name}/</code>. Unwrap them in the document settings to key on top-level properties.
+                    </p>
+                  )}
+                  <label title="Partitions grow in proportion, as if every key kept its current share of the data">
+                    Projected documents
+                    <input
+                      type="number"
+                      min={0}
+                      value={partitionAnalysis.projectedDocuments ?? ''}
+                      placeholder={(lead?.rows.length ?? 0).toLocaleString()}
+                      onChange={(e) => setPartitionAnalysis((prev) => prev && { ...prev, projectedDocuments: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                    />
+                  </label>
+                  {exportProgress ? (
+                    <div className="export-progress">
+                      <progress max={exportProgress.total} value={exportProgress.done} />
+                      <span>{exportProgress.done.toLocaleString()} / {exportProgress.total.toLocaleString()}</span>
+                      <button onClick={cancelExport}>Cancel</button>
+                    </div>
+                  ) : (
+                    <button onClick={handleAnalyzePartitions} disabled={!lead}>Analyze</button>
+                  )}
+                  {partitionReports && (
+                    <table className="table-preview__table partition-analyzer__results">
+                      <thead>
+                        <tr><th></th>{partitionReports.map((r, i) => <th key={i}>{r.paths.join(', ')}</th>)}</tr>
+                      </thead>
+                      <tbody>
+                        <tr><th>Logical partitions</th>{partitionReports.map((r, i) => <td key={i}>{r.distinctValues.toLocaleString()}</td>)}</tr>
+                        <tr><th>Documents without a key value</th>{partitionReports.map((r, i) => <td key={i} className={r.missingValues ? 'partition-analyzer__warn' : ''}>{r.missingValues.toLocaleString()}</td>)}</tr>
+                        <tr><th>Storage per partition (avg · p95 · max)</th>{partitionReports.map((r, i) => <td key={i}>{formatBytes(r.bytesPerPartition.avg)} · {formatBytes(r.bytesPerPartition.p95)} · {formatBytes(r.bytesPerPartition.max)}</td>)}</tr>
+                        <tr><th>Write RU per partition (avg · max)</th>{partitionReports.map((r, i) => <td key={i}>{r.writeRuPerPartition.avg.toFixed(1)} · {r.writeRuPerPartition.max.toFixed(1)}</td>)}</tr>
+                        <tr><th>Hottest partition</th>{partitionReports.map((r, i) => <td key={i}>{(r.largestShare * 100).toFixed(1)}% of storage · {r.storageSkew.toFixed(1)}× average</td>)}</tr>
+                        <tr>
+                          <th>Largest partitions</th>
+                          {partitionReports.map((r, i) => (
+                            <td key={i}>
+                              <ul className="partition-analyzer__list">
+                                {r.top.map((p) => <li key={JSON.stringify(p.key)}>{formatKey(p.key)} · {formatBytes(p.bytes)} · {p.documents.toLocaleString()} docs</li>)}
+                              </ul>
+                            </td>
+                          ))}
+                        </tr>
+                        <tr>
+                          <th>Over 20 GB at projection</th>
+                          {partitionReports.map((r, i) => (
+                            <td key={i}>
+                              {r.overLimit.length ? (
+                                <ul className="partition-analyzer__list partition-analyzer__warn">
+                                  {r.overLimit.slice(0, WORKLOAD_OVERSIZED_SHOWN).map((p) => <li key={JSON.stringify(p.key)}>{formatKey(p.key)} · {formatBytes(p.projectedBytes)}</li>)}
+                                  {r.overLimit.length > WORKLOAD_OVERSIZED_SHOWN && <li>…and {(r.overLimit.length - WORKLOAD_OVERSIZED_SHOWN).toLocaleString()} more</li>}
+                                </ul>
+                              ) : 'None'}
+                            </td>
+                          ))}
+                        </tr>
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              </div>
+            </div>
+          )
+        })()}
+
+        {calibrationOpen && (
+          <div className="modal" onClick={() => setCalibrationOpen(false)}>
+            <div className="modal__content" onClick={(e) => e.stopPropagation()}>
+              <div className="modal__header">
+                <h3>RU Model Calibration</h3>
+                <button onClick={() => setCalibrationOpen(false)}>Close</button>
+              </div>
+              <div className="modal__body ru-calibration">
+                <p>
+                  Import a CSV of RU charges measured on your own account, one request per line, with columns
+                  {' '}<code>operation</code> (read, write or query), <code>size_kb</code> (or <code>size_bytes</code>),
+                  {' '}<code>num_properties</code> and <code>ru</code>. Point reads fit the read tiers, writes the write model and queries the query model.
+                </p>
+                <div>
+                  {ruModelConfig
+                    ? `This project uses calibrated ${[ruModelConfig.readTiers && 'read', ruModelConfig.writeModel && 'write', ruModelConfig.queryModel && 'query'].filter(Boolean).join(', ')} models.`
+                    : 'This project uses the built-in models.'}
+                </div>
+                <div className="ru-calibration__actions">
+                  <button onClick={() => calibrationInputRef.current?.click()}>Import Benchmark CSV…</button>
+                  {ruModelConfig && <button onClick={() => { applyRuModelConfig(null); setCalibration(null) }}>Reset to Built-in Models</button>}
+                </div>
+                {calibration && (
+                  <>
+                    <table className="table-preview__table">
+                      <thead>
+                        <tr><th>Operation</th><th>Samples</th><th>RMSE now</th><th>RMSE fitted</th><th>Mean error now</th><th>Mean error fitted</th></tr>
+                      </thead>
+                      <tbody>
+                        {(['read', 'write', 'query'] as const).map((operation) => {
+                          const error = calibration.errors[operation]
+                          if (!error) return <tr key={operation}><th>{operation}</th><td colSpan={5}>Not enough samples — model unchanged</td></tr>
+                          return (
+                            <tr key={operation}>
+                              <th>{operation}</th>
+                              <td>{error.fitted.samples}</td>
+                              <td>{error.current.rmse.toFixed(2)}</td>
+                              <td>{error.fitted.rmse.toFixed(2)}</td>
+                              <td>{(error.current.meanAbsPercentError * 100).toFixed(1)}%</td>
+                              <td>{(error.fitted.meanAbsPercentError * 100).toFixed(1)}%</td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                    {calibration.skipped > 0 && <div className="ru-calibration__skipped">{calibration.skipped} line{calibration.skipped === 1 ? '' : 's'} skipped: no known operation, size or positive RU</div>}
+                    <div className="ru-calibration__actions">
+                      <button
+                        onClick={() => { applyRuModelConfig({ ...ruModelConfig, ...calibration.models }); setCalibration(null) }}
+                        disabled={!Object.keys(calibration.models).length}
+                      >
+                        Use Fitted Models
+                      </button>
+                      <button onClick={() => setCalibration(null)}>Discard</button>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {helpOpen && (
           <div className="modal" onClick={() => setHelpOpen(false)}>
             <div className="modal__content" onClick={(e) => e.stopPropagation()}>
@@ -1901,7 +3057,7 @@ function App() {
                 <ul>
                   <li>File → New/Open/Manage projects</li>
                   <li>Load Data → Load dataset(s) or Add file(s)</li>
-                  <li>Supports CSV, TSV, TXT, JSON, JSONL, ZIP, TAR, GZ/TGZ (nested archives), SQL Server schema paste, and multiple document roots.</li>
+                  <li>Supports CSV, TSV, TXT, JSON, JSONL, XLSX (one table per sheet), Parquet and Avro (embedded column types, nested fields kept as nested values), ZIP, TAR, GZ/TGZ (nested archives), SQL Server schema paste, and multiple document roots.</li>
                   <li>Drag relations between tables to build hierarchy; right-click edges to set 1:1 or 1:*.</li>
                   <li>Select root table and row index, then Generate Preview or Download ZIP.</li>
                 </ul>
@@ -1939,11 +3095,11 @@ function App() {
                 <ol className="welcome-steps">
                   <li>
                     <strong>Load your data</strong>
-                    <span>Use <em>Load Data → Load dataset(s)</em> or drag & drop files onto the canvas. Supports CSV, TSV, JSON, JSONL, ZIP, TAR, and SQL Server schemas.</span>
+                    <span>Use <em>Load Data → Load dataset(s)</em> or drag & drop files onto the canvas. Supports CSV, TSV, JSON, JSONL, XLSX, Parquet, Avro, ZIP, TAR, SQL DDL scripts, and SQL Server/PostgreSQL/MySQL schemas.</span>
                   </li>
                   <li>
                     <strong>Create relationships</strong>
-                    <span>Drag from a column handle on one table to a column on another to define joins. Right-click edges to set one-to-one or one-to-many.</span>
+                    <span>Drag from a column handle on one table to a column on another to define joins. Right-click edges to set one-to-one, one-to-many or reference (key values / summary columns only).</span>
                   </li>
                   <li>
                     <strong>Set a root table</strong>
@@ -1951,7 +3107,7 @@ function App() {
                   </li>
                   <li>
                     <strong>Preview & export</strong>
-                    <span>Select a row index, then click <em>Generate Preview</em> to see the merged JSON. When ready, click <em>Download ZIP</em> to export one JSON file per root row.</span>
+                    <span>Select a row index, then click <em>Generate Preview</em> to see the merged JSON. When ready, click <em>Download ZIP</em> to export one JSON file per root row, or pick the <em>JSONL</em> format to stream one file per root (optionally gzipped) for large datasets.</span>
                   </li>
                 </ol>
                 <div className="welcome-footer">
@@ -2004,66 +3160,67 @@ function App() {
           <div className="modal" onClick={() => setSqlSchemaModalOpen(false)}>
             <div className="modal__content modal__content--wide" onClick={(e) => e.stopPropagation()}>
               <div className="modal__header">
-                <h3>Load SQL Server Schema</h3>
+                <h3>Load SQL Schema</h3>
                 <button onClick={() => setSqlSchemaModalOpen(false)}>Close</button>
               </div>
               <div className="modal__body">
-                <p>Paste the tab-delimited schema dump (including header).</p>
-                <details className="sql-schema-help">
-                  <summary>How to export from SSMS (SQL Server)</summary>
-                  <ol>
-                    <li>Open a <strong>New Query</strong> window in SQL Server Management Studio.</li>
-                    <li>Run the query below.</li>
-                    <li>In the results grid, click the top-left corner to select all rows.</li>
-                    <li>Right-click → <strong>Copy with Headers</strong>.</li>
-                    <li>Paste into the textbox below.</li>
-                  </ol>
-                  <pre className="sql-schema-query"><code>{`SELECT 
-    s.name AS [table_schema],
-    t.name AS [table_name],
-    c.name AS [column_name],
-    c.column_id AS [ordinal_position],
-    ty.name AS [data_type],
-    c.max_length,
-    c.precision,
-    c.scale,
-    c.is_nullable,
-    c.is_identity,
-    ISNULL(dc.definition, '') AS [default_value],
-    CASE WHEN pk_ic.column_id IS NOT NULL THEN 1 ELSE 0 END AS [is_primary_key],
-    fk.name AS [fk_name],
-    rs.name AS [fk_ref_schema],
-    rt.name AS [fk_ref_table],
-    rc.name AS [fk_ref_column]
-FROM sys.tables t
-INNER JOIN sys.schemas s ON t.schema_id = s.schema_id
-INNER JOIN sys.columns c ON t.object_id = c.object_id
-INNER JOIN sys.types ty ON c.user_type_id = ty.user_type_id
-LEFT JOIN sys.default_constraints dc ON c.default_object_id = dc.object_id
-LEFT JOIN sys.key_constraints pk 
-    ON pk.parent_object_id = t.object_id AND pk.type = 'PK'
-LEFT JOIN sys.index_columns pk_ic 
-    ON pk.unique_index_id = pk_ic.index_id 
-    AND pk.parent_object_id = pk_ic.object_id 
-    AND c.column_id = pk_ic.column_id
-LEFT JOIN sys.foreign_key_columns fkc 
-    ON fkc.parent_object_id = t.object_id 
-    AND fkc.parent_column_id = c.column_id
-LEFT JOIN sys.foreign_keys fk 
-    ON fkc.constraint_object_id = fk.object_id
-LEFT JOIN sys.tables rt ON fkc.referenced_object_id = rt.object_id
-LEFT JOIN sys.schemas rs ON rt.schema_id = rs.schema_id
-LEFT JOIN sys.columns rc 
-    ON fkc.referenced_object_id = rc.object_id 
-    AND fkc.referenced_column_id = rc.column_id
-ORDER BY s.name, t.name, c.column_id;`}</code></pre>
-                </details>
+                <label className="sql-schema-dialect">
+                  Database
+                  <select value={sqlSchemaDialect} onChange={(e) => setSqlSchemaDialect(e.target.value as SqlSchemaDialect)}>
+                    <option value="sqlserver">SQL Server</option>
+                    <option value="postgres">PostgreSQL</option>
+                    <option value="mysql">MySQL</option>
+                    <option value="ddl">CREATE TABLE script (DDL)</option>
+                  </select>
+                </label>
+                {sqlSchemaDialect === 'ddl' ? (
+                  <p>Paste a T-SQL, PostgreSQL or MySQL script with <code>CREATE TABLE</code> statements; primary and foreign keys may be inline or added with <code>ALTER TABLE … ADD CONSTRAINT</code>. You can also drop <code>.sql</code> files on the canvas.</p>
+                ) : (
+                  <p>Paste the {sqlSchemaDialect === 'sqlserver' ? 'tab-delimited' : 'tab-, pipe- or comma-delimited'} schema dump (including header).</p>
+                )}
+                {sqlSchemaDialect !== 'ddl' && <details className="sql-schema-help">
+                  {sqlSchemaDialect === 'sqlserver' && (
+                    <>
+                      <summary>How to export from SSMS (SQL Server)</summary>
+                      <ol>
+                        <li>Open a <strong>New Query</strong> window in SQL Server Management Studio.</li>
+                        <li>Run the query below.</li>
+                        <li>In the results grid, click the top-left corner to select all rows.</li>
+                        <li>Right-click → <strong>Copy with Headers</strong>.</li>
+                        <li>Paste into the textbox below.</li>
+                      </ol>
+                    </>
+                  )}
+                  {sqlSchemaDialect === 'postgres' && (
+                    <>
+                      <summary>How to export from PostgreSQL</summary>
+                      <ol>
+                        <li>Connect to the database with <strong>psql</strong> (or a query window in pgAdmin / DBeaver).</li>
+                        <li>Run the query below; in psql, <code>\pset format unaligned</code> and <code>\pset fieldsep '\t'</code> give tab-separated output.</li>
+                        <li>Copy the results <strong>including the header row</strong>.</li>
+                        <li>Paste into the textbox below.</li>
+                      </ol>
+                    </>
+                  )}
+                  {sqlSchemaDialect === 'mysql' && (
+                    <>
+                      <summary>How to export from MySQL</summary>
+                      <ol>
+                        <li>Select the database (<code>USE your_db;</code>) — the query reads the current schema.</li>
+                        <li>Run the query below in MySQL Workbench, or with <code>mysql --batch</code> for tab-separated output.</li>
+                        <li>Copy all result rows <strong>with column names</strong> (tab separated).</li>
+                        <li>Paste into the textbox below.</li>
+                      </ol>
+                    </>
+                  )}
+                  <pre className="sql-schema-query"><code>{SQL_SCHEMA_QUERIES[sqlSchemaDialect]}</code></pre>
+                </details>}
                 <textarea
                   className="sql-schema-input"
                   value={sqlSchemaText}
                   onChange={(e) => setSqlSchemaText(e.target.value)}
                   rows={12}
-                  placeholder="table_schema\ttable_name\tcolumn_name\t..."
+                  placeholder={sqlSchemaDialect === 'ddl' ? 'CREATE TABLE ...' : 'table_schema\\ttable_name\\tcolumn_name\\t...'}
                 />
               </div>
               <div className="modal__footer">
@@ -2194,7 +3351,42 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
         )}
         {contextMenu && contextMenu.type === 'table' && (() => {
           const table = tables.find((t) => t.id === contextMenu.tableId)
-          const isDelimited = table ? ['csv', 'tsv', 'txt'].includes((table.sourceType ?? '').toLowerCase()) || (!!table.sourceText && !['json', 'jsonl', 'sqlschema'].includes((table.sourceType ?? '').toLowerCase())) : false
+          const isSheet = table?.sourceType === 'xlsx'
+          const isDelimited = table && !isSheet ? ['csv', 'tsv', 'txt'].includes((table.sourceType ?? '').toLowerCase()) || (!!table.sourceText && !['json', 'jsonl', 'sqlschema'].includes((table.sourceType ?? '').toLowerCase())) : false
+          const junction = junctionTables.find((j) => j.tableId === contextMenu.tableId)
+          // Payload candidates: junction columns that are not join keys
+          const payloadCandidates = junction && table ? table.columns.filter((c) => !edges.some((e) => edgeUsesColumn(e, table.id, c))) : []
+          const togglePayload = (col: string) => setJunctionTables((prev) => prev.map((j) => {
+            if (j.tableId !== contextMenu.tableId) return j
+            const current = j.payloadColumns ?? []
+            return { ...j, payloadColumns: current.includes(col) ? current.filter((c) => c !== col) : [...current, col] }
+          }))
+          const unpivot = tableUnpivots.find((u) => u.tableId === contextMenu.tableId)
+          const updateUnpivot = (patch: Partial<TableUnpivot>) => setTableUnpivots((prev) => prev.map((u) => (u.tableId === contextMenu.tableId ? { ...u, ...patch } : u)))
+          const toggleUnpivot = () => {
+            if (unpivot) {
+              setTableUnpivots((prev) => prev.filter((u) => u.tableId !== contextMenu.tableId))
+              return
+            }
+            const columns = table?.columns ?? []
+            if (columns.length < 2) return
+            // Prefer conventional key/value column names, else the first two columns
+            const keyColumn = columns.find((c) => /^(key|name|attribute|property)$/i.test(c)) ?? columns[0]
+            const valueColumn = columns.find((c) => c !== keyColumn && /^value$/i.test(c)) ?? columns.find((c) => c !== keyColumn)!
+            setTableUnpivots((prev) => [...prev, { tableId: contextMenu.tableId, keyColumn, valueColumn }])
+          }
+          const grouping = objectGroupings.find((g) => g.tableId === contextMenu.tableId)
+          const mappedCount = Object.keys(grouping?.paths ?? {}).length
+          const updateGrouping = (patch: Partial<ObjectGrouping>) => setObjectGroupings((prev) => prev.map((g) => (g.tableId === contextMenu.tableId ? { ...g, ...patch } : g)))
+          const toggleGrouping = () => {
+            if (grouping) {
+              setObjectGroupings((prev) => prev.filter((g) => g.tableId !== contextMenu.tableId))
+              return
+            }
+            // Dot paths when any column uses them, else underscore-separated names
+            const separator = table?.columns.some((c) => c.includes('.')) || !table?.columns.some((c) => c.includes('_')) ? '.' : '_'
+            setObjectGroupings((prev) => [...prev, { tableId: contextMenu.tableId, separator }])
+          }
           return (
             <div className="context-menu" style={{ top: contextMenu.y, left: contextMenu.x }} onClick={(e) => e.stopPropagation()}>
               <h4>Table</h4>
@@ -2204,6 +3396,8 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
                 {documentRootIds.includes(contextMenu.tableId) ? 'Unset Document Root' : 'Set Document Root'}
               </button>
               <button onClick={() => { handleRenameTable(contextMenu.tableId); closeContextMenu() }}>Rename</button>
+              <button onClick={() => { setDocumentSettingsTableId(contextMenu.tableId); closeContextMenu() }}>Document Settings…</button>
+              <button onClick={() => { setTablePreviewTransformed(true); openTablePreview(contextMenu.tableId); closeContextMenu() }}>Computed Columns…</button>
               <button onClick={() => { onEditCallout(contextMenu.tableId); closeContextMenu() }}>
                 {callouts[contextMenu.tableId] ? 'Edit Note' : 'Add Note'}
               </button>
@@ -2216,14 +3410,22 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
               <button onClick={() => {
                 const arrayName = prompt('Array property name for pivoted columns (e.g. "Items")')?.trim()
                 if (!arrayName) { closeContextMenu(); return }
-                const patternsRaw = prompt('Column prefixes to group (comma-separated, e.g. "Item,Fact")')?.trim()
+                const patternsRaw = prompt('Column prefixes or /regex/ patterns to group (comma-separated, e.g. "Item,Fact" or "Phone=/^Phone_(?<index>\\w+)$/")')?.trim()
                 if (!patternsRaw) { closeContextMenu(); return }
-                const patterns = patternsRaw.split(',').map((s) => s.trim()).filter(Boolean)
-                if (!patterns.length) { closeContextMenu(); return }
-                const groups = patterns.map((p) => ({ pattern: p, propertyName: p }))
+                let groups: TablePivot['groups']
+                try {
+                  groups = parsePivotGroups(patternsRaw)
+                } catch (err) {
+                  alert((err as Error).message)
+                  closeContextMenu()
+                  return
+                }
+                if (!groups.length) { closeContextMenu(); return }
+                // Regex indices are often names (Home, Work) worth keeping in each element
+                const indexName = prompt('Property for each element\'s index (optional, e.g. "type")')?.trim()
                 setTablePivots((prev) => {
                   const filtered = prev.filter((pv) => !(pv.tableId === contextMenu.tableId && pv.arrayName === arrayName))
-                  return [...filtered, { tableId: contextMenu.tableId, arrayName, groups }]
+                  return [...filtered, { tableId: contextMenu.tableId, arrayName, groups, ...(indexName ? { indexName } : {}) }]
                 })
                 closeContextMenu()
               }}>Pivot</button>
@@ -2233,25 +3435,92 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
                   closeContextMenu()
                 }}>Remove Pivots</button>
               )}
-              <button onClick={() => { handleDeleteTable(contextMenu.tableId); closeContextMenu() }}>Delete</button>
-              {isDelimited && (
+              <button onClick={() => {
+                setJunctionTables((prev) => (junction ? prev.filter((j) => j.tableId !== contextMenu.tableId) : [...prev, { tableId: contextMenu.tableId }]))
+              }}>{junction ? 'Unmark Junction' : 'Mark as Junction'}</button>
+              {junction && (
                 <>
-                  <h5>Parsing options</h5>
+                  <h5>Junction payload columns</h5>
+                  {payloadCandidates.length ? (
+                    <ul className="context-menu__column-list">
+                      {payloadCandidates.map((col) => (
+                        <li key={col}>
+                          <label>
+                            <input type="checkbox" checked={!!junction.payloadColumns?.includes(col)} onChange={() => togglePayload(col)} />
+                            {col}
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <div className="context-menu__hint">No non-key columns</div>
+                  )}
+                </>
+              )}
+              {(unpivot || (table?.columns.length ?? 0) >= 2) && (
+                <button onClick={toggleUnpivot}>{unpivot ? 'Remove Unpivot' : 'Unpivot Key/Value'}</button>
+              )}
+              {unpivot && table && (
+                <>
+                  <h5>Unpivot rows into properties</h5>
                   <label>
-                    Delimiter
-                    <select
-                      value={tableParsingOptions[contextMenu.tableId]?.delimiter ?? 'auto'}
-                      onChange={(e) => reparseTable(contextMenu.tableId, {
-                        ...tableParsingOptions[contextMenu.tableId],
-                        delimiter: e.target.value as any,
-                        skipRows: tableParsingOptions[contextMenu.tableId]?.skipRows ?? 0,
-                      })}
-                    >
-                      <option value="auto">Auto</option>
-                      <option value="csv">Comma</option>
-                      <option value="tsv">Tab</option>
+                    Key column
+                    <select value={unpivot.keyColumn} onChange={(e) => updateUnpivot({ keyColumn: e.target.value })}>
+                      {table.columns.map((c) => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </label>
+                  <label>
+                    Value column
+                    <select value={unpivot.valueColumn} onChange={(e) => updateUnpivot({ valueColumn: e.target.value })}>
+                      {table.columns.map((c) => <option key={c} value={c}>{c}</option>)}
+                    </select>
+                  </label>
+                  <div className="context-menu__hint">Embedded as an object of key → value</div>
+                </>
+              )}
+              <button onClick={toggleGrouping}>{grouping ? 'Remove Object Grouping' : 'Group into Objects'}</button>
+              {grouping && (
+                <>
+                  <h5>Nested objects</h5>
+                  <label>
+                    Column name paths
+                    <select value={grouping.separator ?? ''} onChange={(e) => updateGrouping({ separator: e.target.value || undefined })}>
+                      <option value=".">Dot (address.city)</option>
+                      <option value="_">Underscore (Address_City)</option>
+                      <option value="">None (mapped columns only)</option>
                     </select>
                   </label>
+                  <button onClick={() => {
+                    const raw = prompt('Map columns to object paths (comma-separated, e.g. "Address_Street=address.street, Address_City=address.city")', formatObjectPaths(grouping.paths))
+                    if (raw === null) return
+                    updateGrouping({ paths: parseObjectPaths(raw) })
+                  }}>Map Columns to Paths…</button>
+                  <div className="context-menu__hint">
+                    {mappedCount ? `${mappedCount} mapped column${mappedCount === 1 ? '' : 's'}; mappings win over name paths` : 'Columns whose path collides with another value stay flat'}
+                  </div>
+                </>
+              )}
+              <button onClick={() => { handleDeleteTable(contextMenu.tableId); closeContextMenu() }}>Delete</button>
+              {(isDelimited || isSheet) && (
+                <>
+                  <h5>Parsing options</h5>
+                  {isDelimited && (
+                    <label>
+                      Delimiter
+                      <select
+                        value={tableParsingOptions[contextMenu.tableId]?.delimiter ?? 'auto'}
+                        onChange={(e) => reparseTable(contextMenu.tableId, {
+                          ...tableParsingOptions[contextMenu.tableId],
+                          delimiter: e.target.value as any,
+                          skipRows: tableParsingOptions[contextMenu.tableId]?.skipRows ?? 0,
+                        })}
+                      >
+                        <option value="auto">Auto</option>
+                        <option value="csv">Comma</option>
+                        <option value="tsv">Tab</option>
+                      </select>
+                    </label>
+                  )}
                   <label>
                     Skip rows
                     <input
@@ -2265,6 +3534,17 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
                       })}
                     />
                   </label>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={tableParsingOptions[contextMenu.tableId]?.headerRow ?? true}
+                      onChange={(e) => reparseTable(contextMenu.tableId, {
+                        ...tableParsingOptions[contextMenu.tableId],
+                        headerRow: e.target.checked,
+                      })}
+                    />
+                    First row is header
+                  </label>
                 </>
               )}
               <button onClick={closeContextMenu}>Close</button>
@@ -2274,10 +3554,26 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
         {contextMenu && contextMenu.type === 'column' && (() => {
           const table = tables.find((t) => t.id === contextMenu.tableId)
           const original = table ? findOriginalColumn(table.columnRenames ?? {}, contextMenu.column) ?? contextMenu.column : contextMenu.column
+          const typeInfo = table?.columnTypes?.[contextMenu.column]
           return (
             <div className="context-menu" style={{ top: contextMenu.y, left: contextMenu.x }} onClick={(e) => e.stopPropagation()}>
               <h4>Column</h4>
               <div>{table?.name ?? contextMenu.tableId} · {contextMenu.column}</div>
+              <label>
+                Type
+                <select
+                  value={columnTypeOverrides[contextMenu.tableId]?.[contextMenu.column] ?? ''}
+                  onChange={(e) => handleSetColumnType(contextMenu.tableId, contextMenu.column, e.target.value)}
+                >
+                  <option value="">
+                    {columnTypeOverrides[contextMenu.tableId]?.[contextMenu.column] ? 'Reset (re-infer)' : typeInfo?.inferred ? `Inferred (${typeInfo.dataType})` : typeInfo?.dataType ? `Declared (${typeInfo.dataType})` : 'Untyped'}
+                  </option>
+                  {COLUMN_DATA_TYPES.map((dt) => <option key={dt} value={dt}>{dt}</option>)}
+                </select>
+              </label>
+              {typeInfo?.nullable !== undefined && (
+                <div className="context-menu__hint">{typeInfo.nullable ? 'Nullable (empty values found)' : 'Not null in sampled rows'}</div>
+              )}
               <button onClick={() => { handleRenameColumn(contextMenu.tableId, contextMenu.column); closeContextMenu() }}>Rename</button>
               {original !== contextMenu.column && (
                 <button onClick={() => { handleResetColumnName(contextMenu.tableId, contextMenu.column); closeContextMenu() }}>Reset name</button>
@@ -2302,6 +3598,24 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
             </div>
           )
         })()}
+        {contextMenu && contextMenu.type === 'suggestion' && (() => {
+          const sg = liveSuggestions.find((x) => x.id === contextMenu.suggestionId)
+          if (!sg) return null
+          return (
+            <div className="context-menu" style={{ top: contextMenu.y, left: contextMenu.x }} onClick={(e) => e.stopPropagation()}>
+              <h4>Suggested relationship</h4>
+              <div className="context-menu__edge-label">
+                {sg.label}
+              </div>
+              <div className="context-menu__hint">
+                {Math.round(sg.inclusion * 100)}% of values match{sg.nameScore ? ', names match' : ''} · {sg.type}
+              </div>
+              <button onClick={() => { acceptSuggestion(sg.id); closeContextMenu() }}>Accept</button>
+              <button onClick={() => { rejectSuggestion(sg.id); closeContextMenu() }}>Reject</button>
+              <button onClick={closeContextMenu}>Close</button>
+            </div>
+          )
+        })()}
         {contextMenu && contextMenu.type === 'edge' && (() => {
           const edge = edges.find((e) => e.id === contextMenu.edgeId)
           const childTableId = edge ? edge.target : ''
@@ -2311,12 +3625,64 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
           const childColumns = childTable?.columns ?? []
           const currentFilter = edgeColumnFilters[contextMenu.edgeId]
           const isRecursive = childTableId === parentTableId
+          // References emit nothing but the checked columns (the child's key when none are checked)
+          const edgeType = edgeTypes[contextMenu.edgeId] ?? (edge?.data as { type?: RelationshipType } | undefined)?.type
+          const isReference = edgeType === 'reference'
+          const extraPairs = edge ? edgeAdditionalColumns(edge) : []
+          const parentColumns = parentTable?.columns ?? []
+          const setPair = (idx: number, pair: ColumnPair) =>
+            handleSetEdgeAdditionalColumns(contextMenu.edgeId, extraPairs.map((p, i) => (i === idx ? pair : p)))
+          const edgeData = edge?.data as { filter?: string; orderBy?: RelationshipOrder; limit?: number; aggregates?: RelationshipAggregate[] } | undefined
+          const aggregates = edgeData?.aggregates ?? []
+          const isAggregateOnly = edgeType === 'aggregate'
+          const aggregateBase = edgePropertyNames[contextMenu.edgeId] ?? childTable?.name ?? childTableId
+          const setAggregate = (idx: number, agg: RelationshipAggregate) =>
+            handleSetEdgeAggregates(contextMenu.edgeId, aggregates.map((a, i) => (i === idx ? agg : a)))
+          const filterText = edgeData?.filter ?? ''
+          const filterError = filterText.trim() ? expressionError(filterText) : null
           return (
             <div className="context-menu context-menu--wide" style={{ top: contextMenu.y, left: contextMenu.x }} onClick={(e) => e.stopPropagation()}>
               <h4>Relationship</h4>
               <div className="context-menu__edge-label">
                 {parentTable?.name ?? parentTableId}.{edge?.sourceHandle} → {childTable?.name ?? childTableId}.{edge?.targetHandle}
               </div>
+              <div className="context-menu__columns-section">
+                <h5>Key columns</h5>
+                <ul className="context-menu__pair-list">
+                  {extraPairs.map((pair, idx) => (
+                    <li key={idx}>
+                      <select value={pair.sourceColumn} onChange={(e) => setPair(idx, { ...pair, sourceColumn: e.target.value })} aria-label={`${parentTable?.name ?? parentTableId} key column ${idx + 2}`}>
+                        {parentColumns.map((c) => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                      →
+                      <select value={pair.targetColumn} onChange={(e) => setPair(idx, { ...pair, targetColumn: e.target.value })} aria-label={`${childTable?.name ?? childTableId} key column ${idx + 2}`}>
+                        {childColumns.map((c) => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                      <button onClick={() => handleSetEdgeAdditionalColumns(contextMenu.edgeId, extraPairs.filter((_, i) => i !== idx))} aria-label="Remove column pair">×</button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="context-menu__column-actions">
+                  <button
+                    disabled={!parentColumns.length || !childColumns.length}
+                    onClick={() => {
+                      // Default to a same-named column not yet in the key
+                      const used = new Set([edge?.sourceHandle, ...extraPairs.map((p) => p.sourceColumn)])
+                      const sourceColumn = parentColumns.find((c) => !used.has(c) && childColumns.includes(c)) ?? parentColumns.find((c) => !used.has(c)) ?? parentColumns[0]
+                      const targetColumn = childColumns.includes(sourceColumn) ? sourceColumn : childColumns[0]
+                      handleSetEdgeAdditionalColumns(contextMenu.edgeId, [...extraPairs, { sourceColumn, targetColumn }])
+                    }}
+                  >
+                    + Column pair
+                  </button>
+                </div>
+              </div>
+              <label>
+                Match
+                <select value={edge ? edgeMatchMode(edge) : 'strict'} onChange={(e) => handleSetEdgeMatchMode(contextMenu.edgeId, e.target.value as JoinMatchMode)}>
+                  {JOIN_MATCH_MODES.map((m) => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+              </label>
               <label>
                 Type
                 <select
@@ -2325,6 +3691,8 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
                 >
                   <option value="one-to-many">1:* (array)</option>
                   <option value="one-to-one">1:1 (object)</option>
+                  <option value="reference">Reference (keys or summary)</option>
+                  <option value="aggregate">Aggregates only (no children)</option>
                 </select>
               </label>
               <label>
@@ -2346,6 +3714,92 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
                   }}
                 />
               </label>
+              <div className="context-menu__columns-section">
+                <h5>Subset ({childTable?.name})</h5>
+                <label>
+                  Filter
+                  <input
+                    type="text"
+                    value={filterText}
+                    placeholder="e.g. status = 'active'"
+                    onChange={(e) => handleSetEdgeSubset(contextMenu.edgeId, { filter: e.target.value })}
+                  />
+                </label>
+                {filterError && <div className="context-menu__hint context-menu__hint--error">{filterError}</div>}
+                <label>
+                  Order by
+                  <select
+                    value={edgeData?.orderBy?.column ?? ''}
+                    onChange={(e) => handleSetEdgeSubset(contextMenu.edgeId, {
+                      orderBy: e.target.value ? { column: e.target.value, direction: edgeData?.orderBy?.direction ?? 'asc' } : null,
+                    })}
+                  >
+                    <option value="">(source order)</option>
+                    {childColumns.map((c) => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                  <select
+                    value={edgeData?.orderBy?.direction ?? 'asc'}
+                    disabled={!edgeData?.orderBy}
+                    aria-label="Order direction"
+                    onChange={(e) => edgeData?.orderBy && handleSetEdgeSubset(contextMenu.edgeId, {
+                      orderBy: { ...edgeData.orderBy, direction: e.target.value as RelationshipOrder['direction'] },
+                    })}
+                  >
+                    <option value="asc">Ascending</option>
+                    <option value="desc">Descending</option>
+                  </select>
+                </label>
+                <label>
+                  Limit
+                  <input
+                    type="number"
+                    min={1}
+                    value={edgeData?.limit ?? ''}
+                    placeholder="all"
+                    onChange={(e) => {
+                      const v = Math.floor(Number(e.target.value))
+                      handleSetEdgeSubset(contextMenu.edgeId, { limit: e.target.value !== '' && v > 0 ? v : null })
+                    }}
+                  />
+                </label>
+              </div>
+              <div className="context-menu__columns-section">
+                <h5>Aggregates ({childTable?.name})</h5>
+                {isAggregateOnly && !aggregates.length && (
+                  <div className="context-menu__hint">No aggregates: writes {aggregateBase}Count.</div>
+                )}
+                <ul className="context-menu__pair-list">
+                  {aggregates.map((agg, idx) => (
+                    <li key={idx}>
+                      <select value={agg.fn} onChange={(e) => setAggregate(idx, { ...agg, fn: e.target.value as RelationshipAggregate['fn'] })} aria-label={`Aggregate ${idx + 1} function`}>
+                        {AGGREGATE_FUNCTIONS.map((f) => <option key={f.value} value={f.value}>{f.label}</option>)}
+                      </select>
+                      <select
+                        value={agg.column ?? ''}
+                        onChange={(e) => setAggregate(idx, { ...agg, column: e.target.value || undefined })}
+                        aria-label={`Aggregate ${idx + 1} column`}
+                      >
+                        {agg.fn === 'count' ? <option value="">(rows)</option> : !agg.column && <option value="">(column)</option>}
+                        {childColumns.map((c) => <option key={c} value={c}>{c}</option>)}
+                      </select>
+                      <input
+                        type="text"
+                        value={agg.propertyName ?? ''}
+                        placeholder={aggregatePropertyName({ ...agg, propertyName: undefined }, aggregateBase)}
+                        onChange={(e) => setAggregate(idx, { ...agg, propertyName: e.target.value || undefined })}
+                        aria-label={`Aggregate ${idx + 1} property name`}
+                      />
+                      <button onClick={() => handleSetEdgeAggregates(contextMenu.edgeId, aggregates.filter((_, i) => i !== idx))} aria-label="Remove aggregate">×</button>
+                    </li>
+                  ))}
+                </ul>
+                <div className="context-menu__column-actions">
+                  <button onClick={() => handleSetEdgeAggregates(contextMenu.edgeId, [...aggregates, { fn: 'count' }])}>+ Aggregate</button>
+                </div>
+                {aggregates.some((a) => a.fn !== 'count' && !a.column) && (
+                  <div className="context-menu__hint context-menu__hint--error">Pick a column for every aggregate except Count.</div>
+                )}
+              </div>
               {(isRecursive || childTableId !== parentTableId) && (
                 <label>
                   Max depth{isRecursive ? ' (recursive)' : ''}
@@ -2366,8 +3820,13 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
                   />
                 </label>
               )}
-              <div className="context-menu__columns-section">
-                <h5>Included columns ({childTable?.name})</h5>
+              {!isAggregateOnly && <div className="context-menu__columns-section">
+                <h5>{isReference ? 'Reference columns' : 'Included columns'} ({childTable?.name})</h5>
+                {isReference && (
+                  <div className="context-menu__hint">
+                    None checked: key values only{childTable?.primaryKeys?.length ? ` (${childTable.primaryKeys.join(', ')})` : ''}. One column: an array of its values. Several: summary objects.
+                  </div>
+                )}
                 <div className="context-menu__column-actions">
                   <button onClick={() => setEdgeColumnFilters((prev) => ({ ...prev, [contextMenu.edgeId]: [...childColumns] }))}>All</button>
                   <button onClick={() => setEdgeColumnFilters((prev) => ({ ...prev, [contextMenu.edgeId]: [] }))}>None</button>
@@ -2379,7 +3838,7 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
                 </div>
                 <ul className="context-menu__column-list">
                   {childColumns.map((col) => {
-                    const checked = !currentFilter || currentFilter.includes(col)
+                    const checked = isReference ? !!currentFilter?.includes(col) : !currentFilter || currentFilter.includes(col)
                     return (
                       <li key={col}>
                         <label>
@@ -2388,7 +3847,7 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
                             checked={checked}
                             onChange={() => {
                               setEdgeColumnFilters((prev) => {
-                                const existing = prev[contextMenu.edgeId] ?? [...childColumns]
+                                const existing = prev[contextMenu.edgeId] ?? (isReference ? [] : [...childColumns])
                                 const next = checked
                                   ? existing.filter((c) => c !== col)
                                   : [...existing, col]
@@ -2402,7 +3861,7 @@ ORDER BY s.name, t.name, c.column_id;`}</code></pre>
                     )
                   })}
                 </ul>
-              </div>
+              </div>}
               <button onClick={() => { onEditCallout(contextMenu.edgeId); closeContextMenu() }}>
                 {callouts[contextMenu.edgeId] ? 'Edit Note' : 'Add Note'}
               </button>
@@ -101,6 +101,7 @@ export default function AdvisorPanel({ schema, onResult, onClose, apiBaseUrl = '
           schema,
           operations: valid.map((op) => ({
             ...op,
+            documentRootId: undefined, // a local table id, meaningless to the advisor
             filters: op.filters?.filter((f) => f.trim()),
             sortFields: op.sortFields?.filter((f) => f.trim()),
           })),
@@ -236,7 +237,7 @@ export default function AdvisorPanel({ schema, onResult, onClose, apiBaseUrl = '
               <div className="advisor-rels">
                 {schema.relationships.map((r, i) => (
                   <span key={i} className="advisor-rel-chip">
-                    {r.sourceTable}.{r.sourceColumn} → {r.targetTable}.{r.targetColumn}
+                    {r.sourceTable}.{r.sourceColumns ? `(${r.sourceColumns.join(', ')})` : r.sourceColumn} → {r.targetTable}.{r.targetColumns ? `(${r.targetColumns.join(', ')})` : r.targetColumn}
                     <small>({r.type})</small>
                   </span>
                 ))}
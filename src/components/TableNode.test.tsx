@@ -30,4 +30,10 @@ describe('TableNode', () => {
     renderNode({ table, isRoot: false })
     expect(screen.queryByText('Root')).toBeNull()
   })
+
+  it('shows column types with a nullable marker', () => {
+    renderNode({ table: { ...table, columnTypes: { id: { dataType: 'integer', inferred: true }, name: { dataType: 'string', nullable: true } } } })
+    expect(screen.getByText('integer')).toBeInTheDocument()
+    expect(screen.getByText('string?')).toBeInTheDocument()
+  })
 })
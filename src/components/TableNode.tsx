@@ -12,6 +12,9 @@ export type TableNodeData = {
   isDocRoot?: boolean
   splitColumns?: Set<string>
   hasPivot?: boolean
+  isJunction?: boolean
+  isUnpivot?: boolean
+  hasGrouping?: boolean
   callout?: string
   onColumnContextMenu?: (tableId: string, column: string, event: MouseEvent) => void
   onEditCallout?: (tableId: string) => void
@@ -28,7 +31,10 @@ function TableNodeInner({ data }: NodeProps<TableNodeData>) {
           {data.callout && (
             <span className="callout-icon" title="View note" onClick={(e) => { e.stopPropagation(); setPopoverOpen((v) => !v) }}>📝</span>
           )}
+          {data.hasGrouping && <span className="table-node__badge table-node__badge--group" aria-label="Has object grouping" title="Columns grouped into nested objects">{'{ }'} Nested</span>}
           {data.hasPivot && <span className="table-node__badge table-node__badge--pivot" aria-label="Has pivot" title="Pivot active">⟳ Pivot</span>}
+          {data.isJunction && <span className="table-node__badge table-node__badge--junction" aria-label="Junction table" title="Junction: far-side rows are embedded directly">⇄ Junction</span>}
+          {data.isUnpivot && <span className="table-node__badge table-node__badge--unpivot" aria-label="Unpivot table" title="Unpivot: key/value rows become object properties">⤡ Unpivot</span>}
           {data.isDocRoot && <span className="table-node__badge table-node__badge--doc" aria-label="Document root">Doc</span>}
           {data.isRoot && <span className="table-node__badge" aria-label="Root table">Root</span>}
         </span>
@@ -50,6 +56,11 @@ function TableNodeInner({ data }: NodeProps<TableNodeData>) {
           >
             <Handle type="target" position={Position.Left} id={col} className="table-node__handle table-node__handle--left" />
             <span className="table-node__colname">{col}</span>
+            {data.table.columnTypes?.[col]?.dataType && (
+              <span className="table-node__coltype" title={data.table.columnTypes[col].inferred ? 'Inferred type' : 'Declared type'}>
+                {data.table.columnTypes[col].dataType}{data.table.columnTypes[col].nullable ? '?' : ''}
+              </span>
+            )}
             {data.splitColumns?.has(col) && <span className="table-node__col-icon" title="Split active">✂</span>}
             <Handle type="source" position={Position.Right} id={col} className="table-node__handle table-node__handle--right" />
           </div>
@@ -19,6 +19,8 @@ export interface AdvisorRelationship {
   targetTable: string
   sourceColumn: string
   targetColumn: string
+  sourceColumns?: string[] // composite keys: every column, in pair order (sourceColumn is the first)
+  targetColumns?: string[]
   type: 'one-to-many' | 'one-to-one'
 }
 
@@ -39,6 +41,8 @@ export interface QueryPattern {
   filters?: string[]
   sortFields?: string[]
   resultSize?: ResultSize
+  opsPerSecond?: number      // peak rate for the capacity planner; defaults by frequency
+  documentRootId?: string    // document root the planner prices the pattern against
 }
 
 export interface AdvisorRequest {
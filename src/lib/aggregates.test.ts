@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { aggregatePropertyName, computeAggregate } from './aggregates'
+
+const rows = [
+  { rating: '4', note: 'ok', at: '2024-03-01' },
+  { rating: 5, note: '', at: '2024-01-15' },
+  { rating: '', note: 'meh', at: '2024-02-10' },
+  { rating: 'n/a', note: 'great', at: '' },
+]
+
+describe('computeAggregate', () => {
+  it('counts rows, or non-blank values of a column', () => {
+    expect(computeAggregate({ fn: 'count' }, rows)).toBe(4)
+    expect(computeAggregate({ fn: 'count', column: 'note' }, rows)).toBe(3)
+    expect(computeAggregate({ fn: 'count' }, [])).toBe(0)
+  })
+
+  it('sums and averages numeric values only', () => {
+    expect(computeAggregate({ fn: 'sum', column: 'rating' }, rows)).toBe(9)
+    expect(computeAggregate({ fn: 'avg', column: 'rating' }, rows)).toBe(4.5)
+    expect(computeAggregate({ fn: 'sum', column: 'rating' }, [])).toBe(0)
+    expect(computeAggregate({ fn: 'avg', column: 'rating' }, [])).toBeNull()
+  })
+
+  it('takes min and max numerically, falling back to text order', () => {
+    expect(computeAggregate({ fn: 'min', column: 'rating' }, rows.slice(0, 3))).toBe('4')
+    expect(computeAggregate({ fn: 'max', column: 'rating' }, rows.slice(0, 3))).toBe(5)
+    expect(computeAggregate({ fn: 'min', column: 'at' }, rows)).toBe('2024-01-15')
+    expect(computeAggregate({ fn: 'max', column: 'at' }, rows)).toBe('2024-03-01')
+    expect(computeAggregate({ fn: 'max', column: 'at' }, [])).toBeNull()
+  })
+
+  it('returns the min or max value as stored', () => {
+    const zips = [{ zip: '10001' }, { zip: '02139' }]
+    expect(computeAggregate({ fn: 'min', column: 'zip' }, zips)).toBe('02139')
+    expect(computeAggregate({ fn: 'max', column: 'code' }, [{ code: '003' }, { code: '007' }])).toBe('007')
+    expect(computeAggregate({ fn: 'max', column: 'id' }, [{ id: 10n ** 18n }, { id: 10n ** 18n + 1n }])).toBe(10n ** 18n + 1n)
+  })
+
+  it('picks the first and last non-blank values in row order', () => {
+    expect(computeAggregate({ fn: 'first', column: 'note' }, rows)).toBe('ok')
+    expect(computeAggregate({ fn: 'last', column: 'at' }, rows)).toBe('2024-02-10')
+  })
+})
+
+describe('aggregatePropertyName', () => {
+  it('derives names from the function and column unless one is given', () => {
+    expect(aggregatePropertyName({ fn: 'count' }, 'reviews')).toBe('reviewsCount')
+    expect(aggregatePropertyName({ fn: 'avg', column: 'rating' }, 'reviews')).toBe('avgRating')
+    expect(aggregatePropertyName({ fn: 'count', column: 'note' }, 'reviews')).toBe('countNote')
+    expect(aggregatePropertyName({ fn: 'count', propertyName: ' reviewCount ' }, 'reviews')).toBe('reviewCount')
+  })
+})
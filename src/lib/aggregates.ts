@@ -0,0 +1,77 @@
+import type { AggregateFunction, RelationshipAggregate } from './types'
+import { compareForSort } from './expression'
+import { isNumericText } from './matchModes'
+
+/**
+ * Aggregate properties: scalars computed from the rows a relationship
+ * matches (after its filter and ordering, before its limit), written onto the
+ * parent document instead of, or next to, the embedded children.
+ */
+
+export const AGGREGATE_FUNCTIONS: { value: AggregateFunction; label: string }[] = [
+  { value: 'count', label: 'Count' },
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+  { value: 'first', label: 'First (by order)' },
+  { value: 'last', label: 'Last (by order)' },
+]
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+/** Numeric value of a cell (numbers, bigints and numeric strings), else undefined. */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined
+  if (typeof value === 'bigint') return Number(value)
+  if (typeof value === 'string' && isNumericText(value)) return Number(value)
+  return undefined
+}
+
+/**
+ * Property an aggregate is written to: its own name, else `<base>Count` for
+ * row counts and `<fn><Column>` (e.g. `avgRating`) for the rest.
+ */
+export function aggregatePropertyName(agg: RelationshipAggregate, base: string): string {
+  if (agg.propertyName?.trim()) return agg.propertyName.trim()
+  if (agg.fn === 'count' && !agg.column) return `${base}Count`
+  const column = agg.column ?? ''
+  return `${agg.fn}${column.charAt(0).toUpperCase()}${column.slice(1)}`
+}
+
+/**
+ * Compute `agg` over `rows`. Counts and sums of nothing are 0; the other
+ * functions yield null when no row has a value. `count` with a column counts
+ * non-blank values, like SQL's COUNT(column); sums and averages skip
+ * non-numeric values; `min`/`max` compare like sorting but return the value
+ * as stored, so codes such as `'02139'` keep their leading zeros;
+ * `first`/`last` follow the order of `rows`.
+ */
+export function computeAggregate(agg: RelationshipAggregate, rows: Record<string, unknown>[]): unknown {
+  if (agg.fn === 'count' && !agg.column) return rows.length
+  const column = agg.column ?? ''
+  const values = rows.map((r) => r[column]).filter((v) => !isBlank(v))
+  switch (agg.fn) {
+    case 'count':
+      return values.length
+    case 'sum':
+    case 'avg': {
+      const numbers = values.map(toNumber).filter((n): n is number => n !== undefined)
+      const sum = numbers.reduce((acc, n) => acc + n, 0)
+      if (agg.fn === 'sum') return sum
+      return numbers.length ? sum / numbers.length : null
+    }
+    case 'min':
+    case 'max': {
+      if (!values.length) return null
+      const sign = agg.fn === 'min' ? 1 : -1
+      return values.reduce((a, b) => (sign * compareForSort(b, a) < 0 ? b : a))
+    }
+    case 'first':
+      return values.length ? values[0] : null
+    case 'last':
+      return values.length ? values[values.length - 1] : null
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { deflateSync } from 'fflate'
+import { readAvro } from './avro'
+import { parseFiles } from './parseFiles'
+
+// Tiny Avro binary encoder for building container files in tests
+const long = (n: number): number[] => {
+  let z = n >= 0 ? n * 2 : -n * 2 - 1
+  const out: number[] = []
+  while (z >= 0x80) {
+    out.push((z % 0x80) | 0x80)
+    z = Math.floor(z / 0x80)
+  }
+  out.push(z)
+  return out
+}
+const str = (s: string) => {
+  const bytes = Array.from(new TextEncoder().encode(s))
+  return [...long(bytes.length), ...bytes]
+}
+const double = (n: number) => {
+  const view = new DataView(new ArrayBuffer(8))
+  view.setFloat64(0, n, true)
+  return Array.from(new Uint8Array(view.buffer))
+}
+
+const schema = {
+  type: 'record',
+  name: 'Customer',
+  namespace: 'shop',
+  fields: [
+    { name: 'id', type: 'long' },
+    { name: 'name', type: ['null', 'string'] },
+    { name: 'address', type: { type: 'record', name: 'Address', fields: [{ name: 'city', type: 'string' }] } },
+    { name: 'billing', type: ['null', 'Address'] },
+    { name: 'tags', type: { type: 'array', items: 'string' } },
+    { name: 'attrs', type: { type: 'map', values: 'double' } },
+    { name: 'tier', type: { type: 'enum', name: 'Tier', symbols: ['FREE', 'PRO'] } },
+    { name: 'joined', type: { type: 'int', logicalType: 'date' } },
+  ],
+}
+
+const records = [
+  [
+    ...long(1), ...long(1), ...str('Ada'), ...str('London'), ...long(1), ...str('Paris'),
+    ...long(2), ...str('vip'), ...str('beta'), ...long(0),
+    ...long(1), ...str('score'), ...double(9.5), ...long(0),
+    ...long(1), ...long(19723),
+  ],
+  [
+    ...long(2), ...long(0), ...str('Rome'), ...long(0),
+    ...long(0),
+    ...long(0),
+    ...long(0), ...long(0),
+  ],
+]
+
+const container = (codec: 'null' | 'deflate') => {
+  const sync = Array.from({ length: 16 }, (_, i) => i + 1)
+  const raw = Uint8Array.from(records.flat())
+  const block = codec === 'deflate' ? Array.from(deflateSync(raw)) : Array.from(raw)
+  return Uint8Array.from([
+    0x4f, 0x62, 0x6a, 0x01,
+    ...long(2), ...str('avro.schema'), ...str(JSON.stringify(schema)), ...str('avro.codec'), ...str(codec), ...long(0),
+    ...sync,
+    ...long(records.length), ...long(block.length), ...block, ...sync,
+  ])
+}
+
+const expectedRows = [
+  { id: 1, name: 'Ada', address: { city: 'London' }, billing: { city: 'Paris' }, tags: ['vip', 'beta'], attrs: { score: 9.5 }, tier: 'PRO', joined: '2024-01-01' },
+  { id: 2, name: null, address: { city: 'Rome' }, billing: null, tags: [], attrs: {}, tier: 'FREE', joined: '1970-01-01' },
+]
+
+describe('avro', () => {
+  it('decodes records with nested records, arrays, maps and named type references', () => {
+    expect(readAvro(container('null')).rows).toEqual(expectedRows)
+  })
+
+  it('inflates deflate-compressed blocks', () => {
+    expect(readAvro(container('deflate')).rows).toEqual(expectedRows)
+  })
+
+  it('reports field types from the writer schema, unwrapping nullable unions', () => {
+    expect(readAvro(container('null')).columnTypes).toEqual({
+      id: { dataType: 'int64' },
+      name: { dataType: 'string' },
+      address: { dataType: 'struct' },
+      billing: { dataType: 'struct' },
+      tags: { dataType: 'list' },
+      attrs: { dataType: 'map' },
+      tier: { dataType: 'string' },
+      joined: { dataType: 'date' },
+    })
+  })
+
+  it('rejects files without the container magic', () => {
+    expect(() => readAvro(new Uint8Array([1, 2, 3, 4]))).toThrow(/bad magic/)
+  })
+
+  it('parseFiles keeps column types and nested values for .avro files', async () => {
+    const { tables, errors } = await parseFiles([new File([container('deflate')], 'customers.avro')])
+    expect(errors).toHaveLength(0)
+    expect(tables[0]).toMatchObject({ name: 'customers', sourceType: 'avro', rows: expectedRows })
+    expect(tables[0].columns).toEqual(['id', 'name', 'address', 'billing', 'tags', 'attrs', 'tier', 'joined'])
+    expect(tables[0].columnTypes?.address).toEqual({ dataType: 'struct', nullable: false })
+    expect(tables[0].sourceText).toBeUndefined()
+  })
+})
@@ -0,0 +1,336 @@
+import { inflateSync, strFromU8 } from 'fflate'
+import { snappyUncompress } from 'hyparquet'
+import type { Row } from './types'
+import { toJsonValue, type ColumnTypes } from './parquet'
+
+/**
+ * Minimal Avro Object Container File reader.
+ *
+ * Layout: magic "Obj\x01", a metadata map (avro.schema, avro.codec), a 16-byte
+ * sync marker, then blocks of [count, byteLength, data, sync]. Supported codecs
+ * are null, deflate and snappy. Records decode to nested objects, arrays to
+ * arrays and maps to objects so nested fields embed unchanged.
+ */
+
+type AvroSchema = string | AvroSchema[] | { type: AvroSchema; [key: string]: unknown }
+
+class Reader {
+  pos = 0
+  readonly bytes: Uint8Array
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes
+  }
+
+  get done() {
+    return this.pos >= this.bytes.length
+  }
+
+  long(): bigint {
+    let n = 0n
+    let shift = 0n
+    let b: number
+    do {
+      if (this.pos >= this.bytes.length) throw new Error('Unexpected end of Avro data')
+      b = this.bytes[this.pos++]
+      n |= BigInt(b & 0x7f) << shift
+      shift += 7n
+    } while (b & 0x80)
+    return (n >> 1n) ^ -(n & 1n)
+  }
+
+  int(): number {
+    return Number(this.long())
+  }
+
+  take(length: number): Uint8Array {
+    if (this.pos + length > this.bytes.length) throw new Error('Unexpected end of Avro data')
+    const out = this.bytes.subarray(this.pos, this.pos + length)
+    this.pos += length
+    return out
+  }
+
+  bytesValue(): Uint8Array {
+    return this.take(this.int())
+  }
+
+  string(): string {
+    return strFromU8(this.bytesValue())
+  }
+
+  float(): number {
+    const b = this.take(4)
+    return new DataView(b.buffer, b.byteOffset, 4).getFloat32(0, true)
+  }
+
+  double(): number {
+    const b = this.take(8)
+    return new DataView(b.buffer, b.byteOffset, 8).getFloat64(0, true)
+  }
+
+  /** Arrays and maps are written as blocks; a negative count is followed by the block's byte size. */
+  blocks(readItem: () => void) {
+    for (;;) {
+      let count = this.int()
+      if (count === 0) return
+      if (count < 0) {
+        count = -count
+        this.long()
+      }
+      for (let i = 0; i < count; i++) readItem()
+    }
+  }
+}
+
+const MAGIC = [0x4f, 0x62, 0x6a, 0x01]
+
+function typeName(schema: AvroSchema): string {
+  if (typeof schema === 'string') return schema
+  if (Array.isArray(schema)) return 'union'
+  return typeof schema.type === 'string' ? schema.type : typeName(schema.type)
+}
+
+function fullName(schema: { [key: string]: unknown }, namespace?: string): string {
+  const name = String(schema.name ?? '')
+  if (name.includes('.')) return name
+  const ns = typeof schema.namespace === 'string' ? schema.namespace : namespace
+  return ns ? `${ns}.${name}` : name
+}
+
+function decimalFromBytes(bytes: Uint8Array, scale: number): number | string {
+  let n = 0n
+  for (const b of bytes) n = (n << 8n) | BigInt(b)
+  if (bytes.length && bytes[0] & 0x80) n -= 1n << BigInt(bytes.length * 8)
+  if (!scale) return toJsonValue(n) as number | string
+  const value = Number(n) / 10 ** scale
+  return Number.isFinite(value) ? value : n.toString()
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Compile a schema into a decoder. Named types (records, enums, fixed) are
+ * registered as they are encountered so later references by name resolve.
+ */
+function compile(schema: AvroSchema, named: Map<string, (r: Reader) => unknown>, namespace?: string): (r: Reader) => unknown {
+  if (typeof schema === 'string') {
+    switch (schema) {
+      case 'null': return () => null
+      case 'boolean': return (r) => r.take(1)[0] !== 0
+      case 'int': return (r) => r.int()
+      case 'long': return (r) => toJsonValue(r.long())
+      case 'float': return (r) => r.float()
+      case 'double': return (r) => r.double()
+      case 'bytes': return (r) => toJsonValue(r.bytesValue().slice())
+      case 'string': return (r) => r.string()
+    }
+    const ref = named.get(schema) ?? (namespace ? named.get(`${namespace}.${schema}`) : undefined)
+    if (!ref) throw new Error(`Unknown Avro type: ${schema}`)
+    return ref
+  }
+  if (Array.isArray(schema)) {
+    const branches = schema.map((s) => compile(s, named, namespace))
+    return (r) => {
+      const branch = branches[r.int()]
+      if (!branch) throw new Error('Invalid Avro union branch')
+      return branch(r)
+    }
+  }
+
+  const logical = schema.logicalType
+  const type = schema.type
+  if (typeof type !== 'string') return compile(type, named, namespace)
+
+  switch (type) {
+    case 'record':
+    case 'error': {
+      const name = fullName(schema, namespace)
+      const ns = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : namespace
+      const fields: { name: string; decode: (r: Reader) => unknown }[] = []
+      const decode = (r: Reader) => {
+        const out: Row = {}
+        for (const f of fields) out[f.name] = f.decode(r)
+        return out
+      }
+      named.set(name, decode)
+      for (const f of (schema.fields as { name: string; type: AvroSchema }[]) ?? []) {
+        fields.push({ name: f.name, decode: compile(f.type, named, ns) })
+      }
+      return decode
+    }
+    case 'enum': {
+      const symbols = (schema.symbols as string[]) ?? []
+      const decode = (r: Reader) => symbols[r.int()] ?? null
+      named.set(fullName(schema, namespace), decode)
+      return decode
+    }
+    case 'fixed': {
+      const size = Number(schema.size ?? 0)
+      const scale = Number(schema.scale ?? 0)
+      const decode = logical === 'decimal'
+        ? (r: Reader) => decimalFromBytes(r.take(size), scale)
+        : logical === 'uuid' && size === 16
+          ? (r: Reader) => bytesToHex(r.take(size)).replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5')
+          : (r: Reader) => toJsonValue(r.take(size).slice())
+      named.set(fullName(schema, namespace), decode)
+      return decode
+    }
+    case 'array': {
+      const item = compile(schema.items as AvroSchema, named, namespace)
+      return (r) => {
+        const out: unknown[] = []
+        r.blocks(() => out.push(item(r)))
+        return out
+      }
+    }
+    case 'map': {
+      const value = compile(schema.values as AvroSchema, named, namespace)
+      return (r) => {
+        const out: Row = {}
+        r.blocks(() => {
+          const key = r.string()
+          out[key] = value(r)
+        })
+        return out
+      }
+    }
+  }
+
+  const base = compile(type, named, namespace)
+  switch (logical) {
+    case 'date':
+      return (r) => new Date(Number(base(r)) * 86400000).toISOString().slice(0, 10)
+    case 'timestamp-millis':
+    case 'local-timestamp-millis':
+      return (r) => new Date(Number(base(r))).toISOString()
+    case 'timestamp-micros':
+    case 'local-timestamp-micros':
+      return (r) => new Date(Math.floor(Number(base(r)) / 1000)).toISOString()
+    case 'decimal':
+      if (type === 'bytes') {
+        const scale = Number(schema.scale ?? 0)
+        return (r) => decimalFromBytes(r.bytesValue(), scale)
+      }
+  }
+  return base
+}
+
+function logicalTypeName(schema: { [key: string]: unknown }): string | undefined {
+  switch (schema.logicalType) {
+    case 'date': return 'date'
+    case 'time-millis':
+    case 'time-micros': return 'time'
+    case 'timestamp-millis':
+    case 'timestamp-micros':
+    case 'local-timestamp-millis':
+    case 'local-timestamp-micros': return 'timestamp'
+    case 'uuid': return 'uuid'
+    case 'decimal': return `decimal(${Number(schema.precision ?? 0)},${Number(schema.scale ?? 0)})`
+  }
+  return undefined
+}
+
+/** Collect named types (records, enums, fixed) by full and short name so references can be described. */
+function collectNamed(schema: AvroSchema, out: Map<string, AvroSchema>, namespace?: string) {
+  if (typeof schema === 'string') return
+  if (Array.isArray(schema)) return schema.forEach((s) => collectNamed(s, out, namespace))
+  const type = schema.type
+  if (typeof type !== 'string') return collectNamed(type, out, namespace)
+  let ns = namespace
+  if (type === 'record' || type === 'error' || type === 'enum' || type === 'fixed') {
+    const name = fullName(schema, namespace)
+    out.set(name, schema)
+    out.set(name.slice(name.lastIndexOf('.') + 1), schema)
+    if (name.includes('.')) ns = name.slice(0, name.lastIndexOf('.'))
+  }
+  for (const f of (schema.fields as { type: AvroSchema }[] | undefined) ?? []) collectNamed(f.type, out, ns)
+  if (schema.items) collectNamed(schema.items as AvroSchema, out, ns)
+  if (schema.values) collectNamed(schema.values as AvroSchema, out, ns)
+}
+
+/** Describe a field schema as a column type; a ["null", T] union reports T. */
+function describe(schema: AvroSchema, named: Map<string, AvroSchema>): string {
+  if (Array.isArray(schema)) {
+    const nonNull = schema.filter((s) => s !== 'null')
+    return nonNull.length === 1 ? describe(nonNull[0], named) : 'union'
+  }
+  if (typeof schema === 'string' && named.has(schema)) return describe(named.get(schema)!, named)
+  if (typeof schema !== 'string') {
+    const logical = logicalTypeName(schema)
+    if (logical) return logical
+  }
+  switch (typeName(schema)) {
+    case 'record':
+    case 'error': return 'struct'
+    case 'array': return 'list'
+    case 'int': return 'int32'
+    case 'long': return 'int64'
+    case 'bytes':
+    case 'fixed': return 'binary'
+    case 'enum': return 'string'
+    default: return typeName(schema)
+  }
+}
+
+function decompressBlock(codec: string, data: Uint8Array): Uint8Array {
+  if (codec === 'null') return data
+  if (codec === 'deflate') return inflateSync(data)
+  if (codec === 'snappy') {
+    // Snappy blocks carry a 4-byte CRC32 trailer; the payload starts with a varint of the raw length
+    const payload = data.subarray(0, data.length - 4)
+    let length = 0
+    let shift = 0
+    for (let i = 0; i < payload.length && i < 5; i++) {
+      length |= (payload[i] & 0x7f) << shift
+      if (!(payload[i] & 0x80)) break
+      shift += 7
+    }
+    const out = new Uint8Array(length)
+    snappyUncompress(payload, out)
+    return out
+  }
+  throw new Error(`Unsupported Avro codec: ${codec}`)
+}
+
+/** Read an Avro container file into rows plus the column types from its writer schema. */
+export function readAvro(bytes: Uint8Array): { rows: Row[]; columnTypes: ColumnTypes } {
+  const reader = new Reader(bytes)
+  if (!MAGIC.every((b, i) => bytes[i] === b)) throw new Error('Not an Avro container file (bad magic)')
+  reader.pos = MAGIC.length
+
+  const meta: Record<string, string> = {}
+  reader.blocks(() => {
+    const key = reader.string()
+    meta[key] = reader.string()
+  })
+  const sync = reader.take(16).slice()
+  if (!meta['avro.schema']) throw new Error('Avro file has no embedded schema')
+  const schema = JSON.parse(meta['avro.schema']) as AvroSchema
+  const codec = meta['avro.codec'] || 'null'
+  const decode = compile(schema, new Map())
+
+  const named = new Map<string, AvroSchema>()
+  collectNamed(schema, named)
+  const columnTypes: ColumnTypes = {}
+  const isRecord = typeof schema === 'object' && !Array.isArray(schema) && (schema.type === 'record' || schema.type === 'error')
+  if (isRecord) {
+    for (const f of (schema.fields as { name: string; type: AvroSchema }[]) ?? []) columnTypes[f.name] = { dataType: describe(f.type, named) }
+  } else {
+    columnTypes.value = { dataType: describe(schema, named) }
+  }
+
+  const rows: Row[] = []
+  while (!reader.done) {
+    const count = Number(reader.long())
+    const size = Number(reader.long())
+    const block = new Reader(decompressBlock(codec, reader.take(size)))
+    for (let i = 0; i < count; i++) {
+      const value = decode(block)
+      rows.push(isRecord ? (value as Row) : { value })
+    }
+    const marker = reader.take(16)
+    if (!marker.every((b, i) => b === sync[i])) throw new Error('Avro sync marker mismatch (corrupt file)')
+  }
+  return { rows, columnTypes }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_PRICES, operationRu, patternOpsPerSecond, patternTableName, planCapacity, shapesStorageGb, type DocumentShape } from './capacity'
+import type { QueryPattern } from './advisorTypes'
+import { estimateQueryRU, estimateReadPointRU, estimateWriteRU } from './ru'
+
+const small: DocumentShape = { sizeBytes: 512, numProperties: 5, documents: 1000 }
+const pointReads = (opsPerSecond: number): QueryPattern => ({ name: 'Get order', type: 'point-read', frequency: 'hot', description: '', opsPerSecond })
+const plan = (opsPerSecond: number, overrides: { peakShare?: number; regions?: number; storageGb?: number } = {}) =>
+  planCapacity({
+    operations: [{ pattern: pointReads(opsPerSecond), shape: small }],
+    storageGb: overrides.storageGb ?? 0,
+    regions: overrides.regions ?? 1,
+    peakShare: overrides.peakShare ?? 0.25,
+    prices: DEFAULT_PRICES,
+  })
+const option = (p: ReturnType<typeof planCapacity>, mode: string) => p.options.find((o) => o.mode === mode)!
+
+describe('capacity planner', () => {
+  it('uses the entered rate, else the frequency default', () => {
+    expect(patternOpsPerSecond(pointReads(42))).toBe(42)
+    expect(patternOpsPerSecond({ name: 'x', type: 'query', frequency: 'cold', description: '' })).toBe(0.1)
+  })
+
+  it('finds the table a pattern filters or sorts on', () => {
+    expect(patternTableName({ name: 'x', type: 'query', frequency: 'warm', description: '', filters: ['status'], sortFields: ['Orders.OrderDate'] })).toBe('Orders')
+    expect(patternTableName({ name: 'x', type: 'query', frequency: 'warm', description: '', filters: ['status'] })).toBeUndefined()
+  })
+
+  it('prices each operation type with the RU models', () => {
+    const shape: DocumentShape = { sizeBytes: 2048, numProperties: 12, documents: 1 }
+    expect(operationRu('point-read', undefined, shape)).toBe(estimateReadPointRU(2048))
+    expect(operationRu('query', 'large', shape)).toBe(estimateQueryRU(2048 * 100))
+    expect(operationRu('query', undefined, shape)).toBe(estimateQueryRU(2048 * 10))
+    expect(operationRu('write', undefined, shape)).toBe(estimateWriteRU(2048, 12))
+    expect(operationRu('delete', undefined, shape)).toBe(operationRu('write', undefined, shape))
+  })
+
+  it('bills provisioned, autoscale and serverless throughput for the month', () => {
+    const p = plan(1000)
+    expect(p.peakRuPerSecond).toBe(1000)
+    expect(p.averageRuPerSecond).toBeCloseTo(325)
+    expect(option(p, 'provisioned')).toMatchObject({ ruPerSecond: 1000, feasible: true })
+    expect(option(p, 'provisioned').throughputCost).toBeCloseTo(10 * 0.008 * 730)
+    // a quarter of the hours at the max, the rest at the 10% floor
+    expect(option(p, 'autoscale').throughputCost).toBeCloseTo(10 * 0.012 * 730 * 0.325)
+    expect(option(p, 'serverless').throughputCost).toBeCloseTo(325 * 3600 * 730 / 1e6 * 0.25)
+    expect(p.recommended).toBe('autoscale')
+  })
+
+  it('recommends provisioned throughput for steady load and serverless for light load', () => {
+    expect(plan(1000, { peakShare: 1 }).recommended).toBe('provisioned')
+    const light = plan(1)
+    expect(option(light, 'provisioned').ruPerSecond).toBe(400)
+    expect(option(light, 'autoscale').ruPerSecond).toBe(1000)
+    expect(light.recommended).toBe('serverless')
+  })
+
+  it('rules out serverless beyond its limits', () => {
+    expect(option(plan(6000), 'serverless')).toMatchObject({ feasible: false, note: 'Peak above 5000 RU/s' })
+    expect(option(plan(1, { regions: 2 }), 'serverless').feasible).toBe(false)
+    expect(option(plan(1, { storageGb: 2000 }), 'serverless').feasible).toBe(false)
+    expect(plan(1, { regions: 2 }).recommended).not.toBe('serverless')
+  })
+
+  it('bills storage in every region', () => {
+    const p = plan(1000, { regions: 2, storageGb: 10 })
+    expect(option(p, 'provisioned').storageCost).toBeCloseTo(10 * 0.25 * 2)
+    expect(option(p, 'provisioned').throughputCost).toBeCloseTo(10 * 0.008 * 730 * 2)
+    expect(option(p, 'provisioned').totalCost).toBeCloseTo(5 + 116.8)
+  })
+
+  it('recommends nothing without patterns', () => {
+    const p = planCapacity({ operations: [], storageGb: 1, regions: 1, peakShare: 0.25, prices: DEFAULT_PRICES })
+    expect(p.peakRuPerSecond).toBe(0)
+    expect(p.recommended).toBeNull()
+  })
+
+  it('measures storage from the shapes', () => {
+    expect(shapesStorageGb([{ sizeBytes: 1024, numProperties: 3, documents: 1024 * 1024 }, small])).toBeCloseTo(1 + 512 * 1000 / 1024 ** 3)
+  })
+})
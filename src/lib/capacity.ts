@@ -0,0 +1,182 @@
+import type { OperationFrequency, OperationType, QueryPattern, ResultSize } from './advisorTypes'
+import { estimateQueryRU, estimateReadPointRU, estimateWriteRU } from './ru'
+
+/**
+ * Capacity planner: turns query patterns into RU/s and a monthly cost for each
+ * throughput mode, following the method of the Cosmos DB capacity calculator
+ * (https://cosmos.azure.com/capacitycalculator/):
+ *
+ * - RU/s at peak = Σ operations per second × RU per operation, with RU per
+ *   operation from the ru.ts models applied to the pattern's document shape.
+ * - Provisioned throughput is billed per 100 RU/s-hour for the peak, rounded
+ *   up to 100 RU/s with a 400 RU/s minimum.
+ * - Autoscale is billed at 1.5× the provisioned rate for the highest RU/s
+ *   reached each hour, between 10% of its max (a multiple of 1000 RU/s) and the
+ *   max, so hours off peak bill at the 10% floor.
+ * - Serverless bills consumed RU per million, but caps a container at
+ *   5000 RU/s and 1 TB and runs in a single region.
+ * - Storage is billed per GB-month, per region.
+ *
+ * Off-peak traffic is assumed to be 10% of peak.
+ */
+
+export type ThroughputMode = 'provisioned' | 'autoscale' | 'serverless'
+
+/** Prices in the account's currency; defaults are US list prices for a single-region write account. */
+export interface PriceTable {
+  provisionedPer100RuHour: number
+  autoscalePer100RuHour: number
+  serverlessPerMillionRu: number
+  storagePerGbMonth: number
+}
+
+export const DEFAULT_PRICES: PriceTable = {
+  provisionedPer100RuHour: 0.008,
+  autoscalePer100RuHour: 0.012,
+  serverlessPerMillionRu: 0.25,
+  storagePerGbMonth: 0.25,
+}
+
+export const HOURS_PER_MONTH = 730
+const OFF_PEAK_LOAD = 0.1
+const AUTOSCALE_FLOOR = 0.1
+const PROVISIONED_MIN_RU = 400
+const AUTOSCALE_MIN_MAX_RU = 1000
+const SERVERLESS_MAX_RU = 5000
+const SERVERLESS_MAX_GB = 1000
+
+/** Operations per second assumed for a pattern until one is entered. */
+export const DEFAULT_OPS_PER_SECOND: Record<OperationFrequency, number> = { hot: 100, warm: 10, cold: 0.1 }
+
+/** Documents a query is assumed to return. */
+export const RESULT_SIZE_DOCUMENTS: Record<ResultSize, number> = { single: 1, small: 10, large: 100 }
+
+/** Typical document of a root: average size and top-level property count. */
+export interface DocumentShape {
+  sizeBytes: number
+  numProperties: number
+  documents: number // documents the root holds, for storage
+}
+
+/** Planner settings kept with the project. */
+export interface CapacitySettings {
+  regions: number
+  peakShare: number
+  storageGb?: number // overrides the storage measured from the documents
+}
+
+export const DEFAULT_CAPACITY_SETTINGS: CapacitySettings = { regions: 1, peakShare: 0.25 }
+
+export interface CapacityInputs {
+  operations: { pattern: QueryPattern; shape: DocumentShape }[]
+  storageGb: number
+  regions: number
+  peakShare: number // share of the month's hours at peak load, 0–1
+  prices: PriceTable
+}
+
+export interface OperationLoad {
+  name: string
+  type: OperationType
+  opsPerSecond: number
+  ruPerOperation: number
+  ruPerSecond: number
+}
+
+export interface ThroughputOption {
+  mode: ThroughputMode
+  ruPerSecond: number // provisioned RU/s, autoscale max RU/s, or serverless peak
+  throughputCost: number
+  storageCost: number
+  totalCost: number
+  feasible: boolean
+  note?: string
+}
+
+export interface CapacityPlan {
+  loads: OperationLoad[]
+  peakRuPerSecond: number
+  averageRuPerSecond: number
+  options: ThroughputOption[]
+  recommended: ThroughputMode | null
+}
+
+/** A pattern's rate: the entered operations per second, else its frequency's default. */
+export function patternOpsPerSecond(pattern: QueryPattern): number {
+  return pattern.opsPerSecond ?? DEFAULT_OPS_PER_SECOND[pattern.frequency]
+}
+
+/** Table a pattern is about: the first `Table.column` in its filters or sort fields. */
+export function patternTableName(pattern: QueryPattern): string | undefined {
+  for (const field of [...(pattern.filters ?? []), ...(pattern.sortFields ?? [])]) {
+    const dot = field.lastIndexOf('.')
+    if (dot > 0) return field.slice(0, dot).trim()
+  }
+  return undefined
+}
+
+/**
+ * RU of one operation on documents of `shape`. Queries are charged for every
+ * document they return; deletes cost about as much as writing the document.
+ */
+export function operationRu(type: OperationType, resultSize: ResultSize | undefined, shape: DocumentShape): number {
+  switch (type) {
+    case 'point-read':
+      return estimateReadPointRU(shape.sizeBytes)
+    case 'query':
+      return estimateQueryRU(shape.sizeBytes * RESULT_SIZE_DOCUMENTS[resultSize ?? 'small'])
+    case 'write':
+    case 'delete':
+      return estimateWriteRU(shape.sizeBytes, shape.numProperties)
+  }
+}
+
+/** Storage the shapes' documents take, in GB. */
+export function shapesStorageGb(shapes: DocumentShape[]): number {
+  return shapes.reduce((acc, s) => acc + s.sizeBytes * s.documents, 0) / 1024 ** 3
+}
+
+export function planCapacity(inputs: CapacityInputs): CapacityPlan {
+  const { prices } = inputs
+  const regions = Math.max(1, Math.round(inputs.regions))
+  const peakShare = Math.min(1, Math.max(0, inputs.peakShare))
+  const loads = inputs.operations.map(({ pattern, shape }) => {
+    const opsPerSecond = Math.max(0, patternOpsPerSecond(pattern))
+    const ruPerOperation = operationRu(pattern.type, pattern.resultSize, shape)
+    return { name: pattern.name, type: pattern.type, opsPerSecond, ruPerOperation, ruPerSecond: opsPerSecond * ruPerOperation }
+  })
+  const peakRuPerSecond = loads.reduce((acc, l) => acc + l.ruPerSecond, 0)
+  const averageRuPerSecond = peakRuPerSecond * (peakShare + (1 - peakShare) * OFF_PEAK_LOAD)
+  const storageCost = inputs.storageGb * prices.storagePerGbMonth * regions
+
+  const provisionedRu = Math.max(PROVISIONED_MIN_RU, Math.ceil(peakRuPerSecond / 100) * 100)
+  const provisionedCost = (provisionedRu / 100) * prices.provisionedPer100RuHour * HOURS_PER_MONTH * regions
+
+  const autoscaleMax = Math.max(AUTOSCALE_MIN_MAX_RU, Math.ceil(peakRuPerSecond / 1000) * 1000)
+  const billedShare = peakShare + (1 - peakShare) * Math.max(AUTOSCALE_FLOOR, peakRuPerSecond * OFF_PEAK_LOAD / autoscaleMax)
+  const autoscaleCost = (autoscaleMax / 100) * prices.autoscalePer100RuHour * HOURS_PER_MONTH * billedShare * regions
+
+  const monthlyRu = averageRuPerSecond * 3600 * HOURS_PER_MONTH
+  const serverlessCost = (monthlyRu / 1e6) * prices.serverlessPerMillionRu * regions
+  const serverlessNote = peakRuPerSecond > SERVERLESS_MAX_RU ? `Peak above ${SERVERLESS_MAX_RU} RU/s`
+    : inputs.storageGb > SERVERLESS_MAX_GB ? 'Storage above 1 TB'
+      : regions > 1 ? 'Single region only'
+        : undefined
+
+  const option = (mode: ThroughputMode, ruPerSecond: number, throughputCost: number, note?: string): ThroughputOption => ({
+    mode,
+    ruPerSecond,
+    throughputCost,
+    storageCost,
+    totalCost: throughputCost + storageCost,
+    feasible: !note,
+    ...(note ? { note } : {}),
+  })
+  const options = [
+    option('provisioned', provisionedRu, provisionedCost),
+    option('autoscale', autoscaleMax, autoscaleCost),
+    option('serverless', Math.ceil(peakRuPerSecond), serverlessCost, serverlessNote),
+  ]
+  const cheapest = options.filter((o) => o.feasible).sort((a, b) => a.totalCost - b.totalCost)[0]
+  return { loads, peakRuPerSecond, averageRuPerSecond, options, recommended: loads.length && cheapest ? cheapest.mode : null }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { createDocumentValidator, describeDocumentIssues, documentSettingsError, fillTemplate, partitionKeyValues, renameTemplateColumn, shapeDocument, type DocumentSettings } from './documentSettings'
+
+const row = { orderId: 7, tenantId: 't1', region: 'eu', customerId: 'c9', note: null }
+const built = { Orders: { orderId: 7, customerId: 'c9', lines: [{ sku: 'A' }] } }
+
+describe('fillTemplate', () => {
+  it('fills placeholders from the row and blanks missing values', () => {
+    expect(fillTemplate('order-{orderId}', row)).toBe('order-7')
+    expect(fillTemplate('{tenantId}|{ region }|{note}|{missing}', row)).toBe('t1|eu||')
+  })
+
+  it('renames placeholders', () => {
+    expect(renameTemplateColumn('{tenantId}-{ tenantId }-{region}', 'tenantId', 'tenant')).toBe('{tenant}-{tenant}-{region}')
+  })
+})
+
+describe('shapeDocument', () => {
+  it('returns the document untouched without settings', () => {
+    expect(shapeDocument(built, 'Orders', row, undefined)).toBe(built)
+  })
+
+  it('puts the id and type first and keeps the wrapper by default', () => {
+    const doc = shapeDocument(built, 'Orders', row, { tableId: 'o', idSource: 'column', idColumn: 'orderId', typeValue: 'order' })
+    expect(doc).toEqual({ id: '7', type: 'order', Orders: built.Orders })
+    expect(Object.keys(doc)).toEqual(['id', 'type', 'Orders'])
+  })
+
+  it('unwraps the root object and overrides an existing id', () => {
+    const doc = shapeDocument({ Orders: { id: 1, name: 'x' } }, 'Orders', row, { tableId: 'o', idSource: 'template', idTemplate: 'order-{orderId}', unwrap: true, typeProperty: 'kind', typeValue: 'order' })
+    expect(doc).toEqual({ id: 'order-7', kind: 'order', name: 'x' })
+    expect(Object.keys(doc)).toEqual(['id', 'kind', 'name'])
+  })
+
+  it('generates GUID ids', () => {
+    const doc = shapeDocument(built, 'Orders', row, { tableId: 'o', idSource: 'guid' })
+    expect(doc.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+  })
+
+  it('writes synthetic and hierarchical partition key values', () => {
+    const settings: DocumentSettings = {
+      tableId: 'o',
+      unwrap: true,
+      partitionKey: [{ path: '/tenantId', template: '{tenantId}' }, { path: '/pk/regionCustomer', template: '{region}-{customerId}' }, { path: '/customerId' }],
+    }
+    const doc = shapeDocument(built, 'Orders', row, settings)
+    expect(doc.pk).toEqual({ regionCustomer: 'eu-c9' })
+    expect(partitionKeyValues(doc, settings)).toEqual(['t1', 'eu-c9', 'c9'])
+  })
+})
+
+describe('documentSettingsError', () => {
+  const columns = Object.keys(row)
+
+  it('accepts complete settings', () => {
+    expect(documentSettingsError({ tableId: 'o', idSource: 'template', idTemplate: '{orderId}', partitionKey: [{ path: '/customerId' }] }, columns)).toBeNull()
+  })
+
+  it('names what is missing or wrong', () => {
+    expect(documentSettingsError({ tableId: 'o', idSource: 'column' }, columns)).toMatch(/column the id/)
+    expect(documentSettingsError({ tableId: 'o', idSource: 'template', idTemplate: ' ' }, columns)).toMatch(/id template/)
+    expect(documentSettingsError({ tableId: 'o', partitionKey: [{ path: 'customerId' }] }, columns)).toMatch(/must start with \//)
+    expect(documentSettingsError({ tableId: 'o', partitionKey: [{ path: '/a' }, { path: '/b' }, { path: '/c' }, { path: '/d' }] }, columns)).toMatch(/at most 3/)
+    expect(documentSettingsError({ tableId: 'o', partitionKey: [{ path: '/pk', template: '{tenant}' }] }, columns)).toBe('Unknown column {tenant} in template "{tenant}"')
+  })
+})
+
+describe('createDocumentValidator', () => {
+  const settings: DocumentSettings = { tableId: 'o', idSource: 'column', idColumn: 'orderId', partitionKey: [{ path: '/customerId' }] }
+
+  it('reports invalid, duplicate and partition-key problems per row', () => {
+    const validator = createDocumentValidator(settings)
+    validator.check({ id: '1', customerId: 'a' }, 0)
+    validator.check({ id: '1', customerId: 'b' }, 1)
+    validator.check({ id: '1', customerId: 'a' }, 2)
+    validator.check({ id: '', customerId: 'a' }, 3)
+    validator.check({ id: 'a/b', customerId: { x: 1 } }, 4)
+    validator.check({ id: '5' }, 5)
+    expect(validator.issues).toEqual([
+      { rowIndex: 2, message: 'id "1" repeats within partition ["a"]' },
+      { rowIndex: 3, message: 'id is empty' },
+      { rowIndex: 4, message: 'partition key /customerId is an object, not a string, number or boolean' },
+      { rowIndex: 4, message: 'id "a/b" contains one of / \\ ? #' },
+      { rowIndex: 5, message: 'partition key /customerId is missing' },
+    ])
+    expect(validator.count).toBe(5)
+  })
+
+  it('flags documents above the 2 MB item limit and caps the issues kept', () => {
+    const validator = createDocumentValidator({ tableId: 'o', idSource: 'guid' })
+    validator.check({ id: 'big', blob: 'x'.repeat(2 * 1024 * 1024) }, 0)
+    expect(validator.issues[0].message).toMatch(/above the 2 MB item limit/)
+    for (let i = 1; i <= 30; i++) validator.check({ id: '' }, i)
+    expect(validator.issues).toHaveLength(20)
+    expect(validator.count).toBe(31)
+    const { message, detail } = describeDocumentIssues('Orders', validator.issues, validator.count)
+    expect(message).toBe('Orders: 31 documents failed Cosmos DB validation')
+    expect(detail.split('\n').pop()).toBe('…and 11 more')
+  })
+})
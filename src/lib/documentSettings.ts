@@ -0,0 +1,194 @@
+/**
+ * Per-document-root export settings that make documents importable into
+ * Cosmos DB as-is: an `id`, partition key values (including synthetic and
+ * hierarchical keys), an optional type discriminator, and whether the root
+ * object is unwrapped from its `{ [tableName]: ... }` wrapper.
+ *
+ * Templates fill `{column}` placeholders from the root table's source row, so
+ * `{tenantId}-{orderId}` works even for columns left out of the document.
+ */
+
+import { MAX_DOCUMENT_BYTES } from './ru'
+
+export type DocumentIdSource = 'column' | 'template' | 'guid'
+
+export interface PartitionKeyLevel {
+  path: string        // e.g. "/customerId" or "/address/city"
+  template?: string   // synthesise the value, e.g. "{tenantId}|{region}"
+}
+
+export interface DocumentSettings {
+  tableId: string
+  idSource?: DocumentIdSource       // unset: documents get no id
+  idColumn?: string
+  idTemplate?: string
+  partitionKey?: PartitionKeyLevel[] // one level, or up to three for a hierarchical key
+  unwrap?: boolean
+  typeProperty?: string             // defaults to "type"
+  typeValue?: string                // discriminator value; unset adds none
+}
+
+export interface DocumentIssue {
+  rowIndex: number
+  message: string
+}
+
+/** Cosmos DB limits the validator checks against. */
+export const MAX_PARTITION_KEY_LEVELS = 3
+const MAX_ID_LENGTH = 255
+const INVALID_ID_CHARS = /[/\\?#]/
+const MAX_REPORTED_ISSUES = 20
+
+const PLACEHOLDER_RE = /\{([^{}]+)\}/g
+
+/** Fill `{column}` placeholders from `row`; blank values become ''. */
+export function fillTemplate(template: string, row: Record<string, unknown>): string {
+  return template.replace(PLACEHOLDER_RE, (_, column: string) => {
+    const value = row[column.trim()]
+    return value === null || value === undefined ? '' : String(value)
+  })
+}
+
+/** Columns a template reads. */
+export function templateColumns(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER_RE)].map((m) => m[1].trim())
+}
+
+/** Split a partition key path (`/address/city`) into property names. */
+export function partitionKeySegments(path: string): string[] {
+  return path.split('/').map((s) => s.trim()).filter(Boolean)
+}
+
+function readPath(doc: Record<string, unknown>, segments: string[]): unknown {
+  let value: unknown = doc
+  for (const segment of segments) {
+    value = value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>)[segment] : undefined
+  }
+  return value
+}
+
+function writePath(doc: Record<string, unknown>, segments: string[], value: unknown) {
+  let target = doc
+  for (const segment of segments.slice(0, -1)) {
+    const next = target[segment]
+    if (next === null || typeof next !== 'object' || Array.isArray(next)) target[segment] = {}
+    target = target[segment] as Record<string, unknown>
+  }
+  target[segments[segments.length - 1]] = value
+}
+
+/** Why the settings themselves cannot work, or null when they can. */
+export function documentSettingsError(settings: DocumentSettings, columns: string[]): string | null {
+  if (settings.idSource === 'column' && (!settings.idColumn || !columns.includes(settings.idColumn))) return 'Choose the column the id comes from'
+  if (settings.idSource === 'template' && !settings.idTemplate?.trim()) return 'Enter an id template, e.g. order-{id}'
+  const levels = settings.partitionKey ?? []
+  if (levels.length > MAX_PARTITION_KEY_LEVELS) return `Partition keys have at most ${MAX_PARTITION_KEY_LEVELS} levels`
+  for (const level of levels) {
+    if (!level.path.trim().startsWith('/') || !partitionKeySegments(level.path).length) return `Partition key path "${level.path}" must start with /, e.g. /customerId`
+  }
+  for (const template of [settings.idSource === 'template' ? settings.idTemplate ?? '' : '', ...levels.map((l) => l.template ?? '')]) {
+    const unknown = templateColumns(template).find((c) => !columns.includes(c))
+    if (unknown) return `Unknown column {${unknown}} in template "${template}"`
+  }
+  return null
+}
+
+/**
+ * Shape a built document (`{ [tableName]: {...} }`) for export: unwrap it when
+ * asked, then put the id and type discriminator first and write synthetic
+ * partition key values. `source` is the root table row the document was built
+ * from.
+ */
+export function shapeDocument(
+  doc: Record<string, unknown>,
+  tableName: string,
+  source: Record<string, unknown>,
+  settings: DocumentSettings | undefined,
+): Record<string, unknown> {
+  if (!settings) return doc
+  const body = settings.unwrap && doc[tableName] !== null && typeof doc[tableName] === 'object'
+    ? (doc[tableName] as Record<string, unknown>)
+    : doc
+  const head: Record<string, unknown> = {}
+  const id = settings.idSource === 'column' ? source[settings.idColumn ?? '']
+    : settings.idSource === 'template' ? fillTemplate(settings.idTemplate ?? '', source)
+      : settings.idSource === 'guid' ? crypto.randomUUID()
+        : undefined
+  if (settings.idSource) head.id = id === null || id === undefined ? '' : String(id)
+  const typeProperty = settings.typeProperty?.trim() || 'type'
+  if (settings.typeValue) head[typeProperty] = settings.typeValue
+  const out: Record<string, unknown> = { ...head, ...body, ...head }
+  for (const level of settings.partitionKey ?? []) {
+    const segments = partitionKeySegments(level.path)
+    if (level.template && segments.length) writePath(out, segments, fillTemplate(level.template, source))
+  }
+  return out
+}
+
+/** Values at partition key `paths` of a shaped document, one per level. */
+export function readPartitionKey(doc: Record<string, unknown>, paths: string[]): unknown[] {
+  return paths.map((path) => readPath(doc, partitionKeySegments(path)))
+}
+
+/** Partition key values of a shaped document, one per level. */
+export function partitionKeyValues(doc: Record<string, unknown>, settings: DocumentSettings): unknown[] {
+  return readPartitionKey(doc, (settings.partitionKey ?? []).map((level) => level.path))
+}
+
+/**
+ * Check shaped documents against the settings and Cosmos DB's item rules:
+ * ids are non-empty strings of at most 255 characters without / \ ? #, unique
+ * within their logical partition; partition key values exist and are scalars;
+ * documents stay under 2 MB. Keeps the first few issues and counts the rest.
+ */
+export function createDocumentValidator(settings: DocumentSettings) {
+  const seen = new Set<string>()
+  const issues: DocumentIssue[] = []
+  let count = 0
+  const report = (rowIndex: number, message: string) => {
+    count++
+    if (issues.length < MAX_REPORTED_ISSUES) issues.push({ rowIndex, message })
+  }
+  return {
+    issues,
+    /** Issues found so far, including those not kept in `issues`. */
+    get count() {
+      return count
+    },
+    check(doc: Record<string, unknown>, rowIndex: number, serialized = JSON.stringify(doc)) {
+      const keys = partitionKeyValues(doc, settings)
+      keys.forEach((value, i) => {
+        const path = settings.partitionKey![i].path
+        if (value === undefined || value === null || value === '') report(rowIndex, `partition key ${path} is missing`)
+        else if (typeof value === 'object') report(rowIndex, `partition key ${path} is ${Array.isArray(value) ? 'an array' : 'an object'}, not a string, number or boolean`)
+      })
+      if (settings.idSource) {
+        const id = doc.id
+        if (typeof id !== 'string' || !id) report(rowIndex, 'id is empty')
+        else if (id.length > MAX_ID_LENGTH) report(rowIndex, `id is longer than ${MAX_ID_LENGTH} characters`)
+        else if (INVALID_ID_CHARS.test(id)) report(rowIndex, `id "${id}" contains one of / \\ ? #`)
+        else {
+          const key = JSON.stringify([keys, id])
+          if (seen.has(key)) report(rowIndex, `id "${id}" repeats${keys.length ? ` within partition ${JSON.stringify(keys)}` : ''}`)
+          seen.add(key)
+        }
+      }
+      const bytes = new TextEncoder().encode(serialized).length
+      if (bytes > MAX_DOCUMENT_BYTES) report(rowIndex, `document is ${Math.round(bytes / 1024)} KB, above the 2 MB item limit`)
+    },
+  }
+}
+
+/** Point a template's `{current}` placeholders at `next`. */
+export function renameTemplateColumn(template: string, current: string, next: string): string {
+  return template.replace(PLACEHOLDER_RE, (m, column: string) => (column.trim() === current ? `{${next}}` : m))
+}
+
+/** Summary line and per-row detail for the issues an export found. */
+export function describeDocumentIssues(tableName: string, issues: DocumentIssue[], count: number): { message: string; detail: string } {
+  const more = count - issues.length
+  return {
+    message: `${tableName}: ${count} document${count === 1 ? '' : 's'} failed Cosmos DB validation`,
+    detail: [...issues.map((i) => `row ${i.rowIndex}: ${i.message}`), ...(more > 0 ? [`…and ${more} more`] : [])].join('\n'),
+  }
+}
@@ -1,4 +1,5 @@
 import { describe, it, expect } from 'vitest'
+import type { Edge } from 'reactflow'
 import type { TableData } from './types'
 import { generateDummyRowsForSchema } from './dummyData'
 
@@ -26,4 +27,18 @@ describe('generateDummyRowsForSchema', () => {
       expect(parentIds.has(r.ParentId)).toBe(true)
     })
   })
+
+  it('keeps composite foreign keys pointing at a single parent row', async () => {
+    const parent = makeTable('parent', ['TenantId', 'OrderId'], ['TenantId', 'OrderId'], { TenantId: { dataType: 'int' }, OrderId: { dataType: 'int' } })
+    const child = makeTable('child', ['Id', 'TenantId', 'OrderId'], ['Id'], { TenantId: { dataType: 'int' }, OrderId: { dataType: 'int' } })
+    const edges = [{
+      id: 'e1', source: 'child', target: 'parent', sourceHandle: 'OrderId', targetHandle: 'OrderId',
+      data: { additionalColumns: [{ sourceColumn: 'TenantId', targetColumn: 'TenantId' }] },
+    } as Edge]
+    const [pOut, cOut] = await generateDummyRowsForSchema([parent, child], edges, 8)
+    const parentKeys = new Set(pOut.rows.map((r) => `${r.TenantId}|${r.OrderId}`))
+    cOut.rows.forEach((r) => {
+      expect(parentKeys.has(`${r.TenantId}|${r.OrderId}`)).toBe(true)
+    })
+  })
 })
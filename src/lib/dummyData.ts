@@ -1,11 +1,12 @@
 import type { Edge } from 'reactflow'
-import type { TableData } from './types'
+import type { TableData, ColumnPair } from './types'
+import { edgeColumnPairs } from './join'
 
 const randInt = (faker: any, min: number, max: number) => faker.number.int({ min, max })
 
 function genValue(faker: any, type?: string, maxLength?: number, scale?: number) {
   const t = (type ?? '').toLowerCase()
-  if (t.includes('uniqueidentifier')) return faker.string.uuid()
+  if (t.includes('uniqueidentifier') || t === 'guid' || t === 'uuid') return faker.string.uuid()
   if (t === 'int' || t === 'integer') return randInt(faker, 1, 1_000_000)
   if (t === 'bigint') return randInt(faker, 1, 9_000_000)
   if (t === 'smallint' || t === 'tinyint') return randInt(faker, 1, 1000)
@@ -14,8 +15,8 @@ function genValue(faker: any, type?: string, maxLength?: number, scale?: number)
     const factor = Math.pow(10, s)
     return faker.number.float({ min: 0, max: 10000, multipleOf: 1 / factor })
   }
-  if (t === 'float' || t === 'real') return faker.number.float({ min: 0, max: 10000 })
-  if (t === 'bit') return faker.datatype.boolean()
+  if (t === 'float' || t === 'real' || t.startsWith('double')) return faker.number.float({ min: 0, max: 10000 })
+  if (t === 'bit' || t === 'boolean') return faker.datatype.boolean()
   if (t.includes('date') || t.includes('time')) return faker.date.recent({ days: 100 }).toISOString()
   if (t.includes('char') || t.includes('text') || t.includes('string') || t.includes('varchar') || t.includes('nchar') || t.includes('nvarchar')) {
     const len = maxLength && maxLength > 0 && maxLength < 200 ? maxLength : 20
@@ -28,10 +29,10 @@ export async function generateDummyRowsForSchema(tables: TableData[], edges: Edg
   const { faker } = await import('@faker-js/faker')
 
   const tableMap = new Map(tables.map((t) => [t.id, t]))
-  const parents: Record<string, { targetTableId: string; targetCol: string; sourceCol: string }[]> = {}
+  const parents: Record<string, { targetTableId: string; pairs: ColumnPair[] }[]> = {}
   edges.forEach((e) => {
     if (!parents[e.source]) parents[e.source] = []
-    parents[e.source].push({ targetTableId: e.target, targetCol: e.targetHandle ?? '', sourceCol: e.sourceHandle ?? '' })
+    parents[e.source].push({ targetTableId: e.target, pairs: edgeColumnPairs(e) })
   })
 
   // topo sort by parent dependencies
@@ -64,21 +65,24 @@ export async function generateDummyRowsForSchema(tables: TableData[], edges: Edg
     const rows: any[] = []
     for (let i = 0; i < count; i++) {
       const row: any = {}
+      // One parent row per relationship, so every column of a composite key points at the same parent
+      const picks = (parents[tid] ?? []).map((p) => {
+        const parentRows = rowsByTable[p.targetTableId] ?? []
+        return { pairs: p.pairs, parent: parentRows.length ? faker.helpers.arrayElement(parentRows) : undefined }
+      })
       table.columns.forEach((col) => {
         const info = columnInfo[col] ?? {}
         const isPk = info.isPrimaryKey ?? pkCols.includes(col)
         if (isPk) {
           const t = (info.dataType ?? table.sourceType ?? '').toLowerCase()
-          if (t.includes('uniqueidentifier')) row[col] = faker.string.uuid()
+          if (t.includes('uniqueidentifier') || t === 'guid') row[col] = faker.string.uuid()
           else row[col] = pkCounters[col]++
           return
         }
-        const fk = (parents[tid] ?? []).find((p) => p.sourceCol === col)
-        if (fk) {
-          const parentRows = rowsByTable[fk.targetTableId] ?? []
-          if (parentRows.length) {
-            const pick = faker.helpers.arrayElement(parentRows)
-            row[col] = pick[fk.targetCol]
+        for (const pick of picks) {
+          const pair = pick.pairs.find((p) => p.sourceColumn === col)
+          if (pair && pick.parent) {
+            row[col] = pick.parent[pair.targetColumn]
             return
           }
         }
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { explodeNestedArrays, nestedArrayEdge } from './explodeNested'
+import { parseFiles, reparseSource } from './parseFiles'
+import { buildJoinedDocument, toRelationshipEdges } from './join'
+
+const fileFromString = (name: string, content: string) => new File([content], name, { type: 'text/plain' })
+
+const orders = [
+  { id: 'o1', tags: ['rush'], lines: [{ sku: 'a', qty: 1, parts: [{ pn: 'x' }] }, { sku: 'b', qty: 2 }] },
+  { id: 'o2', tags: [], lines: [] },
+]
+
+describe('explodeNestedArrays', () => {
+  it('splits arrays of objects into child tables with generated keys', () => {
+    const { rows, children } = explodeNestedArrays(orders, 'orders')
+    expect(rows).toEqual([
+      { _key: 1, id: 'o1', tags: ['rush'] },
+      { _key: 2, id: 'o2', tags: [] },
+    ])
+    expect(children.map((c) => [c.name, c.parentName, c.arrayColumn])).toEqual([
+      ['orders.lines', 'orders', 'lines'],
+      ['orders.lines.parts', 'orders.lines', 'parts'],
+    ])
+    expect(children[0].rows).toEqual([
+      { _key: 1, _parentKey: 1, sku: 'a', qty: 1 },
+      { _key: 2, _parentKey: 1, sku: 'b', qty: 2 },
+    ])
+    expect(children[1].rows).toEqual([{ _parentKey: 1, pn: 'x' }])
+  })
+
+  it('leaves rows without nested object arrays untouched', () => {
+    const rows = [{ id: 1, tags: ['a', 'b'] }]
+    expect(explodeNestedArrays(rows, 't')).toEqual({ rows, children: [] })
+  })
+
+  it('avoids clobbering existing key columns and wraps scalar elements', () => {
+    const { rows, children } = explodeNestedArrays([{ _key: 'k', items: [{ _parentKey: 9 }, 5] }], 't')
+    expect(rows).toEqual([{ _key_2: 1, _key: 'k' }])
+    expect(children[0]).toMatchObject({ keyColumn: '_key_2', parentKeyColumn: '_parentKey_2' })
+    expect(children[0].rows).toEqual([{ _parentKey_2: 1, _parentKey: 9 }, { _parentKey_2: 1, value: 5 }])
+  })
+})
+
+describe('parseFiles explodeNestedArrays', () => {
+  it('adds child tables and one-to-many edges for JSON files', async () => {
+    const { tables, edges, errors } = await parseFiles([fileFromString('orders.json', JSON.stringify(orders))], { explodeNestedArrays: true })
+    expect(errors).toHaveLength(0)
+    expect(tables.map((t) => [t.id, t.fileName])).toEqual([
+      ['orders', 'orders.json'],
+      ['orders-lines', 'orders.json::lines'],
+      ['orders-lines-parts', 'orders.json::lines.parts'],
+    ])
+    expect(tables[1].sourceText).toBeUndefined()
+    expect(edges).toEqual([
+      nestedArrayEdge('orders', '_key', 'orders-lines', '_parentKey', 'lines'),
+      nestedArrayEdge('orders-lines', '_key', 'orders-lines-parts', '_parentKey', 'parts'),
+    ])
+  })
+
+  it('re-embeds children under the original property names when joined', async () => {
+    const { tables, edges } = await parseFiles([fileFromString('orders.jsonl', orders.map((o) => JSON.stringify(o)).join('\n'))], { explodeNestedArrays: true })
+    const doc = buildJoinedDocument('orders', 0, tables, toRelationshipEdges(edges))
+    expect(doc.orders.lines).toHaveLength(2)
+    expect(doc.orders.lines[0]).toMatchObject({ sku: 'a', parts: [{ pn: 'x' }] })
+  })
+
+  it('keeps nested arrays as cell values when the option is off', async () => {
+    const { tables, edges } = await parseFiles([fileFromString('orders.json', JSON.stringify(orders))])
+    expect(tables).toHaveLength(1)
+    expect(edges).toHaveLength(0)
+    expect(tables[0].rows[0].lines).toHaveLength(2)
+  })
+
+  it('re-parses the root rows of an exploded source', async () => {
+    const rows = await reparseSource(JSON.stringify(orders), 'json', { explodeNestedArrays: true })
+    expect(rows[0]).toEqual({ _key: 1, id: 'o1', tags: ['rush'] })
+  })
+})
@@ -0,0 +1,100 @@
+import type { Edge } from 'reactflow'
+import type { Row } from './types'
+
+/**
+ * Normalise nested arrays of objects (e.g. orders[].lines[]) into child tables.
+ *
+ * Every row of a table that owns nested arrays gets a generated key column;
+ * each array element becomes a row of `<parent>.<column>` carrying the parent's
+ * key, recursively. Arrays of scalars stay in place as cell values. The
+ * returned links describe the parent → child relationships so callers can
+ * pre-create one-to-many edges that re-embed the children under their
+ * original property name.
+ */
+
+export const NESTED_KEY_COLUMN = '_key'
+export const NESTED_PARENT_KEY_COLUMN = '_parentKey'
+
+export interface NestedChildTable {
+  name: string
+  rows: Row[]
+  /** Name of the table this one was split from (the root or another child). */
+  parentName: string
+  /** Array property on the parent rows, used as the embedded property name. */
+  arrayColumn: string
+  keyColumn: string
+  parentKeyColumn: string
+}
+
+const isPlainObject = (v: unknown): v is Row => typeof v === 'object' && v !== null && !Array.isArray(v)
+
+function nestedArrayColumns(rows: Row[]): string[] {
+  const columns = new Set<string>()
+  for (const row of rows) {
+    for (const [k, v] of Object.entries(row)) {
+      if (Array.isArray(v) && v.some(isPlainObject)) columns.add(k)
+    }
+  }
+  return Array.from(columns)
+}
+
+/** Pick `base`, or `base_2`, `base_3`, … if the rows already use that name. */
+function freshColumn(rows: Row[], base: string): string {
+  const used = new Set(rows.flatMap((r) => Object.keys(r)))
+  let name = base
+  for (let i = 2; used.has(name); i++) name = `${base}_${i}`
+  return name
+}
+
+/**
+ * Split `rows` of table `name`. Returns the root rows (nested arrays removed,
+ * key column added when anything was split) and the child tables in
+ * depth-first order, each listed after its parent.
+ */
+export function explodeNestedArrays(rows: Row[], name: string): { rows: Row[]; children: NestedChildTable[] } {
+  const children: NestedChildTable[] = []
+
+  const split = (tableRows: Row[], tableName: string): Row[] => {
+    const arrayColumns = nestedArrayColumns(tableRows)
+    if (!arrayColumns.length) return tableRows
+    const keyColumn = freshColumn(tableRows, NESTED_KEY_COLUMN)
+    const childRows = new Map<string, { parentKey: number; row: Row }[]>(arrayColumns.map((c) => [c, []]))
+    const out = tableRows.map((row, i) => {
+      const key = i + 1
+      const next: Row = { [keyColumn]: key }
+      for (const [k, v] of Object.entries(row)) {
+        const bucket = childRows.get(k)
+        if (!bucket) {
+          next[k] = v
+          continue
+        }
+        // Scalar elements of a mostly-object array are kept as { value }
+        if (Array.isArray(v)) v.forEach((el) => bucket.push({ parentKey: key, row: isPlainObject(el) ? el : { value: el } }))
+      }
+      return next
+    })
+    for (const column of arrayColumns) {
+      const raw = childRows.get(column) ?? []
+      const parentKeyColumn = freshColumn(raw.map((r) => r.row), NESTED_PARENT_KEY_COLUMN)
+      const bodyRows = raw.map((r) => ({ [parentKeyColumn]: r.parentKey, ...r.row }))
+      const child: NestedChildTable = { name: `${tableName}.${column}`, rows: [], parentName: tableName, arrayColumn: column, keyColumn, parentKeyColumn }
+      children.push(child)
+      child.rows = split(bodyRows, child.name)
+    }
+    return out
+  }
+
+  return { rows: split(rows, name), children }
+}
+
+/** Edge from a parent table's key column to a child table's parent-key column. */
+export function nestedArrayEdge(parentId: string, keyColumn: string, childId: string, parentKeyColumn: string, propertyName: string): Edge {
+  return {
+    id: `${parentId}:${keyColumn}__${childId}:${parentKeyColumn}`,
+    source: parentId,
+    target: childId,
+    sourceHandle: keyColumn,
+    targetHandle: parentKeyColumn,
+    data: { type: 'one-to-many', propertyName },
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { compareForSort, compileExpression, compileRowFilter, expressionError, parseExpression, renameExpressionColumn } from './expression'
+
+describe('compileRowFilter', () => {
+  const row = { status: 'active', qty: '12', price: 2.5, note: '', flag: 'TRUE', 'Order Date': '2024-02-01', name: "O'Brien" }
+  const matches = (text: string) => compileRowFilter(text)(row)
+
+  it('compares strings and coerced numbers', () => {
+    expect(matches("status = 'active'")).toBe(true)
+    expect(matches("status <> 'active'")).toBe(false)
+    expect(matches('qty > 5')).toBe(true)
+    expect(matches('qty >= 12 AND price < 3')).toBe(true)
+    expect(matches('price > -1')).toBe(true)
+    expect(matches('flag = true')).toBe(true)
+  })
+
+  it('compares numbers beyond double precision exactly', () => {
+    const filter = compileRowFilter("id = '12345678901234567890'")
+    expect(filter({ id: '12345678901234567890' })).toBe(true)
+    expect(filter({ id: '12345678901234567891' })).toBe(false)
+    expect(filter({ id: '012345678901234567890' })).toBe(true)
+    expect(compileRowFilter('id > 12345678901234567890')({ id: '12345678901234567891' })).toBe(true)
+    expect(compareForSort('12345678901234567891', '12345678901234567890')).toBeGreaterThan(0)
+    expect(compareForSort('9', '12345678901234567890')).toBeLessThan(0)
+  })
+
+  it('supports quoted identifiers and escaped quotes', () => {
+    expect(matches("[Order Date] >= '2024-01-01'")).toBe(true)
+    expect(matches(`"Order Date" < '2024-01-01'`)).toBe(false)
+    expect(matches("name = 'O''Brien'")).toBe(true)
+  })
+
+  it('handles IN, LIKE, IS NULL, NOT and precedence', () => {
+    expect(matches("status IN ('active', 'pending')")).toBe(true)
+    expect(matches("status NOT IN ('active')")).toBe(false)
+    expect(matches("status like 'ACT%'")).toBe(true)
+    expect(matches("status NOT LIKE '_ctive'")).toBe(false)
+    expect(matches('note IS NULL AND missing IS NULL')).toBe(true)
+    expect(matches('qty IS NOT NULL')).toBe(true)
+    expect(matches("NOT (status = 'active') OR qty = 12")).toBe(true)
+    expect(matches("status = 'x' AND qty = 1 OR price = 2.5")).toBe(true)
+  })
+
+  it('never matches blanks in ordered comparisons', () => {
+    expect(matches('note > 0')).toBe(false)
+    expect(matches('note < 0')).toBe(false)
+    expect(matches('missing = NULL')).toBe(true)
+    expect(matches("note = ''")).toBe(true)
+  })
+})
+
+describe('expressionError', () => {
+  it('reports syntax errors with a position', () => {
+    expect(expressionError("status = 'active'")).toBeNull()
+    expect(expressionError("status = 'active")).toMatch(/Unterminated string at position 10/)
+    expect(expressionError('qty >')).toMatch(/Unexpected end of expression/)
+    expect(expressionError('qty > 5 5')).toMatch(/Unexpected '5' at position 9/)
+    expect(expressionError('status NOT = 1')).toMatch(/Expected IN or LIKE/)
+    expect(() => parseExpression('')).toThrow(/Empty expression/)
+  })
+})
+
+describe('compareForSort', () => {
+  it('orders numbers numerically and blanks last', () => {
+    expect(['10', 2, '', null, '1'].sort(compareForSort)).toEqual(['1', 2, '10', '', null])
+    expect(['b', 'a', undefined].sort(compareForSort)).toEqual(['a', 'b', undefined])
+  })
+})
+
+describe('compileExpression', () => {
+  const row = { first: 'Ada', last: 'Lovelace', qty: '3', price: 2.5, note: '', born: '1815-12-10', at: '2024-02-01T23:30:00Z', 'Order Date': '2024-02-01 08:05' }
+  const value = (text: string) => compileExpression(text)(row)
+
+  it('does arithmetic on coerced numbers and concatenates text', () => {
+    expect(value('qty * price + 1')).toBe(8.5)
+    expect(value('-(qty - 5) % 3')).toBe(2)
+    expect(value('qty / 0')).toBeNull()
+    expect(value("first + ' ' + last")).toBe('Ada Lovelace')
+    expect(value("first || note || '!'")).toBe('Ada!')
+    expect(value('missing + 1')).toBeNull()
+  })
+
+  it('evaluates comparisons as booleans', () => {
+    expect(value('qty > 2 AND price < 3')).toBe(true)
+  })
+
+  it('calls built-in functions case-insensitively', () => {
+    expect(value("concat(first, ' ', UPPER(last))")).toBe('Ada LOVELACE')
+    expect(value("COALESCE(note, missing, 'n/a')")).toBe('n/a')
+    expect(value("IF(qty > 2, 'bulk', 'single')")).toBe('bulk')
+    expect(value('SUBSTRING(last, 2, 3)')).toBe('ove')
+    expect(value("REPLACE(born, '-', '')")).toBe('18151210')
+    expect(value('LENGTH(first) + NUMBER(qty)')).toBe(6)
+    expect(value('INT(price) + ROUND(price * 1.234, 2)')).toBe(5.09)
+    expect(value('STRING(qty)')).toBe('3')
+    expect(value("BOOL('false')")).toBe(false)
+    expect(value('TRIM(note)')).toBe('')
+  })
+
+  it('formats dates without shifting unzoned values', () => {
+    expect(value("FORMAT_DATE(born, 'DD/MM/YYYY')")).toBe('10/12/1815')
+    expect(value('FORMAT_DATE([Order Date])')).toBe('2024-02-01')
+    expect(value("FORMAT_DATE([Order Date], 'HH:mm')")).toBe('08:05')
+    expect(value("FORMAT_DATE(at, 'YYYY-MM-DD HH:mm:ss')")).toBe('2024-02-01 23:30:00')
+    expect(value("FORMAT_DATE(0, 'YYYY')")).toBe('1970')
+    expect(value('FORMAT_DATE(first)')).toBeNull()
+  })
+
+  it('generates UUIDs', () => {
+    expect(value('UUID()')).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/)
+  })
+
+  it('rejects unknown functions and wrong argument counts', () => {
+    expect(expressionError('NOW()')).toMatch(/Unknown function NOW at position 1/)
+    expect(expressionError('UPPER(first, last)')).toMatch(/UPPER takes 1 argument/)
+    expect(expressionError('IF(qty > 1)')).toMatch(/IF takes 3 arguments/)
+    expect(expressionError('CONCAT()')).toMatch(/CONCAT takes at least 1 argument/)
+  })
+
+  it('reads quoted names followed by parentheses as columns, not calls', () => {
+    expect(expressionError('[UPPER] (1)')).toMatch(/Unexpected '\('/)
+  })
+})
+
+describe('renameExpressionColumn', () => {
+  it('rewrites column references and nothing else', () => {
+    expect(renameExpressionColumn("status = 'status' AND UPPER(status) <> 'X'", 'status', 'state')).toBe("state = 'status' AND UPPER(state) <> 'X'")
+    expect(renameExpressionColumn('[qty] * price', 'qty', 'Order Qty')).toBe('[Order Qty] * price')
+    expect(renameExpressionColumn('qty * 2', 'qty', 'and')).toBe('[and] * 2')
+    expect(renameExpressionColumn('upper(upper)', 'upper', 'shout')).toBe('upper(shout)')
+    expect(renameExpressionColumn("qty = 'open", 'qty', 'n')).toBe("qty = 'open")
+  })
+})
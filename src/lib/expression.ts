@@ -0,0 +1,507 @@
+/**
+ * Row expressions: a small SQL-flavoured language evaluated against one row.
+ *
+ * Predicates support comparisons (`=`, `!=`/`<>`, `<`, `<=`, `>`, `>=`),
+ * `[NOT] IN (...)`, `[NOT] LIKE` (`%`/`_`, case-insensitive), `IS [NOT] NULL`,
+ * `AND`/`OR`/`NOT` and parentheses. Identifiers are column names — quote them
+ * as `[Order Date]` or `"Order Date"` when they contain spaces; string literals
+ * use single quotes. Values compare the way CSV data needs: numeric and
+ * boolean strings are coerced, so `qty > 5` works on text columns.
+ *
+ * Values: `+ - * / %` (`+` concatenates when either side is not numeric),
+ * `||` (always concatenates; blanks count as empty text) and the functions in
+ * `FUNCTIONS`, e.g. `CONCAT(first, ' ', last)` or `FORMAT_DATE(born, 'DD/MM/YYYY')`.
+ * Nothing here can reach outside the row: there are no property accessors,
+ * assignments or host calls.
+ */
+
+import { isNumericText, numericValue } from './matchModes'
+
+type Token =
+  | { kind: 'ident'; value: string; pos: number; end: number; quoted?: boolean }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'number'; value: number | string; pos: number } // string: too long for a double
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'word'; value: string; pos: number }
+
+export type Expr =
+  | { type: 'literal'; value: unknown }
+  | { type: 'column'; name: string }
+  | { type: 'not'; operand: Expr }
+  | { type: 'logical'; op: 'AND' | 'OR'; left: Expr; right: Expr }
+  | { type: 'compare'; op: string; left: Expr; right: Expr }
+  | { type: 'in'; operand: Expr; list: Expr[]; negated: boolean }
+  | { type: 'like'; operand: Expr; pattern: Expr; negated: boolean }
+  | { type: 'isNull'; operand: Expr; negated: boolean }
+  | { type: 'arith'; op: string; left: Expr; right: Expr }
+  | { type: 'negate'; operand: Expr }
+  | { type: 'call'; name: string; args: Expr[] }
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT', 'IN', 'LIKE', 'IS', 'NULL', 'TRUE', 'FALSE'])
+const OPERATORS = ['<=', '>=', '<>', '!=', '||', '=', '<', '>', '(', ')', ',', '-', '+', '*', '/', '%']
+
+const syntaxError = (message: string, position: number) => new Error(`${message} at position ${position + 1}`)
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+    const start = i
+    if (ch === "'") {
+      let value = ''
+      i++
+      for (;;) {
+        if (i >= text.length) throw syntaxError('Unterminated string', start)
+        if (text[i] === "'") {
+          if (text[i + 1] === "'") {
+            value += "'"
+            i += 2
+            continue
+          }
+          i++
+          break
+        }
+        value += text[i++]
+      }
+      tokens.push({ kind: 'string', value, pos: start })
+      continue
+    }
+    if (ch === '[' || ch === '"' || ch === '`') {
+      const close = ch === '[' ? ']' : ch
+      const end = text.indexOf(close, i + 1)
+      if (end < 0) throw syntaxError('Unterminated column name', start)
+      tokens.push({ kind: 'ident', value: text.slice(i + 1, end), pos: start, end: end + 1, quoted: true })
+      i = end + 1
+      continue
+    }
+    const num = /^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(text.slice(i))
+    if (num) {
+      tokens.push({ kind: 'number', value: numericValue(num[0]) ?? Number(num[0]), pos: start })
+      i += num[0].length
+      continue
+    }
+    const op = OPERATORS.find((o) => text.startsWith(o, i))
+    if (op) {
+      tokens.push({ kind: 'op', value: op, pos: start })
+      i += op.length
+      continue
+    }
+    const word = /^[\p{L}_][\p{L}\p{N}_.$]*/u.exec(text.slice(i))
+    if (!word) throw syntaxError(`Unexpected character '${ch}'`, start)
+    const upper = word[0].toUpperCase()
+    tokens.push(KEYWORDS.has(upper) ? { kind: 'word', value: upper, pos: start } : { kind: 'ident', value: word[0], pos: start, end: i + word[0].length })
+    i += word[0].length
+  }
+  return tokens
+}
+
+/** Parse `text` into an expression tree; throws on bad syntax. */
+export function parseExpression(text: string): Expr {
+  const tokens = tokenize(text)
+  let i = 0
+  const peek = () => tokens[i]
+  const endPos = text.length
+  const isWord = (value: string) => peek()?.kind === 'word' && peek()!.value === value
+  const isOp = (value: string) => peek()?.kind === 'op' && peek()!.value === value
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw syntaxError(`Expected '${value}'`, peek()?.pos ?? endPos)
+    i++
+  }
+
+  function parseOr(): Expr {
+    let left = parseAnd()
+    while (isWord('OR')) {
+      i++
+      left = { type: 'logical', op: 'OR', left, right: parseAnd() }
+    }
+    return left
+  }
+
+  function parseAnd(): Expr {
+    let left = parseNot()
+    while (isWord('AND')) {
+      i++
+      left = { type: 'logical', op: 'AND', left, right: parseNot() }
+    }
+    return left
+  }
+
+  function parseNot(): Expr {
+    if (isWord('NOT')) {
+      i++
+      return { type: 'not', operand: parseNot() }
+    }
+    return parsePredicate()
+  }
+
+  function parsePredicate(): Expr {
+    const left = parseAdditive()
+    if (isWord('IS')) {
+      i++
+      const negated = isWord('NOT')
+      if (negated) i++
+      if (!isWord('NULL')) throw syntaxError('Expected NULL', peek()?.pos ?? endPos)
+      i++
+      return { type: 'isNull', operand: left, negated }
+    }
+    const negated = isWord('NOT')
+    if (negated) i++
+    if (isWord('IN')) {
+      i++
+      expectOp('(')
+      const list = [parseAdditive()]
+      while (isOp(',')) {
+        i++
+        list.push(parseAdditive())
+      }
+      expectOp(')')
+      return { type: 'in', operand: left, list, negated }
+    }
+    if (isWord('LIKE')) {
+      i++
+      return { type: 'like', operand: left, pattern: parseAdditive(), negated }
+    }
+    if (negated) throw syntaxError('Expected IN or LIKE after NOT', peek()?.pos ?? endPos)
+    const tok = peek()
+    if (tok?.kind === 'op' && ['=', '!=', '<>', '<', '<=', '>', '>='].includes(tok.value)) {
+      i++
+      return { type: 'compare', op: tok.value === '<>' ? '!=' : tok.value, left, right: parseAdditive() }
+    }
+    return left
+  }
+
+  function parseAdditive(): Expr {
+    let left = parseMultiplicative()
+    for (let tok = peek(); tok?.kind === 'op' && ['+', '-', '||'].includes(tok.value); tok = peek()) {
+      i++
+      left = { type: 'arith', op: tok.value, left, right: parseMultiplicative() }
+    }
+    return left
+  }
+
+  function parseMultiplicative(): Expr {
+    let left = parseUnary()
+    for (let tok = peek(); tok?.kind === 'op' && ['*', '/', '%'].includes(tok.value); tok = peek()) {
+      i++
+      left = { type: 'arith', op: tok.value, left, right: parseUnary() }
+    }
+    return left
+  }
+
+  function parseUnary(): Expr {
+    if (!isOp('-')) return parseOperand()
+    i++
+    const operand = parseUnary()
+    if (operand.type === 'literal' && typeof operand.value === 'number') return { type: 'literal', value: -operand.value }
+    if (operand.type === 'literal' && typeof operand.value === 'string' && isNumericText(operand.value)) {
+      return { type: 'literal', value: operand.value.startsWith('-') ? operand.value.slice(1) : `-${operand.value}` }
+    }
+    return { type: 'negate', operand }
+  }
+
+  function parseOperand(): Expr {
+    const tok = peek()
+    if (!tok) throw syntaxError('Unexpected end of expression', endPos)
+    if (tok.kind === 'op' && tok.value === '(') {
+      i++
+      const inner = parseOr()
+      expectOp(')')
+      return inner
+    }
+    i++
+    if (tok.kind === 'ident' && !tok.quoted && isOp('(')) return parseCall(tok.value, tok.pos)
+    if (tok.kind === 'ident') return { type: 'column', name: tok.value }
+    if (tok.kind === 'string' || tok.kind === 'number') return { type: 'literal', value: tok.value }
+    if (tok.kind === 'word' && tok.value === 'NULL') return { type: 'literal', value: null }
+    if (tok.kind === 'word' && (tok.value === 'TRUE' || tok.value === 'FALSE')) return { type: 'literal', value: tok.value === 'TRUE' }
+    throw syntaxError(`Unexpected '${tok.value}'`, tok.pos)
+  }
+
+  function parseCall(rawName: string, pos: number): Expr {
+    const name = rawName.toUpperCase()
+    const fn = FUNCTIONS[name]
+    if (!fn) throw syntaxError(`Unknown function ${rawName}`, pos)
+    expectOp('(')
+    const args: Expr[] = []
+    if (!isOp(')')) {
+      args.push(parseOr())
+      while (isOp(',')) {
+        i++
+        args.push(parseOr())
+      }
+    }
+    expectOp(')')
+    if (args.length < fn.min || args.length > fn.max) {
+      const arity = fn.min === fn.max ? `${fn.min}` : fn.max === Infinity ? `at least ${fn.min}` : `${fn.min} to ${fn.max}`
+      throw syntaxError(`${name} takes ${arity} argument${arity === '1' ? '' : 's'}`, pos)
+    }
+    return { type: 'call', name, args }
+  }
+
+  if (!tokens.length) throw syntaxError('Empty expression', 0)
+  const expr = parseOr()
+  if (i < tokens.length) throw syntaxError(`Unexpected '${tokens[i].value}'`, tokens[i].pos)
+  return expr
+}
+
+const BARE_IDENT_RE = /^[\p{L}_][\p{L}\p{N}_.$]*$/u
+
+/** Write `name` as an identifier, bracket-quoted unless it is a plain word. */
+function quoteIdentifier(name: string): string {
+  if (BARE_IDENT_RE.test(name) && !KEYWORDS.has(name.toUpperCase())) return name
+  if (!name.includes(']')) return `[${name}]`
+  return name.includes('"') ? `\`${name}\`` : `"${name}"`
+}
+
+/**
+ * Rewrite references to column `current` as `next`, leaving the rest of the
+ * text (spacing, literals, function names) untouched. Text that does not
+ * tokenize is returned as is.
+ */
+export function renameExpressionColumn(text: string, current: string, next: string): string {
+  let tokens: Token[]
+  try {
+    tokens = tokenize(text)
+  } catch {
+    return text
+  }
+  let out = text
+  // Right to left so earlier positions stay valid
+  for (let t = tokens.length - 1; t >= 0; t--) {
+    const tok = tokens[t]
+    if (tok.kind !== 'ident' || tok.value !== current) continue
+    const after = tokens[t + 1]
+    if (!tok.quoted && after?.kind === 'op' && after.value === '(') continue // a function call
+    out = out.slice(0, tok.pos) + quoteIdentifier(next) + out.slice(tok.end)
+  }
+  return out
+}
+
+/**
+ * Coerce CSV-style text: blanks become null, numeric and boolean strings
+ * numbers and booleans. Numbers too long for a double stay exact canonical text.
+ */
+function coerce(value: unknown): unknown {
+  if (value === undefined || value === '') return null
+  if (typeof value === 'bigint') return numericValue(value)
+  if (typeof value !== 'string') return value
+  const numeric = numericValue(value)
+  if (numeric !== undefined) return numeric
+  if (/^(true|false)$/i.test(value.trim())) return value.trim().toLowerCase() === 'true'
+  return value
+}
+
+function isNullish(value: unknown): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+/** Numeric order of two coerced values, or null when either is not a number or numeric text. */
+function numericOrder(x: unknown, y: unknown): number | null {
+  const nx = typeof x === 'number' ? x : typeof x === 'string' && isNumericText(x) ? Number(x) : null
+  const ny = typeof y === 'number' ? y : typeof y === 'string' && isNumericText(y) ? Number(y) : null
+  if (nx === null || ny === null) return null
+  // Long integers that round to the same double still order exactly
+  if (nx === ny && (typeof x === 'string' || typeof y === 'string') && INTEGER_RE.test(String(x)) && INTEGER_RE.test(String(y))) {
+    const [bx, by] = [BigInt(String(x)), BigInt(String(y))]
+    return bx < by ? -1 : bx > by ? 1 : 0
+  }
+  return nx - ny
+}
+
+const INTEGER_RE = /^-?\d+$/
+
+function compareValues(op: string, a: unknown, b: unknown): boolean {
+  const x = coerce(a)
+  const y = coerce(b)
+  if (x === null || y === null) return op === '!=' ? x !== y : op === '=' ? x === y : false
+  if (op === '=') return typeof x === typeof y ? x === y : String(x) === String(y)
+  if (op === '!=') return typeof x === typeof y ? x !== y : String(x) !== String(y)
+  const order = numericOrder(x, y) ?? String(x).localeCompare(String(y))
+  if (op === '<') return order < 0
+  if (op === '<=') return order <= 0
+  if (op === '>') return order > 0
+  return order >= 0
+}
+
+/** Sort comparator for raw cell values: numbers numerically, text by locale, blanks last. */
+export function compareForSort(a: unknown, b: unknown): number {
+  const x = isNullish(a) ? null : coerce(a)
+  const y = isNullish(b) ? null : coerce(b)
+  if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1
+  return numericOrder(x, y) ?? String(x).localeCompare(String(y))
+}
+
+/** A value as text for concatenation: blanks are empty, objects JSON. */
+function text(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  return typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : String(value)
+}
+
+/** A value as a number (numeric strings included), else null. */
+function toNumber(value: unknown): number | null {
+  const v = coerce(value)
+  if (typeof v === 'boolean') return v ? 1 : 0
+  if (typeof v === 'string' && isNumericText(v)) return Number(v)
+  return typeof v === 'number' && Number.isFinite(v) ? v : null
+}
+
+function arithmetic(op: string, a: unknown, b: unknown): unknown {
+  if (op === '||') return text(a) + text(b)
+  const [x, y] = [coerce(a), coerce(b)].map((v) => (typeof v === 'string' && isNumericText(v) ? Number(v) : v))
+  if (x === null || y === null) return null
+  if (op === '+' && (typeof x !== 'number' || typeof y !== 'number')) return text(a) + text(b)
+  if (typeof x !== 'number' || typeof y !== 'number') return null
+  if (op === '+') return x + y
+  if (op === '-') return x - y
+  if (op === '*') return x * y
+  if (y === 0) return null
+  return op === '/' ? x / y : x % y
+}
+
+type DateParts = { year: number; month: number; day: number; hour: number; minute: number; second: number }
+
+const LOCAL_DATE_RE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?$/
+
+/**
+ * Calendar fields of a date value. ISO-style text without a zone keeps its
+ * fields as written; zoned text, Date objects and epoch milliseconds are read
+ * in UTC; anything else `Date` can parse is read in local time.
+ */
+function dateParts(value: unknown): DateParts | null {
+  if (value === null || value === undefined || value === '') return null
+  const local = typeof value === 'string' ? LOCAL_DATE_RE.exec(value.trim()) : null
+  if (local) {
+    const [, y, mo, d, h, mi, sec] = local
+    return { year: +y, month: +mo, day: +d, hour: +(h ?? 0), minute: +(mi ?? 0), second: +(sec ?? 0) }
+  }
+  const utc = value instanceof Date || typeof value === 'number' || typeof value === 'bigint' || (typeof value === 'string' && /(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim()))
+  const date = value instanceof Date ? value : new Date(typeof value === 'bigint' ? Number(value) : (value as string | number))
+  if (Number.isNaN(date.getTime())) return null
+  return utc
+    ? { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), hour: date.getUTCHours(), minute: date.getUTCMinutes(), second: date.getUTCSeconds() }
+    : { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate(), hour: date.getHours(), minute: date.getMinutes(), second: date.getSeconds() }
+}
+
+function formatDate(value: unknown, pattern: string): string | null {
+  const d = dateParts(value)
+  if (!d) return null
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0')
+  const fields: Record<string, string> = {
+    YYYY: pad(d.year, 4), YY: pad(d.year % 100), MM: pad(d.month), DD: pad(d.day), HH: pad(d.hour), mm: pad(d.minute), ss: pad(d.second),
+  }
+  return pattern.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, (token) => fields[token])
+}
+
+/** Built-in functions; names are case-insensitive. */
+const FUNCTIONS: Record<string, { min: number; max: number; call: (args: unknown[]) => unknown }> = {
+  CONCAT: { min: 1, max: Infinity, call: (args) => args.map(text).join('') },
+  COALESCE: { min: 1, max: Infinity, call: (args) => args.find((a) => !isNullish(a)) ?? null },
+  IF: { min: 3, max: 3, call: ([cond, then, otherwise]) => (truthy(cond) ? then : otherwise) },
+  UPPER: { min: 1, max: 1, call: ([v]) => (isNullish(v) ? v : text(v).toUpperCase()) },
+  LOWER: { min: 1, max: 1, call: ([v]) => (isNullish(v) ? v : text(v).toLowerCase()) },
+  TRIM: { min: 1, max: 1, call: ([v]) => (isNullish(v) ? v : text(v).trim()) },
+  LENGTH: { min: 1, max: 1, call: ([v]) => text(v).length },
+  // 1-based like SQL
+  SUBSTRING: { min: 2, max: 3, call: ([v, start, length]) => {
+    if (isNullish(v)) return v
+    const from = Math.max(0, (toNumber(start) ?? 1) - 1)
+    const count = toNumber(length)
+    return text(v).slice(from, count === null ? undefined : from + Math.max(0, count))
+  } },
+  REPLACE: { min: 3, max: 3, call: ([v, find, replacement]) => (isNullish(v) || !text(find) ? v : text(v).split(text(find)).join(text(replacement))) },
+  NUMBER: { min: 1, max: 1, call: ([v]) => toNumber(v) },
+  INT: { min: 1, max: 1, call: ([v]) => {
+    const n = toNumber(v)
+    return n === null ? null : Math.trunc(n)
+  } },
+  ROUND: { min: 1, max: 2, call: ([v, digits]) => {
+    const n = toNumber(v)
+    if (n === null) return null
+    const factor = 10 ** (toNumber(digits) ?? 0)
+    return Math.round(n * factor) / factor
+  } },
+  STRING: { min: 1, max: 1, call: ([v]) => (isNullish(v) ? null : text(v)) },
+  BOOL: { min: 1, max: 1, call: ([v]) => (isNullish(v) ? null : truthy(v)) },
+  FORMAT_DATE: { min: 1, max: 2, call: ([v, pattern]) => formatDate(v, isNullish(pattern) ? 'YYYY-MM-DD' : text(pattern)) },
+  UUID: { min: 0, max: 0, call: () => crypto.randomUUID() },
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const body = pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.')
+  return new RegExp(`^${body}$`, 'is')
+}
+
+/** Evaluate `expr` against `row`. */
+export function evaluate(expr: Expr, row: Record<string, unknown>): unknown {
+  switch (expr.type) {
+    case 'literal':
+      return expr.value
+    case 'column':
+      return row[expr.name]
+    case 'not':
+      return !truthy(evaluate(expr.operand, row))
+    case 'logical':
+      return expr.op === 'AND'
+        ? truthy(evaluate(expr.left, row)) && truthy(evaluate(expr.right, row))
+        : truthy(evaluate(expr.left, row)) || truthy(evaluate(expr.right, row))
+    case 'compare':
+      return compareValues(expr.op, evaluate(expr.left, row), evaluate(expr.right, row))
+    case 'in': {
+      const value = evaluate(expr.operand, row)
+      const found = expr.list.some((item) => compareValues('=', value, evaluate(item, row)))
+      return expr.negated ? !found : found
+    }
+    case 'like': {
+      const value = evaluate(expr.operand, row)
+      const pattern = evaluate(expr.pattern, row)
+      if (isNullish(value) || isNullish(pattern)) return false
+      const found = likeToRegExp(String(pattern)).test(String(value))
+      return expr.negated ? !found : found
+    }
+    case 'isNull': {
+      const nullish = isNullish(evaluate(expr.operand, row))
+      return expr.negated ? !nullish : nullish
+    }
+    case 'arith':
+      return arithmetic(expr.op, evaluate(expr.left, row), evaluate(expr.right, row))
+    case 'negate': {
+      const n = toNumber(evaluate(expr.operand, row))
+      return n === null ? null : -n
+    }
+    case 'call':
+      return FUNCTIONS[expr.name].call(expr.args.map((arg) => evaluate(arg, row)))
+  }
+}
+
+/** Truthiness of an expression result; `'false'`, `'0'` and blanks are false. */
+export function truthy(value: unknown): boolean {
+  const v = coerce(value)
+  return v !== null && v !== false && v !== 0
+}
+
+/** Compile a predicate into a row test; throws on bad syntax. */
+export function compileRowFilter(text: string): (row: Record<string, unknown>) => boolean {
+  const expr = parseExpression(text)
+  return (row) => truthy(evaluate(expr, row))
+}
+
+/** Compile a value expression into a row function; throws on bad syntax. */
+export function compileExpression(text: string): (row: Record<string, unknown>) => unknown {
+  const expr = parseExpression(text)
+  return (row) => evaluate(expr, row)
+}
+
+/** Syntax error message for `text`, or null when it parses. */
+export function expressionError(text: string): string | null {
+  try {
+    parseExpression(text)
+    return null
+  } catch (err) {
+    return (err as Error).message
+  }
+}
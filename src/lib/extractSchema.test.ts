@@ -65,11 +65,26 @@ describe('extractSchemaForAdvisor', () => {
     })
   })
 
+  it('lists every column of composite key relationships', () => {
+    const composite: Edge[] = [{ ...edges[0], data: { type: 'one-to-many', additionalColumns: [{ sourceColumn: 'name', targetColumn: 'total' }] } }]
+    expect(extractSchemaForAdvisor(tables, composite).relationships[0]).toMatchObject({
+      sourceColumn: 'id',
+      targetColumn: 'userId',
+      sourceColumns: ['id', 'name'],
+      targetColumns: ['userId', 'total'],
+    })
+  })
+
   it('uses edgeTypes override', () => {
     const result = extractSchemaForAdvisor(tables, edges, { e1: 'one-to-one' })
     expect(result.relationships[0].type).toBe('one-to-one')
   })
 
+  it('reports reference relationships as one-to-many', () => {
+    const result = extractSchemaForAdvisor(tables, edges, { e1: 'reference' })
+    expect(result.relationships[0].type).toBe('one-to-many')
+  })
+
   it('handles tables without column types', () => {
     const simpleTables: TableData[] = [
       { id: 't1', name: 'Simple', fileName: 'simple.csv', columns: ['a', 'b'], rows: [] },
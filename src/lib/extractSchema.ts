@@ -1,6 +1,7 @@
 import type { Edge } from 'reactflow'
-import type { TableData } from './types'
+import type { TableData, RelationshipType } from './types'
 import type { AdvisorSchemaInput, AdvisorTableInfo, AdvisorRelationship } from './advisorTypes'
+import { edgeColumnPairs } from './join'
 
 /**
  * Extract a clean schema representation from the canvas state
@@ -9,7 +10,7 @@ import type { AdvisorSchemaInput, AdvisorTableInfo, AdvisorRelationship } from '
 export function extractSchemaForAdvisor(
   tables: TableData[],
   edges: Edge[],
-  edgeTypes?: Record<string, 'one-to-many' | 'one-to-one'>,
+  edgeTypes?: Record<string, RelationshipType>,
 ): AdvisorSchemaInput {
   const tableInfos: AdvisorTableInfo[] = tables.map((t) => ({
     id: t.id,
@@ -28,14 +29,21 @@ export function extractSchemaForAdvisor(
     .map((e) => {
       const sourceTable = tableMap.get(e.source)
       const targetTable = tableMap.get(e.target)
+      const pairs = edgeColumnPairs(e)
       return {
         sourceTable: sourceTable?.name ?? e.source,
         targetTable: targetTable?.name ?? e.target,
         sourceColumn: e.sourceHandle!,
         targetColumn: e.targetHandle!,
-        type: edgeTypes?.[e.id] ?? (e.data as any)?.type ?? 'one-to-many',
+        ...(pairs.length > 1 ? { sourceColumns: pairs.map((p) => p.sourceColumn), targetColumns: pairs.map((p) => p.targetColumn) } : {}),
+        // References and aggregates still point at many rows; the advisor only needs the cardinality
+        type: advisorType(edgeTypes?.[e.id] ?? (e.data as any)?.type),
       }
     })
 
   return { tables: tableInfos, relationships }
 }
+
+function advisorType(type?: RelationshipType): AdvisorRelationship['type'] {
+  return type === 'one-to-one' ? 'one-to-one' : 'one-to-many'
+}
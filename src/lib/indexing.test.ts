@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest'
+import { indexPathSegments, indexStats } from './indexing'
+
+const order = {
+  id: '1',
+  customerId: 'c1',
+  description: 'long text',
+  address: { city: 'Oslo', geo: { lat: 59.9, lon: 10.7 } },
+  tags: ['a', 'b', 'c'],
+  items: [{ sku: 'x', qty: 1 }, { sku: 'y', qty: 2 }],
+  empty: [],
+}
+
+describe('indexStats', () => {
+  it('counts every leaf value and array element when everything is indexed', () => {
+    const stats = indexStats(order)
+    expect(stats.terms).toBe(3 + 3 + 3 + 4)
+    expect(stats.indexedTerms).toBe(stats.terms)
+    expect(stats.arrayElements).toBe(7)
+    expect(stats.leafPaths).toBe(3 + 3 + 1 + 2)
+    expect(stats.maxDepth).toBe(3)
+    expect(stats.compositeTerms).toBe(0)
+  })
+
+  it('drops subtrees, single values and array elements the policy excludes', () => {
+    expect(indexStats(order, { excludedPaths: ['/description/?'] }).indexedTerms).toBe(12)
+    expect(indexStats(order, { excludedPaths: ['/address/*'] }).indexedTerms).toBe(10)
+    expect(indexStats(order, { excludedPaths: ['/tags/[]/?', '/items/[]/qty/?'] }).indexedTerms).toBe(8)
+    expect(indexStats(order, { excludedPaths: ['/"items"/*'] }).indexedTerms).toBe(9)
+    // `?` covers only the value at the path itself, not what is nested under it
+    expect(indexStats(order, { excludedPaths: ['/address/?'] }).indexedTerms).toBe(13)
+    expect(indexStats(order, { excludedPaths: ['/*'] }).indexedTerms).toBe(0)
+  })
+
+  it('adds a composite entry when every path holds a scalar', () => {
+    const stats = indexStats(order, { compositeIndexes: [['/customerId', '/address/city DESC'], ['/customerId', '/tags'], ['/customerId', '/missing']] })
+    expect(stats.compositeTerms).toBe(1)
+  })
+
+  it('parses index paths', () => {
+    expect(indexPathSegments('/items/[]/"sku"/?')).toEqual(['items', '[]', 'sku', '?'])
+    expect(indexPathSegments(' /orderDate ASC')).toEqual(['orderDate'])
+  })
+})
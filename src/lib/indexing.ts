@@ -0,0 +1,72 @@
+import type { IndexingPolicy } from './advisorTypes'
+
+/**
+ * Index terms a document adds under an indexing policy. Cosmos DB indexes
+ * every leaf value by default: each scalar property and each scalar array
+ * element is one term. `excludedPaths` drop a subtree (`/payload/*`) or a
+ * single value (`/description/?`), with array positions written `[]`
+ * (`/tags/[]/?`). Each composite index adds one term when the document has a
+ * scalar at every one of its paths.
+ */
+export type IndexStats = {
+  leafPaths: number // distinct leaf paths, array positions folded into []
+  terms: number // leaf values, counting every array element
+  arrayElements: number // terms inside arrays
+  indexedTerms: number // terms the policy indexes
+  compositeTerms: number
+  maxDepth: number // segments in the deepest leaf path, [] included
+}
+
+/** `/items/[]/"sku"/?` → ['items', '[]', 'sku', '?']; composite paths may end in ASC/DESC. */
+export function indexPathSegments(path: string): string[] {
+  return path
+    .trim()
+    .replace(/\s+(asc|desc)$/i, '')
+    .split('/')
+    .map((s) => s.trim().replace(/^"(.*)"$/, '$1'))
+    .filter(Boolean)
+}
+
+/** Whether an excluded path pattern covers a leaf. */
+function covers(pattern: string[], leaf: string[]): boolean {
+  const last = pattern[pattern.length - 1]
+  const prefix = last === '*' || last === '?' ? pattern.slice(0, -1) : pattern
+  if (last === '?' ? leaf.length !== prefix.length : leaf.length < prefix.length) return false
+  return prefix.every((segment, i) => segment === leaf[i])
+}
+
+function scalarAt(doc: unknown, segments: string[]): boolean {
+  let value = doc
+  for (const segment of segments) {
+    if (value === null || typeof value !== 'object' || Array.isArray(value)) return false
+    value = (value as Record<string, unknown>)[segment]
+  }
+  return value !== undefined && (value === null || typeof value !== 'object')
+}
+
+export function indexStats(doc: unknown, policy?: IndexingPolicy): IndexStats {
+  const excluded = (policy?.excludedPaths ?? []).map(indexPathSegments).filter((p) => p.length)
+  const paths = new Set<string>()
+  const stats: IndexStats = { leafPaths: 0, terms: 0, arrayElements: 0, indexedTerms: 0, compositeTerms: 0, maxDepth: 0 }
+  const walk = (value: unknown, segments: string[], inArray: boolean) => {
+    if (Array.isArray(value)) {
+      for (const item of value) walk(item, [...segments, '[]'], true)
+      return
+    }
+    if (value !== null && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) walk(item, [...segments, key], inArray)
+      return
+    }
+    stats.terms++
+    if (inArray) stats.arrayElements++
+    paths.add(JSON.stringify(segments))
+    stats.maxDepth = Math.max(stats.maxDepth, segments.length)
+    if (!excluded.some((pattern) => covers(pattern, segments))) stats.indexedTerms++
+  }
+  walk(doc, [], false)
+  stats.leafPaths = paths.size
+  stats.compositeTerms = (policy?.compositeIndexes ?? []).filter(
+    (index) => index.length && index.every((path) => scalarAt(doc, indexPathSegments(path))),
+  ).length
+  return stats
+}
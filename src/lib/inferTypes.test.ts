@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { inferValueType, inferColumnType, inferColumnTypes, applyColumnTypeOverrides, clearColumnTypeOverride } from './inferTypes'
+import { parseFiles } from './parseFiles'
+import { renameColumn } from './rename'
+import { extractSchemaForAdvisor } from './extractSchema'
+import type { TableData } from './types'
+
+const fileFromString = (name: string, content: string) => new File([content], name, { type: 'text/plain' })
+
+describe('inferValueType', () => {
+  it('classifies strings from delimited files', () => {
+    expect(inferValueType('42')).toBe('integer')
+    expect(inferValueType('-3.5')).toBe('decimal')
+    expect(inferValueType('1e3')).toBe('decimal')
+    expect(inferValueType('TRUE')).toBe('boolean')
+    expect(inferValueType('2024-02-29')).toBe('date')
+    expect(inferValueType('2024-02-29T10:15:00Z')).toBe('datetime')
+    expect(inferValueType('3f2504e0-4f89-11d3-9a0c-0305e82c3301')).toBe('guid')
+    expect(inferValueType('007')).toBe('string')
+    expect(inferValueType('  ')).toBeNull()
+  })
+
+  it('classifies native JSON values', () => {
+    expect(inferValueType(7)).toBe('integer')
+    expect(inferValueType(7.25)).toBe('decimal')
+    expect(inferValueType(false)).toBe('boolean')
+    expect(inferValueType({ a: 1 })).toBe('object')
+    expect(inferValueType([1])).toBe('array')
+    expect(inferValueType(null)).toBeNull()
+  })
+})
+
+describe('inferColumnType', () => {
+  it('widens integers to decimals and dates to datetimes', () => {
+    expect(inferColumnType(['1', '2.5'])).toEqual({ dataType: 'decimal', nullable: false })
+    expect(inferColumnType(['2024-01-01', '2024-01-01 08:00'])).toEqual({ dataType: 'datetime', nullable: false })
+  })
+
+  it('falls back to string for mixed values and tracks empties', () => {
+    expect(inferColumnType(['1', 'abc', ''])).toEqual({ dataType: 'string', nullable: true })
+    expect(inferColumnType([null, ''])).toEqual({ dataType: 'string', nullable: true })
+  })
+})
+
+describe('inferColumnTypes', () => {
+  const table: TableData = {
+    id: 't',
+    name: 't',
+    fileName: 't.csv',
+    columns: ['id', 'price', 'code'],
+    rows: [{ id: '1', price: '9.99', code: 'A' }, { id: '2', price: '', code: 'B' }],
+    columnTypes: { code: { dataType: 'nvarchar(10)', isPrimaryKey: true } },
+  }
+
+  it('keeps declared types and fills in the rest', () => {
+    expect(inferColumnTypes(table).columnTypes).toEqual({
+      id: { dataType: 'integer', nullable: false, inferred: true },
+      price: { dataType: 'decimal', nullable: true, inferred: true },
+      code: { dataType: 'nvarchar(10)', isPrimaryKey: true, nullable: false },
+    })
+  })
+
+  it('re-infers inferred columns after rows change', () => {
+    const first = inferColumnTypes(table)
+    const second = inferColumnTypes({ ...first, rows: [{ id: 'x', price: '1', code: 'C' }] })
+    expect(second.columnTypes?.id.dataType).toBe('string')
+    expect(second.columnTypes?.price).toEqual({ dataType: 'integer', nullable: false, inferred: true })
+  })
+
+  it('pins overrides through re-inference and can reset them', () => {
+    const overridden = applyColumnTypeOverrides(inferColumnTypes(table), { id: 'string' })
+    expect(inferColumnTypes(overridden).columnTypes?.id).toMatchObject({ dataType: 'string', inferred: false })
+    expect(clearColumnTypeOverride(overridden, 'id').columnTypes?.id).toMatchObject({ dataType: 'integer', inferred: true })
+  })
+
+  it('moves types along with column renames', () => {
+    const renamed = renameColumn(inferColumnTypes(table), 'price', 'unitPrice')
+    expect(renamed.columnTypes?.unitPrice?.dataType).toBe('decimal')
+    expect(renamed.columnTypes?.price).toBeUndefined()
+  })
+})
+
+describe('parseFiles type profiling', () => {
+  it('types CSV columns so the advisor sees them', async () => {
+    const { tables } = await parseFiles([fileFromString('people.csv', 'id,name,active\n1,Ann,true\n2,,false')])
+    const schema = extractSchemaForAdvisor(tables, [])
+    expect(schema.tables[0].columns.map((c) => [c.name, c.dataType])).toEqual([
+      ['id', 'integer'],
+      ['name', 'string'],
+      ['active', 'boolean'],
+    ])
+    expect(tables[0].columnTypes?.name.nullable).toBe(true)
+  })
+})
@@ -0,0 +1,101 @@
+import type { TableData } from './types'
+
+/**
+ * Column profiling for file-based tables.
+ *
+ * Types are inferred from cell values (strings from CSV/TSV, native values from
+ * JSON). Declared types — SQL schema imports, Parquet/Avro schemas and user
+ * overrides — are never replaced; only entries marked `inferred` are
+ * recomputed, so the pass can be re-run after re-parsing a table.
+ */
+
+export const COLUMN_DATA_TYPES = ['integer', 'decimal', 'boolean', 'date', 'datetime', 'guid', 'string', 'object', 'array'] as const
+export type ColumnDataType = typeof COLUMN_DATA_TYPES[number]
+
+/** Rows profiled per table; enough to type a column without scanning huge files. */
+const DEFAULT_SAMPLE_SIZE = 5000
+
+const INTEGER_RE = /^[-+]?(0|[1-9]\d*)$/
+const DECIMAL_RE = /^[-+]?(\d+\.\d*|\.\d+|\d+(?:\.\d*)?[eE][-+]?\d+)$/
+const BOOLEAN_RE = /^(true|false)$/i
+const GUID_RE = /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+const DATETIME_RE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/
+
+/** Classify a single cell; null for empty values. */
+export function inferValueType(value: unknown): ColumnDataType | null {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'boolean') return 'boolean'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'decimal'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'object') return 'object'
+  const s = String(value).trim()
+  if (!s) return null
+  if (INTEGER_RE.test(s)) return 'integer'
+  if (DECIMAL_RE.test(s)) return 'decimal'
+  if (BOOLEAN_RE.test(s)) return 'boolean'
+  if (GUID_RE.test(s)) return 'guid'
+  if (DATE_RE.test(s) && !Number.isNaN(Date.parse(s))) return 'date'
+  if (DATETIME_RE.test(s) && !Number.isNaN(Date.parse(s.replace(' ', 'T')))) return 'datetime'
+  return 'string'
+}
+
+function widen(a: ColumnDataType, b: ColumnDataType): ColumnDataType {
+  if (a === b) return a
+  const pair = new Set([a, b])
+  if (pair.has('integer') && pair.has('decimal')) return 'decimal'
+  if (pair.has('date') && pair.has('datetime')) return 'datetime'
+  return 'string'
+}
+
+/** Infer one column's type and nullability from its values; all-empty columns are nullable strings. */
+export function inferColumnType(values: Iterable<unknown>): { dataType: ColumnDataType; nullable: boolean } {
+  let type: ColumnDataType | null = null
+  let nullable = false
+  for (const v of values) {
+    const t = inferValueType(v)
+    if (t === null) {
+      nullable = true
+      continue
+    }
+    type = type === null ? t : widen(type, t)
+  }
+  return { dataType: type ?? 'string', nullable: nullable || type === null }
+}
+
+/** Fill `columnTypes` for every column, keeping declared (non-inferred) types. */
+export function inferColumnTypes(table: TableData, sampleSize = DEFAULT_SAMPLE_SIZE): TableData {
+  const sample = table.rows.slice(0, sampleSize)
+  const columnTypes: NonNullable<TableData['columnTypes']> = {}
+  for (const col of table.columns) {
+    const existing = table.columnTypes?.[col]
+    const { dataType, nullable } = inferColumnType(sample.map((r) => r[col]))
+    if (existing?.dataType && !existing.inferred) {
+      columnTypes[col] = { ...existing, nullable: existing.nullable ?? nullable }
+    } else {
+      columnTypes[col] = { ...existing, dataType, nullable, inferred: true }
+    }
+  }
+  return { ...table, columnTypes }
+}
+
+/**
+ * Apply per-column type overrides (current column name → data type). An
+ * override pins the type; removing it lets the next profiling pass re-infer.
+ */
+export function applyColumnTypeOverrides(table: TableData, overrides?: Record<string, string>): TableData {
+  if (!overrides || !Object.keys(overrides).length) return table
+  const columnTypes = { ...table.columnTypes }
+  for (const [col, dataType] of Object.entries(overrides)) {
+    if (!table.columns.includes(col)) continue
+    columnTypes[col] = { ...columnTypes[col], dataType, inferred: false }
+  }
+  return { ...table, columnTypes }
+}
+
+/** Drop an override and re-infer that column from its values. */
+export function clearColumnTypeOverride(table: TableData, column: string): TableData {
+  const info = table.columnTypes?.[column]
+  if (!info) return table
+  return inferColumnTypes({ ...table, columnTypes: { ...table.columnTypes, [column]: { ...info, inferred: true } } })
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import type { Edge } from 'reactflow'
+import { buildJoinedDocument, documentAggregates, toRelationshipEdges } from './join'
+import type { RelationshipEdge } from './types'
+import { table } from './testTables'
+
+const products = table('products', [{ id: 1, name: 'Pen' }, { id: 2, name: 'Pad' }])
+const reviews = table('reviews', [
+  { id: 10, productId: 1, rating: '4', status: 'published', at: '2024-02-01' },
+  { id: 11, productId: 1, rating: '2', status: 'hidden', at: '2024-03-01' },
+  { id: 12, productId: 1, rating: '5', status: 'published', at: '2024-01-01' },
+])
+const reviewsRel: RelationshipEdge = { sourceTableId: 'products', sourceColumn: 'id', targetTableId: 'reviews', targetColumn: 'productId' }
+const avgRating = { fn: 'avg', column: 'rating' } as const
+
+describe('buildJoinedDocument aggregate relationships', () => {
+  it('writes only the aggregates for aggregate relationships', () => {
+    const rel: RelationshipEdge = { ...reviewsRel, type: 'aggregate', aggregates: [{ fn: 'count', propertyName: 'reviewCount' }, avgRating] }
+    const doc = buildJoinedDocument('products', 0, [products, reviews], [rel])
+    expect(doc.products).toEqual({ id: 1, name: 'Pen', reviewCount: 3, avgRating: 11 / 3 })
+  })
+
+  it('counts rows by default and writes zero when nothing matches', () => {
+    const rel: RelationshipEdge = { ...reviewsRel, type: 'aggregate', propertyName: 'review' }
+    expect(buildJoinedDocument('products', 0, [products, reviews], [rel]).products.reviewCount).toBe(3)
+    expect(buildJoinedDocument('products', 1, [products, reviews], [rel]).products).toEqual({ id: 2, name: 'Pad', reviewCount: 0 })
+  })
+
+  it('aggregates every filtered child while embedding only the top N', () => {
+    const rel: RelationshipEdge = {
+      ...reviewsRel,
+      filter: "status = 'published'",
+      orderBy: { column: 'at', direction: 'desc' },
+      limit: 1,
+      aggregates: [{ fn: 'count' }, { fn: 'first', column: 'at', propertyName: 'latestReviewAt' }, { fn: 'min', column: 'rating' }],
+    }
+    const doc = buildJoinedDocument('products', 0, [products, reviews], [rel])
+    expect(doc.products.reviews.map((r: { id: number }) => r.id)).toEqual([10])
+    expect(doc.products.reviewsCount).toBe(2)
+    expect(doc.products.latestReviewAt).toBe('2024-02-01')
+    expect(doc.products.minRating).toBe('4')
+  })
+
+  it('aggregates far-side rows through a junction', () => {
+    const movies = table('movies', [{ id: 1, title: 'Heat' }])
+    const cast = table('cast', [{ movieId: 1, actorId: 1 }, { movieId: 1, actorId: 2 }])
+    const actors = table('actors', [{ id: 1, born: 1940 }, { id: 2, born: 1943 }])
+    const rels: RelationshipEdge[] = [
+      { sourceTableId: 'movies', sourceColumn: 'id', targetTableId: 'cast', targetColumn: 'movieId' },
+      { sourceTableId: 'actors', sourceColumn: 'id', targetTableId: 'cast', targetColumn: 'actorId', type: 'aggregate', aggregates: [{ fn: 'max', column: 'born' }] },
+    ]
+    const doc = buildJoinedDocument('movies', 0, [movies, cast, actors], rels, { junctions: [{ tableId: 'cast' }] })
+    expect(doc.movies).toEqual({ id: 1, title: 'Heat', maxBorn: 1943 })
+  })
+})
+
+describe('documentAggregates', () => {
+  it('lists the aggregated tables reachable from the root', () => {
+    const customers = table('customers', [{ id: 1 }])
+    const orders = table('orders', [{ id: 1, customerId: 1 }])
+    const lines = table('lines', [{ orderId: 1, qty: 1 }])
+    const rels: RelationshipEdge[] = [
+      { sourceTableId: 'customers', sourceColumn: 'id', targetTableId: 'orders', targetColumn: 'customerId' },
+      { sourceTableId: 'orders', sourceColumn: 'id', targetTableId: 'lines', targetColumn: 'orderId', aggregates: [{ fn: 'sum', column: 'qty' }] },
+      { ...reviewsRel, type: 'aggregate' },
+    ]
+    const tables = [customers, orders, lines, products, reviews]
+    expect(documentAggregates('customers', tables, rels)).toEqual([{ tableId: 'lines', tableName: 'lines', properties: ['sumQty'] }])
+    expect(documentAggregates('products', tables, rels)).toEqual([{ tableId: 'reviews', tableName: 'reviews', properties: ['reviewsCount'] }])
+  })
+})
+
+describe('toRelationshipEdges aggregates', () => {
+  it('reads aggregates from edge data and drops incomplete ones', () => {
+    const edges: Edge[] = [{
+      id: 'e1', source: 'products', target: 'reviews', sourceHandle: 'id', targetHandle: 'productId',
+      data: { aggregates: [{ fn: 'count' }, { fn: 'avg' }, avgRating] },
+    }]
+    expect(toRelationshipEdges(edges)[0].aggregates).toEqual([{ fn: 'count' }, avgRating])
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import type { Edge } from 'reactflow'
+import { buildJoinedDocument, edgeColumnPairs, edgeUsesColumn, toRelationshipEdges } from './join'
+import { table } from './testTables'
+
+const tables = [
+  { ...table('orders', [
+    { TenantId: 1, OrderId: 100, total: 5 },
+    { TenantId: 2, OrderId: 100, total: 9 },
+  ]), name: 'Orders' },
+  { ...table('lines', [
+    { TenantId: 1, OrderId: 100, sku: 'a' },
+    { TenantId: 2, OrderId: 100, sku: 'b' },
+    { TenantId: 2, OrderId: 100, sku: 'c' },
+  ]), name: 'Lines' },
+]
+
+const edge: Edge = {
+  id: 'e1',
+  source: 'orders',
+  target: 'lines',
+  sourceHandle: 'OrderId',
+  targetHandle: 'OrderId',
+  data: { type: 'one-to-many', additionalColumns: [{ sourceColumn: 'TenantId', targetColumn: 'TenantId' }] },
+}
+
+describe('composite key relationships', () => {
+  it('lists every column pair of an edge, handle pair first', () => {
+    expect(edgeColumnPairs(edge)).toEqual([
+      { sourceColumn: 'OrderId', targetColumn: 'OrderId' },
+      { sourceColumn: 'TenantId', targetColumn: 'TenantId' },
+    ])
+    expect(edgeUsesColumn(edge, 'lines', 'TenantId')).toBe(true)
+    expect(edgeUsesColumn(edge, 'lines', 'sku')).toBe(false)
+  })
+
+  it('carries the extra pairs into relationship edges', () => {
+    expect(toRelationshipEdges([edge])[0].additionalColumns).toEqual([{ sourceColumn: 'TenantId', targetColumn: 'TenantId' }])
+  })
+
+  it('matches children on all key columns', () => {
+    const doc = buildJoinedDocument('orders', 1, tables, toRelationshipEdges([edge]))
+    expect(doc.Orders.Lines.map((l: { sku: string }) => l.sku)).toEqual(['b', 'c'])
+  })
+
+  it('matches from the child side too', () => {
+    const doc = buildJoinedDocument('lines', 0, tables, toRelationshipEdges([edge]))
+    expect(doc.Lines.Orders).toEqual([{ TenantId: 1, OrderId: 100, total: 5 }])
+  })
+
+  it('joins on the handle pair alone without extra pairs', () => {
+    const single = { ...edge, data: { type: 'one-to-many' } }
+    const doc = buildJoinedDocument('orders', 1, tables, toRelationshipEdges([single]))
+    expect(doc.Orders.Lines).toHaveLength(3)
+  })
+})
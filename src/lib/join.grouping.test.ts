@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest'
+import { buildJoinedDocument } from './join'
+import type { RelationshipEdge } from './types'
+import type { ObjectGrouping } from './transforms'
+import { table } from './testTables'
+
+const customers = table('customers', [{ id: 1, name: 'Ada', 'address.street': 'Main St', 'address.city': 'Leeds' }])
+const stores = table('stores', [{ customerId: 1, Store_Name: 'North', Store_Region: 'EU', opened: 2001 }])
+const tables = [customers, stores]
+const rels: RelationshipEdge[] = [
+  { sourceTableId: 'customers', sourceColumn: 'id', targetTableId: 'stores', targetColumn: 'customerId' },
+]
+const groupings: ObjectGrouping[] = [
+  { tableId: 'customers', separator: '.' },
+  { tableId: 'stores', paths: { Store_Name: 'store.name', Store_Region: 'store.region' } },
+]
+
+describe('buildJoinedDocument object grouping', () => {
+  it('nests grouped columns of root and embedded rows', () => {
+    const doc = buildJoinedDocument('customers', 0, tables, rels, { objectGroupings: groupings })
+    expect(doc).toEqual({
+      customers: {
+        id: 1,
+        name: 'Ada',
+        address: { street: 'Main St', city: 'Leeds' },
+        stores: [{ customerId: 1, store: { name: 'North', region: 'EU' }, opened: 2001 }],
+      },
+    })
+  })
+
+  it('keeps included grouped columns under their path', () => {
+    const included: RelationshipEdge[] = [{ ...rels[0], includedColumns: ['Store_Name', 'opened'] }]
+    const doc = buildJoinedDocument('customers', 0, tables, included, { objectGroupings: groupings })
+    expect(doc.customers.stores).toEqual([{ store: { name: 'North' }, opened: 2001 }])
+  })
+
+  it('leaves rows flat without a grouping', () => {
+    const doc = buildJoinedDocument('customers', 0, tables, rels)
+    expect(doc.customers['address.city']).toBe('Leeds')
+  })
+})
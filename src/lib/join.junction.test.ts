@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { buildJoinedDocument } from './join'
+import type { RelationshipEdge } from './types'
+import { table } from './testTables'
+
+const movies = table('movies', [{ id: 1, title: 'Heat' }, { id: 2, title: 'Ronin' }])
+const actors = table('actors', [{ id: 10, name: 'De Niro' }, { id: 11, name: 'Pacino' }, { id: 12, name: 'Reno' }], ['id'])
+const cast = table('cast', [
+  { movieId: 1, actorId: 10, role: 'McCauley' },
+  { movieId: 1, actorId: 11, role: 'Hanna' },
+  { movieId: 2, actorId: 10, role: 'Sam' },
+  { movieId: 2, actorId: 12, role: 'Vincent' },
+])
+const tables = [movies, actors, cast]
+const rels: RelationshipEdge[] = [
+  { sourceTableId: 'movies', sourceColumn: 'id', targetTableId: 'cast', targetColumn: 'movieId' },
+  { sourceTableId: 'actors', sourceColumn: 'id', targetTableId: 'cast', targetColumn: 'actorId' },
+]
+
+describe('buildJoinedDocument junction tables', () => {
+  it('embeds junction rows as before when the table is not marked', () => {
+    const doc = buildJoinedDocument('movies', 0, tables, rels)
+    expect(doc.movies.cast[0]).toMatchObject({ role: 'McCauley', actors: [{ id: 10, name: 'De Niro' }] })
+  })
+
+  it('embeds far-side rows directly through a junction', () => {
+    const doc = buildJoinedDocument('movies', 0, tables, rels, { junctions: [{ tableId: 'cast' }] })
+    expect(doc).toEqual({ movies: { id: 1, title: 'Heat', actors: [{ id: 10, name: 'De Niro' }, { id: 11, name: 'Pacino' }] } })
+  })
+
+  it('merges payload columns into each embedded object', () => {
+    const doc = buildJoinedDocument('actors', 0, tables, rels, { junctions: [{ tableId: 'cast', payloadColumns: ['role'] }] })
+    expect(doc.actors.movies).toEqual([
+      { id: 1, title: 'Heat', role: 'McCauley' },
+      { id: 2, title: 'Ronin', role: 'Sam' },
+    ])
+  })
+
+  it('honours the far relationship property name and reference type', () => {
+    const refRels: RelationshipEdge[] = [rels[0], { ...rels[1], type: 'reference', propertyName: 'actorIds' }]
+    const doc = buildJoinedDocument('movies', 1, tables, refRels, { junctions: [{ tableId: 'cast', payloadColumns: ['role'] }] })
+    expect(doc.movies.actorIds).toEqual([10, 12])
+  })
+
+  it('builds junction-rooted documents normally', () => {
+    const doc = buildJoinedDocument('cast', 0, tables, rels, { junctions: [{ tableId: 'cast' }] })
+    expect(doc.cast).toMatchObject({ role: 'McCauley', movies: [{ id: 1, title: 'Heat' }], actors: [{ id: 10, name: 'De Niro' }] })
+  })
+
+  it('handles self-referencing many-to-many links', () => {
+    const people = table('people', [{ id: 1, name: 'Ada' }, { id: 2, name: 'Grace' }, { id: 3, name: 'Linus' }])
+    const friends = table('friends', [{ a: 1, b: 2, since: 2001 }, { a: 1, b: 3, since: 2010 }, { a: 2, b: 3, since: 2020 }])
+    const friendRels: RelationshipEdge[] = [
+      { sourceTableId: 'people', sourceColumn: 'id', targetTableId: 'friends', targetColumn: 'a' },
+      { sourceTableId: 'people', sourceColumn: 'id', targetTableId: 'friends', targetColumn: 'b', propertyName: 'friends' },
+    ]
+    const doc = buildJoinedDocument('people', 0, [people, friends], friendRels, { junctions: [{ tableId: 'friends', payloadColumns: ['since'] }] })
+    expect(doc.people.friends).toEqual([
+      { id: 2, name: 'Grace', since: 2001 },
+      { id: 3, name: 'Linus', since: 2010 },
+    ])
+  })
+})
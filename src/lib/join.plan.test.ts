@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { buildJoinedDocument, createJoinPlan } from './join'
+import type { RelationshipEdge } from './types'
+import { table } from './testTables'
+
+function shop(customerCount: number, ordersPerCustomer: number, linesPerOrder: number) {
+  const customers = table('customers', Array.from({ length: customerCount }, (_, i) => ({ id: i, name: `c${i}` })))
+  const orders = table('orders', Array.from({ length: customerCount * ordersPerCustomer }, (_, i) => ({
+    id: i,
+    customerId: i % customerCount,
+  })))
+  const lines = table('lines', Array.from({ length: orders.rows.length * linesPerOrder }, (_, i) => ({
+    orderId: i % orders.rows.length,
+    line: Math.floor(i / orders.rows.length),
+    sku: `sku${i % 97}`,
+  })))
+  const rels: RelationshipEdge[] = [
+    { sourceTableId: 'customers', sourceColumn: 'id', targetTableId: 'orders', targetColumn: 'customerId' },
+    { sourceTableId: 'orders', sourceColumn: 'id', targetTableId: 'lines', targetColumn: 'orderId' },
+  ]
+  return { tables: [customers, orders, lines], rels }
+}
+
+describe('createJoinPlan', () => {
+  it('builds the same documents as buildJoinedDocument when reused across rows', () => {
+    const { tables, rels } = shop(20, 3, 2)
+    const options = { columnsFilter: { lines: ['orderId', 'sku'] } }
+    const plan = createJoinPlan(tables, rels, options)
+    for (let i = 0; i < 20; i++) {
+      expect(plan.build('customers', i)).toEqual(buildJoinedDocument('customers', i, tables, rels, options))
+    }
+    expect(plan.build('orders', 4)).toEqual(buildJoinedDocument('orders', 4, tables, rels, options))
+  })
+
+  it('keeps strict equality semantics for keys', () => {
+    const a = table('a', [{ id: NaN }, { id: 1 }, { id: undefined }])
+    const b = table('b', [{ aId: NaN }, { aId: '1' }, { aId: 1 }, { other: 'x' }])
+    const rels: RelationshipEdge[] = [{ sourceTableId: 'a', sourceColumn: 'id', targetTableId: 'b', targetColumn: 'aId' }]
+    const plan = createJoinPlan([a, b], rels)
+    expect(plan.build('a', 0).a.b).toBeUndefined()
+    expect(plan.build('a', 1).a.b).toEqual([{ aId: 1 }])
+    // A missing key column matches an undefined key, as it always has
+    expect(plan.build('a', 2).a.b).toEqual([{ other: 'x' }])
+  })
+
+  it('throws for unknown lead tables and rows', () => {
+    const { tables, rels } = shop(1, 1, 1)
+    const plan = createJoinPlan(tables, rels)
+    expect(() => plan.build('nope', 0)).toThrow(/Lead table not found/)
+    expect(() => plan.build('customers', 5)).toThrow(/Lead row not found/)
+  })
+
+  it('builds every root row of a large join like a direct scan of the child tables', () => {
+    const { tables, rels } = shop(5000, 4, 2)
+    const [customers, orders, lines] = tables
+    const plan = createJoinPlan(tables, rels)
+    let lineCount = 0
+    for (let i = 0; i < customers.rows.length; i++) {
+      const doc = plan.build('customers', i)
+      for (const order of doc.customers.orders) lineCount += order.lines.length
+      if (i % 500) continue
+      const scanned = orders.rows
+        .filter((o) => o.customerId === customers.rows[i].id)
+        .map((o) => ({ ...o, lines: lines.rows.filter((l) => l.orderId === o.id) }))
+      expect(doc).toEqual({ customers: { ...customers.rows[i], orders: scanned } })
+    }
+    expect(lineCount).toBe(40000)
+  })
+
+  it('reads each child row a bounded number of times across a full export', () => {
+    const { tables, rels } = shop(500, 4, 2)
+    let reads = 0
+    const counted = tables.map((t) => ({
+      ...t,
+      rows: t.rows.map((r) => new Proxy(r, { get: (target, key, receiver) => (reads++, Reflect.get(target, key, receiver)) })),
+    }))
+    const plan = createJoinPlan(counted, rels)
+    for (let i = 0; i < 500; i++) plan.build('customers', i)
+    const rowCount = counted.reduce((n, t) => n + t.rows.length, 0)
+    // Indexed lookups read each row a few times; a per-row scan of the child tables reads millions of keys here
+    expect(reads).toBeLessThan(rowCount * 10)
+  })
+})
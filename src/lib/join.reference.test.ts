@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import type { Edge } from 'reactflow'
+import { buildJoinedDocument, toRelationshipEdges } from './join'
+import type { RelationshipEdge } from './types'
+import { table } from './testTables'
+
+const orders = table('orders', [{ id: 1, customer: 'Ada' }])
+const lines = table('lines', [
+  { orderId: 1, productId: 'p1', qty: 2 },
+  { orderId: 1, productId: 'p2', qty: 1 },
+  { orderId: 1, productId: 'p1', qty: 5 },
+])
+const products = table('products', [{ sku: 'p1', name: 'Pen', price: 2 }, { sku: 'p2', name: 'Pad', price: 5 }], ['sku'])
+
+const linesRel: RelationshipEdge = { sourceTableId: 'orders', sourceColumn: 'id', targetTableId: 'lines', targetColumn: 'orderId', type: 'reference' }
+
+describe('buildJoinedDocument reference relationships', () => {
+  it('emits the join column values when the child has no primary key', () => {
+    const doc = buildJoinedDocument('orders', 0, [orders, lines], [linesRel])
+    expect(doc.orders.lines).toEqual([1])
+  })
+
+  it('emits primary key values of the related rows', () => {
+    const rels: RelationshipEdge[] = [
+      { ...linesRel, type: 'one-to-many' },
+      { sourceTableId: 'lines', sourceColumn: 'productId', targetTableId: 'products', targetColumn: 'sku', type: 'reference', propertyName: 'productIds' },
+    ]
+    const doc = buildJoinedDocument('lines', 0, [orders, lines, products], rels)
+    expect(doc.lines.productIds).toEqual(['p1'])
+  })
+
+  it('emits a single chosen column as a value array, without duplicates', () => {
+    const doc = buildJoinedDocument('orders', 0, [orders, lines], [{ ...linesRel, includedColumns: ['productId'], propertyName: 'productIds' }])
+    expect(doc.orders.productIds).toEqual(['p1', 'p2'])
+  })
+
+  it('emits summary objects for several chosen columns and does not recurse', () => {
+    const rels: RelationshipEdge[] = [
+      { ...linesRel, includedColumns: ['productId', 'qty'] },
+      { sourceTableId: 'lines', sourceColumn: 'productId', targetTableId: 'products', targetColumn: 'sku' },
+    ]
+    const doc = buildJoinedDocument('orders', 0, [orders, lines, products], rels)
+    expect(doc.orders.lines).toEqual([
+      { productId: 'p1', qty: 2 },
+      { productId: 'p2', qty: 1 },
+      { productId: 'p1', qty: 5 },
+    ])
+  })
+
+  it('takes the reference type from edge types in toRelationshipEdges', () => {
+    const edge: Edge = { id: 'e', source: 'orders', sourceHandle: 'id', target: 'lines', targetHandle: 'orderId' }
+    expect(toRelationshipEdges([edge], { e: 'reference' })[0].type).toBe('reference')
+    expect(toRelationshipEdges([{ ...edge, data: { type: 'reference' } }])[0].type).toBe('reference')
+  })
+})
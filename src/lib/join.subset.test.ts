@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import type { Edge } from 'reactflow'
+import { buildJoinedDocument, toRelationshipEdges } from './join'
+import type { RelationshipEdge } from './types'
+import { table } from './testTables'
+
+const customers = table('customers', [{ id: 1, name: 'Ada' }])
+const orders = table('orders', [
+  { id: 10, customerId: 1, status: 'active', total: '30' },
+  { id: 11, customerId: 1, status: 'closed', total: '99' },
+  { id: 12, customerId: 1, status: 'active', total: '' },
+  { id: 13, customerId: 1, status: 'active', total: '5' },
+  { id: 14, customerId: 1, status: 'active', total: '120' },
+])
+const ordersRel: RelationshipEdge = { sourceTableId: 'customers', sourceColumn: 'id', targetTableId: 'orders', targetColumn: 'customerId' }
+const ids = (docs: Record<string, unknown>[]) => docs.map((d) => d.id)
+
+describe('buildJoinedDocument relationship subsets', () => {
+  it('keeps only children matching the filter', () => {
+    const doc = buildJoinedDocument('customers', 0, [customers, orders], [{ ...ordersRel, filter: "status = 'active'" }])
+    expect(ids(doc.customers.orders)).toEqual([10, 12, 13, 14])
+  })
+
+  it('orders children by a column with blanks last', () => {
+    const asc = buildJoinedDocument('customers', 0, [customers, orders], [{ ...ordersRel, orderBy: { column: 'total', direction: 'asc' } }])
+    expect(ids(asc.customers.orders)).toEqual([13, 10, 11, 14, 12])
+    const desc = buildJoinedDocument('customers', 0, [customers, orders], [{ ...ordersRel, orderBy: { column: 'total', direction: 'desc' } }])
+    expect(ids(desc.customers.orders)).toEqual([14, 11, 10, 13, 12])
+  })
+
+  it('filters, then orders, then keeps the top N', () => {
+    const rel: RelationshipEdge = { ...ordersRel, filter: "status = 'active'", orderBy: { column: 'total', direction: 'desc' }, limit: 2 }
+    const doc = buildJoinedDocument('customers', 0, [customers, orders], [rel])
+    expect(ids(doc.customers.orders)).toEqual([14, 10])
+  })
+
+  it('picks the first remaining child for one-to-one relationships', () => {
+    const rel: RelationshipEdge = { ...ordersRel, type: 'one-to-one', orderBy: { column: 'total', direction: 'desc' } }
+    const doc = buildJoinedDocument('customers', 0, [customers, orders], [rel])
+    expect(doc.customers.orders.id).toBe(14)
+  })
+
+  it('omits the property when the filter removes every child', () => {
+    const doc = buildJoinedDocument('customers', 0, [customers, orders], [{ ...ordersRel, filter: 'total > 1000' }])
+    expect(doc.customers.orders).toBeUndefined()
+  })
+
+  it('applies subsets to both sides of a junction', () => {
+    const movies = table('movies', [{ id: 1, title: 'Heat' }])
+    const cast = table('cast', [
+      { movieId: 1, actorId: 1, role: 'Lead' },
+      { movieId: 1, actorId: 2, role: 'Lead' },
+      { movieId: 1, actorId: 3, role: 'Extra' },
+    ])
+    const actors = table('actors', [{ id: 1, name: 'Pacino' }, { id: 2, name: 'De Niro' }, { id: 3, name: 'Kilmer' }])
+    const rels: RelationshipEdge[] = [
+      { sourceTableId: 'movies', sourceColumn: 'id', targetTableId: 'cast', targetColumn: 'movieId', filter: "role = 'Lead'" },
+      { sourceTableId: 'actors', sourceColumn: 'id', targetTableId: 'cast', targetColumn: 'actorId', orderBy: { column: 'name', direction: 'asc' } },
+    ]
+    const doc = buildJoinedDocument('movies', 0, [movies, cast, actors], rels, { junctions: [{ tableId: 'cast' }] })
+    expect(doc.movies.actors.map((a: { name: string }) => a.name)).toEqual(['De Niro', 'Pacino'])
+  })
+
+  it('reports an invalid filter', () => {
+    expect(() => buildJoinedDocument('customers', 0, [customers, orders], [{ ...ordersRel, filter: "status = 'active" }]))
+      .toThrow(/Invalid relationship filter "status = 'active": Unterminated string/)
+  })
+})
+
+describe('toRelationshipEdges subsets', () => {
+  it('reads filter, ordering and limit from edge data and drops blanks', () => {
+    const edges: Edge[] = [
+      { id: 'e1', source: 'customers', target: 'orders', sourceHandle: 'id', targetHandle: 'customerId', data: { filter: " status = 'active' ", orderBy: { column: 'total', direction: 'desc' }, limit: 3 } },
+      { id: 'e2', source: 'customers', target: 'orders', sourceHandle: 'id', targetHandle: 'customerId', data: { filter: '  ', orderBy: { column: '', direction: 'asc' }, limit: 0 } },
+    ]
+    const [a, b] = toRelationshipEdges(edges)
+    expect(a).toMatchObject({ filter: "status = 'active'", orderBy: { column: 'total', direction: 'desc' }, limit: 3 })
+    expect(b.filter).toBeUndefined()
+    expect(b.orderBy).toBeUndefined()
+    expect(b.limit).toBeUndefined()
+  })
+})
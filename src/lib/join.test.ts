@@ -42,6 +42,14 @@ describe('buildJoinedDocument', () => {
     })
   })
 
+  it('adds computed columns to embedded rows, reading unselected columns', () => {
+    const doc = buildJoinedDocument('a', 0, tables, relationships, {
+      columnsFilter: { b: ['id'] },
+      computedColumns: [{ tableId: 'b', name: 'label', expression: "CONCAT('b-', id, '-', val)" }],
+    })
+    expect(doc.A.B).toEqual([{ id: 10, label: 'b-10-x' }])
+  })
+
   it('handles reverse traversal', () => {
     const reversed: RelationshipEdge[] = [
       { sourceTableId: 'b', targetTableId: 'a', sourceColumn: 'id', targetColumn: 'b_id' },
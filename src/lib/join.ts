@@ -1,10 +1,50 @@
 import type { Edge } from 'reactflow'
-import type { TableData, RelationshipEdge } from './types'
-import { applyTransforms, matchGroupColumns, type ColumnSplit, type TablePivot } from './transforms'
+import type { TableData, RelationshipEdge, ColumnPair, JoinMatchMode, RelationshipType, JunctionTable, RelationshipOrder, RelationshipAggregate } from './types'
+import { applyTransforms, matchGroupColumns, objectPath, sortPivotIndices, unpivotRows, type ColumnSplit, type ComputedColumn, type ObjectGrouping, type TablePivot, type TableUnpivot } from './transforms'
+import { joinKey, joinValuesMatch, UNMATCHABLE } from './matchModes'
+import { compareForSort, compileRowFilter } from './expression'
+import { aggregatePropertyName, computeAggregate } from './aggregates'
+
+/** Composite-key pairs beyond the handle pair, stored on the canvas edge's data. */
+export function edgeAdditionalColumns(e: Edge): ColumnPair[] {
+  return (e.data as { additionalColumns?: ColumnPair[] } | undefined)?.additionalColumns ?? []
+}
+
+/** Key comparison mode stored on the canvas edge's data. */
+export function edgeMatchMode(e: Edge): JoinMatchMode {
+  return (e.data as { matchMode?: JoinMatchMode } | undefined)?.matchMode ?? 'strict'
+}
+
+/** Subset settings (filter, ordering, limit) stored on the canvas edge's data. */
+export function edgeSubset(e: Edge): Pick<RelationshipEdge, 'filter' | 'orderBy' | 'limit'> {
+  const data = e.data as { filter?: string; orderBy?: RelationshipOrder; limit?: number } | undefined
+  return {
+    ...(data?.filter?.trim() ? { filter: data.filter.trim() } : {}),
+    ...(data?.orderBy?.column ? { orderBy: data.orderBy } : {}),
+    ...(data?.limit && data.limit > 0 ? { limit: data.limit } : {}),
+  }
+}
+
+/** Aggregate properties stored on the canvas edge's data; incomplete entries are dropped. */
+export function edgeAggregates(e: Edge): RelationshipAggregate[] {
+  const list = (e.data as { aggregates?: RelationshipAggregate[] } | undefined)?.aggregates ?? []
+  return list.filter((a) => a.fn && (a.fn === 'count' || a.column))
+}
+
+/** Every column pair of a canvas edge, handle pair first. */
+export function edgeColumnPairs(e: Edge): ColumnPair[] {
+  const first = e.sourceHandle && e.targetHandle ? [{ sourceColumn: e.sourceHandle, targetColumn: e.targetHandle }] : []
+  return [...first, ...edgeAdditionalColumns(e)]
+}
+
+/** Whether the edge joins on `column` of `tableId` in any of its column pairs. */
+export function edgeUsesColumn(e: Edge, tableId: string, column: string): boolean {
+  return edgeColumnPairs(e).some((p) => (e.source === tableId && p.sourceColumn === column) || (e.target === tableId && p.targetColumn === column))
+}
 
 export function toRelationshipEdges(
   edges: Edge[],
-  edgeTypes?: Record<string, 'one-to-many' | 'one-to-one'>,
+  edgeTypes?: Record<string, RelationshipType>,
   edgeColumnFilters?: Record<string, string[]>,
   edgeMaxDepth?: Record<string, number>,
   edgePropertyNames?: Record<string, string>,
@@ -18,200 +58,481 @@ export function toRelationshipEdges(
       type: edgeTypes?.[e.id] ?? (e.data as any)?.type,
       includedColumns: edgeColumnFilters?.[e.id],
       maxDepth: edgeMaxDepth?.[e.id],
-      propertyName: edgePropertyNames?.[e.id],
+      propertyName: edgePropertyNames?.[e.id] ?? (e.data as { propertyName?: string } | undefined)?.propertyName,
+      ...(edgeAdditionalColumns(e).length ? { additionalColumns: edgeAdditionalColumns(e) } : {}),
+      ...(edgeMatchMode(e) !== 'strict' ? { matchMode: edgeMatchMode(e) } : {}),
+      ...edgeSubset(e),
+      ...(edgeAggregates(e).length ? { aggregates: edgeAggregates(e) } : {}),
     }))
     .filter((e) => e.sourceColumn && e.targetColumn)
 }
 
-export function buildJoinedDocument(
-  leadTableId: string,
-  leadRowIndex: number,
-  tables: TableData[],
-  relationships: RelationshipEdge[],
-  options?: {
-    columnsFilter?: Record<string, string[]>
-    columnSplits?: ColumnSplit[]
-    tablePivots?: TablePivot[]
-  },
-) {
-  const tableMap = new Map<string, TableData>(tables.map((t) => [t.id, t]))
-  const leadTable = tableMap.get(leadTableId)
-  if (!leadTable) throw new Error(`Lead table not found: ${leadTableId}`)
-  const leadRow = leadTable.rows[leadRowIndex]
-  if (!leadRow) throw new Error(`Lead row not found index=${leadRowIndex}`)
+export interface JoinOptions {
+  columnsFilter?: Record<string, string[]>
+  columnSplits?: ColumnSplit[]
+  tablePivots?: TablePivot[]
+  computedColumns?: ComputedColumn[]
+  tableUnpivots?: TableUnpivot[]
+  objectGroupings?: ObjectGrouping[]
+  junctions?: JunctionTable[]
+}
 
+/** Builds joined documents for any lead row, reusing lookups across calls. */
+export interface JoinPlan {
+  build(leadTableId: string, leadRowIndex: number): Record<string, ReturnType<typeof applyTransforms>>
+}
+
+type PivotInfo = { pivot: TablePivot; siblingCols: Map<string, string>; sortedIndices: string[] }
+
+/**
+ * Plan joins once per export. Row positions, per-table relationship lists and
+ * per-(table, column) value indexes are built lazily on first use and shared
+ * by every `build` call, so exporting N lead rows no longer rescans each child
+ * table per row. Indexes are keyed by `joinKey`, so each relationship's match
+ * mode applies (strict mode keeps `===` semantics; NaN never joins).
+ */
+export function createJoinPlan(tables: TableData[], relationships: RelationshipEdge[], options?: JoinOptions): JoinPlan {
+  const tableMap = new Map<string, TableData>(tables.map((t) => [t.id, t]))
   const columnsFilter = options?.columnsFilter
   const columnSplits = options?.columnSplits ?? []
   const tablePivots = options?.tablePivots ?? []
-  const visited = new Set<string>() // tableId:rowIndex
+  const computedColumns = options?.computedColumns ?? []
+  const objectGroupings = options?.objectGroupings ?? []
+  const groupingById = new Map(objectGroupings.map((g) => [g.tableId, g]))
+  const junctionById = new Map((options?.junctions ?? []).map((j) => [j.tableId, j]))
+  const unpivotById = new Map((options?.tableUnpivots ?? []).map((u) => [u.tableId, u]))
 
-  const rowKey = (tableId: string, row: Record<string, any>) => {
-    const table = tableMap.get(tableId)
-    if (!table) return `${tableId}:unknown:${JSON.stringify(row)}`
-    const idx = table.rows.indexOf(row)
-    return idx >= 0 ? `${tableId}:${idx}` : `${tableId}:${JSON.stringify(row)}`
+  const rowIndexes = new Map<string, Map<object, number>>()
+  const rowIndexOf = (table: TableData, row: object) => {
+    let index = rowIndexes.get(table.id)
+    if (!index) {
+      index = new Map()
+      table.rows.forEach((r, i) => {
+        if (!index!.has(r)) index!.set(r, i)
+      })
+      rowIndexes.set(table.id, index)
+    }
+    return index.get(row) ?? -1
   }
 
-  const uniqBy = <T>(arr: T[], keyFn: (t: T) => string) => {
-    const seen = new Set<string>()
-    return arr.filter((item) => {
-      const k = keyFn(item)
-      if (seen.has(k)) return false
-      seen.add(k)
-      return true
-    })
+  const valueIndexes = new Map<string, Map<unknown, Record<string, unknown>[]>>()
+  const lookup = (table: TableData, column: string, value: unknown, mode: JoinMatchMode): Record<string, unknown>[] => {
+    const key = joinKey(value, mode)
+    if (key === UNMATCHABLE) return []
+    const id = `${table.id}\u0000${column}\u0000${mode}`
+    let index = valueIndexes.get(id)
+    if (!index) {
+      index = new Map()
+      for (const r of table.rows) {
+        const k = joinKey(r[column], mode)
+        if (k === UNMATCHABLE) continue
+        const list = index.get(k)
+        if (list) list.push(r)
+        else index.set(k, [r])
+      }
+      valueIndexes.set(id, index)
+    }
+    return index.get(key) ?? []
   }
 
-  const projectRow = (tableId: string, row: Record<string, any>) => {
-    const cols = columnsFilter?.[tableId]
-    let out: Record<string, any>
-    if (!cols || !cols.length) {
-      out = { ...row }
-    } else {
-      out = cols.reduce((acc, key) => {
-        if (key in row) acc[key] = row[key]
-        return acc
-      }, {} as Record<string, any>)
+  const relsByTable = new Map<string, RelationshipEdge[]>()
+  for (const rel of relationships) {
+    for (const id of new Set([rel.sourceTableId, rel.targetTableId])) {
+      const list = relsByTable.get(id)
+      if (list) list.push(rel)
+      else relsByTable.set(id, [rel])
     }
-    const table = tableMap.get(tableId)
-    const allColumns = table?.columns ?? Object.keys(row)
-    return applyTransforms(out, tableId, allColumns, columnSplits, tablePivots)
   }
 
-  function buildNested(tableId: string, row: Record<string, any>, parentId?: string, depth = 0, _parentRel?: RelationshipEdge): Record<string, any> {
-    const key = rowKey(tableId, row)
-    // For recursion: use depth tracking instead of simple visited check
-    const depthKey = `${key}:${depth}`
-    if (visited.has(depthKey)) return projectRow(tableId, row)
-    visited.add(depthKey)
-
-    const projected = projectRow(tableId, row)
-
-    const rels = relationships.filter((r) => r.sourceTableId === tableId || r.targetTableId === tableId)
-    for (const rel of rels) {
-      const childTableId = rel.sourceTableId === tableId ? rel.targetTableId : rel.sourceTableId
-      // Check recursion depth for this edge
-      const maxDepth = rel.maxDepth ?? undefined
-      const isRecursive = childTableId === parentId || childTableId === tableId
-      if (isRecursive) {
-        // If no maxDepth set, block recursion (backward compat)
-        if (maxDepth === undefined || maxDepth === 0) continue
-        if (depth >= maxDepth) continue
-      } else if (childTableId === parentId) {
-        continue // avoid parent backref (non-recursive)
-      }
-      const childTable = tableMap.get(childTableId)
-      if (!childTable) continue
-
-      // Pivot-aware: if the join column belongs to a pivot group, expand to all sibling columns
-      // and track which pivot array element each column maps to
-      const findPivotInfo = (tblId: string, col: string): { pivot: TablePivot; siblingCols: Map<string, string> } | null => {
-        const tbl = tableMap.get(tblId)
-        if (!tbl) return null
-        for (const pivot of tablePivots) {
-          if (pivot.tableId !== tblId) continue
-          for (const group of pivot.groups) {
-            const matched = matchGroupColumns(tbl.columns, group.pattern)
-            for (const colName of matched.values()) {
-              if (colName === col) {
-                return { pivot, siblingCols: matched }
-              }
-            }
-          }
-        }
-        return null
-      }
-
-      const isSource = rel.sourceTableId === tableId
-      const localCol = isSource ? rel.sourceColumn : rel.targetColumn
-      const remoteCol = isSource ? rel.targetColumn : rel.sourceColumn
-      const pivotInfo = findPivotInfo(tableId, localCol)
-
-      // Build per-edge column filter (shared by both pivot and non-pivot paths)
-      const childTableNames = new Set(
-        relationships
-          .filter((r) => r.sourceTableId === childTableId || r.targetTableId === childTableId)
+  const neighbourNames = new Map<string, Set<string>>()
+  const neighbourNamesOf = (tableId: string) => {
+    let names = neighbourNames.get(tableId)
+    if (!names) {
+      names = new Set(
+        (relsByTable.get(tableId) ?? [])
           .map((r) => {
-            const tid = r.sourceTableId === childTableId ? r.targetTableId : r.sourceTableId
+            const tid = r.sourceTableId === tableId ? r.targetTableId : r.sourceTableId
             return tableMap.get(tid)?.name
           })
           .filter(Boolean) as string[],
       )
-      const filterNestedCols = (obj: Record<string, any>) => {
-        if (!rel.includedColumns || !rel.includedColumns.length) return obj
-        const filtered: Record<string, any> = {}
-        for (const key of Object.keys(obj)) {
-          if (rel.includedColumns.includes(key) || childTableNames.has(key)) {
-            filtered[key] = obj[key]
+      neighbourNames.set(tableId, names)
+    }
+    return names
+  }
+
+  const rowFilters = new Map<string, (row: Record<string, unknown>) => boolean>()
+  const rowFilter = (text: string) => {
+    let test = rowFilters.get(text)
+    if (!test) {
+      try {
+        test = compileRowFilter(text)
+      } catch (err) {
+        throw new Error(`Invalid relationship filter "${text}": ${(err as Error).message}`)
+      }
+      rowFilters.set(text, test)
+    }
+    return test
+  }
+
+  /** Subset pattern: filter and order the children a relationship matches; `cut` then applies the limit. */
+  const subset = <T>(rel: RelationshipEdge, items: T[], rowOf: (item: T) => Record<string, unknown>): T[] => {
+    let out = items
+    if (rel.filter) {
+      const test = rowFilter(rel.filter)
+      out = out.filter((item) => test(rowOf(item)))
+    }
+    if (rel.orderBy) {
+      const { column, direction } = rel.orderBy
+      const sign = direction === 'desc' ? -1 : 1
+      const blank = (v: unknown) => v === null || v === undefined || v === ''
+      out = [...out].sort((a, b) => {
+        const va = rowOf(a)[column]
+        const vb = rowOf(b)[column]
+        // Blanks stay last in both directions
+        return blank(va) || blank(vb) ? compareForSort(va, vb) : sign * compareForSort(va, vb)
+      })
+    }
+    return out
+  }
+  const cut = <T>(rel: RelationshipEdge, items: T[]): T[] => (rel.limit && rel.limit > 0 ? items.slice(0, rel.limit) : items)
+
+  /** Write `rel`'s aggregate properties onto `target`. */
+  const writeAggregates = (target: Record<string, unknown>, rel: RelationshipEdge, rows: Record<string, unknown>[], base: string) => {
+    for (const agg of relationshipAggregates(rel)) target[aggregatePropertyName(agg, base)] = computeAggregate(agg, rows)
+  }
+
+  // Pivot-aware: if the join column belongs to a pivot group, expand to all sibling columns
+  // and track which pivot array element each column maps to
+  const pivotInfos = new Map<string, PivotInfo | null>()
+  const findPivotInfo = (tblId: string, col: string): PivotInfo | null => {
+    const id = `${tblId}\u0000${col}`
+    if (pivotInfos.has(id)) return pivotInfos.get(id)!
+    let info: PivotInfo | null = null
+    const tbl = tableMap.get(tblId)
+    outer: for (const pivot of tbl ? tablePivots : []) {
+      if (pivot.tableId !== tblId) continue
+      for (const group of pivot.groups) {
+        const matched = matchGroupColumns(tbl!.columns, group.pattern, group.regex)
+        for (const colName of matched.values()) {
+          if (colName === col) {
+            // Sorted index list matching the pivot element order
+            const allIndices = new Set<string>()
+            for (const g of pivot.groups) for (const idx of matchGroupColumns(tbl!.columns, g.pattern, g.regex).keys()) allIndices.add(idx)
+            const sortedIndices = sortPivotIndices(allIndices)
+            info = { pivot, siblingCols: matched, sortedIndices }
+            break outer
           }
         }
-        return filtered
       }
+    }
+    pivotInfos.set(id, info)
+    return info
+  }
 
-      if (pivotInfo) {
-        // Embed matched children inside each pivot array element
-        const { pivot, siblingCols } = pivotInfo
-        const pivotArray = projected[pivot.arrayName]
-        if (Array.isArray(pivotArray)) {
-          // Build a sorted index list matching the pivot element order
-          const tbl = tableMap.get(tableId)!
-          const allGroupMaps = pivot.groups.map((g) => matchGroupColumns(tbl.columns, g.pattern))
-          const allIndices = new Set<string>()
-          for (const gm of allGroupMaps) for (const idx of gm.keys()) allIndices.add(idx)
-          const sortedIndices = [...allIndices].sort((a, b) => {
-            const na = Number(a); const nb = Number(b)
-            if (!isNaN(na) && !isNaN(nb)) return na - nb
-            return a.localeCompare(b)
-          })
+  return { build }
+
+  function build(leadTableId: string, leadRowIndex: number) {
+    const leadTable = tableMap.get(leadTableId)
+    if (!leadTable) throw new Error(`Lead table not found: ${leadTableId}`)
+    const leadRow = leadTable.rows[leadRowIndex]
+    if (!leadRow) throw new Error(`Lead row not found index=${leadRowIndex}`)
+
+    const visited = new Set<string>() // tableId:rowIndex
 
-          for (let i = 0; i < sortedIndices.length && i < pivotArray.length; i++) {
-            const idx = sortedIndices[i]
-            const colName = siblingCols.get(idx)
-            if (!colName || !(colName in row)) continue
-            const localValue = row[colName]
-            const matches = childTable.rows.filter((r) => r[remoteCol] === localValue)
-            if (matches.length) {
-              const nested = uniqBy(
-                matches.map((m) => filterNestedCols(buildNested(childTableId, m, tableId, isRecursive ? depth + 1 : 0, rel))),
-                (node) => JSON.stringify(node),
-              )
-              const propName = rel.propertyName ?? childTable.name
-              const type = rel.type ?? 'one-to-many'
-              if (type === 'one-to-one') {
-                pivotArray[i][propName] = nested[0]
-              } else {
-                pivotArray[i][propName] = nested
+    const rowKey = (tableId: string, row: Record<string, any>) => {
+      const table = tableMap.get(tableId)
+      if (!table) return `${tableId}:unknown:${JSON.stringify(row)}`
+      const idx = rowIndexOf(table, row)
+      return idx >= 0 ? `${tableId}:${idx}` : `${tableId}:${JSON.stringify(row)}`
+    }
+
+    const uniqBy = <T>(arr: T[], keyFn: (t: T) => string) => {
+      const seen = new Set<string>()
+      return arr.filter((item) => {
+        const k = keyFn(item)
+        if (seen.has(k)) return false
+        seen.add(k)
+        return true
+      })
+    }
+
+    const projectRow = (tableId: string, row: Record<string, any>) => {
+      const cols = columnsFilter?.[tableId]
+      let out: Record<string, any>
+      if (!cols || !cols.length) {
+        out = { ...row }
+      } else {
+        out = cols.reduce((acc, key) => {
+          if (key in row) acc[key] = row[key]
+          return acc
+        }, {} as Record<string, any>)
+      }
+      const table = tableMap.get(tableId)
+      const allColumns = table?.columns ?? Object.keys(row)
+      return applyTransforms(out, tableId, allColumns, columnSplits, tablePivots, computedColumns, objectGroupings, row)
+    }
+
+    function buildNested(tableId: string, row: Record<string, any>, parentId?: string, depth = 0, _parentRel?: RelationshipEdge): Record<string, any> {
+      const key = rowKey(tableId, row)
+      // For recursion: use depth tracking instead of simple visited check
+      const depthKey = `${key}:${depth}`
+      if (visited.has(depthKey)) return projectRow(tableId, row)
+      visited.add(depthKey)
+
+      const projected = projectRow(tableId, row)
+
+      const rels = relsByTable.get(tableId) ?? []
+      for (const rel of rels) {
+        const childTableId = rel.sourceTableId === tableId ? rel.targetTableId : rel.sourceTableId
+        // Check recursion depth for this edge
+        const maxDepth = rel.maxDepth ?? undefined
+        const isRecursive = childTableId === parentId || childTableId === tableId
+        if (isRecursive) {
+          // If no maxDepth set, block recursion (backward compat)
+          if (maxDepth === undefined || maxDepth === 0) continue
+          if (depth >= maxDepth) continue
+        } else if (childTableId === parentId) {
+          continue // avoid parent backref (non-recursive)
+        }
+        const childTable = tableMap.get(childTableId)
+        if (!childTable) continue
+
+        const isSource = rel.sourceTableId === tableId
+        const localCol = isSource ? rel.sourceColumn : rel.targetColumn
+        const remoteCol = isSource ? rel.targetColumn : rel.sourceColumn
+        const pivotInfo = findPivotInfo(tableId, localCol)
+        // Composite keys: every further column pair must match as well
+        const extraPairs = (rel.additionalColumns ?? []).map((p) => (isSource ? [p.sourceColumn, p.targetColumn] : [p.targetColumn, p.sourceColumn]))
+        const matchMode = rel.matchMode ?? 'strict'
+        const extraMatch = (r: Record<string, unknown>) => extraPairs.every(([local, remote]) => joinValuesMatch(row[local], r[remote], matchMode))
+
+        // Junction tables are skipped: embed the rows on the far side of their other relationships
+        const junction = junctionById.get(childTableId)
+        const farRels = junction && childTableId !== leadTableId ? (relsByTable.get(childTableId) ?? []).filter((r) => r !== rel) : []
+        if (farRels.length) {
+          // The entering edge's subset picks junction rows; the far edge's picks far-side rows
+          const links = subset(rel, lookup(childTable, remoteCol, row[localCol], matchMode).filter(extraMatch), (r) => r)
+          writeAggregates(projected, rel, links, rel.propertyName ?? childTable.name)
+          if (rel.type === 'aggregate') continue
+          for (const far of farRels) embedThroughJunction(projected, tableId, depth, junction!, cut(rel, links), far)
+          continue
+        }
+
+        // Build per-edge column filter (shared by both pivot and non-pivot paths)
+        const childTableNames = neighbourNamesOf(childTableId)
+        const filterNestedCols = (obj: Record<string, unknown>) => filterColumns(obj, rel.includedColumns, childTableNames, groupingById.get(childTableId))
+
+        // Key/value tables fold their matched rows into one object (references still emit keys)
+        const unpivot = rel.type === 'reference' ? undefined : unpivotById.get(childTableId)
+
+        // References emit key values or summary columns of the related rows and stop there
+        const refColumns = rel.type === 'reference' ? (rel.includedColumns?.length ? rel.includedColumns : referenceKeyColumns(childTable, remoteCol)) : []
+        const related = (matches: Record<string, unknown>[]) => uniqBy(
+          rel.type === 'reference'
+            ? matches.map((m) => referenceOf(m, refColumns)).filter((v) => v !== undefined)
+            : matches.map((m) => filterNestedCols(buildNested(childTableId, m, tableId, isRecursive ? depth + 1 : 0, rel))),
+          (node) => JSON.stringify(node),
+        )
+
+        if (pivotInfo) {
+          // Embed matched children inside each pivot array element
+          const { pivot, siblingCols, sortedIndices } = pivotInfo
+          const pivotArray = projected[pivot.arrayName]
+          if (Array.isArray(pivotArray)) {
+            for (let i = 0; i < sortedIndices.length && i < pivotArray.length; i++) {
+              const idx = sortedIndices[i]
+              const colName = siblingCols.get(idx)
+              if (!colName || !(colName in row)) continue
+              const localValue = row[colName]
+              const ordered = subset(rel, lookup(childTable, remoteCol, localValue, matchMode).filter(extraMatch), (r) => r)
+              writeAggregates(pivotArray[i], rel, ordered, rel.propertyName ?? childTable.name)
+              const matches = rel.type === 'aggregate' ? [] : cut(rel, ordered)
+              if (matches.length) {
+                const propName = rel.propertyName ?? childTable.name
+                if (unpivot) {
+                  pivotArray[i][propName] = unpivotRows(matches, unpivot)
+                  continue
+                }
+                const nested = related(matches)
+                const type = rel.type ?? 'one-to-many'
+                if (type === 'one-to-one') {
+                  pivotArray[i][propName] = nested[0]
+                } else {
+                  pivotArray[i][propName] = nested
+                }
               }
             }
           }
-        }
-      } else {
-        // Non-pivot: standard single-column matching
-        const childMatches = childTable.rows.filter((r) => {
-          return r[remoteCol] === row[localCol]
-        })
-        if (childMatches.length) {
-          const nested = uniqBy(
-            childMatches.map((m) => filterNestedCols(buildNested(childTableId, m, tableId, isRecursive ? depth + 1 : 0, rel))),
-            (node) => JSON.stringify(node),
-          )
-          const propName = rel.propertyName ?? childTable.name
-          const existing = projected[propName]
-          const type = rel.type ?? 'one-to-many'
-          if (type === 'one-to-one') {
-            projected[propName] = nested[0]
-          } else if (existing) {
-            const arr = Array.isArray(existing) ? existing : [existing]
-            projected[propName] = uniqBy(arr.concat(nested), (node: any) => JSON.stringify(node))
-          } else {
-            projected[propName] = nested
+        } else {
+          // Non-pivot: standard matching on the key column(s)
+          const ordered = subset(rel, lookup(childTable, remoteCol, row[localCol], matchMode).filter(extraMatch), (r) => r)
+          writeAggregates(projected, rel, ordered, rel.propertyName ?? childTable.name)
+          const childMatches = rel.type === 'aggregate' ? [] : cut(rel, ordered)
+          if (childMatches.length && unpivot) {
+            projected[rel.propertyName ?? childTable.name] = unpivotRows(childMatches, unpivot)
+          } else if (childMatches.length) {
+            const nested = related(childMatches)
+            const propName = rel.propertyName ?? childTable.name
+            const existing = projected[propName]
+            const type = rel.type ?? 'one-to-many'
+            if (type === 'one-to-one') {
+              projected[propName] = nested[0]
+            } else if (existing) {
+              const arr = Array.isArray(existing) ? existing : [existing]
+              projected[propName] = uniqBy(arr.concat(nested), (node: any) => JSON.stringify(node))
+            } else {
+              projected[propName] = nested
+            }
           }
         }
       }
+
+      return projected
+    }
+
+    /** Embed the far-side rows of junction `links` reached over `far` straight into `projected`. */
+    function embedThroughJunction(
+      projected: Record<string, unknown>,
+      tableId: string,
+      depth: number,
+      junction: JunctionTable,
+      links: Record<string, unknown>[],
+      far: RelationshipEdge,
+    ) {
+      const fromJunction = far.sourceTableId === junction.tableId
+      const farTableId = fromJunction ? far.targetTableId : far.sourceTableId
+      const farTable = tableMap.get(farTableId)
+      if (!farTable) return
+      const linkCol = fromJunction ? far.sourceColumn : far.targetColumn
+      const farCol = fromJunction ? far.targetColumn : far.sourceColumn
+      const mode = far.matchMode ?? 'strict'
+      const pairs = (far.additionalColumns ?? []).map((p) => (fromJunction ? [p.sourceColumn, p.targetColumn] : [p.targetColumn, p.sourceColumn]))
+      const refColumns = far.type === 'reference' ? (far.includedColumns?.length ? far.includedColumns : referenceKeyColumns(farTable, farCol)) : []
+      const farTableNames = neighbourNamesOf(farTableId)
+      const hits: { link: Record<string, unknown>; far: Record<string, unknown> }[] = []
+      for (const link of links) {
+        for (const f of lookup(farTable, farCol, link[linkCol], mode)) {
+          if (pairs.every(([l, r]) => joinValuesMatch(link[l], f[r], mode))) hits.push({ link, far: f })
+        }
+      }
+      const ordered = subset(far, hits, (h) => h.far)
+      writeAggregates(projected, far, ordered.map((h) => h.far), far.propertyName ?? farTable.name)
+      if (far.type === 'aggregate') return
+      const items: unknown[] = []
+      for (const hit of cut(far, ordered)) {
+        const payload = pickColumns(hit.link, junction.payloadColumns ?? [])
+        if (far.type === 'reference') {
+          // Bare key values cannot carry payload; summary objects can
+          const ref = referenceOf(hit.far, refColumns)
+          if (ref !== undefined) items.push(ref !== null && typeof ref === 'object' ? { ...ref, ...payload } : ref)
+        } else {
+          const node = buildNested(farTableId, hit.far, junction.tableId, farTableId === tableId ? depth + 1 : 0, far)
+          items.push({ ...filterColumns(node, far.includedColumns, farTableNames, groupingById.get(farTableId)), ...payload })
+        }
+      }
+      const nested = uniqBy(items, (node) => JSON.stringify(node))
+      if (!nested.length) return
+      const propName = far.propertyName ?? farTable.name
+      const existing = projected[propName]
+      projected[propName] = existing
+        ? uniqBy((Array.isArray(existing) ? existing : [existing]).concat(nested), (node) => JSON.stringify(node))
+        : nested
     }
 
-    return projected
+    return { [leadTable.name]: buildNested(leadTableId, leadRow) }
+  }
+}
+
+/** A relationship's aggregates; aggregate-only relationships without any count their rows. */
+function relationshipAggregates(rel: RelationshipEdge): RelationshipAggregate[] {
+  return rel.aggregates?.length ? rel.aggregates : rel.type === 'aggregate' ? [{ fn: 'count' }] : []
+}
+
+/** Keep the edge's included columns plus nested related-table properties; no filter keeps everything. */
+function filterColumns(obj: Record<string, unknown>, includedColumns: string[] | undefined, nestedNames: Set<string>, grouping?: ObjectGrouping) {
+  if (!includedColumns || !includedColumns.length) return obj
+  const filtered: Record<string, unknown> = {}
+  for (const key of Object.keys(obj)) {
+    if (includedColumns.includes(key) || nestedNames.has(key)) {
+      filtered[key] = obj[key]
+    }
   }
+  // Grouped columns now live under their object path: copy just those leaves
+  for (const column of grouping ? includedColumns : []) {
+    const path = objectPath(grouping!, column)
+    if (!path || includedColumns.includes(path[0]) || nestedNames.has(path[0])) continue
+    let value: unknown = obj
+    for (const segment of path) value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[segment] : undefined
+    if (value === undefined) continue
+    let target = filtered
+    for (const segment of path.slice(0, -1)) target = (target[segment] ??= {}) as Record<string, unknown>
+    target[path[path.length - 1]] = value
+  }
+  return filtered
+}
+
+function pickColumns(row: Record<string, unknown>, columns: string[]): Record<string, unknown> {
+  const out: Record<string, unknown> = {}
+  for (const c of columns) if (c in row) out[c] = row[c]
+  return out
+}
 
-  return { [leadTable.name]: buildNested(leadTableId, leadRow) }
+/** Columns a reference emits by default: the table's primary key, else the join column. */
+function referenceKeyColumns(table: TableData, joinColumn: string): string[] {
+  const keys = table.primaryKeys?.length ? table.primaryKeys : table.columns.filter((c) => table.columnTypes?.[c]?.isPrimaryKey)
+  return keys.length ? keys : [joinColumn]
+}
+
+/** A referenced row: the bare value for a single column, else an object of the chosen columns. */
+function referenceOf(row: Record<string, unknown>, columns: string[]): unknown {
+  return columns.length === 1 ? row[columns[0]] : pickColumns(row, columns)
+}
+
+/**
+ * Tables whose aggregates end up in documents rooted at `rootTableId`, with the
+ * properties they write. Walks the relationships the way `createJoinPlan`
+ * does; references and aggregate-only relationships do not embed, so the walk
+ * stops there.
+ */
+export function documentAggregates(rootTableId: string, tables: TableData[], relationships: RelationshipEdge[]) {
+  const tableMap = new Map(tables.map((t) => [t.id, t]))
+  const found = new Map<string, { tableId: string; tableName: string; properties: string[] }>()
+  const seen = new Set([rootTableId])
+  const walked = new Set<RelationshipEdge>() // never back over the relationship a table was reached by
+  const queue = [rootTableId]
+  while (queue.length) {
+    const tableId = queue.shift()!
+    for (const rel of relationships) {
+      if ((rel.sourceTableId !== tableId && rel.targetTableId !== tableId) || walked.has(rel)) continue
+      walked.add(rel)
+      const childId = rel.sourceTableId === tableId ? rel.targetTableId : rel.sourceTableId
+      const child = tableMap.get(childId)
+      if (!child) continue
+      const aggregates = relationshipAggregates(rel)
+      if (aggregates.length) {
+        const entry = found.get(childId) ?? { tableId: childId, tableName: child.name, properties: [] }
+        for (const agg of aggregates) {
+          const name = aggregatePropertyName(agg, rel.propertyName ?? child.name)
+          if (!entry.properties.includes(name)) entry.properties.push(name)
+        }
+        found.set(childId, entry)
+      }
+      if (rel.type === 'aggregate' || rel.type === 'reference' || seen.has(childId)) continue
+      seen.add(childId)
+      queue.push(childId)
+    }
+  }
+  return [...found.values()]
+}
+
+/** Join a single lead row; for many rows, reuse one `createJoinPlan` instead. */
+export function buildJoinedDocument(
+  leadTableId: string,
+  leadRowIndex: number,
+  tables: TableData[],
+  relationships: RelationshipEdge[],
+  options?: JoinOptions,
+) {
+  return createJoinPlan(tables, relationships, options).build(leadTableId, leadRowIndex)
 }
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { buildJoinedDocument } from './join'
+import type { RelationshipEdge } from './types'
+import type { TablePivot, TableUnpivot } from './transforms'
+import { table } from './testTables'
+
+const products = table('products', [{ id: 1, name: 'Shirt' }, { id: 2, name: 'Mug' }])
+const attributes = table('attributes', [
+  { productId: 1, key: 'color', value: 'red' },
+  { productId: 1, key: 'size', value: 'L' },
+  { productId: 1, key: 'tag', value: 'summer' },
+  { productId: 1, key: 'tag', value: 'sale' },
+  { productId: 2, key: 'color', value: 'white' },
+])
+const rels: RelationshipEdge[] = [
+  { sourceTableId: 'products', sourceColumn: 'id', targetTableId: 'attributes', targetColumn: 'productId' },
+]
+const unpivot: TableUnpivot = { tableId: 'attributes', keyColumn: 'key', valueColumn: 'value' }
+
+describe('buildJoinedDocument unpivot', () => {
+  it('embeds key/value rows as one object', () => {
+    const doc = buildJoinedDocument('products', 0, [products, attributes], rels, { tableUnpivots: [unpivot] })
+    expect(doc).toEqual({ products: { id: 1, name: 'Shirt', attributes: { color: 'red', size: 'L', tag: ['summer', 'sale'] } } })
+  })
+
+  it('honours the relationship property name and filter', () => {
+    const named: RelationshipEdge[] = [{ ...rels[0], propertyName: 'specs', filter: "key <> 'tag'" }]
+    const doc = buildJoinedDocument('products', 0, [products, attributes], named, { tableUnpivots: [unpivot] })
+    expect(doc.products.specs).toEqual({ color: 'red', size: 'L' })
+  })
+
+  it('keeps emitting keys for reference relationships', () => {
+    const refs: RelationshipEdge[] = [{ ...rels[0], type: 'reference', includedColumns: ['key'] }]
+    const doc = buildJoinedDocument('products', 1, [products, attributes], refs, { tableUnpivots: [unpivot] })
+    expect(doc.products.attributes).toEqual(['color'])
+  })
+
+  it('unpivots matches embedded inside regex pivot elements', () => {
+    const orders = table('orders', [{ id: 7, Line_A: 1, Line_B: 2 }])
+    const pivot: TablePivot = {
+      tableId: 'orders',
+      arrayName: 'lines',
+      indexName: 'slot',
+      groups: [{ pattern: '^Line_(?<index>[A-Z])$', propertyName: 'productId', regex: true }],
+    }
+    const pivotRels: RelationshipEdge[] = [
+      { sourceTableId: 'orders', sourceColumn: 'Line_A', targetTableId: 'attributes', targetColumn: 'productId' },
+    ]
+    const doc = buildJoinedDocument('orders', 0, [orders, attributes], pivotRels, { tablePivots: [pivot], tableUnpivots: [unpivot] })
+    expect(doc.orders.lines).toEqual([
+      { slot: 'A', productId: 1, attributes: { color: 'red', size: 'L', tag: ['summer', 'sale'] } },
+      { slot: 'B', productId: 2, attributes: { color: 'white' } },
+    ])
+  })
+})
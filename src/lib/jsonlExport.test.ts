@@ -0,0 +1,141 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { gunzipSync, strFromU8 } from 'fflate'
+import { createGzipSink, createJsonlWriter, createMemorySink, jsonlFileName, openExportFiles, type ExportSink } from './jsonlExport'
+
+/** Sink that records every chunk it receives. */
+function recordingSink() {
+  const chunks: Uint8Array[] = []
+  const state = { closed: false, aborted: false }
+  const sink: ExportSink = {
+    write: async (chunk) => {
+      chunks.push(chunk.slice())
+    },
+    close: async () => {
+      state.closed = true
+    },
+    abort: async () => {
+      state.aborted = true
+    },
+  }
+  const bytes = () => {
+    const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0))
+    let offset = 0
+    for (const c of chunks) {
+      out.set(c, offset)
+      offset += c.length
+    }
+    return out
+  }
+  return { sink, chunks, state, bytes }
+}
+
+const docs = Array.from({ length: 50 }, (_, i) => ({ Customers: { id: i, name: `c${i}`, orders: [{ id: i * 10 }] } }))
+
+describe('jsonlFileName', () => {
+  it('strips characters file systems reject', () => {
+    expect(jsonlFileName('dbo.Customers', false)).toBe('dbo.Customers.jsonl')
+    expect(jsonlFileName('book.xlsx::Sheet/1', true)).toBe('book.xlsx_Sheet_1.jsonl.gz')
+    expect(jsonlFileName('::', false)).toBe('_.jsonl')
+  })
+})
+
+describe('createJsonlWriter', () => {
+  it('writes one JSON document per line in batches', async () => {
+    const { sink, chunks, state, bytes } = recordingSink()
+    const writer = createJsonlWriter(sink, 200)
+    for (const doc of docs) await writer.write(doc)
+    await writer.close()
+    expect(writer.count).toBe(50)
+    expect(state.closed).toBe(true)
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.length).toBeLessThan(50)
+    const lines = strFromU8(bytes()).split('\n')
+    expect(lines.pop()).toBe('')
+    expect(lines.map((l) => JSON.parse(l))).toEqual(docs)
+  })
+
+  it('drops buffered lines on abort', async () => {
+    const { sink, chunks, state } = recordingSink()
+    const writer = createJsonlWriter(sink)
+    await writer.write(docs[0])
+    await writer.abort()
+    expect(chunks).toHaveLength(0)
+    expect(state.aborted).toBe(true)
+  })
+})
+
+describe('createGzipSink', () => {
+  it('produces a gzip stream of everything written', async () => {
+    const { sink, state, bytes } = recordingSink()
+    const writer = createJsonlWriter(createGzipSink(sink), 300)
+    for (const doc of docs) await writer.write(doc)
+    await writer.close()
+    expect(state.closed).toBe(true)
+    const text = strFromU8(gunzipSync(bytes()))
+    expect(text.trim().split('\n').map((l) => JSON.parse(l))).toEqual(docs)
+  })
+})
+
+describe('createMemorySink', () => {
+  it('hands the assembled blob over on close', async () => {
+    let blob: Blob | undefined
+    const writer = createJsonlWriter(createMemorySink((b) => { blob = b }))
+    await writer.write({ a: 1 })
+    await writer.write({ a: 2 })
+    await writer.close()
+    expect(blob?.type).toBe('application/x-ndjson')
+    expect(await blob?.text()).toBe('{"a":1}\n{"a":2}\n')
+  })
+})
+
+describe('openExportFiles', () => {
+  const writable = (written: Uint8Array[]) => ({
+    write: async (chunk: Uint8Array) => {
+      written.push(chunk)
+    },
+    close: async () => undefined,
+    abort: async () => undefined,
+  })
+
+  it('uses a save dialog for a single file', async () => {
+    const written: Uint8Array[] = []
+    const win = {
+      showSaveFilePicker: async ({ suggestedName }: { suggestedName: string }) => ({ name: suggestedName, createWritable: async () => writable(written) }),
+      showDirectoryPicker: async () => { throw new Error('unexpected') },
+    } as unknown as Window
+    const files = await openExportFiles(['Customers.jsonl'], false, win)
+    expect(files?.map((f) => f.name)).toEqual(['Customers.jsonl'])
+    await files![0].sink.write(new Uint8Array([1, 2]))
+    expect(written).toHaveLength(1)
+  })
+
+  it('creates one file per name in a picked directory', async () => {
+    const created: string[] = []
+    const win = {
+      showSaveFilePicker: async () => { throw new Error('unexpected') },
+      showDirectoryPicker: async () => ({
+        getFileHandle: async (name: string) => {
+          created.push(name)
+          return { name, createWritable: async () => writable([]) }
+        },
+      }),
+    } as unknown as Window
+    const files = await openExportFiles(['a.jsonl.gz', 'b.jsonl.gz'], true, win)
+    expect(created).toEqual(['a.jsonl.gz', 'b.jsonl.gz'])
+    expect(files).toHaveLength(2)
+  })
+
+  it('returns null when the picker is dismissed', async () => {
+    const win = {
+      showSaveFilePicker: async () => { throw new DOMException('dismissed', 'AbortError') },
+      showDirectoryPicker: async () => { throw new DOMException('dismissed', 'AbortError') },
+    } as unknown as Window
+    expect(await openExportFiles(['a.jsonl'], false, win)).toBeNull()
+  })
+
+  it('falls back to in-memory files without the File System Access API', async () => {
+    const files = await openExportFiles(['a.jsonl', 'b.jsonl'], false, {} as Window)
+    expect(files?.map((f) => f.name)).toEqual(['a.jsonl', 'b.jsonl'])
+  })
+})
@@ -0,0 +1,157 @@
+import { Gzip, strToU8 } from 'fflate'
+import { saveAs } from 'file-saver'
+
+/**
+ * Streaming JSONL export.
+ *
+ * Documents are serialised one per line and flushed in batches to a byte sink,
+ * optionally through a streaming gzip encoder. When the browser offers the File
+ * System Access API the sink is a writable file stream, so nothing but the
+ * current batch is held in memory; otherwise encoded chunks are collected and
+ * handed to `saveAs` when the file is closed.
+ */
+
+export interface ExportSink {
+  write(chunk: Uint8Array): Promise<void>
+  close(): Promise<void>
+  abort(): Promise<void>
+}
+
+export interface ExportFile {
+  name: string
+  sink: ExportSink
+}
+
+/** Flush serialised lines once this many characters are buffered. */
+const DEFAULT_BATCH_CHARS = 1 << 20
+
+type PickerWindow = Window & {
+  showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>
+}
+
+export function supportsFileSystemAccess(win: Window = window): boolean {
+  const w = win as PickerWindow
+  return typeof w.showSaveFilePicker === 'function' && typeof w.showDirectoryPicker === 'function'
+}
+
+/** File name for a root's export; strips characters file systems reject. */
+export function jsonlFileName(tableName: string, gzip: boolean): string {
+  const base = tableName.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'documents'
+  return `${base}.jsonl${gzip ? '.gz' : ''}`
+}
+
+/** Sink over a File System Access writable; the file only appears once closed. */
+export function createWritableSink(stream: FileSystemWritableFileStream): ExportSink {
+  return {
+    write: (chunk) => stream.write(chunk as Uint8Array<ArrayBuffer>),
+    close: () => stream.close(),
+    abort: () => stream.abort(),
+  }
+}
+
+/** In-memory sink; `onClose` receives the assembled Blob. */
+export function createMemorySink(onClose: (blob: Blob) => void, type = 'application/x-ndjson'): ExportSink {
+  let chunks: Uint8Array<ArrayBuffer>[] = []
+  return {
+    write: async (chunk) => {
+      chunks.push(chunk as Uint8Array<ArrayBuffer>)
+    },
+    close: async () => {
+      onClose(new Blob(chunks, { type }))
+      chunks = []
+    },
+    abort: async () => {
+      chunks = []
+    },
+  }
+}
+
+/** Gzip-compress everything written into `sink`. */
+export function createGzipSink(sink: ExportSink): ExportSink {
+  let pending: Promise<void> = Promise.resolve()
+  const gzip = new Gzip((chunk) => {
+    pending = pending.then(() => sink.write(chunk))
+  })
+  return {
+    write: (chunk) => {
+      gzip.push(chunk)
+      return pending
+    },
+    close: async () => {
+      gzip.push(new Uint8Array(0), true)
+      await pending
+      await sink.close()
+    },
+    abort: async () => {
+      await pending.catch(() => undefined)
+      await sink.abort()
+    },
+  }
+}
+
+/** Line-delimited JSON writer that batches serialised documents before writing. */
+export function createJsonlWriter(sink: ExportSink, batchChars = DEFAULT_BATCH_CHARS) {
+  let buffer: string[] = []
+  let size = 0
+  let count = 0
+  const flush = async () => {
+    if (!buffer.length) return
+    const text = buffer.join('')
+    buffer = []
+    size = 0
+    await sink.write(strToU8(text))
+  }
+  return {
+    /** Documents written so far. */
+    get count() {
+      return count
+    },
+    async write(doc: unknown) {
+      const line = `${JSON.stringify(doc)}\n`
+      buffer.push(line)
+      size += line.length
+      count++
+      if (size >= batchChars) await flush()
+    },
+    async close() {
+      await flush()
+      await sink.close()
+    },
+    abort: () => {
+      buffer = []
+      return sink.abort()
+    },
+  }
+}
+
+/**
+ * Open one output file per name. With the File System Access API a single
+ * name opens a save dialog and several names a directory picker; without it
+ * each file downloads through `saveAs` on close. Returns null when the user
+ * dismisses the picker. Must be called from a user gesture.
+ */
+export async function openExportFiles(names: string[], gzip: boolean, win: Window = window): Promise<ExportFile[] | null> {
+  const w = win as PickerWindow
+  const wrap = (sink: ExportSink) => (gzip ? createGzipSink(sink) : sink)
+  const type = gzip ? 'application/gzip' : 'application/x-ndjson'
+  if (!supportsFileSystemAccess(win)) {
+    return names.map((name) => ({ name, sink: wrap(createMemorySink((blob) => saveAs(blob, name), type)) }))
+  }
+  try {
+    if (names.length === 1) {
+      const handle = await w.showSaveFilePicker!({ suggestedName: names[0] })
+      return [{ name: handle.name, sink: wrap(createWritableSink(await handle.createWritable())) }]
+    }
+    const dir = await w.showDirectoryPicker!({ mode: 'readwrite' })
+    const files: ExportFile[] = []
+    for (const name of names) {
+      const handle = await dir.getFileHandle(name, { create: true })
+      files.push({ name, sink: wrap(createWritableSink(await handle.createWritable())) })
+    }
+    return files
+  } catch (err) {
+    if ((err as Error).name === 'AbortError') return null
+    throw err
+  }
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import type { Edge } from 'reactflow'
+import { joinKey, joinValuesMatch, UNMATCHABLE } from './matchModes'
+import { buildJoinedDocument, toRelationshipEdges } from './join'
+import { materializeAdvisorData } from './materializeAdvisor'
+import type { AdvisorResponse } from './advisorTypes'
+import type { RelationshipEdge } from './types'
+import { table } from './testTables'
+
+describe('joinKey', () => {
+  it('keeps raw values in strict mode', () => {
+    expect(joinValuesMatch(42, 42)).toBe(true)
+    expect(joinValuesMatch(42, '42')).toBe(false)
+    expect(joinValuesMatch(undefined, undefined)).toBe(true)
+    expect(joinValuesMatch(NaN, NaN)).toBe(false)
+  })
+
+  it('coerces numeric and boolean strings in loose mode', () => {
+    expect(joinValuesMatch(42, '42', 'loose')).toBe(true)
+    expect(joinValuesMatch('0042', 42, 'loose')).toBe(true)
+    expect(joinValuesMatch(' 42 ', '42.0', 'loose')).toBe(true)
+    expect(joinValuesMatch(BigInt(7), '7', 'loose')).toBe(true)
+    expect(joinValuesMatch('TRUE', true, 'loose')).toBe(true)
+    expect(joinValuesMatch('abc ', 'abc', 'loose')).toBe(true)
+    expect(joinValuesMatch('abc', 'ABC', 'loose')).toBe(false)
+  })
+
+  it('keeps numbers beyond double precision exact in loose mode', () => {
+    expect(joinValuesMatch('12345678901234567890', '12345678901234567891', 'loose')).toBe(false)
+    expect(joinValuesMatch('12345678901234567890', '+0012345678901234567890', 'loose')).toBe(true)
+    expect(joinValuesMatch(' 12345678901234567890 ', BigInt('12345678901234567890'), 'loose')).toBe(true)
+    expect(joinKey('-000123456789012345678901.500', 'loose')).toBe('-123456789012345678901.5')
+  })
+
+  it('gives 16-digit numbers and bigints the key of the same text in loose mode', () => {
+    // PapaParse's dynamicTyping reads these as numbers; JSON sources keep them as strings
+    for (const id of [1234567890123456, 9007199254740991]) {
+      expect(joinValuesMatch(id, String(id), 'loose')).toBe(true)
+      expect(joinValuesMatch(id, ` 00${id}.0`, 'loose')).toBe(true)
+    }
+    expect(joinValuesMatch(1234567890123456, '1234567890123457', 'loose')).toBe(false)
+    expect(joinValuesMatch(10n ** 18n, '1000000000000000000', 'loose')).toBe(true)
+    expect(joinValuesMatch(10n ** 18n, 1e18, 'loose')).toBe(true)
+    expect(joinValuesMatch(10n ** 18n + 1n, '1000000000000000001', 'loose')).toBe(true)
+    expect(joinValuesMatch(10n ** 18n + 1n, '1000000000000000000', 'loose')).toBe(false)
+    expect(joinValuesMatch(10n ** 18n + 1n, 1e18 + 1, 'loose')).toBe(false)
+    expect(joinValuesMatch('12345678901234567e3', '12345678901234567000', 'loose')).toBe(true)
+    expect(joinValuesMatch('0.00000000000000000012345678901234567', '12345678901234567e-35', 'loose')).toBe(true)
+  })
+
+  it('folds case or trims strings only', () => {
+    expect(joinValuesMatch('ALFKI', 'alfki', 'case-insensitive')).toBe(true)
+    expect(joinValuesMatch('42', 42, 'case-insensitive')).toBe(false)
+    expect(joinValuesMatch(' ALFKI  ', 'ALFKI', 'trimmed')).toBe(true)
+    expect(joinValuesMatch('ALFKI', 'alfki', 'trimmed')).toBe(false)
+  })
+
+  it('never joins missing values outside strict mode', () => {
+    for (const mode of ['loose', 'case-insensitive', 'trimmed'] as const) {
+      expect(joinKey(null, mode)).toBe(UNMATCHABLE)
+      expect(joinKey(undefined, mode)).toBe(UNMATCHABLE)
+      expect(joinKey('  ', mode)).toBe(UNMATCHABLE)
+      expect(joinValuesMatch('', '', mode)).toBe(false)
+    }
+  })
+})
+
+describe('match modes in joins', () => {
+  const customers = table('customers', [{ CustomerId: 42, name: 'Ada' }, { CustomerId: 7, name: 'Grace' }])
+  const orders = table('orders', [
+    { id: 1, CustomerId: '42' },
+    { id: 2, CustomerId: '0042' },
+    { id: 3, CustomerId: '7' },
+    { id: 4, CustomerId: '' },
+  ])
+  const rel: RelationshipEdge = { sourceTableId: 'customers', sourceColumn: 'CustomerId', targetTableId: 'orders', targetColumn: 'CustomerId' }
+
+  it('reads the mode from the canvas edge', () => {
+    const edge: Edge = { id: 'e', source: 'customers', sourceHandle: 'CustomerId', target: 'orders', targetHandle: 'CustomerId', data: { matchMode: 'loose' } }
+    expect(toRelationshipEdges([edge])[0].matchMode).toBe('loose')
+    expect(toRelationshipEdges([{ ...edge, data: {} }])[0]).not.toHaveProperty('matchMode')
+  })
+
+  it('buildJoinedDocument matches across types in loose mode only', () => {
+    expect(buildJoinedDocument('customers', 0, [customers, orders], [rel]).customers.orders).toBeUndefined()
+    const doc = buildJoinedDocument('customers', 0, [customers, orders], [{ ...rel, matchMode: 'loose' }])
+    expect(doc.customers.orders.map((o: { id: number }) => o.id)).toEqual([1, 2])
+  })
+
+  it('applies the mode to composite key pairs', () => {
+    const a = table('a', [{ k: 'X', region: 'EU' }])
+    const b = table('b', [{ k: 'x', region: 'eu', v: 1 }, { k: 'x', region: 'us', v: 2 }])
+    const doc = buildJoinedDocument('a', 0, [a, b], [{
+      sourceTableId: 'a', sourceColumn: 'k', targetTableId: 'b', targetColumn: 'k',
+      additionalColumns: [{ sourceColumn: 'region', targetColumn: 'region' }],
+      matchMode: 'case-insensitive',
+    }])
+    expect(doc.a.b).toEqual([{ k: 'x', region: 'eu', v: 1 }])
+  })
+
+  it('materializeAdvisorData honours the relationship mode', () => {
+    const response: AdvisorResponse = {
+      reasoning: '',
+      containers: [{
+        name: 'customers',
+        partitionKey: '/CustomerId',
+        properties: [{ name: 'CustomerId', source: 'customers.CustomerId' }, { name: 'name', source: 'customers.name' }],
+        embeddedEntities: [{ name: 'orders', sourceTable: 'orders', relationship: 'one-to-many', properties: [{ name: 'id', source: 'orders.id' }] }],
+      }],
+    }
+    expect(materializeAdvisorData(response, [customers, orders], [rel])[0].orders).toEqual([])
+    const docs = materializeAdvisorData(response, [customers, orders], [{ ...rel, matchMode: 'loose' }])
+    expect(docs.map((d) => d.orders)).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]])
+  })
+})
@@ -0,0 +1,105 @@
+import type { JoinMatchMode } from './types'
+
+/**
+ * Join key normalisation.
+ *
+ * `strict` compares raw values with `===`. The other modes map each value to a
+ * canonical key first so rows from differently typed sources can join:
+ * - `loose` coerces numeric and boolean strings (`"0042"`, `" 42 "` and `42`
+ *   all become 42; `"TRUE"` becomes true), other strings are trimmed. Numbers
+ *   with more digits than a double holds exactly, such as 20-digit ids,
+ *   become exact text whether they were read as numbers, bigints or text;
+ * - `case-insensitive` lower-cases strings;
+ * - `trimmed` strips surrounding whitespace from strings.
+ * Outside strict mode null, undefined and blank strings never join.
+ */
+
+export const JOIN_MATCH_MODES: { value: JoinMatchMode; label: string }[] = [
+  { value: 'strict', label: 'Strict (same type and value)' },
+  { value: 'loose', label: 'Loose (42 = "42" = "0042")' },
+  { value: 'case-insensitive', label: 'Case-insensitive text' },
+  { value: 'trimmed', label: 'Trimmed text' },
+]
+
+/** Key that matches nothing, not even itself. */
+export const UNMATCHABLE: unique symbol = Symbol('unmatchable')
+
+const NUMERIC_RE = /^\s*([-+]?)(\d*)(?:\.(\d*))?([eE][-+]?\d+)?\s*$/
+const BOOLEAN_RE = /^(true|false)$/i
+/** Significant digits a double always holds exactly. */
+const EXACT_DIGITS = 15
+
+/** Whether text is a decimal number: optional sign, digits, fraction and exponent; surrounding spaces allowed. */
+export function isNumericText(text: string): boolean {
+  const m = NUMERIC_RE.exec(text)
+  return !!m && !!(m[2] || m[3])
+}
+
+/** Exponents beyond this keep exponent notation in canonical text instead of being written out. */
+const MAX_EXPANDED_EXPONENT = 400
+
+/**
+ * A number, bigint or numeric text as a value that compares exactly, the same
+ * for every type the value may have been read as: a number when its decimal
+ * digits fit a double without loss, else canonical decimal text (no `+`,
+ * exponent, leading or trailing zeros). So `1234567890123456`, `"1234567890123456"`
+ * and `1234567890123456n` share one key, while two 20-digit ids that differ in
+ * the last digit stay different. Undefined for anything else.
+ */
+export function numericValue(value: unknown): number | string | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? numericValue(String(value)) : undefined
+  if (typeof value === 'bigint') return numericValue(String(value))
+  if (typeof value !== 'string') return undefined
+  const m = NUMERIC_RE.exec(value)
+  if (!m || !(m[2] || m[3])) return undefined
+  const [, sign, whole, fraction = '', exponent = ''] = m
+  const significant = `${whole}${fraction}`.replace(/^0+/, '').replace(/0+$/, '')
+  const n = Number(value)
+  if (significant.length <= EXACT_DIGITS && Number.isFinite(n)) return n
+  // Move the decimal point by the exponent, then drop the zeros that carry no value
+  const digits = `${whole}${fraction}`
+  const exp = exponent ? Number(exponent.slice(1)) : 0
+  const minus = sign === '-' ? '-' : ''
+  if (Math.abs(exp) > MAX_EXPANDED_EXPONENT) {
+    const lead = digits.length - digits.replace(/^0+/, '').length
+    return `${minus}0.${significant}e${whole.length + exp - lead}`
+  }
+  const point = whole.length + exp
+  const padded = point < 0 ? `${'0'.repeat(-point)}${digits}` : digits.padEnd(point, '0')
+  const at = Math.max(point, 0)
+  const intPart = padded.slice(0, at).replace(/^0+/, '') || '0'
+  const fracPart = padded.slice(at).replace(/0+$/, '')
+  return `${minus}${intPart}${fracPart ? `.${fracPart}` : ''}`
+}
+
+function looseKey(value: unknown): unknown {
+  if (typeof value === 'number' || typeof value === 'bigint') return numericValue(value) ?? value
+  if (typeof value !== 'string') return value
+  const s = value.trim()
+  if (!s) return UNMATCHABLE
+  const numeric = numericValue(s)
+  if (numeric !== undefined) return numeric
+  if (BOOLEAN_RE.test(s)) return s.toLowerCase() === 'true'
+  return s
+}
+
+/** Canonical key for `value` under `mode`; compare keys with `===`. */
+export function joinKey(value: unknown, mode: JoinMatchMode = 'strict'): unknown {
+  if (typeof value === 'number' && Number.isNaN(value)) return UNMATCHABLE
+  if (mode === 'strict') return value
+  if (value === null || value === undefined) return UNMATCHABLE
+  let key: unknown
+  if (mode === 'loose') key = looseKey(value)
+  else if (typeof value !== 'string') key = value
+  else {
+    key = mode === 'case-insensitive' ? value.toLowerCase() : value.trim()
+    if (!(key as string).trim()) key = UNMATCHABLE
+  }
+  return typeof key === 'number' && Number.isNaN(key) ? UNMATCHABLE : key
+}
+
+/** Whether two key values join under `mode`. */
+export function joinValuesMatch(a: unknown, b: unknown, mode: JoinMatchMode = 'strict'): boolean {
+  const key = joinKey(a, mode)
+  return key !== UNMATCHABLE && key === joinKey(b, mode)
+}
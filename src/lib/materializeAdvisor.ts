@@ -1,15 +1,22 @@
-import type { TableData, Row } from './types'
+import type { TableData, Row, JoinMatchMode } from './types'
 import type { AdvisorResponse, RecommendedProperty } from './advisorTypes'
+import { joinKey, joinValuesMatch, UNMATCHABLE } from './matchModes'
+
+type JoinRelationship = { sourceTableId: string; targetTableId: string; sourceColumn: string; targetColumn: string; matchMode?: JoinMatchMode }
+
+/** Resolved join from a root table to an embedded table; match modes default to strict. */
+type JoinInfo = { localCol: string; remoteCol: string; matchMode?: JoinMatchMode; targetMatchMode?: JoinMatchMode }
 
 /**
  * Populate advisor-recommended containers with actual data from source tables.
  * Uses the `source` field on each property (format: "TableName.column_name")
  * to map data from the original relational tables into the new document structure.
+ * Joins honour each relationship's match mode.
  */
 export function materializeAdvisorData(
   response: AdvisorResponse,
   sourceTables: TableData[],
-  relationships: { sourceTableId: string; targetTableId: string; sourceColumn: string; targetColumn: string }[],
+  relationships: JoinRelationship[],
 ): Row[] {
   // Build a lookup: normalized table name → TableData
   const tableByName = new Map<string, TableData>()
@@ -48,7 +55,7 @@ export function materializeAdvisorData(
       if (joinInfo.localCol.startsWith('__junction__')) {
         matched = resolveJunctionMatches(rootRow, joinInfo, embTable, sourceTables)
       } else {
-        matched = embTable.rows.filter((r) => r[joinInfo.remoteCol] === rootRow[joinInfo.localCol])
+        matched = embTable.rows.filter((r) => joinValuesMatch(rootRow[joinInfo.localCol], r[joinInfo.remoteCol], joinInfo.matchMode))
       }
       const mapped = matched.map((r) => {
         const obj: Row = {}
@@ -140,16 +147,16 @@ function resolveEmbeddedTable(
 function findJoinPath(
   rootTable: TableData,
   targetTable: TableData,
-  relationships: { sourceTableId: string; targetTableId: string; sourceColumn: string; targetColumn: string }[],
+  relationships: JoinRelationship[],
   allTables: TableData[],
-): { localCol: string; remoteCol: string } | null {
+): JoinInfo | null {
   // Direct relationship
   for (const rel of relationships) {
     if (rel.sourceTableId === rootTable.id && rel.targetTableId === targetTable.id) {
-      return { localCol: rel.sourceColumn, remoteCol: rel.targetColumn }
+      return { localCol: rel.sourceColumn, remoteCol: rel.targetColumn, matchMode: rel.matchMode }
     }
     if (rel.targetTableId === rootTable.id && rel.sourceTableId === targetTable.id) {
-      return { localCol: rel.targetColumn, remoteCol: rel.sourceColumn }
+      return { localCol: rel.targetColumn, remoteCol: rel.sourceColumn, matchMode: rel.matchMode }
     }
   }
   // Through a junction table (one hop): root → junction → target
@@ -171,6 +178,8 @@ function findJoinPath(
         return {
           localCol: `__junction__${rootToJunction.local}__${rootToJunction.remote}__${junctionId}__${junctionToTarget.local}__${junctionToTarget.remote}`,
           remoteCol: '__junction__',
+          matchMode: relA.matchMode,
+          targetMatchMode: relB.matchMode,
         }
       }
       if (relB.targetTableId === junctionId && relB.sourceTableId === targetTable.id) {
@@ -181,6 +190,8 @@ function findJoinPath(
         return {
           localCol: `__junction__${rootToJunction.local}__${rootToJunction.remote}__${junctionId}__${junctionToTarget.local}__${junctionToTarget.remote}`,
           remoteCol: '__junction__',
+          matchMode: relA.matchMode,
+          targetMatchMode: relB.matchMode,
         }
       }
     }
@@ -206,7 +217,7 @@ function findJoinPath(
  */
 export function resolveJunctionMatches(
   rootRow: Row,
-  joinInfo: { localCol: string; remoteCol: string },
+  joinInfo: JoinInfo,
   targetTable: TableData,
   allTables: TableData[],
 ): Row[] {
@@ -217,7 +228,9 @@ export function resolveJunctionMatches(
   const junction = allTables.find((t) => t.id === junctionId)
   if (!junction) return []
   const rootVal = rootRow[rootLocal]
-  const junctionMatches = junction.rows.filter((r) => r[rootRemote] === rootVal)
-  const targetVals = new Set(junctionMatches.map((r) => r[juncLocal]))
-  return targetTable.rows.filter((r) => targetVals.has(r[juncRemote]))
+  const junctionMatches = junction.rows.filter((r) => joinValuesMatch(rootVal, r[rootRemote], joinInfo.matchMode))
+  const targetMode = joinInfo.targetMatchMode
+  const targetVals = new Set(junctionMatches.map((r) => joinKey(r[juncLocal], targetMode)))
+  targetVals.delete(UNMATCHABLE)
+  return targetTable.rows.filter((r) => targetVals.has(joinKey(r[juncRemote], targetMode)))
 }
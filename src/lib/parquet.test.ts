@@ -0,0 +1,66 @@
+// @vitest-environment node
+// hyparquet-writer checks `instanceof Uint8Array`, which fails across jsdom's realm
+import { describe, it, expect } from 'vitest'
+import { parquetWriteBuffer } from 'hyparquet-writer'
+import { readParquet, toJsonValue } from './parquet'
+import { buildJoinedDocument } from './join'
+import type { TableData } from './types'
+
+const makeOrders = () =>
+  parquetWriteBuffer({
+    columnData: [
+      { name: 'id', data: [1n, 2n] },
+      { name: 'customer', data: ['c1', null] },
+      { name: 'shipTo', data: [{ city: 'Oslo', zip: 150 }, { city: 'Bergen', zip: null }] },
+      { name: 'tags', data: [['rush', 'gift'], []] },
+      { name: 'total', data: [12.5, 3] },
+    ],
+    schema: [
+      { name: 'root', num_children: 5 },
+      { name: 'id', type: 'INT64', repetition_type: 'REQUIRED' },
+      { name: 'customer', type: 'BYTE_ARRAY', converted_type: 'UTF8', repetition_type: 'OPTIONAL' },
+      { name: 'shipTo', repetition_type: 'OPTIONAL', num_children: 2 },
+      { name: 'city', type: 'BYTE_ARRAY', converted_type: 'UTF8', repetition_type: 'OPTIONAL' },
+      { name: 'zip', type: 'INT32', repetition_type: 'OPTIONAL' },
+      { name: 'tags', repetition_type: 'OPTIONAL', converted_type: 'LIST', num_children: 1 },
+      { name: 'list', repetition_type: 'REPEATED', num_children: 1 },
+      { name: 'element', type: 'BYTE_ARRAY', converted_type: 'UTF8', repetition_type: 'OPTIONAL' },
+      { name: 'total', type: 'DOUBLE', repetition_type: 'REQUIRED' },
+    ],
+  })
+
+describe('parquet', () => {
+  it('reads rows keeping structs and lists nested', async () => {
+    const { rows } = await readParquet(makeOrders())
+    expect(rows).toEqual([
+      { id: 1, customer: 'c1', shipTo: { city: 'Oslo', zip: 150 }, tags: ['rush', 'gift'], total: 12.5 },
+      { id: 2, customer: null, shipTo: { city: 'Bergen', zip: null }, tags: [], total: 3 },
+    ])
+  })
+
+  it('reports the embedded schema as column types', async () => {
+    const { columnTypes } = await readParquet(makeOrders())
+    expect(columnTypes).toEqual({
+      id: { dataType: 'int64' },
+      customer: { dataType: 'string' },
+      shipTo: { dataType: 'struct' },
+      tags: { dataType: 'list' },
+      total: { dataType: 'double' },
+    })
+  })
+
+  it('normalises values to JSON-safe types', () => {
+    expect(toJsonValue(42n)).toBe(42)
+    expect(toJsonValue(2n ** 60n)).toBe('1152921504606846976')
+    expect(toJsonValue(new Date('2024-01-02T00:00:00Z'))).toBe('2024-01-02T00:00:00.000Z')
+    expect(toJsonValue(new Uint8Array([104, 105]))).toBe('aGk=')
+    expect(toJsonValue({ nested: [1n, undefined] })).toEqual({ nested: [1, null] })
+  })
+
+  it('passes nested values through joined documents unchanged', async () => {
+    const { rows } = await readParquet(makeOrders())
+    const orders: TableData = { id: 'orders', name: 'orders', fileName: 'orders.parquet', columns: Object.keys(rows[0]), rows }
+    const doc = buildJoinedDocument('orders', 0, [orders], [])
+    expect(doc).toEqual({ orders: rows[0] })
+  })
+})
@@ -0,0 +1,113 @@
+import { gunzipSync } from 'fflate'
+import { parquetMetadata, parquetReadObjects, parquetSchema, type Compressors, type SchemaTree } from 'hyparquet'
+import type { Row, TableData } from './types'
+
+/**
+ * Parquet reader built on hyparquet.
+ *
+ * Rows come back as plain objects; struct fields stay nested objects and
+ * LIST/MAP fields stay arrays/objects so they embed unchanged in joined
+ * documents. Values are normalised to JSON-safe types (BigInt → number or
+ * string, Date → ISO string, bytes → base64) because tables are persisted and
+ * posted between workers as JSON-like data.
+ */
+
+export type ColumnTypes = NonNullable<TableData['columnTypes']>
+
+// hyparquet ships SNAPPY; GZIP comes from fflate which we already bundle
+const compressors: Compressors = {
+  GZIP: (input) => gunzipSync(input),
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary)
+}
+
+/** Convert reader output into values that survive JSON and structured clone. */
+export function toJsonValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'bigint') {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value.toString()
+  }
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value.toISOString()
+  if (value instanceof Uint8Array) return bytesToBase64(value)
+  if (Array.isArray(value)) return value.map(toJsonValue)
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'object') {
+    const out: Row = {}
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) out[k] = toJsonValue(v)
+    return out
+  }
+  return value
+}
+
+function primitiveType(node: SchemaTree): string {
+  const { type, converted_type, logical_type, precision, scale } = node.element
+  switch (logical_type?.type) {
+    case 'STRING':
+    case 'ENUM':
+    case 'JSON':
+      return 'string'
+    case 'UUID':
+      return 'uuid'
+    case 'DATE':
+      return 'date'
+    case 'TIME':
+      return 'time'
+    case 'TIMESTAMP':
+      return 'timestamp'
+    case 'DECIMAL':
+      return `decimal(${logical_type.precision},${logical_type.scale})`
+    case 'INTEGER':
+      return `${logical_type.isSigned ? 'int' : 'uint'}${logical_type.bitWidth}`
+  }
+  switch (converted_type) {
+    case 'UTF8':
+    case 'ENUM':
+    case 'JSON':
+      return 'string'
+    case 'DATE':
+      return 'date'
+    case 'TIME_MILLIS':
+    case 'TIME_MICROS':
+      return 'time'
+    case 'TIMESTAMP_MILLIS':
+    case 'TIMESTAMP_MICROS':
+      return 'timestamp'
+    case 'DECIMAL':
+      return `decimal(${precision ?? 0},${scale ?? 0})`
+  }
+  switch (type) {
+    case 'BOOLEAN': return 'boolean'
+    case 'INT32': return 'int32'
+    case 'INT64': return 'int64'
+    case 'INT96': return 'timestamp'
+    case 'FLOAT': return 'float'
+    case 'DOUBLE': return 'double'
+    default: return 'binary'
+  }
+}
+
+function schemaType(node: SchemaTree): string {
+  const { converted_type, logical_type, repetition_type } = node.element
+  let base: string
+  if (logical_type?.type === 'LIST' || converted_type === 'LIST') base = 'list'
+  else if (logical_type?.type === 'MAP' || converted_type === 'MAP' || converted_type === 'MAP_KEY_VALUE') base = 'map'
+  else if (node.children.length) base = 'struct'
+  else base = primitiveType(node)
+  // Legacy un-annotated repeated fields are read as arrays
+  return repetition_type === 'REPEATED' && base !== 'list' ? 'list' : base
+}
+
+/** Read a Parquet file into rows plus the column types declared in its schema. */
+export async function readParquet(buffer: ArrayBuffer): Promise<{ rows: Row[]; columnTypes: ColumnTypes }> {
+  const metadata = parquetMetadata(buffer)
+  const schema = parquetSchema(metadata)
+  const columnTypes: ColumnTypes = {}
+  for (const child of schema.children) columnTypes[child.element.name] = { dataType: schemaType(child) }
+  const objects = await parquetReadObjects({ file: buffer, metadata, compressors })
+  const rows = objects.map((obj) => toJsonValue(obj) as Row)
+  return { rows, columnTypes }
+}
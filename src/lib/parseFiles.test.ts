@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest'
 import { gzipSync } from 'fflate'
 import JSZip from 'jszip'
-import { parseFiles, parseDelimitedText } from './parseFiles'
+import { parseFiles, parseDelimitedText, reparseSource } from './parseFiles'
 
 const fileFromString = (name: string, content: string, type = 'text/plain') => new File([content], name, { type })
 const fileFromUint8Array = (name: string, content: Uint8Array, type = 'application/octet-stream') => {
@@ -175,3 +175,50 @@ describe('parseFiles', () => {
     expect(tables[0].rows[0]).toEqual({ id: 3 })
   })
 })
+
+describe('reparseSource', () => {
+  it('supports header-less delimited text', async () => {
+    const rows = await reparseSource('1,Alice\n2,Bob', 'csv', { delimiter: 'csv', headerRow: false })
+    expect(rows).toEqual([{ Column1: 1, Column2: 'Alice' }, { Column1: 2, Column2: 'Bob' }])
+  })
+})
+
+describe('parseFiles progress and incremental delivery', () => {
+  it('reports phases per file and delivers each table as it finishes', async () => {
+    const phases: string[] = []
+    const delivered: string[] = []
+    const { tables } = await parseFiles([
+      fileFromString('a.csv', 'id\n1'),
+      fileFromString('b.json', JSON.stringify([{ id: 2 }])),
+    ], {
+      onProgress: (p) => phases.push(`${p.fileName}:${p.phase}`),
+      onTable: (t) => delivered.push(t.id),
+    })
+    expect(delivered).toEqual(tables.map((t) => t.id))
+    expect(phases.filter((p) => p.startsWith('a.csv'))).toEqual(expect.arrayContaining(['a.csv:reading', 'a.csv:parsing', 'a.csv:done']))
+    expect(phases).toContain('b.json:done')
+  })
+
+  it('reports archive entries under their archive-qualified name', async () => {
+    const zip = new JSZip()
+    zip.file('people.csv', 'id,name\n1,Alice')
+    const zipBytes = await zip.generateAsync({ type: 'uint8array' })
+    const phases: string[] = []
+    await parseFiles([fileFromUint8Array('archive.zip', zipBytes)], { onProgress: (p) => phases.push(`${p.fileName}:${p.phase}`) })
+    expect(phases).toContain('archive.zip:expanding')
+    expect(phases).toContain('archive.zip::people.csv:done')
+  })
+
+  it('marks failed files with an error phase', async () => {
+    const phases: string[] = []
+    const { errors } = await parseFiles([fileFromString('bad.xyz', 'x')], { onProgress: (p) => phases.push(`${p.fileName}:${p.phase}`) })
+    expect(errors).toHaveLength(1)
+    expect(phases).toContain('bad.xyz:error')
+  })
+
+  it('rejects with an AbortError when the signal is aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    await expect(parseFiles([fileFromString('a.csv', 'id\n1')], { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
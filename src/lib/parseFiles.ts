@@ -1,6 +1,12 @@
 import Papa from 'papaparse'
 import { unzipSync, gunzipSync } from 'fflate'
-import type { TableData, Row, ParseFileError } from './types'
+import type { Edge } from 'reactflow'
+import type { TableData, Row, ParseFileError, TableParsingOptions } from './types'
+import { readXlsxSheets, sheetRows } from './xlsx'
+import { readParquet } from './parquet'
+import { readAvro } from './avro'
+import { explodeNestedArrays, nestedArrayEdge } from './explodeNested'
+import { inferColumnTypes } from './inferTypes'
 
 export function slugify(input: string) {
   return input
@@ -9,7 +15,7 @@ export function slugify(input: string) {
     .replace(/^-+|-+$/g, '')
 }
 
-function uniqueId(base: string, used: Set<string>) {
+export function uniqueId(base: string, used: Set<string>) {
   let candidate = base || 'table'
   let i = 1
   while (used.has(candidate)) {
@@ -19,25 +25,51 @@ function uniqueId(base: string, used: Set<string>) {
   return candidate
 }
 
-export async function readText(file: File): Promise<string> {
+export type ParsePhase = 'reading' | 'expanding' | 'parsing' | 'done' | 'error'
+
+/** Per-file progress event; archive entries report under their `archive::entry` name. */
+export interface ParseProgress {
+  fileName: string
+  phase: ParsePhase
+  loaded?: number
+  total?: number
+}
+
+export interface ParseFilesOptions {
+  usedIds?: Set<string>
+  /** Called as each file moves through reading → parsing → done. */
+  onProgress?: (progress: ParseProgress) => void
+  /** Called with each table as soon as its file finishes parsing. */
+  onTable?: (table: TableData) => void
+  /** Aborting rejects with the signal's reason (an AbortError by default). */
+  signal?: AbortSignal
+  /** Split nested arrays of objects in JSON/JSONL files into child tables linked by edges. */
+  explodeNestedArrays?: boolean
+}
+
+type ReadProgress = (loaded: number, total: number) => void
+
+export async function readText(file: File, onProgress?: ReadProgress): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
     reader.onerror = () => reject(reader.error)
+    if (onProgress) reader.onprogress = (e) => onProgress(e.loaded, e.total)
     reader.onload = () => resolve(String(reader.result))
     reader.readAsText(file)
   })
 }
 
-export async function readArrayBuffer(file: File): Promise<ArrayBuffer> {
+export async function readArrayBuffer(file: File, onProgress?: ReadProgress): Promise<ArrayBuffer> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader()
     reader.onerror = () => reject(reader.error)
+    if (onProgress) reader.onprogress = (e) => onProgress(e.loaded, e.total)
     reader.onload = () => resolve(reader.result as ArrayBuffer)
     reader.readAsArrayBuffer(file)
   })
 }
 
-export async function parseDelimitedText(content: string, delimiter: string, skipRows = 0): Promise<Row[]> {
+export async function parseDelimitedText(content: string, delimiter: string, skipRows = 0, headerRow = true): Promise<Row[]> {
   const lines = content.split(/\r?\n/)
   const linesAfterSkip = lines.slice(skipRows)
   const filtered = linesAfterSkip.filter((l) => {
@@ -51,11 +83,17 @@ export async function parseDelimitedText(content: string, delimiter: string, ski
   const text = [headerLine, ...body].join('\n')
   return new Promise((resolve, reject) => {
     Papa.parse(text, {
-      header: true,
+      header: headerRow,
       skipEmptyLines: true,
       dynamicTyping: true,
       delimiter,
       complete: (results) => {
+        if (!headerRow) {
+          // No header line: name columns positionally (Column1..N)
+          const rows = (results.data as unknown[][]).map((values) => Object.fromEntries(values.map((v, i) => [`Column${i + 1}`, v])) as Row)
+          resolve(rows)
+          return
+        }
         const rows = (results.data as Row[]).filter((r) => Object.keys(r).length > 0)
         resolve(rows)
       },
@@ -64,8 +102,39 @@ export async function parseDelimitedText(content: string, delimiter: string, ski
   })
 }
 
-async function parseJson(file: File): Promise<Row[]> {
-  const text = await readText(file)
+/**
+ * Binary columnar sources (Parquet, Avro) keep no `sourceText`; projects
+ * persist a rows/columnTypes snapshot for them, as for manual tables.
+ */
+export function isSnapshotSource(sourceType: string | undefined): boolean {
+  return sourceType === 'manual' || sourceType === 'parquet' || sourceType === 'avro'
+}
+
+/** Sheet sources are persisted as their raw cell grid so they can be re-parsed without the workbook. */
+export function sheetSourceText(sheet: string, cells: unknown[][]): string {
+  return JSON.stringify({ sheet, cells })
+}
+
+/**
+ * Re-parse a table's stored source with per-table options. Delimited text
+ * honours delimiter/skipRows/headerRow; XLSX sheets honour skipRows/headerRow;
+ * JSON/JSONL honour explodeNestedArrays.
+ */
+export async function reparseSource(sourceText: string, sourceType: string | undefined, opts: TableParsingOptions): Promise<Row[]> {
+  if (sourceType === 'json' || sourceType === 'jsonl') {
+    // Child tables are rebuilt by parseFiles; here only the root rows matter
+    const rows = sourceType === 'json' ? parseJson(sourceText) : parseJsonl(sourceText)
+    return opts.explodeNestedArrays ? explodeNestedArrays(rows, '').rows : rows
+  }
+  if (sourceType === 'xlsx') {
+    const { cells } = JSON.parse(sourceText)
+    return sheetRows(cells ?? [], { skipRows: opts.skipRows, headerRow: opts.headerRow })
+  }
+  const delimiter = opts.delimiter === 'csv' ? ',' : opts.delimiter === 'tsv' ? '\t' : detectDelimiter(sourceText)
+  return parseDelimitedText(sourceText, delimiter, opts.skipRows ?? 0, opts.headerRow ?? true)
+}
+
+function parseJson(text: string): Row[] {
   const parsed = JSON.parse(text)
   if (Array.isArray(parsed)) {
     return parsed as Row[]
@@ -79,8 +148,7 @@ async function parseJson(file: File): Promise<Row[]> {
   throw new Error('Unsupported JSON structure')
 }
 
-async function parseJsonl(file: File): Promise<Row[]> {
-  const text = await readText(file)
+function parseJsonl(text: string): Row[] {
   const lines = text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean)
   return lines.map((line) => JSON.parse(line) as Row)
 }
@@ -151,82 +219,157 @@ function isArchiveName(lower: string): boolean {
   return lower.endsWith('.zip') || lower.endsWith('.gz') || lower.endsWith('.tgz') || lower.endsWith('.tar') || lower.endsWith('.tar.gz')
 }
 
-function makeError(fileName: string | undefined, message: string, detail?: string, sourceType?: string): ParseFileError {
+export function makeError(fileName: string | undefined, message: string, detail?: string, sourceType?: string): ParseFileError {
   const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `err-${Date.now()}-${Math.random().toString(16).slice(2)}`
   return { id, fileName, message, detail, sourceType }
 }
 
 export async function parseFiles(
   files: FileList | File[],
-  options?: { usedIds?: Set<string> },
-): Promise<{ tables: TableData[]; errors: ParseFileError[] }> {
+  options?: ParseFilesOptions,
+): Promise<{ tables: TableData[]; errors: ParseFileError[]; edges: Edge[] }> {
   const queue: File[] = Array.from(files as any)
   const tables: TableData[] = []
   const errors: ParseFileError[] = []
+  const edges: Edge[] = []
   const usedIds = options?.usedIds ?? new Set<string>()
+  const signal = options?.signal
+  const report = (fileName: string, phase: ParsePhase, loaded?: number, total?: number) => {
+    options?.onProgress?.({ fileName, phase, loaded, total })
+  }
+  const fail = (err: ParseFileError) => {
+    errors.push(err)
+    if (err.fileName) report(err.fileName, 'error')
+  }
+  const addTable = (tableBase: string, fileName: string, rows: Row[], sourceText: string | undefined, sourceType: string, columnTypes?: TableData['columnTypes']) => {
+    const columns = Array.from(new Set([...Object.keys(columnTypes ?? {}), ...rows.flatMap((r) => Object.keys(r))]))
+    const id = uniqueId(slugify(tableBase), usedIds)
+    const columnRenames = Object.fromEntries(columns.map((c) => [c, c]))
+    const table = inferColumnTypes({ id, name: tableBase, originalName: tableBase, fileName, columns, rows, sourceText, sourceType, columnRenames, columnTypes })
+    tables.push(table)
+    options?.onTable?.(table)
+    return table
+  }
 
   while (queue.length) {
+    signal?.throwIfAborted()
     const file = queue.shift()!
     const name = file.name
     const lower = name.toLowerCase()
+    const onRead: ReadProgress = (loaded, total) => report(name, 'reading', loaded, total)
     try {
       if (isArchiveName(lower)) {
-        const bytes = new Uint8Array(await readArrayBuffer(file))
+        report(name, 'reading', 0, file.size)
+        const bytes = new Uint8Array(await readArrayBuffer(file, onRead))
         try {
+          report(name, 'expanding')
           const extracted = await expandArchive(name, bytes)
-          if (!extracted.length) errors.push(makeError(name, `No files extracted from archive: ${name}`, 'Archive may be empty or contain unsupported entries'))
+          if (!extracted.length) {
+            fail(makeError(name, `No files extracted from archive: ${name}`, 'Archive may be empty or contain unsupported entries'))
+            continue
+          }
           queue.push(...extracted)
+          report(name, 'done', extracted.length, extracted.length)
         } catch (err: any) {
-          errors.push(makeError(name, `Failed extracting ${name}: ${err?.message ?? err}`, err?.stack ?? String(err)))
+          fail(makeError(name, `Failed extracting ${name}: ${err?.message ?? err}`, err?.stack ?? String(err)))
         }
         continue
       }
+      report(name, 'reading', 0, file.size)
+      if (lower.endsWith('.xlsx')) {
+        const bytes = new Uint8Array(await readArrayBuffer(file, onRead))
+        report(name, 'parsing')
+        const sheets = readXlsxSheets(bytes)
+        if (!sheets.length) {
+          fail(makeError(name, `No worksheets found in ${name}`, 'The workbook contains no readable sheets.', 'xlsx'))
+          continue
+        }
+        const fileBase = name.replace(/\.[^.]+$/, '')
+        let added = 0
+        for (const sheet of sheets) {
+          const rows = sheetRows(sheet.cells)
+          if (!rows.length) {
+            fail(makeError(`${name}::${sheet.name}`, `No rows parsed for sheet ${sheet.name}`, 'Sheet is empty. Adjust parsing options (header row/skip rows) if data starts further down.', 'xlsx'))
+            continue
+          }
+          addTable(`${fileBase}::${sheet.name}`, `${name}::${sheet.name}`, rows, sheetSourceText(sheet.name, sheet.cells), 'xlsx')
+          added++
+        }
+        report(name, added ? 'done' : 'error', added, sheets.length)
+        continue
+      }
+      if (lower.endsWith('.parquet') || lower.endsWith('.avro')) {
+        const buffer = await readArrayBuffer(file, onRead)
+        report(name, 'parsing')
+        const sourceType = lower.endsWith('.parquet') ? 'parquet' : 'avro'
+        const { rows, columnTypes } = sourceType === 'parquet' ? await readParquet(buffer) : readAvro(new Uint8Array(buffer))
+        if (!rows.length) {
+          fail(makeError(name, `No rows parsed for ${name}`, 'The file contains a schema but no records.', sourceType))
+          continue
+        }
+        addTable(name.replace(/\.[^.]+$/, ''), name, rows, undefined, sourceType, columnTypes)
+        report(name, 'done', rows.length, rows.length)
+        continue
+      }
       let rows: Row[] = []
       let sourceText: string | undefined
       let sourceType: string | undefined
       if (lower.endsWith('.csv')) {
-        sourceText = await readText(file)
+        sourceText = await readText(file, onRead)
+        report(name, 'parsing')
         rows = await parseDelimitedText(sourceText, ',')
         sourceType = 'csv'
       }
       else if (lower.endsWith('.tsv')) {
-        sourceText = await readText(file)
+        sourceText = await readText(file, onRead)
+        report(name, 'parsing')
         rows = await parseDelimitedText(sourceText, '\t')
         sourceType = 'tsv'
       }
       else if (lower.endsWith('.txt')) {
-        sourceText = await readText(file)
+        sourceText = await readText(file, onRead)
+        report(name, 'parsing')
         const delimiter = detectDelimiter(sourceText)
         rows = await parseDelimitedText(sourceText, delimiter)
         sourceType = 'txt'
       }
       else if (lower.endsWith('.jsonl')) {
-        sourceText = await readText(file)
-        rows = await parseJsonl(file)
+        sourceText = await readText(file, onRead)
+        report(name, 'parsing')
+        rows = parseJsonl(sourceText)
         sourceType = 'jsonl'
       }
       else if (lower.endsWith('.json')) {
-        sourceText = await readText(file)
-        rows = await parseJson(file)
+        sourceText = await readText(file, onRead)
+        report(name, 'parsing')
+        rows = parseJson(sourceText)
         sourceType = 'json'
       }
       else {
-        errors.push(makeError(name, `Unsupported file type: ${name}`, 'Supported: csv, tsv, txt, json, jsonl, zip, tar, gz, tgz'))
+        fail(makeError(name, `Unsupported file type: ${name}`, 'Supported: csv, tsv, txt, json, jsonl, xlsx, parquet, avro, zip, tar, gz, tgz'))
         continue
       }
       if (!rows.length) {
-        errors.push(makeError(name, `No rows parsed for ${name}`, 'Parsed 0 rows. Check headers and delimiter; adjust parsing options (delimiter/skip rows).'))
+        fail(makeError(name, `No rows parsed for ${name}`, 'Parsed 0 rows. Check headers and delimiter; adjust parsing options (delimiter/skip rows).'))
         continue
       }
-      const columns = Array.from(new Set(rows.flatMap((r) => Object.keys(r))))
       const tableBase = name.replace(/\.[^.]+$/, '')
-      const id = uniqueId(slugify(tableBase), usedIds)
-      const columnRenames = Object.fromEntries(columns.map((c) => [c, c]))
-      tables.push({ id, name: tableBase, originalName: tableBase, fileName: name, columns, rows, sourceText, sourceType, columnRenames })
+      if (options?.explodeNestedArrays && (sourceType === 'json' || sourceType === 'jsonl')) {
+        const exploded = explodeNestedArrays(rows, tableBase)
+        const ids = new Map<string, string>([[tableBase, addTable(tableBase, name, exploded.rows, sourceText, sourceType).id]])
+        for (const child of exploded.children) {
+          const childId = addTable(child.name, `${name}::${child.name.slice(tableBase.length + 1)}`, child.rows, undefined, sourceType).id
+          ids.set(child.name, childId)
+          edges.push(nestedArrayEdge(ids.get(child.parentName)!, child.keyColumn, childId, child.parentKeyColumn, child.arrayColumn))
+        }
+      } else {
+        addTable(tableBase, name, rows, sourceText, sourceType)
+      }
+      report(name, 'done', rows.length, rows.length)
     } catch (e: any) {
-      errors.push(makeError(name, `Failed parsing ${name}: ${e?.message ?? e}`, e?.stack ?? String(e)))
+      fail(makeError(name, `Failed parsing ${name}: ${e?.message ?? e}`, e?.stack ?? String(e)))
     }
   }
 
-  return { tables, errors }
+  return { tables, errors, edges }
 }
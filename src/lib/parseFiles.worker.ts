@@ -0,0 +1,18 @@
+import { parseFiles } from './parseFiles'
+import type { ParseWorkerMessage, ParseWorkerRequest } from './parsePool'
+
+// Worker scope; the app tsconfig only carries DOM typings.
+const ctx = self as unknown as {
+  postMessage: (message: ParseWorkerMessage) => void
+  onmessage: ((e: MessageEvent<ParseWorkerRequest>) => void) | null
+}
+
+ctx.onmessage = async (e) => {
+  if (e.data.type !== 'parse') return
+  const { errors, edges } = await parseFiles([e.data.file], {
+    explodeNestedArrays: e.data.explodeNestedArrays,
+    onProgress: (progress) => ctx.postMessage({ type: 'progress', progress }),
+    onTable: (table) => ctx.postMessage({ type: 'table', table }),
+  })
+  ctx.postMessage({ type: 'done', errors, edges })
+}
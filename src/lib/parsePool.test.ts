@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { parseFiles } from './parseFiles'
+import { parseFilesInWorkers, type ParseWorkerMessage, type ParseWorkerRequest } from './parsePool'
+
+const fileFromString = (name: string, content: string) => new File([content], name, { type: 'text/plain' })
+
+// In-process stand-in for the module worker: runs the same pipeline and posts the same messages
+class FakeWorker {
+  static created = 0
+  static terminated = 0
+  onmessage: ((e: MessageEvent<ParseWorkerMessage>) => void) | null = null
+  onerror: ((e: ErrorEvent) => void) | null = null
+  constructor() { FakeWorker.created++ }
+  postMessage(req: ParseWorkerRequest) {
+    const send = (data: ParseWorkerMessage) => this.onmessage?.({ data } as MessageEvent<ParseWorkerMessage>)
+    parseFiles([req.file], {
+      explodeNestedArrays: req.explodeNestedArrays,
+      onProgress: (progress) => send({ type: 'progress', progress }),
+      onTable: (table) => send({ type: 'table', table }),
+    }).then(({ errors, edges }) => send({ type: 'done', errors, edges }))
+  }
+  terminate() { FakeWorker.terminated++ }
+}
+
+describe('parseFilesInWorkers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    FakeWorker.created = 0
+    FakeWorker.terminated = 0
+  })
+
+  it('falls back to parsing on the current thread without Worker support', async () => {
+    const { tables, errors } = await parseFilesInWorkers([fileFromString('people.csv', 'id,name\n1,Alice')])
+    expect(errors).toHaveLength(0)
+    expect(tables[0].id).toBe('people')
+  })
+
+  it('keeps input order and assigns unique ids across workers', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const delivered: string[] = []
+    const usedIds = new Set(['people'])
+    const { tables, errors } = await parseFilesInWorkers([
+      fileFromString('people.csv', 'id\n1'),
+      fileFromString('people.json', JSON.stringify([{ id: 2 }])),
+      fileFromString('bad.xyz', 'x'),
+    ], { usedIds, concurrency: 2, onTable: (t) => delivered.push(t.id) })
+    expect(FakeWorker.created).toBe(2)
+    expect(tables.map((t) => t.fileName)).toEqual(['people.csv', 'people.json'])
+    expect(new Set(tables.map((t) => t.id)).size).toBe(2)
+    expect(tables.every((t) => t.id.startsWith('people-'))).toBe(true)
+    expect(delivered.sort()).toEqual(tables.map((t) => t.id).sort())
+    expect(errors[0].message).toMatch(/Unsupported/)
+  })
+
+  it('assigns ids in file order whichever worker finishes first', async () => {
+    class SlowFirstWorker extends FakeWorker {
+      postMessage(req: ParseWorkerRequest) {
+        if (req.file.name === 'people.csv') setTimeout(() => super.postMessage(req), 20)
+        else super.postMessage(req)
+      }
+    }
+    vi.stubGlobal('Worker', SlowFirstWorker)
+    const delivered: string[] = []
+    const { tables } = await parseFilesInWorkers([
+      fileFromString('people.csv', 'id\n1'),
+      fileFromString('people.json', JSON.stringify([{ id: 2 }])),
+    ], { concurrency: 2, onTable: (t) => delivered.push(t.id) })
+    expect(tables.map((t) => [t.fileName, t.id])).toEqual([['people.csv', 'people'], ['people.json', 'people-1']])
+    expect(delivered).toEqual(['people', 'people-1'])
+  })
+
+  it('re-points nested-array edges at the reassigned table ids', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const usedIds = new Set(['orders', 'orders-lines'])
+    const { tables, edges } = await parseFilesInWorkers([
+      fileFromString('orders.json', JSON.stringify([{ id: 1, lines: [{ sku: 'a' }] }])),
+    ], { usedIds, explodeNestedArrays: true })
+    expect(tables.map((t) => t.id)).toEqual(['orders-1', 'orders-lines-1'])
+    expect(edges).toMatchObject([{ id: 'orders-1:_key__orders-lines-1:_parentKey', source: 'orders-1', target: 'orders-lines-1' }])
+  })
+
+  it('terminates workers and rejects when cancelled', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const controller = new AbortController()
+    const pending = parseFilesInWorkers([fileFromString('a.csv', 'id\n1')], { signal: controller.signal })
+    controller.abort()
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' })
+    expect(FakeWorker.terminated).toBe(FakeWorker.created)
+  })
+})
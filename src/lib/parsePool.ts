@@ -0,0 +1,156 @@
+import type { Edge } from 'reactflow'
+import type { TableData, ParseFileError } from './types'
+import { parseFiles, makeError, slugify, uniqueId, type ParseFilesOptions, type ParseProgress } from './parseFiles'
+
+/**
+ * Off-main-thread file parsing.
+ *
+ * Each top-level file (or archive) is handed to a worker from a small pool.
+ * Workers run the same `parseFiles` pipeline and stream progress and finished
+ * tables back, so the canvas stays responsive while large exports are read.
+ * Table ids are assigned here, on the main thread, against the shared
+ * `usedIds` set so they stay unique across workers; edges a worker produced
+ * are re-pointed at the reassigned ids. Ids are assigned in file order, not
+ * arrival order, so the same files always get the same ids: tables of a file
+ * wait until every earlier file is done.
+ */
+
+export type ParseWorkerRequest = { type: 'parse'; file: File; explodeNestedArrays?: boolean }
+
+export type ParseWorkerMessage =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'table'; table: TableData }
+  | { type: 'done'; errors: ParseFileError[]; edges: Edge[] }
+
+export interface ParsePoolOptions extends ParseFilesOptions {
+  /** Number of workers to run; defaults to hardware concurrency − 1 (max 4). */
+  concurrency?: number
+}
+
+function defaultConcurrency(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency ?? 2 : 2
+  return Math.max(1, Math.min(4, cores - 1))
+}
+
+function remapEdge(edge: Edge, ids: Map<string, string>): Edge {
+  const source = ids.get(edge.source) ?? edge.source
+  const target = ids.get(edge.target) ?? edge.target
+  return { ...edge, id: `${source}:${edge.sourceHandle}__${target}:${edge.targetHandle}`, source, target }
+}
+
+function createParseWorker(): Worker {
+  return new Worker(new URL('./parseFiles.worker.ts', import.meta.url), { type: 'module' })
+}
+
+/**
+ * Parse files in a Web Worker pool. Resolves with the same `{ tables, errors }`
+ * shape as `parseFiles` (tables in input order); falls back to parsing on the
+ * current thread where workers are unavailable (tests, SSR).
+ */
+export async function parseFilesInWorkers(
+  files: FileList | File[],
+  options?: ParsePoolOptions,
+): Promise<{ tables: TableData[]; errors: ParseFileError[]; edges: Edge[] }> {
+  if (typeof Worker === 'undefined') return parseFiles(files, options)
+
+  const jobs = Array.from(files as ArrayLike<File>).map((file, index) => ({ file, index }))
+  const perFile: TableData[][] = jobs.map(() => [])
+  const perFileEdges: Edge[][] = jobs.map(() => [])
+  // Worker output not yet given ids, and whether each file's worker is done
+  const received: TableData[][] = jobs.map(() => [])
+  const receivedEdges: Edge[][] = jobs.map(() => [])
+  const finished = jobs.map(() => false)
+  const ids = jobs.map(() => new Map<string, string>()) // worker table id → assigned id, per file
+  let next = 0 // first file whose tables are not all assigned ids yet
+  const errors: ParseFileError[] = []
+  const usedIds = options?.usedIds ?? new Set<string>()
+  const signal = options?.signal
+  const size = Math.max(1, Math.min(options?.concurrency ?? defaultConcurrency(), jobs.length))
+  const workers = new Set<Worker>()
+  let remaining = jobs.length
+
+  return new Promise((resolve, reject) => {
+    let settled = false
+    const settle = (fn: () => void) => {
+      if (settled) return
+      settled = true
+      workers.forEach((w) => w.terminate())
+      workers.clear()
+      signal?.removeEventListener('abort', onAbort)
+      fn()
+    }
+    const onAbort = () => settle(() => reject(signal?.reason ?? new DOMException('Parsing cancelled', 'AbortError')))
+
+    if (signal?.aborted) return onAbort()
+    if (!jobs.length) return settle(() => resolve({ tables: [], errors, edges: [] }))
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    // Assign ids to what has arrived for the earliest unfinished file, then move past finished files
+    const flush = () => {
+      while (next < perFile.length) {
+        for (const raw of received[next].splice(0)) {
+          const table = { ...raw, id: uniqueId(slugify(raw.name), usedIds) }
+          ids[next].set(raw.id, table.id)
+          perFile[next].push(table)
+          options?.onTable?.(table)
+        }
+        if (!finished[next]) return
+        perFileEdges[next].push(...receivedEdges[next].map((edge) => remapEdge(edge, ids[next])))
+        next++
+      }
+    }
+
+    const complete = () => {
+      remaining--
+      if (remaining === 0) settle(() => resolve({ tables: perFile.flat(), errors, edges: perFileEdges.flat() }))
+    }
+
+    const runNext = (worker: Worker) => {
+      const job = jobs.shift()
+      if (!job) {
+        worker.terminate()
+        workers.delete(worker)
+        return
+      }
+      worker.onmessage = (e: MessageEvent<ParseWorkerMessage>) => {
+        const msg = e.data
+        if (msg.type === 'progress') {
+          options?.onProgress?.(msg.progress)
+        } else if (msg.type === 'table') {
+          received[job.index].push(msg.table)
+          flush()
+        } else if (msg.type === 'done') {
+          errors.push(...msg.errors)
+          receivedEdges[job.index].push(...msg.edges)
+          finished[job.index] = true
+          flush()
+          complete()
+          runNext(worker)
+        }
+      }
+      worker.onerror = (e) => {
+        // A crashed worker (e.g. out of memory) loses only its current file
+        e.preventDefault()
+        const name = job.file.name
+        errors.push(makeError(name, `Failed parsing ${name}: ${e.message || 'worker crashed'}`))
+        options?.onProgress?.({ fileName: name, phase: 'error' })
+        worker.terminate()
+        workers.delete(worker)
+        finished[job.index] = true
+        flush()
+        complete()
+        if (!settled) spawn()
+      }
+      const request: ParseWorkerRequest = { type: 'parse', file: job.file, explodeNestedArrays: options?.explodeNestedArrays }
+      worker.postMessage(request)
+    }
+
+    const spawn = () => {
+      const worker = createParseWorker()
+      workers.add(worker)
+      runNext(worker)
+    }
+
+    for (let i = 0; i < size; i++) spawn()
+  })
+}
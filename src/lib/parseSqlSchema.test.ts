@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { parseSqlServerSchema } from './parseSqlSchema'
+import { parseDdlSchema, parseMySqlSchema, parsePostgresSchema, parseSqlSchema, parseSqlServerSchema } from './parseSqlSchema'
 
 const sample = `table_schema\ttable_name\tcolumn_name\tordinal_position\tdata_type\tmax_length\tprecision\tscale\tis_nullable\tis_identity\tdefault_value\tis_primary_key\tfk_name\tfk_ref_schema\tfk_ref_table\tfk_ref_column
 app\tInventory\tId\t3\tuniqueidentifier\t16\t0\t0\t0\t0\t(newid())\t1\t\t\t\t
@@ -24,3 +24,234 @@ describe('parseSqlServerSchema', () => {
     expect(edges[0].targetHandle).toBe('Id')
   })
 })
+
+const pgAligned = ` table_schema | table_name  | column_name | ordinal_position |     data_type     | max_length | precision | scale | is_nullable | is_identity |  default_value   | is_primary_key |      fk_name       | fk_ref_schema | fk_ref_table | fk_ref_column
+--------------+-------------+-------------+------------------+-------------------+------------+-----------+-------+-------------+-------------+------------------+----------------+--------------------+---------------+--------------+---------------
+ public       | customers   | id          |                1 | uuid              |            |           |       | NO          | NO          | gen_random_uuid() |              1 |                    |               |              |
+ public       | customers   | email       |                2 | character varying |        255 |           |       | YES         | NO          |                  |              0 |                    |               |              |
+ public       | orders      | id          |                1 | bigint            |            |        64 |     0 | NO          | YES         |                  |              1 |                    |               |              |
+ public       | orders      | customer_id |                2 | uuid              |            |           |       | NO          | NO          |                  |              0 | orders_customer_fk | public        | customers    | id
+(4 rows)
+`
+
+const mysqlBatch = [
+  'table_schema\ttable_name\tcolumn_name\tordinal_position\tdata_type\tmax_length\tprecision\tscale\tis_nullable\tis_identity\tdefault_value\tis_primary_key\tfk_name\tfk_ref_schema\tfk_ref_table\tfk_ref_column',
+  'shop\tcustomers\tid\t1\tint\tNULL\t10\t0\tNO\t1\t\t1\tNULL\tNULL\tNULL\tNULL',
+  'shop\torders\tid\t1\tint\tNULL\t10\t0\tNO\t1\t\t1\tNULL\tNULL\tNULL\tNULL',
+  'shop\torders\tcustomer_id\t2\tint\tNULL\t10\t0\tYES\t0\t\t0\tfk_orders_customers\tshop\tcustomers\tid',
+  'shop\torders\tnote\t3\ttext\t65535\tNULL\tNULL\tYES\t0\t\t0\tNULL\tNULL\tNULL\tNULL',
+].join('\n')
+
+describe('parsePostgresSchema', () => {
+  it('reads psql aligned output with types, nullability, keys and FK edges', () => {
+    const { tables, edges, errors } = parsePostgresSchema(pgAligned)
+    expect(errors).toHaveLength(0)
+    const customers = tables.find((t) => t.name === 'public.customers')
+    const orders = tables.find((t) => t.name === 'public.orders')
+    expect(customers?.columns).toEqual(['id', 'email'])
+    expect(customers?.primaryKeys).toEqual(['id'])
+    expect(customers?.columnTypes?.email).toEqual({ dataType: 'character varying', isPrimaryKey: false, nullable: true })
+    expect(orders?.columnTypes?.id).toEqual({ dataType: 'bigint', isPrimaryKey: true, nullable: false })
+    expect(edges).toEqual([
+      expect.objectContaining({ source: orders?.id, sourceHandle: 'customer_id', target: customers?.id, targetHandle: 'id', data: { type: 'one-to-many' } }),
+    ])
+  })
+
+  it('reads comma-delimited exports with quoted defaults', () => {
+    const csv = 'table_schema,table_name,column_name,data_type,is_primary_key,default_value\npublic,tags,id,integer,1,"nextval(\'tags_id_seq\'::regclass)"\npublic,tags,label,text,0,"\'a,b\'::text"'
+    const { tables, errors } = parsePostgresSchema(csv)
+    expect(errors).toHaveLength(0)
+    expect(tables[0]).toMatchObject({ name: 'public.tags', columns: ['id', 'label'], primaryKeys: ['id'] })
+  })
+
+  it('reports missing header columns', () => {
+    const { tables, errors } = parsePostgresSchema('public\tcustomers\tid')
+    expect(tables).toHaveLength(0)
+    expect(errors[0].message).toMatch(/missing header columns: table_name, column_name/)
+  })
+})
+
+describe('parseMySqlSchema', () => {
+  it('reads mysql --batch output, treating NULL cells as empty', () => {
+    const { tables, edges, errors } = parseMySqlSchema(mysqlBatch)
+    expect(errors).toHaveLength(0)
+    expect(tables.map((t) => t.name)).toEqual(['shop.customers', 'shop.orders'])
+    const orders = tables[1]
+    expect(orders.columns).toEqual(['id', 'customer_id', 'note'])
+    expect(orders.columnTypes?.customer_id).toEqual({ dataType: 'int', isPrimaryKey: false, nullable: true })
+    expect(edges).toHaveLength(1)
+    expect(edges[0]).toMatchObject({ source: orders.id, sourceHandle: 'customer_id', target: tables[0].id, targetHandle: 'id' })
+  })
+
+  it('is selected by parseSqlSchema', () => {
+    expect(parseSqlSchema(mysqlBatch, 'mysql').tables).toHaveLength(2)
+    expect(parseSqlSchema(sample)).toEqual(parseSqlServerSchema(sample))
+  })
+})
+
+const tsqlScript = `/****** Object:  Table [dbo].[Customers] ******/
+SET ANSI_NULLS ON
+GO
+CREATE TABLE [dbo].[Customers](
+	[Id] [uniqueidentifier] NOT NULL DEFAULT (newid()),
+	[Name] [nvarchar](100) NULL,
+	[Balance] [decimal](10, 2) NOT NULL,
+ CONSTRAINT [PK_Customers] PRIMARY KEY CLUSTERED ([Id] ASC) WITH (PAD_INDEX = OFF) ON [PRIMARY]
+) ON [PRIMARY]
+GO
+CREATE TABLE [dbo].[Orders](
+	[OrderId] [int] IDENTITY(1,1) NOT NULL,
+	[CustomerId] [uniqueidentifier] NOT NULL,
+	[Total] AS ([Balance]*(2))
+)
+GO
+ALTER TABLE [dbo].[Orders] ADD CONSTRAINT [PK_Orders] PRIMARY KEY ([OrderId])
+GO
+ALTER TABLE [dbo].[Orders]  WITH CHECK ADD  CONSTRAINT [FK_Orders_Customers] FOREIGN KEY([CustomerId])
+REFERENCES [dbo].[Customers] ([Id])
+GO
+ALTER TABLE [dbo].[Orders] CHECK CONSTRAINT [FK_Orders_Customers]
+GO
+`
+
+const pgDump = `-- pg_dump output
+CREATE TABLE public.customers (
+    id integer NOT NULL,
+    email character varying(255),
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    tags text[]
+);
+
+CREATE TABLE IF NOT EXISTS public.orders (
+    id bigserial PRIMARY KEY,
+    customer_id integer REFERENCES customers,
+    note text DEFAULT 'a;b'::text
+);
+
+ALTER TABLE ONLY public.customers
+    ADD CONSTRAINT customers_pkey PRIMARY KEY (id);
+CREATE INDEX orders_customer_idx ON public.orders USING btree (customer_id);
+`
+
+const mysqlDump = `# mysqldump
+DROP TABLE IF EXISTS \`customers\`;
+CREATE TABLE \`customers\` (
+  \`id\` int unsigned NOT NULL AUTO_INCREMENT,
+  \`name\` varchar(50) CHARACTER SET utf8mb4 DEFAULT NULL COMMENT 'display, name',
+  PRIMARY KEY (\`id\`),
+  UNIQUE KEY \`name_uq\` (\`name\`)
+) ENGINE=InnoDB;
+CREATE TABLE \`order_items\` (
+  \`order_id\` int NOT NULL,
+  \`line\` int NOT NULL,
+  \`customer_id\` int unsigned DEFAULT NULL,
+  PRIMARY KEY (\`order_id\`, \`line\`),
+  KEY \`customer_idx\` (\`customer_id\`),
+  CONSTRAINT \`fk_items_customer\` FOREIGN KEY (\`customer_id\`) REFERENCES \`customers\` (\`id\`) ON DELETE CASCADE
+) ENGINE=InnoDB;
+`
+
+describe('parseDdlSchema', () => {
+  it('reads T-SQL scripts with GO batches, bracket identifiers and ALTER TABLE keys', () => {
+    const { tables, edges, errors } = parseDdlSchema(tsqlScript)
+    expect(errors).toHaveLength(0)
+    const [customers, orders] = tables
+    expect(customers).toMatchObject({ name: 'dbo.Customers', columns: ['Id', 'Name', 'Balance'], primaryKeys: ['Id'], sourceType: 'sqlschema' })
+    expect(customers.columnTypes).toEqual({
+      Id: { dataType: 'uniqueidentifier', isPrimaryKey: true, nullable: false },
+      Name: { dataType: 'nvarchar(100)', isPrimaryKey: false, nullable: true },
+      Balance: { dataType: 'decimal(10,2)', isPrimaryKey: false, nullable: false },
+    })
+    expect(orders).toMatchObject({ name: 'dbo.Orders', columns: ['OrderId', 'CustomerId', 'Total'], primaryKeys: ['OrderId'] })
+    expect(orders.columnTypes?.Total?.dataType).toBeUndefined()
+    expect(edges).toEqual([
+      expect.objectContaining({ source: orders.id, sourceHandle: 'CustomerId', target: customers.id, targetHandle: 'Id' }),
+    ])
+  })
+
+  it('reads pg_dump scripts, resolving REFERENCES without columns to the primary key', () => {
+    const { tables, edges, errors } = parseDdlSchema(pgDump)
+    expect(errors).toHaveLength(0)
+    const [customers, orders] = tables
+    expect(customers.primaryKeys).toEqual(['id'])
+    expect(customers.columnTypes?.created_at).toEqual({ dataType: 'timestamp with time zone', isPrimaryKey: false, nullable: false })
+    expect(customers.columnTypes?.email?.dataType).toBe('character varying(255)')
+    expect(customers.columnTypes?.tags?.dataType).toBe('text[]')
+    expect(orders.columns).toEqual(['id', 'customer_id', 'note'])
+    expect(orders.columnTypes?.id).toEqual({ dataType: 'bigserial', isPrimaryKey: true, nullable: false })
+    expect(edges).toEqual([
+      expect.objectContaining({ source: orders.id, sourceHandle: 'customer_id', target: customers.id, targetHandle: 'id' }),
+    ])
+  })
+
+  it('reads mysqldump scripts with backticks, index keys and composite primary keys', () => {
+    const { tables, edges, errors } = parseDdlSchema(mysqlDump)
+    expect(errors).toHaveLength(0)
+    expect(tables.map((t) => t.name)).toEqual(['customers', 'order_items'])
+    const [customers, items] = tables
+    expect(customers.columns).toEqual(['id', 'name'])
+    expect(customers.columnTypes?.id).toEqual({ dataType: 'int', isPrimaryKey: true, nullable: false })
+    expect(customers.columnTypes?.name).toEqual({ dataType: 'varchar(50)', isPrimaryKey: false, nullable: true })
+    expect(items.primaryKeys).toEqual(['order_id', 'line'])
+    expect(edges).toEqual([
+      expect.objectContaining({ source: items.id, sourceHandle: 'customer_id', target: customers.id, targetHandle: 'id' }),
+    ])
+  })
+
+  it('lists a key column that is also a foreign key once and marks unqualified tables as roots', () => {
+    const { tables, errors } = parseDdlSchema(`
+CREATE TABLE Orders (OrderId int PRIMARY KEY, Note text);
+CREATE TABLE OrderLines (
+  OrderId int NOT NULL REFERENCES Orders (OrderId),
+  LineNo int NOT NULL,
+  PRIMARY KEY (OrderId, LineNo)
+);`)
+    expect(errors).toHaveLength(0)
+    const [orders, lines] = tables
+    expect(lines.primaryKeys).toEqual(['OrderId', 'LineNo'])
+    expect(orders).toMatchObject({ name: 'Orders', isDocumentRoot: true })
+    expect(lines.isDocumentRoot).toBe(true)
+  })
+
+  it('reports scripts without CREATE TABLE statements', () => {
+    expect(parseDdlSchema('SELECT 1;').errors[0].message).toMatch(/No CREATE TABLE/)
+    expect(parseSqlSchema(mysqlDump, 'ddl').tables).toHaveLength(2)
+  })
+})
+
+describe('composite foreign keys', () => {
+  const header = 'table_schema\ttable_name\tcolumn_name\tordinal_position\tdata_type\tmax_length\tprecision\tscale\tis_nullable\tis_identity\tdefault_value\tis_primary_key\tfk_name\tfk_ref_schema\tfk_ref_table\tfk_ref_column'
+  const row = (table: string, col: string, pk: 0 | 1, fk = ['', '', '', '']) => ['app', table, col, '1', 'int', '4', '10', '0', '0', '0', '', String(pk), ...fk].join('\t')
+  const catalog = [
+    header,
+    row('Orders', 'TenantId', 1),
+    row('Orders', 'OrderId', 1),
+    row('Lines', 'LineId', 1),
+    row('Lines', 'TenantId', 0, ['FK_Lines_Orders', 'app', 'Orders', 'TenantId']),
+    row('Lines', 'OrderId', 0, ['FK_Lines_Orders', 'app', 'Orders', 'OrderId']),
+  ].join('\n')
+
+  it('keeps the column pairs of one constraint on a single edge', () => {
+    const { edges } = parseSqlServerSchema(catalog)
+    expect(edges).toHaveLength(1)
+    expect(edges[0]).toMatchObject({
+      sourceHandle: 'TenantId',
+      targetHandle: 'TenantId',
+      data: { type: 'one-to-many', additionalColumns: [{ sourceColumn: 'OrderId', targetColumn: 'OrderId' }] },
+    })
+  })
+
+  it('groups multi-column FOREIGN KEY clauses in DDL scripts', () => {
+    const { edges } = parseDdlSchema(`
+      CREATE TABLE orders (tenant_id int, order_id int, PRIMARY KEY (tenant_id, order_id));
+      CREATE TABLE lines (
+        tenant_id int, order_id int, parent_order_id int,
+        FOREIGN KEY (tenant_id, order_id) REFERENCES orders (tenant_id, order_id),
+        FOREIGN KEY (tenant_id, parent_order_id) REFERENCES orders
+      );`)
+    expect(edges.map((e) => [e.sourceHandle, e.targetHandle, e.data.additionalColumns])).toEqual([
+      ['tenant_id', 'tenant_id', [{ sourceColumn: 'order_id', targetColumn: 'order_id' }]],
+      ['parent_order_id', 'order_id', undefined],
+    ])
+  })
+})
@@ -1,7 +1,26 @@
+import Papa from 'papaparse'
 import type { Edge } from 'reactflow'
-import type { TableData, ParseFileError } from './types'
+import type { TableData, ParseFileError, ColumnPair } from './types'
 import { slugify } from './parseFiles'
 
+export type SqlSchemaDialect = 'sqlserver' | 'postgres' | 'mysql' | 'ddl'
+
+type SchemaResult = { tables: TableData[]; edges: Edge[]; errors: ParseFileError[] }
+
+type ColRow = {
+  table_schema: string
+  table_name: string
+  column_name: string
+  ordinal_position?: string
+  data_type?: string
+  is_nullable?: string
+  fk_name?: string
+  fk_ref_schema?: string
+  fk_ref_table?: string
+  fk_ref_column?: string
+  is_primary_key?: string
+}
+
 function makeError(message: string, detail?: string, fileName?: string): ParseFileError {
   const id = typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `err-${Date.now()}-${Math.random().toString(16).slice(2)}`
   return { id, message, detail, fileName }
@@ -17,7 +36,7 @@ const norm = (v: string | undefined): string | undefined => {
 
 // Parse SQL Server schema dump (tab-delimited) with header:
 // table_schema table_name column_name ordinal_position data_type max_length precision scale is_nullable is_identity default_value is_primary_key fk_name fk_ref_schema fk_ref_table fk_ref_column
-export function parseSqlServerSchema(text: string): { tables: TableData[]; edges: Edge[]; errors: ParseFileError[] } {
+export function parseSqlServerSchema(text: string): SchemaResult {
   const errors: ParseFileError[] = []
   const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0)
   if (!lines.length) return { tables: [], edges: [], errors: [makeError('Empty schema input')] }
@@ -28,19 +47,6 @@ export function parseSqlServerSchema(text: string): { tables: TableData[]; edges
   const hasHeader = expected.every((h) => lower.includes(h))
   const startIdx = hasHeader ? 1 : 0
 
-  type ColRow = {
-    table_schema: string
-    table_name: string
-    column_name: string
-    ordinal_position?: string
-    data_type?: string
-    fk_name?: string
-    fk_ref_schema?: string
-    fk_ref_table?: string
-    fk_ref_column?: string
-    is_primary_key?: string
-  }
-
   const rows: ColRow[] = []
   const lowerHeader = header.map((h) => h.trim().toLowerCase())
   const expectedOrder = ['table_schema','table_name','column_name','ordinal_position','data_type','max_length','precision','scale','is_nullable','is_identity','default_value','is_primary_key','fk_name','fk_ref_schema','fk_ref_table','fk_ref_column']
@@ -71,6 +77,7 @@ export function parseSqlServerSchema(text: string): { tables: TableData[]; edges
       column_name: norm(rowValues.column_name) ?? '',
       ordinal_position: norm(rowValues.ordinal_position),
       data_type: norm(rowValues.data_type),
+      is_nullable: norm(rowValues.is_nullable),
       fk_name: norm(rowValues.fk_name),
       fk_ref_schema: norm(rowValues.fk_ref_schema),
       fk_ref_table: norm(rowValues.fk_ref_table),
@@ -79,6 +86,13 @@ export function parseSqlServerSchema(text: string): { tables: TableData[]; edges
     })
   }
 
+  return { ...buildSchema(rows), errors }
+}
+
+const isTrue = (v: string | undefined) => !!v && ['1', 'true', 't', 'yes', 'y'].includes(v.toLowerCase())
+
+// Turn catalog rows into tables (columns, types, primary keys) and FK edges
+function buildSchema(rows: ColRow[]): { tables: TableData[]; edges: Edge[] } {
   const tableMap = new Map<string, TableData>()
   const edges: Edge[] = []
   const pkTables = new Set<string>()
@@ -113,16 +127,21 @@ export function parseSqlServerSchema(text: string): { tables: TableData[]; edges
       table.columnRenames[r.column_name] = r.column_name
     }
     if (!table.columnTypes) table.columnTypes = {}
-    table.columnTypes[r.column_name] = { dataType: r.data_type, isPrimaryKey: !!r.is_primary_key && (r.is_primary_key === '1' || r.is_primary_key.toLowerCase() === 'true') }
+    table.columnTypes[r.column_name] = { dataType: r.data_type, isPrimaryKey: isTrue(r.is_primary_key) }
+    if (r.is_nullable) table.columnTypes[r.column_name].nullable = isTrue(r.is_nullable)
     if (table.columnTypes[r.column_name].isPrimaryKey) {
       if (!table.primaryKeys) table.primaryKeys = []
-      table.primaryKeys.push(r.column_name)
-      pkTables.add(`${r.table_schema}.${r.table_name}`)
+      // DDL repeats a column once per foreign key it is part of
+      if (!table.primaryKeys.includes(r.column_name)) table.primaryKeys.push(r.column_name)
+      pkTables.add(getTableKey(r.table_schema, r.table_name))
     }
   }
 
-  // Build edges; dedupe by (srcTable, srcCol, dstTable, dstCol)
+  // Build edges; dedupe by (srcTable, srcCol, dstTable, dstCol). Rows of one
+  // multi-column constraint become a single edge whose later column pairs ride
+  // along in `data.additionalColumns`.
   const edgeSet = new Set<string>()
+  const byConstraint = new Map<string, Edge>()
   for (const r of rows) {
     if (!r.fk_name) continue
     const srcTable = ensureTable(r.table_schema, r.table_name)
@@ -130,24 +149,514 @@ export function parseSqlServerSchema(text: string): { tables: TableData[]; edges
     const srcCol = r.column_name
     const dstCol = r.fk_ref_column ?? ''
     if (!srcCol || !dstCol) continue
+    const constraintKey = `${srcTable.id}\u0000${r.fk_name}\u0000${dstTable.id}`
+    const constraint = byConstraint.get(constraintKey)
+    if (constraint) {
+      const data = constraint.data as { additionalColumns?: ColumnPair[] }
+      const pairs = [{ sourceColumn: constraint.sourceHandle, targetColumn: constraint.targetHandle }, ...(data.additionalColumns ?? [])]
+      if (pairs.some((p) => p.sourceColumn === srcCol && p.targetColumn === dstCol)) continue
+      data.additionalColumns = [...(data.additionalColumns ?? []), { sourceColumn: srcCol, targetColumn: dstCol }]
+      continue
+    }
     const edgeId = `${srcTable.id}:${srcCol}__${dstTable.id}:${dstCol}`
     if (edgeSet.has(edgeId)) continue
     edgeSet.add(edgeId)
-    edges.push({
+    const edge = {
       id: edgeId,
       source: srcTable.id,
       target: dstTable.id,
       sourceHandle: srcCol,
       targetHandle: dstCol,
       data: { type: 'one-to-many' },
-    } as any)
+    } as any
+    byConstraint.set(constraintKey, edge)
+    edges.push(edge)
+  }
+
+  const tables = Array.from(tableMap.entries()).map(([key, t]) => (pkTables.has(key) ? { ...t, isDocumentRoot: true } : t))
+  return { tables, edges }
+}
+
+const REQUIRED_COLUMNS = ['table_name', 'column_name']
+
+// Lines psql adds around aligned output: `----+----` rules and `(3 rows)` footers
+const PSQL_DECORATION = /^\s*(?:[-+]+|\(\d+ rows?\))\s*$/
+
+/**
+ * Parse a catalog export keyed by header names (the columns of the
+ * Postgres/MySQL queries below). Accepts tab, pipe (psql), comma or semicolon
+ * delimited text with a header row; `NULL` and empty cells are treated alike.
+ */
+function parseCatalogExport(text: string, label: string): SchemaResult {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim().length > 0 && !PSQL_DECORATION.test(l))
+  if (!lines.length) return { tables: [], edges: [], errors: [makeError('Empty schema input')] }
+
+  const delimiter = ['\t', '|', ',', ';'].find((d) => lines[0].includes(d)) ?? '\t'
+  const parsed = Papa.parse<string[]>(lines.join('\n'), { delimiter, skipEmptyLines: true })
+  const [header = [], ...data] = parsed.data
+  const keys = header.map((h) => h.trim().toLowerCase())
+  const missing = REQUIRED_COLUMNS.filter((c) => !keys.includes(c))
+  if (missing.length) {
+    return { tables: [], edges: [], errors: [makeError(`${label} schema is missing header columns: ${missing.join(', ')}`, 'Paste the query output including the header row.')] }
   }
 
-  const tables = Array.from(tableMap.values()).map((t) => {
-    const key = `${t.name}`
-    const simpleKey = key
-    const isPk = pkTables.has(simpleKey)
-    return isPk ? { ...t, isDocumentRoot: true } as any : t
+  const rows: ColRow[] = data.map((cells) => {
+    const get = (key: string) => {
+      const idx = keys.indexOf(key)
+      return idx >= 0 ? norm(cells[idx]) : undefined
+    }
+    return {
+      table_schema: get('table_schema') ?? '',
+      table_name: get('table_name') ?? '',
+      column_name: get('column_name') ?? '',
+      ordinal_position: get('ordinal_position'),
+      data_type: get('data_type'),
+      is_nullable: get('is_nullable'),
+      fk_name: get('fk_name'),
+      fk_ref_schema: get('fk_ref_schema'),
+      fk_ref_table: get('fk_ref_table'),
+      fk_ref_column: get('fk_ref_column'),
+      is_primary_key: get('is_primary_key'),
+    }
   })
-  return { tables, edges, errors }
+  return { ...buildSchema(rows), errors: [] }
+}
+
+export function parsePostgresSchema(text: string): SchemaResult {
+  return parseCatalogExport(text, 'PostgreSQL')
+}
+
+export function parseMySqlSchema(text: string): SchemaResult {
+  return parseCatalogExport(text, 'MySQL')
+}
+
+// ---------------------------------------------------------------------------
+// CREATE TABLE / ALTER TABLE scripts (T-SQL, PostgreSQL, MySQL)
+// ---------------------------------------------------------------------------
+
+type Token = { text: string; upper: string; quoted: boolean; group?: string }
+
+const IDENT_QUOTES: Record<string, string> = { '"': '"', '`': '`', '[': ']' }
+
+// Index just past the quoted run starting at `start` (doubled closers are escapes)
+function skipQuoted(text: string, start: number, close: string): number {
+  let i = start + 1
+  while (i < text.length) {
+    if (text[i] === close) {
+      if (text[i + 1] === close && close !== ']') { i += 2; continue }
+      return i + 1
+    }
+    i++
+  }
+  return i
+}
+
+/** Strip comments, then split on `;` and T-SQL `GO` batch separators outside quotes. */
+function splitStatements(text: string): string[] {
+  let out = ''
+  let i = 0
+  while (i < text.length) {
+    const ch = text[i]
+    const next = text[i + 1]
+    if (ch === '-' && next === '-') {
+      while (i < text.length && text[i] !== '\n') i++
+    } else if (ch === '/' && next === '*') {
+      const end = text.indexOf('*/', i + 2)
+      i = end < 0 ? text.length : end + 2
+      out += ' '
+    } else if (ch === '#' && (/\s/.test(next ?? '') || /(^|\n)\s*$/.test(out))) {
+      while (i < text.length && text[i] !== '\n') i++
+    } else if (ch === "'" || IDENT_QUOTES[ch]) {
+      const end = skipQuoted(text, i, ch === "'" ? "'" : IDENT_QUOTES[ch])
+      out += text.slice(i, end)
+      i = end
+    } else {
+      out += ch
+      i++
+    }
+  }
+  out = out.replace(/^\s*GO\s*\d*\s*$/gim, ';')
+
+  const statements: string[] = []
+  let start = 0
+  for (let j = 0; j < out.length; j++) {
+    const ch = out[j]
+    if (ch === "'" || IDENT_QUOTES[ch]) {
+      j = skipQuoted(out, j, ch === "'" ? "'" : IDENT_QUOTES[ch]) - 1
+    } else if (ch === ';') {
+      statements.push(out.slice(start, j))
+      start = j + 1
+    }
+  }
+  statements.push(out.slice(start))
+  return statements.map((s) => s.trim()).filter(Boolean)
+}
+
+/** Words, quoted identifiers, string literals, punctuation and balanced `( … )` groups. */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  const push = (raw: string, quoted = false, group?: string) => tokens.push({ text: raw, upper: quoted ? '' : raw.toUpperCase(), quoted, group })
+  while (i < text.length) {
+    const ch = text[i]
+    if (/\s/.test(ch)) { i++; continue }
+    if (ch === '(') {
+      let depth = 0
+      let j = i
+      for (; j < text.length; j++) {
+        const c = text[j]
+        if (c === "'" || IDENT_QUOTES[c]) { j = skipQuoted(text, j, c === "'" ? "'" : IDENT_QUOTES[c]) - 1; continue }
+        if (c === '(') depth++
+        else if (c === ')' && --depth === 0) break
+      }
+      push(text.slice(i, j + 1), false, text.slice(i + 1, j))
+      i = j + 1
+    } else if (ch === '[' && text[i + 1] === ']') {
+      push('[]')
+      i += 2
+    } else if (IDENT_QUOTES[ch]) {
+      const close = IDENT_QUOTES[ch]
+      const end = skipQuoted(text, i, close)
+      push(text.slice(i + 1, end - 1).split(close + close).join(close), true)
+      i = end
+    } else if (ch === "'") {
+      const end = skipQuoted(text, i, "'")
+      push(text.slice(i, end))
+      i = end
+    } else if (ch === ',' || ch === '.' || ch === ';' || ch === ')') {
+      push(ch)
+      i++
+    } else {
+      let j = i
+      while (j < text.length && !/[\s(),.;'"`[]/.test(text[j])) j++
+      push(text.slice(i, j))
+      i = j
+    }
+  }
+  return tokens
+}
+
+/** Split a token list on top-level commas. */
+function splitOnCommas(tokens: Token[]): Token[][] {
+  const parts: Token[][] = [[]]
+  for (const t of tokens) {
+    if (t.text === ',' && !t.quoted) parts.push([])
+    else parts[parts.length - 1].push(t)
+  }
+  return parts.filter((p) => p.length)
+}
+
+type QualifiedName = { schema?: string; name: string }
+
+function readName(tokens: Token[], i: number): { name: QualifiedName; next: number } | null {
+  const parts: string[] = []
+  let j = i
+  while (j < tokens.length && !tokens[j].group && tokens[j].text !== ',') {
+    parts.push(tokens[j].text)
+    if (tokens[j + 1]?.text !== '.' || tokens[j + 1].quoted) { j++; break }
+    j += 2
+  }
+  if (!parts.length) return null
+  return { name: { name: parts[parts.length - 1], schema: parts.length > 1 ? parts[parts.length - 2] : undefined }, next: j }
+}
+
+const columnList = (group: string | undefined): string[] =>
+  group === undefined ? [] : splitOnCommas(tokenize(group)).map((part) => part[0].text)
+
+type DdlForeignKey = { name?: string; columns: string[]; ref: QualifiedName; refColumns: string[] }
+type DdlColumn = { name: string; dataType?: string; nullable: boolean; primaryKey: boolean }
+type DdlTable = { schema: string; name: string; columns: DdlColumn[]; primaryKey: string[]; foreignKeys: DdlForeignKey[] }
+
+// Column-definition words that end the data type
+const TYPE_STOP = new Set([
+  'CONSTRAINT', 'NOT', 'NULL', 'DEFAULT', 'PRIMARY', 'REFERENCES', 'UNIQUE', 'CHECK', 'IDENTITY', 'AUTO_INCREMENT',
+  'COLLATE', 'GENERATED', 'COMMENT', 'CHARSET', 'AS', 'ON', 'UNSIGNED', 'SIGNED', 'ZEROFILL', 'ROWGUIDCOL', 'SPARSE',
+  'FILESTREAM', 'MASKED', 'ENCRYPTED', 'KEY', 'VISIBLE', 'INVISIBLE', 'STORED', 'VIRTUAL',
+])
+const SERIAL_TYPES = new Set(['serial', 'bigserial', 'smallserial', 'serial4', 'serial8', 'serial2'])
+
+/** Table-level `PRIMARY KEY (…)` / `FOREIGN KEY (…) REFERENCES t (…)`; anything else is null. */
+function readTableConstraint(tokens: Token[]): { primaryKey: string[] } | { foreignKey: DdlForeignKey } | null {
+  let i = 0
+  let name: string | undefined
+  if (tokens[0]?.upper === 'CONSTRAINT') {
+    name = tokens[1]?.text
+    i = 2
+  }
+  if (tokens[i]?.upper === 'PRIMARY' && tokens[i + 1]?.upper === 'KEY') {
+    const group = tokens.slice(i + 2).find((t) => t.group !== undefined)
+    return { primaryKey: columnList(group?.group) }
+  }
+  if (tokens[i]?.upper === 'FOREIGN' && tokens[i + 1]?.upper === 'KEY') {
+    const columns = columnList(tokens[i + 2]?.group)
+    const refAt = tokens.findIndex((t, j) => j > i && t.upper === 'REFERENCES')
+    const ref = refAt >= 0 ? readName(tokens, refAt + 1) : null
+    if (!ref) return null
+    return { foreignKey: { name, columns, ref: ref.name, refColumns: columnList(tokens[ref.next]?.group) } }
+  }
+  return null
+}
+
+function readColumn(tokens: Token[], table: DdlTable) {
+  const column: DdlColumn = { name: tokens[0].text, nullable: true, primaryKey: false }
+  let i = 1
+  const typeParts: string[] = []
+  while (i < tokens.length) {
+    const t = tokens[i]
+    if (!t.quoted && TYPE_STOP.has(t.upper)) break
+    if (t.upper === 'CHARACTER' && tokens[i + 1]?.upper === 'SET') break
+    if ((t.group !== undefined || t.text === '[]') && typeParts.length) typeParts.push(typeParts.pop() + t.text.replace(/\s+/g, ''))
+    else typeParts.push(t.text.toLowerCase())
+    i++
+  }
+  if (typeParts.length) column.dataType = typeParts.join(' ')
+  if (column.dataType && SERIAL_TYPES.has(column.dataType)) column.nullable = false
+  for (; i < tokens.length; i++) {
+    const t = tokens[i]
+    if (t.upper === 'NOT' && tokens[i + 1]?.upper === 'NULL') { column.nullable = false; i++ }
+    else if (t.upper === 'NULL') column.nullable = true
+    else if (t.upper === 'DEFAULT' || t.upper === 'CONSTRAINT' || t.upper === 'COLLATE' || t.upper === 'COMMENT') i++
+    else if (t.upper === 'IDENTITY' || t.upper === 'AUTO_INCREMENT') column.nullable = false
+    else if (t.upper === 'PRIMARY' && tokens[i + 1]?.upper === 'KEY') { column.primaryKey = true; column.nullable = false; i++ }
+    else if (t.upper === 'REFERENCES') {
+      const ref = readName(tokens, i + 1)
+      if (!ref) continue
+      table.foreignKeys.push({ columns: [column.name], ref: ref.name, refColumns: columnList(tokens[ref.next]?.group) })
+      i = ref.next
+    }
+  }
+  table.columns.push(column)
+}
+
+const TABLE_ITEM_SKIP = new Set(['UNIQUE', 'CHECK', 'INDEX', 'KEY', 'FULLTEXT', 'SPATIAL', 'EXCLUDE', 'LIKE', 'PERIOD'])
+
+/**
+ * Parse a DDL script: `CREATE TABLE` column definitions with inline and
+ * table-level keys, plus keys added later with `ALTER TABLE … ADD`. Bracket,
+ * double-quote and backtick identifiers are accepted, so T-SQL, PostgreSQL and
+ * MySQL scripts parse alike; other statements are ignored.
+ */
+export function parseDdlSchema(text: string): SchemaResult {
+  const tables = new Map<string, DdlTable>()
+  const keyOf = (schema: string, name: string) => `${schema}.${name}`.toLowerCase()
+  // Unqualified names resolve to a table in the given schema, then to any schema
+  const find = (name: QualifiedName, contextSchema = ''): DdlTable | undefined => {
+    if (name.schema !== undefined) return tables.get(keyOf(name.schema, name.name))
+    return tables.get(keyOf(contextSchema, name.name)) ?? Array.from(tables.values()).find((t) => t.name.toLowerCase() === name.name.toLowerCase())
+  }
+
+  const alters: { table: QualifiedName; clauses: Token[][] }[] = []
+  for (const statement of splitStatements(text)) {
+    const tokens = tokenize(statement)
+    let i = 0
+    const skip = (...words: string[]) => { while (words.includes(tokens[i]?.upper)) i++ }
+    if (tokens[0]?.upper === 'CREATE') {
+      i = 1
+      skip('OR', 'REPLACE', 'GLOBAL', 'LOCAL', 'TEMP', 'TEMPORARY', 'UNLOGGED')
+      if (tokens[i]?.upper !== 'TABLE') continue
+      i++
+      if (tokens[i]?.upper === 'IF') i += 3
+      const read = readName(tokens, i)
+      const body = read ? tokens[read.next]?.group : undefined
+      if (!read || body === undefined || read.name.name.startsWith('#')) continue
+      const table: DdlTable = { schema: read.name.schema ?? '', name: read.name.name, columns: [], primaryKey: [], foreignKeys: [] }
+      for (const item of splitOnCommas(tokenize(body))) {
+        const constraint = readTableConstraint(item)
+        if (constraint && 'primaryKey' in constraint) table.primaryKey.push(...constraint.primaryKey)
+        else if (constraint) table.foreignKeys.push(constraint.foreignKey)
+        else if (item[0].upper === 'CONSTRAINT' || (!item[0].quoted && TABLE_ITEM_SKIP.has(item[0].upper))) continue
+        else readColumn(item, table)
+      }
+      tables.set(keyOf(table.schema, table.name), table)
+    } else if (tokens[0]?.upper === 'ALTER' && tokens[1]?.upper === 'TABLE') {
+      i = 2
+      skip('ONLY')
+      if (tokens[i]?.upper === 'IF') i += 2
+      const read = readName(tokens, i)
+      if (read) alters.push({ table: read.name, clauses: splitOnCommas(tokens.slice(read.next)) })
+    }
+  }
+
+  for (const alter of alters) {
+    const table = find(alter.table)
+    if (!table) continue
+    for (const clause of alter.clauses) {
+      let i = 0
+      while (clause[i]?.upper === 'WITH' || clause[i]?.upper === 'CHECK' || clause[i]?.upper === 'NOCHECK') i++
+      if (clause[i]?.upper !== 'ADD') continue
+      const constraint = readTableConstraint(clause.slice(i + 1))
+      if (constraint && 'primaryKey' in constraint) table.primaryKey.push(...constraint.primaryKey)
+      else if (constraint) table.foreignKeys.push(constraint.foreignKey)
+    }
+  }
+
+  if (!tables.size) return { tables: [], edges: [], errors: [makeError('No CREATE TABLE statements found', 'Paste or drop a DDL script with CREATE TABLE statements.')] }
+
+  // Match key column spellings to their declarations (unquoted identifiers are case-insensitive)
+  const canonical = (table: DdlTable | undefined, col: string) => table?.columns.find((c) => c.name.toLowerCase() === col.toLowerCase())?.name ?? col
+  const rows: ColRow[] = []
+  for (const table of tables.values()) {
+    const pk = new Set(table.primaryKey.map((c) => canonical(table, c)))
+    for (const col of table.columns) {
+      rows.push({
+        table_schema: table.schema,
+        table_name: table.name,
+        column_name: col.name,
+        data_type: col.dataType,
+        is_nullable: col.nullable && !pk.has(col.name) ? 'YES' : 'NO',
+        is_primary_key: col.primaryKey || pk.has(col.name) ? '1' : '0',
+      })
+    }
+    table.foreignKeys.forEach((fk, fkIndex) => {
+      const target = find(fk.ref, table.schema)
+      const refSchema = target?.schema ?? fk.ref.schema ?? table.schema
+      const refTable = target?.name ?? fk.ref.name
+      // `REFERENCES t` without columns points at t's primary key
+      const refColumns = fk.refColumns.length
+        ? fk.refColumns.map((c) => canonical(target, c))
+        : target ? [...target.primaryKey.map((c) => canonical(target, c)), ...target.columns.filter((c) => c.primaryKey).map((c) => c.name)] : []
+      fk.columns.forEach((c, idx) => {
+        const source = rows.find((r) => r.table_schema === table.schema && r.table_name === table.name && r.column_name === canonical(table, c))
+        if (!source || !refColumns[idx]) return
+        rows.push({ ...source, fk_name: fk.name ?? `FK_${table.name}_${refTable}_${fkIndex + 1}`, fk_ref_schema: refSchema, fk_ref_table: refTable, fk_ref_column: refColumns[idx] })
+      })
+    })
+  }
+  return { ...buildSchema(rows), errors: [] }
+}
+
+export function parseSqlSchema(text: string, dialect: SqlSchemaDialect = 'sqlserver'): SchemaResult {
+  if (dialect === 'postgres') return parsePostgresSchema(text)
+  if (dialect === 'mysql') return parseMySqlSchema(text)
+  if (dialect === 'ddl') return parseDdlSchema(text)
+  return parseSqlServerSchema(text)
+}
+
+// Catalog queries whose output the parsers above read; shown in the schema import modal
+export const SQL_SCHEMA_QUERIES: Record<Exclude<SqlSchemaDialect, 'ddl'>, string> = {
+  sqlserver: `SELECT 
+    s.name AS [table_schema],
+    t.name AS [table_name],
+    c.name AS [column_name],
+    c.column_id AS [ordinal_position],
+    ty.name AS [data_type],
+    c.max_length,
+    c.precision,
+    c.scale,
+    c.is_nullable,
+    c.is_identity,
+    ISNULL(dc.definition, '') AS [default_value],
+    CASE WHEN pk_ic.column_id IS NOT NULL THEN 1 ELSE 0 END AS [is_primary_key],
+    fk.name AS [fk_name],
+    rs.name AS [fk_ref_schema],
+    rt.name AS [fk_ref_table],
+    rc.name AS [fk_ref_column]
+FROM sys.tables t
+INNER JOIN sys.schemas s ON t.schema_id = s.schema_id
+INNER JOIN sys.columns c ON t.object_id = c.object_id
+INNER JOIN sys.types ty ON c.user_type_id = ty.user_type_id
+LEFT JOIN sys.default_constraints dc ON c.default_object_id = dc.object_id
+LEFT JOIN sys.key_constraints pk 
+    ON pk.parent_object_id = t.object_id AND pk.type = 'PK'
+LEFT JOIN sys.index_columns pk_ic 
+    ON pk.unique_index_id = pk_ic.index_id 
+    AND pk.parent_object_id = pk_ic.object_id 
+    AND c.column_id = pk_ic.column_id
+LEFT JOIN sys.foreign_key_columns fkc 
+    ON fkc.parent_object_id = t.object_id 
+    AND fkc.parent_column_id = c.column_id
+LEFT JOIN sys.foreign_keys fk 
+    ON fkc.constraint_object_id = fk.object_id
+LEFT JOIN sys.tables rt ON fkc.referenced_object_id = rt.object_id
+LEFT JOIN sys.schemas rs ON rt.schema_id = rs.schema_id
+LEFT JOIN sys.columns rc 
+    ON fkc.referenced_object_id = rc.object_id 
+    AND fkc.referenced_column_id = rc.column_id
+ORDER BY s.name, t.name, c.column_id;`,
+  postgres: `SELECT
+    c.table_schema,
+    c.table_name,
+    c.column_name,
+    c.ordinal_position,
+    CASE WHEN c.data_type IN ('ARRAY', 'USER-DEFINED') THEN c.udt_name ELSE c.data_type END AS data_type,
+    c.character_maximum_length AS max_length,
+    c.numeric_precision AS precision,
+    c.numeric_scale AS scale,
+    c.is_nullable,
+    c.is_identity,
+    COALESCE(c.column_default, '') AS default_value,
+    CASE WHEN pk.column_name IS NOT NULL THEN 1 ELSE 0 END AS is_primary_key,
+    fk.constraint_name AS fk_name,
+    fk.ref_schema AS fk_ref_schema,
+    fk.ref_table AS fk_ref_table,
+    fk.ref_column AS fk_ref_column
+FROM information_schema.columns c
+INNER JOIN information_schema.tables t
+    ON t.table_schema = c.table_schema
+    AND t.table_name = c.table_name
+    AND t.table_type = 'BASE TABLE'
+LEFT JOIN (
+    SELECT kcu.table_schema, kcu.table_name, kcu.column_name
+    FROM information_schema.table_constraints tc
+    INNER JOIN information_schema.key_column_usage kcu
+        ON kcu.constraint_schema = tc.constraint_schema
+        AND kcu.constraint_name = tc.constraint_name
+        AND kcu.table_name = tc.table_name
+    WHERE tc.constraint_type = 'PRIMARY KEY'
+) pk
+    ON pk.table_schema = c.table_schema
+    AND pk.table_name = c.table_name
+    AND pk.column_name = c.column_name
+LEFT JOIN (
+    SELECT
+        kcu.table_schema, kcu.table_name, kcu.column_name, kcu.constraint_name,
+        ref.table_schema AS ref_schema, ref.table_name AS ref_table, ref.column_name AS ref_column
+    FROM information_schema.table_constraints tc
+    INNER JOIN information_schema.key_column_usage kcu
+        ON kcu.constraint_schema = tc.constraint_schema
+        AND kcu.constraint_name = tc.constraint_name
+        AND kcu.table_name = tc.table_name
+    INNER JOIN information_schema.referential_constraints rc
+        ON rc.constraint_schema = tc.constraint_schema
+        AND rc.constraint_name = tc.constraint_name
+    INNER JOIN information_schema.key_column_usage ref
+        ON ref.constraint_schema = rc.unique_constraint_schema
+        AND ref.constraint_name = rc.unique_constraint_name
+        AND ref.ordinal_position = kcu.position_in_unique_constraint
+    WHERE tc.constraint_type = 'FOREIGN KEY'
+) fk
+    ON fk.table_schema = c.table_schema
+    AND fk.table_name = c.table_name
+    AND fk.column_name = c.column_name
+WHERE c.table_schema NOT IN ('pg_catalog', 'information_schema')
+ORDER BY c.table_schema, c.table_name, c.ordinal_position;`,
+  mysql: `SELECT
+    c.TABLE_SCHEMA AS table_schema,
+    c.TABLE_NAME AS table_name,
+    c.COLUMN_NAME AS column_name,
+    c.ORDINAL_POSITION AS ordinal_position,
+    c.DATA_TYPE AS data_type,
+    c.CHARACTER_MAXIMUM_LENGTH AS max_length,
+    c.NUMERIC_PRECISION AS \`precision\`,
+    c.NUMERIC_SCALE AS scale,
+    c.IS_NULLABLE AS is_nullable,
+    IF(c.EXTRA LIKE '%auto_increment%', 1, 0) AS is_identity,
+    IFNULL(c.COLUMN_DEFAULT, '') AS default_value,
+    IF(c.COLUMN_KEY = 'PRI', 1, 0) AS is_primary_key,
+    k.CONSTRAINT_NAME AS fk_name,
+    k.REFERENCED_TABLE_SCHEMA AS fk_ref_schema,
+    k.REFERENCED_TABLE_NAME AS fk_ref_table,
+    k.REFERENCED_COLUMN_NAME AS fk_ref_column
+FROM information_schema.COLUMNS c
+INNER JOIN information_schema.TABLES t
+    ON t.TABLE_SCHEMA = c.TABLE_SCHEMA
+    AND t.TABLE_NAME = c.TABLE_NAME
+    AND t.TABLE_TYPE = 'BASE TABLE'
+LEFT JOIN information_schema.KEY_COLUMN_USAGE k
+    ON k.TABLE_SCHEMA = c.TABLE_SCHEMA
+    AND k.TABLE_NAME = c.TABLE_NAME
+    AND k.COLUMN_NAME = c.COLUMN_NAME
+    AND k.REFERENCED_TABLE_NAME IS NOT NULL
+WHERE c.TABLE_SCHEMA = DATABASE()
+ORDER BY c.TABLE_SCHEMA, c.TABLE_NAME, c.ORDINAL_POSITION;`,
 }
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { MAX_LOGICAL_PARTITION_BYTES, createPartitionKeyAnalyzer, parsePartitionKeyPaths, partitionKeyPathsError } from './partitionKey'
+import { estimateRu } from './ru'
+
+const orders = [
+  { id: '1', tenant: 'a', user: 'u1', address: { city: 'Oslo' } },
+  { id: '2', tenant: 'a', user: 'u1', address: { city: 'Oslo' } },
+  { id: '3', tenant: 'a', user: 'u2', address: { city: 'Bergen' } },
+  { id: '4', tenant: 'b', user: 'u3', address: {} },
+]
+
+describe('partition key candidates', () => {
+  it('parses hierarchical paths', () => {
+    expect(parsePartitionKeyPaths(' /tenant, /user ,')).toEqual(['/tenant', '/user'])
+  })
+
+  it('rejects empty, relative and too deep keys', () => {
+    expect(partitionKeyPathsError([])).toMatch(/Enter/)
+    expect(partitionKeyPathsError(['tenant'])).toMatch(/must start with \//)
+    expect(partitionKeyPathsError(['/a', '/b', '/c', '/d'])).toMatch(/at most 3/)
+    expect(partitionKeyPathsError(['/tenant', '/address/city'])).toBeNull()
+  })
+})
+
+describe('createPartitionKeyAnalyzer', () => {
+  const analyze = (candidates: string[][], projected?: number) => {
+    const analyzer = createPartitionKeyAnalyzer(candidates)
+    orders.forEach((o) => analyzer.add(o))
+    return analyzer.report(projected)
+  }
+
+  it('groups documents into logical partitions per candidate', () => {
+    const [byTenant, byId, hierarchical] = analyze([['/tenant'], ['/id'], ['/tenant', '/user']])
+    expect(byTenant.distinctValues).toBe(2)
+    expect(byTenant.top.map((p) => [p.key, p.documents])).toEqual([[['a'], 3], [['b'], 1]])
+    expect(byId.distinctValues).toBe(4)
+    expect(byId.storageSkew).toBeLessThan(1.1)
+    expect(hierarchical.distinctValues).toBe(3)
+    expect(hierarchical.top[0].key).toEqual(['a', 'u1'])
+  })
+
+  it('measures storage and write RU per partition and the hottest partition', () => {
+    const [byTenant] = analyze([['/tenant']])
+    const sizes = orders.map((o) => estimateRu(o).sizeBytes)
+    const tenantA = sizes[0] + sizes[1] + sizes[2]
+    expect(byTenant.top[0].bytes).toBe(tenantA)
+    expect(byTenant.top[0].writeRU).toBeCloseTo(orders.slice(0, 3).reduce((acc, o) => acc + estimateRu(o).writeRU, 0))
+    expect(byTenant.bytesPerPartition.max).toBe(tenantA)
+    expect(byTenant.largestShare).toBeCloseTo(tenantA / (tenantA + sizes[3]))
+    expect(byTenant.storageSkew).toBeCloseTo(tenantA / ((tenantA + sizes[3]) / 2))
+  })
+
+  it('counts documents without a key value and groups them together', () => {
+    const [byCity] = analyze([['/address/city']])
+    expect(byCity.missingValues).toBe(1)
+    expect(byCity.top.map((p) => p.key)).toContainEqual([null])
+  })
+
+  it('flags partitions projected past the 20 GB limit', () => {
+    const [byTenant] = analyze([['/tenant']])
+    expect(byTenant.overLimit).toEqual([])
+    const tenantABytes = byTenant.top[0].bytes
+    const projected = Math.ceil(4 * (MAX_LOGICAL_PARTITION_BYTES / tenantABytes) * 1.01)
+    const [scaled] = analyze([['/tenant']], projected)
+    expect(scaled.overLimit.map((p) => p.key)).toEqual([['a']])
+    expect(scaled.top[0].projectedBytes).toBeGreaterThan(MAX_LOGICAL_PARTITION_BYTES)
+  })
+})
@@ -0,0 +1,102 @@
+import { MAX_PARTITION_KEY_LEVELS, partitionKeySegments, readPartitionKey } from './documentSettings'
+import { distribution, estimateRu, type Distribution } from './ru'
+
+/**
+ * Partition key analysis over the generated documents of a root. Every
+ * candidate key, a single path or up to three paths for a hierarchical key,
+ * groups the documents into logical partitions; the report gives their count,
+ * size and write RU, how unevenly they are loaded, and which would pass
+ * Cosmos DB's 20 GB logical partition limit at a projected document count.
+ */
+
+export const MAX_LOGICAL_PARTITION_BYTES = 20 * 1024 ** 3
+const TOP_PARTITIONS = 5
+
+export type LogicalPartition = {
+  key: unknown[] // one value per level; missing values are null
+  documents: number
+  bytes: number
+  writeRU: number // RU to write every document of the partition once
+  projectedBytes: number
+}
+
+export type PartitionKeyReport = {
+  paths: string[]
+  documents: number
+  distinctValues: number
+  missingValues: number // documents without a string, number or boolean at some level
+  bytesPerPartition: Distribution
+  writeRuPerPartition: Distribution
+  storageSkew: number // largest partition ÷ average partition; 1 is perfectly even
+  largestShare: number // largest partition's share of all storage, 0–1
+  top: LogicalPartition[] // largest partitions first
+  overLimit: LogicalPartition[] // projected above 20 GB, largest first
+}
+
+/** `/tenantId, /userId` → ['/tenantId', '/userId']. */
+export function parsePartitionKeyPaths(text: string): string[] {
+  return text.split(',').map((p) => p.trim()).filter(Boolean)
+}
+
+/** Why a candidate key cannot be a Cosmos DB partition key, or null when it can. */
+export function partitionKeyPathsError(paths: string[]): string | null {
+  if (!paths.length) return 'Enter a partition key path, e.g. /customerId'
+  if (paths.length > MAX_PARTITION_KEY_LEVELS) return `Partition keys have at most ${MAX_PARTITION_KEY_LEVELS} levels`
+  const invalid = paths.find((p) => !p.startsWith('/') || !partitionKeySegments(p).length)
+  return invalid ? `Partition key path "${invalid}" must start with /, e.g. /customerId` : null
+}
+
+const isKeyValue = (v: unknown) => v !== undefined && v !== null && v !== '' && typeof v !== 'object'
+
+/**
+ * Collect documents for several candidate keys at once, so each document is
+ * built and measured once. The projection scales every partition by
+ * `projectedDocuments / documents`, which assumes keys keep their current
+ * cardinality: pessimistic for keys such as ids that grow with the data.
+ */
+export function createPartitionKeyAnalyzer(candidates: string[][]) {
+  const partitions = candidates.map(() => new Map<string, LogicalPartition>())
+  const missing = candidates.map(() => 0)
+  let documents = 0
+  return {
+    add(doc: Record<string, unknown>) {
+      const { sizeBytes, writeRU } = estimateRu(doc)
+      documents++
+      candidates.forEach((paths, i) => {
+        const values = readPartitionKey(doc, paths)
+        if (!values.every(isKeyValue)) missing[i]++
+        const key = values.map((v) => (isKeyValue(v) ? v : null))
+        const id = JSON.stringify(key)
+        const partition = partitions[i].get(id) ?? { key, documents: 0, bytes: 0, writeRU: 0, projectedBytes: 0 }
+        partition.documents++
+        partition.bytes += sizeBytes
+        partition.writeRU += writeRU
+        partitions[i].set(id, partition)
+      })
+    },
+    report(projectedDocuments = documents): PartitionKeyReport[] {
+      const scale = documents ? Math.max(1, projectedDocuments / documents) : 1
+      return candidates.map((paths, i) => {
+        const all = [...partitions[i].values()]
+          .map((p) => ({ ...p, projectedBytes: p.bytes * scale }))
+          .sort((a, b) => b.bytes - a.bytes)
+        const bytesPerPartition = distribution(all.map((p) => p.bytes))
+        const totalBytes = all.reduce((acc, p) => acc + p.bytes, 0)
+        return {
+          paths,
+          documents,
+          distinctValues: all.length,
+          missingValues: missing[i],
+          bytesPerPartition,
+          writeRuPerPartition: distribution(all.map((p) => p.writeRU)),
+          storageSkew: bytesPerPartition.avg ? bytesPerPartition.max / bytesPerPartition.avg : 0,
+          largestShare: totalBytes ? all[0].bytes / totalBytes : 0,
+          top: all.slice(0, TOP_PARTITIONS),
+          overLimit: all.filter((p) => p.projectedBytes > MAX_LOGICAL_PARTITION_BYTES),
+        }
+      })
+    },
+  }
+}
+
+export type PartitionKeyAnalyzer = ReturnType<typeof createPartitionKeyAnalyzer>
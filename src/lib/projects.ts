@@ -1,5 +1,11 @@
 import type { Edge } from 'reactflow'
 import type { AdvisorResponse } from './advisorTypes'
+import type { TableParsingOptions, RelationshipType, JunctionTable } from './types'
+import type { SqlSchemaDialect } from './parseSqlSchema'
+import type { ComputedColumn, ObjectGrouping, TableUnpivot } from './transforms'
+import type { DocumentSettings } from './documentSettings'
+import type { CapacitySettings } from './capacity'
+import type { RuModelConfig } from './ru'
 import { idbSet, idbGet, STORE_SOURCES } from './idb'
 
 export type ProjectMeta = { id: string; name: string }
@@ -12,13 +18,22 @@ export type ProjectState = {
   leadRowIndex: number
   selectedColumns: Record<string, string[]>
   expandedTables: Record<string, boolean>
-  tableParsingOptions: Record<string, { delimiter?: 'auto' | 'csv' | 'tsv'; skipRows?: number }>
-  edgeTypes?: Record<string, 'one-to-many' | 'one-to-one'>
+  tableParsingOptions: Record<string, TableParsingOptions>
+  edgeTypes?: Record<string, RelationshipType>
   tableRenames?: Record<string, string>
   columnRenames?: Record<string, Record<string, string>> // tableId -> original -> current
+  columnTypeOverrides?: Record<string, Record<string, string>> // tableId -> column -> dataType
   documentRootIds?: string[]
+  junctionTables?: JunctionTable[]
+  computedColumns?: ComputedColumn[]
+  tableUnpivots?: TableUnpivot[]
+  objectGroupings?: ObjectGrouping[]
+  documentSettings?: DocumentSettings[]
   sqlSchemaText?: string
+  sqlSchemaDialect?: SqlSchemaDialect
   advisorNotes?: AdvisorResponse | null
+  capacitySettings?: CapacitySettings
+  ruModels?: RuModelConfig | null // calibrated models; unset uses the built-in ones
 }
 
 const PROJECT_LIST_KEY = 'cosmologist:projects'
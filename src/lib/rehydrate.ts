@@ -1,37 +1,62 @@
 import type { TableData } from './types'
 import type { ProjectState } from './projects'
-import { parseFiles } from './parseFiles'
-import { parseSqlServerSchema } from './parseSqlSchema'
+import { parseFiles, reparseSource, isSnapshotSource } from './parseFiles'
+import { parseSqlSchema } from './parseSqlSchema'
 import { getProjectSource } from './projects'
 import { applyTableRenames, applyAllColumnRenames } from './rename'
 import { generateDummyRowsForSchema } from './dummyData'
 
 export async function rehydrateTables(state: ProjectState): Promise<TableData[]> {
   if (state.sqlSchemaText) {
-    const { tables } = parseSqlServerSchema(state.sqlSchemaText)
+    const { tables } = parseSqlSchema(state.sqlSchemaText, state.sqlSchemaDialect)
     const withDummy = await generateDummyRowsForSchema(tables, state.edges ?? [], 10)
     const renamedTables = applyAllColumnRenames(applyTableRenames(withDummy, state.tableRenames), state.columnRenames)
     return renamedTables
   }
 
   const manualTables: TableData[] = []
+  const sheetTables: TableData[] = []
   const files: File[] = []
+  const explodedFiles: File[] = []
   for (const [id, src] of Object.entries(state.tablesSources)) {
-    if (src.sourceType === 'manual') {
+    if (isSnapshotSource(src.sourceType)) {
+      // Manual tables and binary (Parquet/Avro) imports persist a rows snapshot
       const raw = src.sourceText ?? (await getProjectSource(state.projectId, id))
       if (!raw) continue
       try {
         const data = JSON.parse(raw)
+        const isManual = src.sourceType === 'manual'
         manualTables.push({
           id,
           name: src.name,
+          originalName: isManual ? undefined : src.fileName.replace(/\.[^.]+$/, ''),
           fileName: src.fileName,
           columns: data.columns ?? [],
           rows: data.rows ?? [],
-          sourceType: 'manual',
+          sourceType: src.sourceType,
           columnTypes: data.columnTypes,
           primaryKeys: data.primaryKeys,
-          isDocumentRoot: data.isDocumentRoot ?? true,
+          isDocumentRoot: data.isDocumentRoot ?? (isManual ? true : undefined),
+        })
+      } catch { continue }
+    } else if (src.sourceType === 'xlsx') {
+      // Worksheets persist as their cell grid; the workbook itself is not stored
+      const sourceText = src.sourceText ?? (await getProjectSource(state.projectId, id))
+      if (!sourceText) continue
+      try {
+        const rows = await reparseSource(sourceText, 'xlsx', {})
+        const columns = Array.from(new Set(rows.flatMap((r) => Object.keys(r))))
+        const originalName = src.fileName.replace(/\.xlsx::/i, '::')
+        sheetTables.push({
+          id,
+          name: originalName,
+          originalName,
+          fileName: src.fileName,
+          columns,
+          rows,
+          sourceText,
+          sourceType: 'xlsx',
+          columnRenames: Object.fromEntries(columns.map((c) => [c, c])),
         })
       } catch { continue }
     } else {
@@ -39,11 +64,17 @@ export async function rehydrateTables(state: ProjectState): Promise<TableData[]>
       if (!sourceText) continue
       const blob = new Blob([sourceText], { type: 'text/plain' })
       const file = new File([blob], src.fileName || `${src.name || id}.txt`, { type: 'text/plain' })
-      files.push(file)
+      // Nested-array child tables are not stored; re-splitting the parent recreates them
+      if (state.tableParsingOptions?.[id]?.explodeNestedArrays) explodedFiles.push(file)
+      else files.push(file)
     }
   }
-  const parsed = files.length ? (await parseFiles(files)).tables : []
-  const allTables = [...manualTables, ...parsed]
+  const usedIds = new Set<string>()
+  const parsed = [
+    ...(files.length ? (await parseFiles(files, { usedIds })).tables : []),
+    ...(explodedFiles.length ? (await parseFiles(explodedFiles, { usedIds, explodeNestedArrays: true })).tables : []),
+  ]
+  const allTables = [...manualTables, ...sheetTables, ...parsed]
   if (!allTables.length) return []
   const renamedTables = applyAllColumnRenames(applyTableRenames(allTables, state.tableRenames), state.columnRenames)
   return renamedTables
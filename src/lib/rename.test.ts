@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
+import type { Edge } from 'reactflow'
 import type { TableData } from './types'
-import { renameColumn, updateEdgesForColumnRename, renameSelectedColumns, applyColumnRenames } from './rename'
+import { renameColumn, updateEdgesForColumnRename, renameSelectedColumns, applyColumnRenames, renameJunctionPayloadColumn, renameComputedColumnReferences, renameUnpivotColumn, renameObjectGroupingColumn, renameDocumentSettingsColumn } from './rename'
 
 const makeTable = (cols: string[], rows: any[] = []): TableData => ({ id: 't1', name: 't1', fileName: 'f', columns: cols, rows, originalName: 't1', columnRenames: Object.fromEntries(cols.map((c) => [c, c])) })
 
@@ -19,6 +20,30 @@ describe('rename helpers', () => {
     expect(updated[0].sourceHandle).toBe('full_name')
   })
 
+  it('updates composite key column pairs for column rename', () => {
+    const edges = [{ id: 'e1', source: 't1', target: 't2', sourceHandle: 'id', targetHandle: 'id', data: { type: 'one-to-many', additionalColumns: [{ sourceColumn: 'tenant', targetColumn: 'tenant' }] } } as Edge]
+    const updated = updateEdgesForColumnRename(edges, 't2', 'tenant', 'tenant_id')
+    expect(updated[0].data).toEqual({ type: 'one-to-many', additionalColumns: [{ sourceColumn: 'tenant', targetColumn: 'tenant_id' }] })
+    expect(updateEdgesForColumnRename(edges, 't2', 'other', 'x')[0]).toBe(edges[0])
+  })
+
+  it('follows renames of the column children are ordered by', () => {
+    const edges = [{ id: 'e1', source: 't1', target: 't2', sourceHandle: 'id', targetHandle: 'id', data: { orderBy: { column: 'total', direction: 'desc' }, limit: 3 } } as Edge]
+    expect(updateEdgesForColumnRename(edges, 't2', 'total', 'amount')[0].data).toEqual({ orderBy: { column: 'amount', direction: 'desc' }, limit: 3 })
+    expect(updateEdgesForColumnRename(edges, 't1', 'total', 'amount')[0]).toBe(edges[0])
+  })
+
+  it('follows renames in relationship filters on the target table', () => {
+    const edges = [{ id: 'e1', source: 't1', target: 't2', sourceHandle: 'id', targetHandle: 'id', data: { filter: "status = 'active'" } } as Edge]
+    expect(updateEdgesForColumnRename(edges, 't2', 'status', 'state')[0].data.filter).toBe("state = 'active'")
+    expect(updateEdgesForColumnRename(edges, 't1', 'status', 'state')[0]).toBe(edges[0])
+  })
+
+  it('follows renames of aggregated columns', () => {
+    const edges = [{ id: 'e1', source: 't1', target: 't2', sourceHandle: 'id', targetHandle: 'id', data: { aggregates: [{ fn: 'count' }, { fn: 'avg', column: 'rating' }] } } as Edge]
+    expect(updateEdgesForColumnRename(edges, 't2', 'rating', 'stars')[0].data.aggregates).toEqual([{ fn: 'count' }, { fn: 'avg', column: 'stars' }])
+  })
+
   it('renames selected columns', () => {
     const selected = { t1: ['id', 'name'] }
     const next = renameSelectedColumns(selected, 't1', 'name', 'full_name')
@@ -26,6 +51,42 @@ describe('rename helpers', () => {
     expect(next.t1).not.toContain('name')
   })
 
+  it('follows renames and deletions in junction payload columns', () => {
+    const junctions = [{ tableId: 't1', payloadColumns: ['role', 'billing'] }, { tableId: 't2' }]
+    expect(renameJunctionPayloadColumn(junctions, 't1', 'role', 'character')[0].payloadColumns).toEqual(['character', 'billing'])
+    expect(renameJunctionPayloadColumn(junctions, 't1', 'billing', null)[0].payloadColumns).toEqual(['role'])
+    expect(renameJunctionPayloadColumn(junctions, 't2', 'role', 'x')).toBe(junctions)
+  })
+
+  it('follows renames in unpivot columns and drops the unpivot when one is deleted', () => {
+    const unpivots = [{ tableId: 't1', keyColumn: 'name', valueColumn: 'value' }]
+    expect(renameUnpivotColumn(unpivots, 't1', 'value', 'val')).toEqual([{ tableId: 't1', keyColumn: 'name', valueColumn: 'val' }])
+    expect(renameUnpivotColumn(unpivots, 't1', 'other', 'x')).toBe(unpivots)
+    expect(renameUnpivotColumn(unpivots, 't1', 'name', null)).toEqual([])
+  })
+
+  it('follows renames and deletions in object grouping paths', () => {
+    const groupings = [{ tableId: 't1', separator: '.', paths: { Street: 'address.street', City: 'address.city' } }]
+    expect(renameObjectGroupingColumn(groupings, 't1', 'Street', 'Road')[0].paths).toEqual({ Road: 'address.street', City: 'address.city' })
+    expect(renameObjectGroupingColumn(groupings, 't1', 'City', null)[0].paths).toEqual({ Street: 'address.street' })
+    expect(renameObjectGroupingColumn(groupings, 't1', 'Zip', 'Postcode')).toBe(groupings)
+  })
+
+  it('follows renames and deletions in document settings', () => {
+    const settings = [{ tableId: 't1', idSource: 'column' as const, idColumn: 'orderId', partitionKey: [{ path: '/pk', template: '{tenantId}-{orderId}' }] }]
+    const renamed = renameDocumentSettingsColumn(settings, 't1', 'orderId', 'id')
+    expect(renamed[0]).toMatchObject({ idColumn: 'id', partitionKey: [{ path: '/pk', template: '{tenantId}-{id}' }] })
+    expect(renameDocumentSettingsColumn(settings, 't1', 'orderId', null)[0]).toMatchObject({ idSource: undefined, idColumn: undefined })
+    expect(renameDocumentSettingsColumn(settings, 't1', 'region', 'zone')).toBe(settings)
+  })
+
+  it('follows renames in computed column expressions', () => {
+    const computed = [{ tableId: 't1', name: 'fullName', expression: "first || ' ' || last" }, { tableId: 't2', name: 'x', expression: 'first' }]
+    const next = renameComputedColumnReferences(computed, 't1', 'first', 'given name')
+    expect(next.map((c) => c.expression)).toEqual(["[given name] || ' ' || last", 'first'])
+    expect(renameComputedColumnReferences(computed, 't1', 'other', 'x')).toBe(computed)
+  })
+
   it('applies column renames to table', () => {
     const table = makeTable(['id', 'name'], [{ id: 1, name: 'Alice' }])
     const renames = { name: 'full_name' }
@@ -1,5 +1,9 @@
 import type { Edge } from 'reactflow'
-import type { TableData } from './types'
+import type { TableData, JunctionTable, RelationshipAggregate } from './types'
+import { edgeAdditionalColumns, edgeSubset } from './join'
+import { renameExpressionColumn } from './expression'
+import type { ComputedColumn, ObjectGrouping, TableUnpivot } from './transforms'
+import { renameTemplateColumn, type DocumentSettings } from './documentSettings'
 
 export function ensureColumnRenames(table: TableData): Record<string, string> {
   if (table.columnRenames) return table.columnRenames
@@ -27,7 +31,12 @@ export function renameColumn(table: TableData, current: string, next: string): T
     if (next !== current) delete out[current]
     return out
   })
-  return { ...table, columns, rows, columnRenames: { ...columnRenames, [original]: next } }
+  let columnTypes = table.columnTypes
+  if (columnTypes?.[current] && next !== current) {
+    const { [current]: info, ...rest } = columnTypes
+    columnTypes = { ...rest, [next]: info }
+  }
+  return { ...table, columns, rows, columnTypes, columnRenames: { ...columnRenames, [original]: next } }
 }
 
 export function applyColumnRenames(table: TableData, columnRenames: Record<string, string>): TableData {
@@ -70,6 +79,27 @@ export function updateEdgesForColumnRename(edges: Edge[], tableId: string, curre
       targetHandle = next
       changed = true
     }
+    const extra = edgeAdditionalColumns(e)
+    const additionalColumns = extra.map((p) => ({
+      sourceColumn: e.source === tableId && p.sourceColumn === current ? next : p.sourceColumn,
+      targetColumn: e.target === tableId && p.targetColumn === current ? next : p.targetColumn,
+    }))
+    const pairsChanged = additionalColumns.some((p, i) => p.sourceColumn !== extra[i].sourceColumn || p.targetColumn !== extra[i].targetColumn)
+    // Filters, ordering and aggregates read columns of the edge's target table
+    const { filter, orderBy } = edgeSubset(e)
+    const renamedFilter = e.target === tableId && filter ? renameExpressionColumn(filter, current, next) : filter
+    const filterChanged = renamedFilter !== filter
+    const orderChanged = e.target === tableId && orderBy?.column === current
+    const aggregates = (e.data as { aggregates?: RelationshipAggregate[] } | undefined)?.aggregates ?? []
+    const aggregatesChanged = e.target === tableId && aggregates.some((a) => a.column === current)
+    if (pairsChanged || filterChanged || orderChanged || aggregatesChanged) {
+      const data = { ...e.data }
+      if (pairsChanged) data.additionalColumns = additionalColumns
+      if (filterChanged) data.filter = renamedFilter
+      if (orderChanged) data.orderBy = { ...orderBy, column: next }
+      if (aggregatesChanged) data.aggregates = aggregates.map((a) => (a.column === current ? { ...a, column: next } : a))
+      return { ...e, sourceHandle, targetHandle, data }
+    }
     return changed ? { ...e, sourceHandle, targetHandle } : e
   })
 }
@@ -84,3 +114,85 @@ export function renameSelectedColumns(selected: Record<string, string[]>, tableI
   }
   return { ...selected, [tableId]: Array.from(set) }
 }
+
+/** Follow a column rename in the expressions of a table's computed columns. */
+export function renameComputedColumnReferences(computed: ComputedColumn[], tableId: string, current: string, next: string): ComputedColumn[] {
+  let changed = false
+  const out = computed.map((c) => {
+    if (c.tableId !== tableId) return c
+    const expression = renameExpressionColumn(c.expression, current, next)
+    if (expression === c.expression) return c
+    changed = true
+    return { ...c, expression }
+  })
+  return changed ? out : computed
+}
+
+/** Follow a column rename (or deletion, `next` null) in junction payload columns. */
+export function renameJunctionPayloadColumn(junctions: JunctionTable[], tableId: string, current: string, next: string | null): JunctionTable[] {
+  const junction = junctions.find((j) => j.tableId === tableId)
+  if (!junction?.payloadColumns?.includes(current)) return junctions
+  const payloadColumns = next === null
+    ? junction.payloadColumns.filter((c) => c !== current)
+    : junction.payloadColumns.map((c) => (c === current ? next : c))
+  return junctions.map((j) => (j === junction ? { ...j, payloadColumns } : j))
+}
+
+/**
+ * Follow a column rename in a table's unpivot. Deleting its key or value
+ * column (`next` null) drops the unpivot, since it cannot work without both.
+ */
+export function renameUnpivotColumn(unpivots: TableUnpivot[], tableId: string, current: string, next: string | null): TableUnpivot[] {
+  const unpivot = unpivots.find((u) => u.tableId === tableId)
+  if (!unpivot || (unpivot.keyColumn !== current && unpivot.valueColumn !== current)) return unpivots
+  if (next === null) return unpivots.filter((u) => u !== unpivot)
+  const follow = (c: string) => (c === current ? next : c)
+  return unpivots.map((u) => (u === unpivot ? { ...u, keyColumn: follow(u.keyColumn), valueColumn: follow(u.valueColumn) } : u))
+}
+
+/** Follow a column rename (or deletion, `next` null) in explicit object-grouping paths. */
+export function renameObjectGroupingColumn(groupings: ObjectGrouping[], tableId: string, current: string, next: string | null): ObjectGrouping[] {
+  const grouping = groupings.find((g) => g.tableId === tableId)
+  if (!grouping?.paths || !(current in grouping.paths)) return groupings
+  const paths = Object.fromEntries(Object.entries(grouping.paths).flatMap(([column, path]) => {
+    if (column !== current) return [[column, path]]
+    return next === null ? [] : [[next, path]]
+  }))
+  return groupings.map((g) => (g === grouping ? { ...g, paths } : g))
+}
+
+/**
+ * Follow a column rename (or deletion, `next` null) in a root's document
+ * settings: the id column and the id and partition key templates. Deleting
+ * the id column clears the id source.
+ */
+export function renameDocumentSettingsColumn(list: DocumentSettings[], tableId: string, current: string, next: string | null): DocumentSettings[] {
+  const settings = list.find((s) => s.tableId === tableId)
+  if (!settings) return list
+  const rewrite = (template: string | undefined) => (template && next !== null ? renameTemplateColumn(template, current, next) : template)
+  const updated: DocumentSettings = {
+    ...settings,
+    idTemplate: rewrite(settings.idTemplate),
+    partitionKey: settings.partitionKey?.map((l) => ({ ...l, template: rewrite(l.template) })),
+  }
+  if (settings.idColumn === current) {
+    updated.idColumn = next ?? undefined
+    if (next === null && settings.idSource === 'column') updated.idSource = undefined
+  }
+  const changed = updated.idColumn !== settings.idColumn || updated.idSource !== settings.idSource || updated.idTemplate !== settings.idTemplate
+    || !!updated.partitionKey?.some((l, i) => l.template !== settings.partitionKey![i].template)
+  return changed ? list.map((s) => (s === settings ? updated : s)) : list
+}
+
+/** Move a column's type override to its new name, or drop it when `next` is null. */
+export function renameColumnTypeOverride(
+  overrides: Record<string, Record<string, string>>,
+  tableId: string,
+  current: string,
+  next: string | null,
+) {
+  const forTable = overrides[tableId]
+  if (!forTable || !(current in forTable)) return overrides
+  const { [current]: dataType, ...rest } = forTable
+  return { ...overrides, [tableId]: next === null ? rest : { ...rest, [next]: dataType } }
+}
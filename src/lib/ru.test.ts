@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { estimateRu, estimateQueryRU, estimateReadPointRU } from './ru'
+import { estimateRu, estimateQueryRU, estimateReadPointRU, estimateWriteRU, estimateAggregateUpkeep, DEFAULT_INDEX_TERM_RU, createWorkloadAccumulator, formatBytes, oversizedDocuments, MAX_DOCUMENT_BYTES } from './ru'
 
 const mkDoc = (sizeKB: number) => JSON.parse('{' + '"a":"' + 'x'.repeat(sizeKB * 1024 - 7) + '"}')
 
@@ -48,4 +48,72 @@ describe('ru estimator', () => {
     const ru20 = estimateQueryRU(20480)
     expect(ru20).toBeGreaterThan(ru10)
   })
+
+  it('write RU of a flat document under the default policy follows the fitted model', () => {
+    const doc = { a: 1, b: 'x', c: true }
+    const ru = estimateRu(doc)
+    expect(ru.writeRU).toBeCloseTo(estimateWriteRU(ru.sizeBytes, 3))
+  })
+
+  it('charges nested values and array elements as indexed terms', () => {
+    const doc = { order: { id: 1, tags: ['a', 'b', 'c'], address: { city: 'Oslo' } } }
+    const ru = estimateRu(doc)
+    expect(ru.index.terms).toBe(5)
+    expect(ru.writeRU).toBeCloseTo(estimateWriteRU(ru.sizeBytes, 1) + 4 * DEFAULT_INDEX_TERM_RU)
+  })
+
+  it('write RU falls with excluded paths and rises with composite indexes', () => {
+    const doc = { id: '1', customerId: 'c', notes: Array.from({ length: 40 }, (_, i) => `note ${i}`) }
+    const everything = estimateRu(doc)
+    const recommended = estimateRu(doc, { excludedPaths: ['/notes/*'], compositeIndexes: [['/customerId', '/id']] })
+    expect(recommended.index.indexedTerms).toBe(2)
+    expect(recommended.index.compositeTerms).toBe(1)
+    expect(recommended.writeRU).toBeLessThan(everything.writeRU)
+    expect(everything.writeRU - recommended.writeRU).toBeCloseTo(39 * DEFAULT_INDEX_TERM_RU)
+    expect(estimateRu(doc, { excludedPaths: ['/*'] }).writeRU).toBeCloseTo(estimateWriteRU(everything.sizeBytes, 0))
+  })
+
+  it('charges each aggregated child write a rewrite of the parent', () => {
+    const ru = estimateRu(mkDoc(4))
+    const upkeep = estimateAggregateUpkeep(ru, [{ tableName: 'reviews', properties: ['reviewCount', 'avgRating'] }])
+    expect(upkeep).toEqual([{ tableName: 'reviews', properties: ['reviewCount', 'avgRating'], writeRU: ru.writeRU }])
+  })
+})
+
+describe('workload report', () => {
+  it('summarises sizes and RU over every document', () => {
+    const acc = createWorkloadAccumulator()
+    const docs = [1, 2, 3, 4, 10].map(mkDoc)
+    docs.forEach((d) => acc.add(d))
+    const report = acc.report()
+    const sizes = docs.map((d) => estimateRu(d).sizeBytes)
+    expect(report.documents).toBe(5)
+    expect(report.totalBytes).toBe(sizes.reduce((a, b) => a + b, 0))
+    expect(report.sizeBytes).toEqual({ avg: report.totalBytes / 5, p50: sizes[2], p95: sizes[4], max: sizes[4] })
+    expect(report.readPointRU.max).toBe(estimateRu(docs[4]).readPointRU)
+    expect(report.writeRU.avg).toBeGreaterThan(0)
+    expect(acc.sizes).toEqual(sizes)
+  })
+
+  it('reports zeros for an empty root', () => {
+    expect(createWorkloadAccumulator().report()).toMatchObject({ documents: 0, totalBytes: 0, sizeBytes: { avg: 0, p50: 0, p95: 0, max: 0 } })
+  })
+
+  it('lists documents over the soft and hard limits, largest first', () => {
+    const sizes = [100, 3000, MAX_DOCUMENT_BYTES + 1, 2000]
+    expect(oversizedDocuments(sizes, 1024)).toEqual([
+      { rowIndex: 2, sizeBytes: MAX_DOCUMENT_BYTES + 1, overHardLimit: true },
+      { rowIndex: 1, sizeBytes: 3000, overHardLimit: false },
+      { rowIndex: 3, sizeBytes: 2000, overHardLimit: false },
+    ])
+    // A soft limit above 2 MB still flags what Cosmos DB would reject
+    expect(oversizedDocuments(sizes, 10 * MAX_DOCUMENT_BYTES).map((o) => o.rowIndex)).toEqual([2])
+  })
+
+  it('formats byte counts', () => {
+    expect(formatBytes(512)).toBe('512 B')
+    expect(formatBytes(3482)).toBe('3.4 KB')
+    expect(formatBytes(MAX_DOCUMENT_BYTES)).toBe('2.00 MB')
+    expect(formatBytes(3 * 1024 ** 3)).toBe('3.00 GB')
+  })
 })
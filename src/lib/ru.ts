@@ -8,6 +8,9 @@
 // This module supports configurable models (tiers/coefficients). Defaults are sane heuristics based on official docs
 // and prior heuristics to keep existing UI/tests working. Replace `DEFAULT_*` with values from your Python run when available.
 
+import type { IndexingPolicy } from './advisorTypes'
+import { indexStats, type IndexStats } from './indexing'
+
 export type ReadRuTier = [thresholdKb: number, ru: number] // <= thresholdKb -> ru; include Infinity as last
 export type WriteModel = {
   intercept: number
@@ -24,6 +27,7 @@ export type RuModelConfig = {
   readTiers?: ReadRuTier[]
   writeModel?: WriteModel
   queryModel?: QueryModel
+  indexTermRU?: number // write RU per indexed term beyond one per top-level property
 }
 
 export type RuEstimate = {
@@ -33,8 +37,46 @@ export type RuEstimate = {
   readPointRU: number
   readQueryRU: number
   writeRU: number
+  index: IndexStats
+}
+
+/** A child table whose aggregates (e.g. reviewCount) are stored on the document. */
+export type AggregateSource = {
+  tableName: string
+  properties: string[]
+}
+
+export type AggregateUpkeep = AggregateSource & {
+  writeRU: number // extra RU per write to the child table
+}
+
+/** Spread of one measure over a dataset's documents (nearest-rank percentiles). */
+export type Distribution = {
+  avg: number
+  p50: number
+  p95: number
+  max: number
 }
 
+/** Whole-container estimate over every document a root generates. */
+export type WorkloadReport = {
+  documents: number
+  totalBytes: number
+  sizeBytes: Distribution
+  readPointRU: Distribution
+  readQueryRU: Distribution
+  writeRU: Distribution
+}
+
+export type OversizedDocument = {
+  rowIndex: number
+  sizeBytes: number
+  overHardLimit: boolean // above Cosmos DB's 2 MB item limit, so the write fails
+}
+
+/** Cosmos DB rejects items larger than this. */
+export const MAX_DOCUMENT_BYTES = 2 * 1024 * 1024
+
 // --------------------------- Defaults ---------------------------
 // Injected from benchmark-generated Python estimator
 export const DEFAULT_READ_TIERS: ReadRuTier[] = [
@@ -74,17 +116,23 @@ export const DEFAULT_QUERY_MODEL: QueryModel = {
   coefSize: 0.015162674622869772,
 }
 
-let activeModels: Required<RuModelConfig> = {
+export const DEFAULT_INDEX_TERM_RU = 0.2
+
+export const DEFAULT_RU_MODELS: Required<RuModelConfig> = {
   readTiers: DEFAULT_READ_TIERS,
   writeModel: DEFAULT_WRITE_MODEL,
   queryModel: DEFAULT_QUERY_MODEL,
+  indexTermRU: DEFAULT_INDEX_TERM_RU,
 }
 
+let activeModels: Required<RuModelConfig> = DEFAULT_RU_MODELS
+
 export function setRuModels(cfg: RuModelConfig) {
   activeModels = {
     readTiers: cfg.readTiers ?? activeModels.readTiers,
     writeModel: cfg.writeModel ?? activeModels.writeModel,
     queryModel: cfg.queryModel ?? activeModels.queryModel,
+    indexTermRU: cfg.indexTermRU ?? activeModels.indexTermRU,
   }
 }
 
@@ -136,7 +184,7 @@ function combinationsWithReplacement(n: number, r: number): number[][] {
   return results
 }
 
-function polyFeatures(xs: number[], degree: number): number[] {
+export function polyFeatures(xs: number[], degree: number): number[] {
   const feats: number[] = []
   const n = xs.length
   for (let d = 1; d <= degree; d++) {
@@ -184,12 +232,93 @@ export function estimateWriteRU(sizeBytesOrKb: number, numProperties = 0, isByte
   return Math.max(0, ru)
 }
 
-export function estimateRu(doc: any): RuEstimate {
+/**
+ * Write RU with indexing taken into account. The fitted write model treats each
+ * top-level property as one indexed term, so indexed terms up to that count go
+ * through the model; every further term (nested values, array elements,
+ * composite index entries) adds `indexTermRU`.
+ */
+export function estimateIndexedWriteRU(sizeBytesOrKb: number, numProperties: number, index: IndexStats, isBytes = true): number {
+  const terms = index.indexedTerms + index.compositeTerms
+  return estimateWriteRU(sizeBytesOrKb, Math.min(numProperties, terms), isBytes) + Math.max(0, terms - numProperties) * activeModels.indexTermRU
+}
+
+/** Estimate for one document; write RU follows `policy`, else Cosmos DB's default of indexing everything. */
+export function estimateRu(doc: any, policy?: IndexingPolicy): RuEstimate {
   const sizeBytes = docSizeBytes(doc)
   const sizeKB = sizeBytes / 1024
   const numProperties = countTopLevelProperties(doc)
   const readPointRU = estimateReadPointRU(sizeBytes)
   const readQueryRU = estimateQueryRU(sizeBytes)
-  const writeRU = estimateWriteRU(sizeBytes, numProperties)
-  return { sizeBytes, sizeKB, numProperties, readPointRU, readQueryRU, writeRU }
+  const index = indexStats(doc, policy)
+  const writeRU = estimateIndexedWriteRU(sizeBytes, numProperties, index)
+  return { sizeBytes, sizeKB, numProperties, readPointRU, readQueryRU, writeRU, index }
+}
+
+/** Average and nearest-rank percentiles of `values`. */
+export function distribution(values: number[]): Distribution {
+  if (!values.length) return { avg: 0, p50: 0, p95: 0, max: 0 }
+  const sorted = Float64Array.from(values).sort()
+  const rank = (p: number) => sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))]
+  const sum = sorted.reduce((acc, v) => acc + v, 0)
+  return { avg: sum / sorted.length, p50: rank(0.5), p95: rank(0.95), max: sorted[sorted.length - 1] }
+}
+
+/**
+ * Collect per-document estimates for a workload report. Documents are added in
+ * row order, so `sizes[i]` is the size of row i's document.
+ */
+export function createWorkloadAccumulator() {
+  const sizes: number[] = []
+  const reads: number[] = []
+  const queries: number[] = []
+  const writes: number[] = []
+  return {
+    sizes,
+    add(doc: unknown): RuEstimate {
+      const estimate = estimateRu(doc)
+      sizes.push(estimate.sizeBytes)
+      reads.push(estimate.readPointRU)
+      queries.push(estimate.readQueryRU)
+      writes.push(estimate.writeRU)
+      return estimate
+    },
+    report(): WorkloadReport {
+      return {
+        documents: sizes.length,
+        totalBytes: sizes.reduce((acc, v) => acc + v, 0),
+        sizeBytes: distribution(sizes),
+        readPointRU: distribution(reads),
+        readQueryRU: distribution(queries),
+        writeRU: distribution(writes),
+      }
+    },
+  }
+}
+
+/** Human-readable byte count: 512 B, 3.4 KB, 1.20 MB, 2.05 GB. */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${Math.round(bytes)} B`
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(2)} MB`
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`
+}
+
+/** Documents above `softLimitBytes` (or the 2 MB hard limit), largest first. */
+export function oversizedDocuments(sizes: number[], softLimitBytes = MAX_DOCUMENT_BYTES): OversizedDocument[] {
+  const limit = Math.min(softLimitBytes, MAX_DOCUMENT_BYTES)
+  const out: OversizedDocument[] = []
+  sizes.forEach((sizeBytes, rowIndex) => {
+    if (sizeBytes > limit) out.push({ rowIndex, sizeBytes, overHardLimit: sizeBytes > MAX_DOCUMENT_BYTES })
+  })
+  return out.sort((a, b) => b.sizeBytes - a.sizeBytes)
+}
+
+/**
+ * Aggregates trade read cost for write cost: every insert, update or delete in
+ * an aggregated child table also rewrites the parent document to keep the
+ * aggregate current, at the parent's own write RU.
+ */
+export function estimateAggregateUpkeep(estimate: RuEstimate, sources: AggregateSource[]): AggregateUpkeep[] {
+  return sources.map((s) => ({ ...s, writeRU: estimate.writeRU }))
 }
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { calibrateRuModels, fitQueryModel, fitReadTiers, fitWriteModel, parseRuSamplesCsv, predictRu, reviveRuModels, type RuSample } from './ruCalibration'
+import { DEFAULT_RU_MODELS, estimateWriteRU, setRuModels } from './ru'
+
+const write = (sizeKb: number, numProperties: number, ru: number): RuSample => ({ operation: 'write', sizeKb, numProperties, ru })
+
+describe('parseRuSamplesCsv', () => {
+  it('reads operations, sizes in KB or bytes, and RU', () => {
+    const { samples, skipped } = parseRuSamplesCsv([
+      'Operation,Size KB,Num Properties,RU',
+      'read,1,5,1',
+      'Insert,2.5,10,8.1',
+      'point-read,,,1',
+      'query,4,,3.1',
+      'unknown,1,1,1',
+    ].join('\n'))
+    expect(samples).toEqual([
+      { operation: 'read', sizeKb: 1, numProperties: 5, ru: 1 },
+      { operation: 'write', sizeKb: 2.5, numProperties: 10, ru: 8.1 },
+      { operation: 'query', sizeKb: 4, numProperties: 0, ru: 3.1 },
+    ])
+    expect(skipped).toBe(2)
+    expect(parseRuSamplesCsv('op,size_bytes,request_charge\nwrite,2048,7').samples).toEqual([{ operation: 'write', sizeKb: 2, numProperties: 0, ru: 7 }])
+  })
+})
+
+describe('RU model fitting', () => {
+  it('fits non-decreasing read tiers from median RU per size', () => {
+    const reads = [[1, 1], [1, 1], [2, 1.05], [2, 1.2], [2, 1.1], [4, 1.0], [8, 1.4]].map(([sizeKb, ru]) => ({ operation: 'read' as const, sizeKb, numProperties: 0, ru }))
+    const tiers = fitReadTiers(reads)
+    expect(tiers.slice(0, 3)).toEqual([[1, 1], [4, 1.1], [9.96, 1.4]])
+    expect(tiers[tiers.length - 1][0]).toBe(Infinity)
+  })
+
+  it('scales the built-in read tiers past the largest measured size', () => {
+    const tiers = fitReadTiers([{ operation: 'read', sizeKb: 1, numProperties: 0, ru: 2 }])
+    expect(tiers.map(([threshold]) => threshold)).toEqual(DEFAULT_RU_MODELS.readTiers.map(([threshold]) => threshold))
+    expect(tiers.map(([, ru]) => ru)).toEqual(DEFAULT_RU_MODELS.readTiers.map(([, ru]) => ru * 2))
+    const models = { ...DEFAULT_RU_MODELS, readTiers: fitReadTiers([{ operation: 'read', sizeKb: 1, numProperties: 0, ru: 1 }]) }
+    expect(predictRu(models, { operation: 'read', sizeKb: 100, numProperties: 0, ru: 0 })).toBeCloseTo(9.95)
+  })
+
+  it('recovers a linear query model', () => {
+    const queries = [1, 10, 100].map((sizeKb) => ({ operation: 'query' as const, sizeKb, numProperties: 0, ru: 2.5 + 0.02 * sizeKb }))
+    const model = fitQueryModel(queries)
+    expect(model.intercept).toBeCloseTo(2.5)
+    expect(model.coefSize).toBeCloseTo(0.02)
+  })
+
+  it('recovers a cubic write model and lowers the degree for few samples', () => {
+    const truth = (s: number, p: number) => 5 + 0.4 * s + 0.3 * p + 0.001 * s * s * p
+    const samples: RuSample[] = []
+    for (const s of [0.5, 1, 2, 4, 8, 16, 32]) for (const p of [1, 5, 20, 50]) samples.push(write(s, p, truth(s, p)))
+    const model = fitWriteModel(samples)
+    expect(model.degree).toBe(3)
+    const models = { ...DEFAULT_RU_MODELS, writeModel: model }
+    expect(predictRu(models, write(10, 30, 0))).toBeCloseTo(truth(10, 30), 3)
+    expect(fitWriteModel(samples.slice(0, 8)).degree).toBe(1)
+  })
+
+  it('fits benchmarks too large to spread into Math.max', () => {
+    const samples = Array.from({ length: 200_000 }, (_, i) => write(1 + (i % 16), 1 + (i % 7), 5 + (i % 16) + 0.1 * (i % 7)))
+    expect(predictRu({ ...DEFAULT_RU_MODELS, writeModel: fitWriteModel(samples) }, write(4, 3, 0))).toBeCloseTo(5 + 3 + 0.2, 3)
+  })
+})
+
+describe('calibrateRuModels', () => {
+  it('fits the covered models and compares their error with the current ones', () => {
+    const samples: RuSample[] = [1, 2, 4, 8, 16].flatMap((s) => [1, 10].map((p) => write(s, p, 4 + s + 0.1 * p)))
+    const calibration = calibrateRuModels(samples)
+    expect(Object.keys(calibration.models)).toEqual(['writeModel'])
+    expect(Object.keys(calibration.errors)).toEqual(['write'])
+    const { fitted, current } = calibration.errors.write!
+    expect(fitted.samples).toBe(10)
+    expect(fitted.rmse).toBeLessThan(0.01)
+    expect(fitted.meanAbsPercentError).toBeLessThan(current.meanAbsPercentError)
+  })
+
+  it('leaves models without enough samples alone', () => {
+    const calibration = calibrateRuModels([write(1, 1, 5), { operation: 'query', sizeKb: 1, numProperties: 0, ru: 3 }])
+    expect(calibration.models).toEqual({})
+    expect(calibration.errors).toEqual({})
+  })
+
+  it('produces models the estimators accept', () => {
+    const samples: RuSample[] = [1, 2, 4, 8].flatMap((s) => [2, 8, 16].map((p) => write(s, p, 6 + 0.5 * s + 0.2 * p)))
+    const { models } = calibrateRuModels(samples)
+    setRuModels(models)
+    try {
+      expect(estimateWriteRU(3 * 1024, 10)).toBeCloseTo(6 + 1.5 + 2, 3)
+    } finally {
+      setRuModels(DEFAULT_RU_MODELS)
+    }
+  })
+})
+
+describe('reviveRuModels', () => {
+  it('restores the open-ended read tier after a JSON round trip', () => {
+    const models = { readTiers: fitReadTiers([{ operation: 'read', sizeKb: 1, numProperties: 0, ru: 1 }]) }
+    expect(reviveRuModels(JSON.parse(JSON.stringify(models)))).toEqual(models)
+  })
+})
@@ -0,0 +1,232 @@
+import Papa from 'papaparse'
+import { DEFAULT_RU_MODELS, polyFeatures, type QueryModel, type ReadRuTier, type RuModelConfig, type WriteModel } from './ru'
+
+/**
+ * Fit the RU models to measurements from your own account, replacing the
+ * offline Python fit the defaults came from. A benchmark CSV has one measured
+ * request per line:
+ *
+ *   operation,size_kb,num_properties,ru
+ *   read,1.2,8,1.05
+ *   write,1.2,8,6.86
+ *   query,1.2,8,2.83
+ *
+ * `size_bytes` may replace `size_kb`. Operations are `read` (point reads),
+ * `write` (inserts, upserts, replaces) and `query` (single-document queries).
+ */
+
+export type RuOperation = 'read' | 'write' | 'query'
+
+export type RuSample = {
+  operation: RuOperation
+  sizeKb: number
+  numProperties: number
+  ru: number
+}
+
+/** How far a model's estimates are from the measured RU. */
+export type FitError = {
+  samples: number
+  rmse: number
+  meanAbsPercentError: number // 0.05 = 5%
+}
+
+export type RuCalibration = {
+  models: RuModelConfig // only the models the samples cover
+  errors: Partial<Record<RuOperation, { fitted: FitError; current: FitError }>>
+  skipped: number // CSV lines that were not a usable sample
+}
+
+const OPERATION_ALIASES: Record<string, RuOperation> = {
+  read: 'read',
+  pointread: 'read',
+  get: 'read',
+  write: 'write',
+  insert: 'write',
+  create: 'write',
+  upsert: 'write',
+  replace: 'write',
+  query: 'query',
+}
+const MAX_WRITE_DEGREE = 3
+const RIDGE = 1e-9
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z]/g, '')
+
+function toNumber(value: unknown): number | undefined {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN
+  return Number.isFinite(n) ? n : undefined
+}
+
+/** Samples from parsed CSV rows; rows without an operation, a size or a positive RU are skipped. */
+export function parseRuSamples(rows: Record<string, unknown>[]): { samples: RuSample[]; skipped: number } {
+  const samples: RuSample[] = []
+  let skipped = 0
+  for (const row of rows) {
+    const fields: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(row)) fields[normalizeHeader(key)] = value
+    const operation = OPERATION_ALIASES[String(fields.operation ?? fields.op ?? fields.type ?? '').toLowerCase().replace(/[^a-z]/g, '')]
+    const sizeBytes = toNumber(fields.sizebytes)
+    const sizeKb = toNumber(fields.sizekb) ?? (sizeBytes === undefined ? undefined : sizeBytes / 1024)
+    const ru = toNumber(fields.ru ?? fields.observedru ?? fields.requestcharge)
+    if (!operation || sizeKb === undefined || sizeKb < 0 || ru === undefined || ru <= 0) {
+      skipped++
+      continue
+    }
+    const numProperties = toNumber(fields.numproperties ?? fields.properties ?? fields.propertycount) ?? 0
+    samples.push({ operation, sizeKb, numProperties, ru })
+  }
+  return { samples, skipped }
+}
+
+export function parseRuSamplesCsv(text: string): { samples: RuSample[]; skipped: number } {
+  const result = Papa.parse<Record<string, unknown>>(text, { header: true, skipEmptyLines: true })
+  return parseRuSamples(result.data)
+}
+
+/** Least squares for `ys ≈ X·β` (X includes the intercept column), by normal equations with a tiny ridge. */
+function leastSquares(rows: number[][], ys: number[]): number[] {
+  const n = rows[0].length
+  const a = Array.from({ length: n }, (_, i) => Array.from({ length: n + 1 }, (_, j) => {
+    if (j === n) return rows.reduce((acc, r, k) => acc + r[i] * ys[k], 0)
+    return rows.reduce((acc, r) => acc + r[i] * r[j], 0) + (i === j ? RIDGE : 0)
+  }))
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r
+    ;[a[col], a[pivot]] = [a[pivot], a[col]]
+    if (!a[col][col]) continue
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue
+      const f = a[r][col] / a[col][col]
+      for (let c = col; c <= n; c++) a[r][c] -= f * a[col][c]
+    }
+  }
+  return a.map((r, i) => (r[i] ? r[n] / r[i] : 0))
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * Read tiers from point reads: the median RU at each measured size becomes a
+ * tier ending at that size, kept non-decreasing so a larger document never
+ * reads cheaper. Past the largest measured size the built-in tiers take over,
+ * scaled so they meet the last measured tier.
+ */
+export function fitReadTiers(samples: RuSample[]): ReadRuTier[] {
+  const bySize = new Map<number, number[]>()
+  for (const s of samples) {
+    const size = Math.round(s.sizeKb * 100) / 100
+    bySize.set(size, [...(bySize.get(size) ?? []), s.ru])
+  }
+  const tiers: ReadRuTier[] = []
+  let floor = 0
+  for (const size of [...bySize.keys()].sort((a, b) => a - b)) {
+    floor = Math.max(floor, median(bySize.get(size)!))
+    if (tiers.length && tiers[tiers.length - 1][1] === floor) tiers[tiers.length - 1][0] = size
+    else tiers.push([size, floor])
+  }
+  if (!tiers.length) return tiers
+  const last = tiers[tiers.length - 1]
+  const defaults = DEFAULT_RU_MODELS.readTiers
+  const [, defaultRu] = defaults.find(([threshold]) => last[0] <= threshold) ?? defaults[defaults.length - 1]
+  for (const [threshold, ru] of defaults) {
+    if (threshold <= last[0]) continue
+    if (ru <= defaultRu) tiers[tiers.length - 1][0] = threshold
+    else tiers.push([threshold, (ru * floor) / defaultRu])
+  }
+  return tiers
+}
+
+/**
+ * Polynomial write model on size and property count, like the offline fit.
+ * The degree drops below 3 when there are fewer than two samples per
+ * coefficient. Inputs are scaled to [0, 1] for the solve and the coefficients
+ * scaled back.
+ */
+export function fitWriteModel(samples: RuSample[]): WriteModel {
+  let degree = MAX_WRITE_DEGREE
+  while (degree > 1 && samples.length < 2 * (polyFeatures([0, 0], degree).length + 1)) degree--
+  // reduce rather than spreading into Math.max, which overflows the stack on large benchmarks
+  const scale = [
+    samples.reduce((max, s) => Math.max(max, Math.abs(s.sizeKb)), 0) || 1,
+    samples.reduce((max, s) => Math.max(max, Math.abs(s.numProperties)), 0) || 1,
+  ]
+  const rows = samples.map((s) => [1, ...polyFeatures([s.sizeKb / scale[0], s.numProperties / scale[1]], degree)])
+  const [intercept, ...scaled] = leastSquares(rows, samples.map((s) => s.ru))
+  const featureScale = polyFeatures(scale, degree)
+  return {
+    intercept,
+    coefs: scaled.map((c, i) => c / featureScale[i]),
+    featureNames: ['size_kb', 'num_properties'],
+    degree,
+  }
+}
+
+/** Query RU linear in size. */
+export function fitQueryModel(samples: RuSample[]): QueryModel {
+  const [intercept, coefSize] = leastSquares(samples.map((s) => [1, s.sizeKb]), samples.map((s) => s.ru))
+  return { intercept, coefSize }
+}
+
+/** RU `models` estimate for a sample; mirrors the estimators in ru.ts without touching the active models. */
+export function predictRu(models: Required<RuModelConfig>, sample: RuSample): number {
+  switch (sample.operation) {
+    case 'read': {
+      const tier = models.readTiers.find(([threshold]) => sample.sizeKb <= threshold) ?? models.readTiers[models.readTiers.length - 1]
+      return tier ? tier[1] : Math.max(1, Math.ceil(sample.sizeKb))
+    }
+    case 'write': {
+      const { intercept, coefs, degree } = models.writeModel
+      const xs = [sample.sizeKb, sample.numProperties]
+      const features = degree && degree > 1 ? polyFeatures(xs, degree) : xs
+      return Math.max(0, intercept + features.reduce((acc, v, i) => acc + v * (coefs[i] ?? 0), 0))
+    }
+    case 'query':
+      return Math.max(0, models.queryModel.intercept + models.queryModel.coefSize * sample.sizeKb)
+  }
+}
+
+export function fitError(models: Required<RuModelConfig>, samples: RuSample[]): FitError {
+  const residuals = samples.map((s) => predictRu(models, s) - s.ru)
+  return {
+    samples: samples.length,
+    rmse: Math.sqrt(residuals.reduce((acc, r) => acc + r * r, 0) / samples.length),
+    meanAbsPercentError: residuals.reduce((acc, r, i) => acc + Math.abs(r) / samples[i].ru, 0) / samples.length,
+  }
+}
+
+/**
+ * Fit every model the samples cover: read tiers need a point read, the query
+ * model two query sizes, the write model three writes. `current` is the
+ * error of the models in use before calibrating.
+ */
+export function calibrateRuModels(samples: RuSample[], current: RuModelConfig = DEFAULT_RU_MODELS, skipped = 0): RuCalibration {
+  const baseline = { ...DEFAULT_RU_MODELS, ...current }
+  const of = (operation: RuOperation) => samples.filter((s) => s.operation === operation)
+  const reads = of('read')
+  const writes = of('write')
+  const queries = of('query')
+  const models: RuModelConfig = {
+    ...(reads.length ? { readTiers: fitReadTiers(reads) } : {}),
+    ...(writes.length >= 3 ? { writeModel: fitWriteModel(writes) } : {}),
+    ...(new Set(queries.map((s) => s.sizeKb)).size >= 2 ? { queryModel: fitQueryModel(queries) } : {}),
+  }
+  const fitted = { ...baseline, ...models }
+  const errors: RuCalibration['errors'] = {}
+  for (const [operation, fittedModel, group] of [['read', models.readTiers, reads], ['write', models.writeModel, writes], ['query', models.queryModel, queries]] as const) {
+    if (fittedModel) errors[operation] = { fitted: fitError(fitted, group), current: fitError(baseline, group) }
+  }
+  return { models, errors, skipped }
+}
+
+/** Models read back from a saved project: JSON stores the last tier's Infinity threshold as null. */
+export function reviveRuModels(models: RuModelConfig): RuModelConfig {
+  if (!models.readTiers) return models
+  return { ...models, readTiers: models.readTiers.map(([threshold, ru]) => [threshold ?? Infinity, ru]) }
+}
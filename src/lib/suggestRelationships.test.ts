@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import type { Edge } from 'reactflow'
+import { findCandidateKeys, nameSimilarity, suggestRelationships } from './suggestRelationships'
+import { table } from './testTables'
+
+const customers = table('Customers', [
+  { ID: '1', Name: 'Ada' },
+  { ID: '2', Name: 'Grace' },
+  { ID: '3', Name: 'Linus' },
+])
+const orders = table('Orders', [
+  { OrderID: '10', CustomerID: '1', Qty: '3' },
+  { OrderID: '11', CustomerID: '1', Qty: '1' },
+  { OrderID: '12', CustomerID: '3', Qty: '2' },
+])
+
+describe('nameSimilarity', () => {
+  it('matches table-prefixed foreign key names to generic keys', () => {
+    expect(nameSimilarity('CustomerID', 'Customers', 'ID')).toBeGreaterThan(0.5)
+    expect(nameSimilarity('customer_id', 'dbo.Customers', 'Id')).toBeGreaterThan(0.5)
+    expect(nameSimilarity('CustomerID', 'Customers', 'CustomerID')).toBe(1)
+    expect(nameSimilarity('CategoryID', 'Categories', 'ID')).toBeGreaterThan(0.5)
+  })
+
+  it('does not match unrelated or bare generic names', () => {
+    expect(nameSimilarity('ProductID', 'Customers', 'ID')).toBe(0)
+    expect(nameSimilarity('ID', 'Customers', 'ID')).toBe(0)
+  })
+})
+
+describe('findCandidateKeys', () => {
+  it('returns unique, non-null columns', () => {
+    expect(findCandidateKeys(customers)).toEqual(['ID', 'Name'])
+    expect(findCandidateKeys(orders)).toEqual(['OrderID', 'Qty'])
+  })
+
+  it('skips columns with blanks and decimal or boolean values', () => {
+    const t = table('t', [
+      { a: '1', b: '', c: '1.5', d: 'true' },
+      { a: '2', b: 'x', c: '2.5', d: 'false' },
+    ])
+    expect(findCandidateKeys(t)).toEqual(['a'])
+  })
+})
+
+describe('suggestRelationships', () => {
+  it('suggests key → referencing column as one-to-many', () => {
+    const [first] = suggestRelationships([customers, orders])
+    expect(first).toMatchObject({
+      id: 'Customers:ID__Orders:CustomerID',
+      sourceTableId: 'Customers',
+      sourceColumn: 'ID',
+      targetTableId: 'Orders',
+      targetColumn: 'CustomerID',
+      type: 'one-to-many',
+      inclusion: 1,
+    })
+    expect(first.confidence).toBeGreaterThan(0.8)
+  })
+
+  it('marks unique referencing columns as one-to-one', () => {
+    const profiles = table('CustomerProfiles', [
+      { CustomerID: '1', Bio: 'x' },
+      { CustomerID: '2', Bio: 'y' },
+    ])
+    const found = suggestRelationships([customers, profiles])
+    expect(found.find((s) => s.targetColumn === 'CustomerID')?.type).toBe('one-to-one')
+  })
+
+  it('skips pairs that are already connected', () => {
+    const edge: Edge = { id: 'e', source: 'Customers', sourceHandle: 'ID', target: 'Orders', targetHandle: 'CustomerID' }
+    expect(suggestRelationships([customers, orders], [edge]).map((s) => s.id)).not.toContain('Customers:ID__Orders:CustomerID')
+  })
+
+  it('ignores unnamed small integer overlaps', () => {
+    const found = suggestRelationships([customers, orders])
+    expect(found.some((s) => s.targetColumn === 'Qty' || s.targetColumn === 'OrderID')).toBe(false)
+  })
+
+  it('suggests distinctive string values without a name match', () => {
+    const codes = ['alpha', 'bravo', 'charlie', 'delta', 'echo']
+    const lookup = table('Lookup', codes.map((c) => ({ Code: c })))
+    const usage = table('Usage', codes.flatMap((c) => [{ Ref: c }, { Ref: c }]))
+    expect(suggestRelationships([lookup, usage])).toEqual([
+      expect.objectContaining({ id: 'Lookup:Code__Usage:Ref', inclusion: 1, nameScore: 0 }),
+    ])
+  })
+
+  it('requires most referencing values to exist in the key column', () => {
+    const stray = table('Orders', [
+      { OrderID: '10', CustomerID: '7' },
+      { OrderID: '11', CustomerID: '8' },
+    ])
+    expect(suggestRelationships([customers, stray]).some((s) => s.targetColumn === 'CustomerID')).toBe(false)
+  })
+})
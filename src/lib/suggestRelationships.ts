@@ -0,0 +1,189 @@
+import type { Edge } from 'reactflow'
+import type { TableData } from './types'
+import { inferValueType } from './inferTypes'
+
+/**
+ * Relationship suggestion engine.
+ *
+ * Candidate primary keys are columns whose values are present and unique in
+ * every row. A column elsewhere is a candidate foreign key to one of them when
+ * (almost) all of its values occur in the key column; name similarity
+ * (`CustomerID` ↔ `Customers.ID`) raises confidence and is required unless the
+ * values are distinctive (strings/GUIDs), since small integers overlap by chance.
+ *
+ * Suggestions follow the canvas convention: source = referenced (key) table,
+ * target = referencing table, so accepting one embeds the referencing rows.
+ */
+
+export interface RelationshipSuggestion {
+  id: string
+  sourceTableId: string
+  sourceColumn: string
+  targetTableId: string
+  targetColumn: string
+  type: 'one-to-many' | 'one-to-one'
+  /** 0..1; blend of value inclusion and name similarity. */
+  confidence: number
+  /** Share of the referencing column's distinct values found in the key column. */
+  inclusion: number
+  nameScore: number
+}
+
+export interface SuggestOptions {
+  /** Minimum share of referencing values that must exist in the key column (default 0.9). */
+  minInclusion?: number
+  /** Distinct referencing values sampled per column (default 1000). */
+  sampleSize?: number
+}
+
+const NON_KEY_TYPES = new Set(['object', 'array', 'boolean', 'decimal', 'date', 'datetime'])
+const GENERIC_NAMES = new Set(['id', 'key', 'code', 'name', 'value', 'type'])
+
+const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+function singular(word: string): string {
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (/(ss|x|ch|sh)es$/.test(word)) return word.slice(0, -2)
+  if (word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+/** Last segment of a table name (`dbo.Customers`, `export::Customers`) normalised. */
+function tableStem(name: string): string {
+  const last = name.split(/::|\./).filter(Boolean).pop() ?? name
+  return norm(last)
+}
+
+/**
+ * How strongly a referencing column name points at `table.column`: 1 for
+ * `CustomerID` ↔ `Customers.ID` or a shared specific name, 0.6 for a weaker
+ * prefix/suffix match, 0 otherwise.
+ */
+export function nameSimilarity(fkColumn: string, pkTableName: string, pkColumn: string): number {
+  const fk = norm(fkColumn)
+  const pk = norm(pkColumn)
+  const table = tableStem(pkTableName)
+  const single = singular(table)
+  if (!fk || !pk) return 0
+  if (fk === pk && !GENERIC_NAMES.has(pk)) return 1
+  if (fk === `${single}${pk}` || fk === `${table}${pk}`) return 1
+  if (GENERIC_NAMES.has(pk) && (fk === `${single}id` || fk === `${single}key`)) return 0.8
+  if (fk.endsWith(pk) && single.length >= 3 && fk.includes(single)) return 0.6
+  return 0
+}
+
+const keyOf = (v: unknown) => (typeof v === 'string' ? v.trim() : String(v))
+
+function columnKind(table: TableData, column: string): string | null {
+  const declared = table.columnTypes?.[column]?.dataType
+  if (declared) return declared.toLowerCase()
+  const sample = table.rows.find((r) => r[column] !== null && r[column] !== undefined && r[column] !== '')
+  return sample ? inferValueType(sample[column]) : null
+}
+
+/** Columns that are non-null and unique across all rows of the table. */
+export function findCandidateKeys(table: TableData): string[] {
+  if (table.rows.length < 2) return []
+  return table.columns.filter((col) => {
+    const kind = columnKind(table, col)
+    if (!kind || NON_KEY_TYPES.has(kind)) return false
+    const seen = new Set<string>()
+    for (const row of table.rows) {
+      const v = row[col]
+      if (v === null || v === undefined || v === '' || typeof v === 'object') return false
+      const k = keyOf(v)
+      if (seen.has(k)) return false
+      seen.add(k)
+    }
+    return true
+  })
+}
+
+function distinctValues(table: TableData, column: string, limit: number): { values: string[]; unique: boolean } {
+  const seen = new Set<string>()
+  let unique = true
+  for (const row of table.rows) {
+    const v = row[column]
+    if (v === null || v === undefined || v === '' || typeof v === 'object') continue
+    const k = keyOf(v)
+    if (seen.has(k)) unique = false
+    else if (seen.size < limit) seen.add(k)
+  }
+  return { values: Array.from(seen), unique }
+}
+
+function inclusionRatio(values: string[], keys: Set<string>, minInclusion: number): number {
+  const allowedMisses = Math.floor(values.length * (1 - minInclusion))
+  let misses = 0
+  for (const v of values) {
+    if (keys.has(v)) continue
+    if (++misses > allowedMisses) return 0
+  }
+  return values.length ? (values.length - misses) / values.length : 0
+}
+
+function connected(edges: Edge[], a: string, aCol: string, b: string, bCol: string): boolean {
+  return edges.some((e) =>
+    (e.source === a && e.sourceHandle === aCol && e.target === b && e.targetHandle === bCol) ||
+    (e.source === b && e.sourceHandle === bCol && e.target === a && e.targetHandle === aCol))
+}
+
+export function suggestionId(s: Pick<RelationshipSuggestion, 'sourceTableId' | 'sourceColumn' | 'targetTableId' | 'targetColumn'>): string {
+  return `${s.sourceTableId}:${s.sourceColumn}__${s.targetTableId}:${s.targetColumn}`
+}
+
+/** Suggest relationships across `tables`, skipping pairs already joined by `edges`; best first. */
+export function suggestRelationships(tables: TableData[], edges: Edge[] = [], options?: SuggestOptions): RelationshipSuggestion[] {
+  const minInclusion = options?.minInclusion ?? 0.9
+  const sampleSize = options?.sampleSize ?? 1000
+
+  const keys = tables.flatMap((t) => findCandidateKeys(t).map((column) => ({
+    table: t,
+    column,
+    values: new Set(t.rows.map((r) => keyOf(r[column]))),
+  })))
+  const profiles = new Map<string, ReturnType<typeof distinctValues> & { kind: string | null }>()
+  const profile = (t: TableData, col: string) => {
+    const id = `${t.id}\u0000${col}`
+    let p = profiles.get(id)
+    if (!p) {
+      p = { ...distinctValues(t, col, sampleSize), kind: columnKind(t, col) }
+      profiles.set(id, p)
+    }
+    return p
+  }
+
+  const byPair = new Map<string, RelationshipSuggestion>()
+  for (const key of keys) {
+    for (const t of tables) {
+      for (const col of t.columns) {
+        if (t.id === key.table.id && col === key.column) continue
+        if (connected(edges, key.table.id, key.column, t.id, col)) continue
+        const p = profile(t, col)
+        if (!p.values.length || !p.kind || NON_KEY_TYPES.has(p.kind)) continue
+        const nameScore = nameSimilarity(col, key.table.name, key.column)
+        const distinctive = p.kind === 'guid' || p.kind === 'uniqueidentifier' || p.kind === 'string'
+        if (!nameScore && !(distinctive && p.values.length >= 5)) continue
+        const inclusion = inclusionRatio(p.values, key.values, nameScore ? minInclusion : 1)
+        if (!inclusion) continue
+        const suggestion: RelationshipSuggestion = {
+          id: '',
+          sourceTableId: key.table.id,
+          sourceColumn: key.column,
+          targetTableId: t.id,
+          targetColumn: col,
+          type: p.unique ? 'one-to-one' : 'one-to-many',
+          confidence: Math.round((0.6 * inclusion + 0.4 * nameScore) * 100) / 100,
+          inclusion,
+          nameScore,
+        }
+        suggestion.id = suggestionId(suggestion)
+        // Two key columns matching each other yield both directions; keep the stronger one
+        const pair = [`${key.table.id}:${key.column}`, `${t.id}:${col}`].sort().join('|')
+        const existing = byPair.get(pair)
+        if (!existing || suggestion.confidence > existing.confidence) byPair.set(pair, suggestion)
+      }
+    }
+  }
+  return Array.from(byPair.values()).sort((a, b) => b.confidence - a.confidence || a.id.localeCompare(b.id))
+}
@@ -0,0 +1,11 @@
+import type { TableData } from './types'
+
+/** Test table named after its id, with columns taken from the first row. */
+export const table = (id: string, rows: Record<string, unknown>[], primaryKeys?: string[]): TableData => ({
+  id,
+  name: id,
+  fileName: `${id}.csv`,
+  columns: Object.keys(rows[0] ?? {}),
+  rows,
+  ...(primaryKeys ? { primaryKeys } : {}),
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { applySplits, applyPivots, applyTransforms, type ColumnSplit, type TablePivot } from './transforms'
+import { applyComputed, applySplits, applyPivots, applyObjectGroupings, applyTransforms, formatObjectPaths, matchGroupColumns, parseObjectPaths, parsePivotGroups, pivotPatternError, unpivotRows, type ColumnSplit, type ComputedColumn, type ObjectGrouping, type TablePivot } from './transforms'
 
 describe('transforms', () => {
   // ── Split ────────────────────────────────────────────────────────
@@ -104,6 +104,156 @@ describe('transforms', () => {
       const out = applyPivots(row, pivots, 't1', allColumns)
       expect(out.Items).toEqual([{ Item: 10, Fact: 'Yes' }])
     })
+
+    it('groups columns by regex with a named index and keeps the index', () => {
+      const row = { Id: 1, Phone_Home: '555-0100', Phone_Work: '555-0199', Email_Work: 'a@b.c', PhoneBook: 'x' }
+      const allColumns = Object.keys(row)
+      const pivots: TablePivot[] = [{
+        tableId: 't1',
+        arrayName: 'Contacts',
+        indexName: 'type',
+        groups: [
+          { pattern: '^Phone_(?<index>\\w+)$', propertyName: 'phone', regex: true },
+          { pattern: '^Email_(\\w+)$', propertyName: 'email', regex: true },
+        ],
+      }]
+      const out = applyPivots(row, pivots, 't1', allColumns)
+      expect(out).toEqual({
+        Id: 1,
+        PhoneBook: 'x',
+        Contacts: [
+          { type: 'Home', phone: '555-0100' },
+          { type: 'Work', phone: '555-0199', email: 'a@b.c' },
+        ],
+      })
+    })
+  })
+
+  describe('matchGroupColumns', () => {
+    it('takes the index from the capture when matching by regex', () => {
+      const cols = ['Q1Sales', 'Q2Sales', 'Q10Sales', 'Q1Costs']
+      expect([...matchGroupColumns(cols, '^Q(?<index>\\d+)Sales$', true)]).toEqual([['1', 'Q1Sales'], ['2', 'Q2Sales'], ['10', 'Q10Sales']])
+      expect([...matchGroupColumns(cols, 'Q1').keys()]).toEqual(['Sales', '0Sales', 'Costs'])
+    })
+  })
+
+  describe('parsePivotGroups', () => {
+    it('reads prefixes and named or unnamed regexes', () => {
+      expect(parsePivotGroups('Item, Fact')).toEqual([
+        { pattern: 'Item', propertyName: 'Item' },
+        { pattern: 'Fact', propertyName: 'Fact' },
+      ])
+      expect(parsePivotGroups('phone=/^Phone_(?<index>\\w+)$/, /^Q(\\d{1,2})Sales$/, qty = Qty')).toEqual([
+        { pattern: '^Phone_(?<index>\\w+)$', propertyName: 'phone', regex: true },
+        { pattern: '^Q(\\d{1,2})Sales$', propertyName: 'QSales', regex: true },
+        { pattern: 'Qty', propertyName: 'qty' },
+      ])
+    })
+
+    it('rejects unterminated patterns and patterns without a capture', () => {
+      expect(() => parsePivotGroups('/^Phone_(\\w+)')).toThrow('Unterminated pivot pattern')
+      expect(() => parsePivotGroups('/^Phone_\\w+$/')).toThrow('needs a capture group')
+      expect(pivotPatternError('(')).toMatch(/Invalid regular expression|Unterminated group/)
+      expect(pivotPatternError('^a(\\d)$')).toBeNull()
+    })
+  })
+
+  // ── Group ────────────────────────────────────────────────────────
+
+  describe('applyObjectGroupings', () => {
+    it('nests dot-path columns where the first one was', () => {
+      const row = { id: 1, 'address.street': 'Main St', 'address.geo.lat': 52.1, name: 'Ada', 'address.city': 'Leeds' }
+      const out = applyObjectGroupings(row, [{ tableId: 't1', separator: '.' }], 't1')
+      expect(out).toEqual({ id: 1, address: { street: 'Main St', geo: { lat: 52.1 }, city: 'Leeds' }, name: 'Ada' })
+      expect(Object.keys(out)).toEqual(['id', 'address', 'name'])
+    })
+
+    it('uses explicit paths over the separator and leaves other tables alone', () => {
+      const groupings: ObjectGrouping[] = [{ tableId: 't1', separator: '_', paths: { Address_Street: 'address.street', Address_City: 'address.city', Zip: 'address.postcode' } }]
+      const row = { Address_Street: 'Main St', Address_City: 'Leeds', Zip: 'LS1', Billing_Name: 'Ada' }
+      expect(applyObjectGroupings(row, groupings, 't1')).toEqual({
+        address: { street: 'Main St', city: 'Leeds', postcode: 'LS1' },
+        Billing: { Name: 'Ada' },
+      })
+      expect(applyObjectGroupings(row, groupings, 't2')).toBe(row)
+    })
+
+    it('keeps columns flat when their path collides', () => {
+      const row = { address: 'n/a', 'address.city': 'Leeds', 'tags.a': 1, tags: undefined, 'meta.x': 1, 'meta.x.y': 2 }
+      const out = applyObjectGroupings(row, [{ tableId: 't1', separator: '.' }], 't1')
+      expect(out).toEqual({ address: 'n/a', 'address.city': 'Leeds', 'tags.a': 1, tags: undefined, meta: { x: 1 }, 'meta.x.y': 2 })
+    })
+
+    it('nests under keys named like Object.prototype members', () => {
+      const row = { 'constructor.name': 'a', 'toString.x': 1, '__proto__.polluted': true, valueOf: 2 }
+      const out = applyObjectGroupings(row, [{ tableId: 't1', separator: '.' }], 't1')
+      expect(Object.getPrototypeOf(out)).toBe(Object.prototype)
+      expect(JSON.stringify(out)).toBe('{"constructor":{"name":"a"},"toString":{"x":1},"__proto__":{"polluted":true},"valueOf":2}')
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    })
+
+    it('runs after splits in applyTransforms', () => {
+      const splits: ColumnSplit[] = [{ tableId: 't1', column: 'profile.tags', delimiter: ',' }]
+      const out = applyTransforms({ 'profile.tags': 'a,b', 'profile.bio': 'hi' }, 't1', ['profile.tags', 'profile.bio'], splits, [], [], [{ tableId: 't1', separator: '.' }])
+      expect(out).toEqual({ profile: { tags: ['a', 'b'], bio: 'hi' } })
+    })
+  })
+
+  describe('parseObjectPaths', () => {
+    it('reads column=path entries and formats them back', () => {
+      const paths = parseObjectPaths('Address_Street = address. street, bad, Zip=address.postcode,=x')
+      expect(paths).toEqual({ Address_Street: 'address.street', Zip: 'address.postcode' })
+      expect(formatObjectPaths(paths)).toBe('Address_Street=address.street, Zip=address.postcode')
+    })
+  })
+
+  // ── Unpivot ──────────────────────────────────────────────────────
+
+  describe('unpivotRows', () => {
+    const unpivot = { tableId: 'attrs', keyColumn: 'name', valueColumn: 'value' }
+
+    it('turns key/value rows into object properties', () => {
+      const rows = [{ name: 'color', value: 'red' }, { name: 'size', value: 'L' }, { name: '', value: 'ignored' }]
+      expect(unpivotRows(rows, unpivot)).toEqual({ color: 'red', size: 'L' })
+    })
+
+    it('collects repeated keys into an array', () => {
+      const rows = [{ name: 'tag', value: 'a' }, { name: 'tag', value: 'b' }, { name: 'tag', value: 'c' }]
+      expect(unpivotRows(rows, unpivot)).toEqual({ tag: ['a', 'b', 'c'] })
+    })
+
+    it('keeps keys named like Object.prototype members as plain properties', () => {
+      const rows = ['constructor', 'toString', '__proto__', 'toString'].map((name, i) => ({ name, value: i }))
+      const out = unpivotRows(rows, unpivot)
+      expect(Object.getPrototypeOf(out)).toBe(Object.prototype)
+      expect(JSON.stringify(out)).toBe('{"constructor":0,"toString":[1,3],"__proto__":2}')
+    })
+  })
+
+  // ── Computed ─────────────────────────────────────────────────────
+
+  describe('applyComputed', () => {
+    const computed: ComputedColumn[] = [
+      { tableId: 't1', name: 'fullName', expression: "first || ' ' || last" },
+      { tableId: 't1', name: 'type', expression: "'order'" },
+      { tableId: 't1', name: 'id', expression: "CONCAT('order-', Id)" },
+      { tableId: 't2', name: 'other', expression: '1' },
+    ]
+
+    it('adds one property per computed column of the table', () => {
+      const out = applyComputed({ Id: 7, first: 'Ada', last: 'Lovelace' }, computed, 't1')
+      expect(out).toEqual({ Id: 7, first: 'Ada', last: 'Lovelace', fullName: 'Ada Lovelace', type: 'order', id: 'order-7' })
+    })
+
+    it('reads from the source row so unselected columns still work', () => {
+      const out = applyComputed({ Id: 7 }, computed.slice(0, 1), 't1', { Id: 7, first: 'Ada', last: 'Lovelace' })
+      expect(out).toEqual({ Id: 7, fullName: 'Ada Lovelace' })
+    })
+
+    it('reports the column whose expression does not parse', () => {
+      expect(() => applyComputed({}, [{ tableId: 't1', name: 'bad', expression: 'qty +' }], 't1'))
+        .toThrow(/Invalid computed column "bad": Unexpected end of expression/)
+    })
   })
 
   // ── Combined ─────────────────────────────────────────────────────
@@ -123,5 +273,12 @@ describe('transforms', () => {
       expect(out.Items).toEqual([{ Item: 10 }, { Item: 20 }])
       expect(out.Id).toBe(1)
     })
+
+    it('computes columns before splitting them', () => {
+      const computed: ComputedColumn[] = [{ tableId: 't1', name: 'Tags', expression: "UPPER(Tags) || ',D'" }]
+      const splits: ColumnSplit[] = [{ tableId: 't1', column: 'Tags', delimiter: ',' }]
+      const out = applyTransforms({ Tags: 'a,b' }, 't1', ['Tags'], splits, [], computed)
+      expect(out.Tags).toEqual(['A', 'B', 'D'])
+    })
   })
 })
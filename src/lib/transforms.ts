@@ -1,12 +1,29 @@
 /**
  * Column transforms applied at document-build time.
  *
- * Split:  Splits a delimited string value into a JSON array.
- * Pivot:  Groups numbered/patterned columns into an array of objects.
+ * Computed: Adds a property computed from the row by an expression.
+ * Split:    Splits a delimited string value into a JSON array.
+ * Pivot:    Groups numbered/patterned columns into an array of objects.
+ * Unpivot:  Folds a key/value child table's rows into one object (see join.ts).
+ * Group:    Nests flat columns (address.street, address.city) into objects.
  */
 
+import { compileExpression } from './expression'
+
 // ── Types ────────────────────────────────────────────────────────────
 
+/**
+ * Add (or overwrite) property `name` with the value of `expression`, written in
+ * the language of expression.ts, e.g. `first || ' ' || last`, `'order'` or
+ * `CONCAT('order-', id)`. Expressions read the table's original columns, so
+ * they work on columns left out of the document.
+ */
+export interface ComputedColumn {
+  tableId: string
+  name: string
+  expression: string
+}
+
 /** Split a column's string values on `delimiter` into an array. */
 export interface ColumnSplit {
   tableId: string
@@ -27,31 +44,97 @@ export interface ColumnSplit {
  * starts with the pattern (case-sensitive), strip the pattern prefix
  * to get the index (e.g. "1","2","3"), and collect across groups by
  * matching index.
+ *
+ * Regex groups match the whole column name instead and take the index from
+ * the named capture `index` (else the first capture group), so
+ * Phone_Home,Phone_Work → Phones[] uses `^Phone_(?<index>\w+)$` and
+ * Q1Sales,Q2Sales uses `^Q(?<index>\d+)Sales$`. Set `indexName` to keep the
+ * index in each object, e.g. { type: "Home", Phone: "555-0100" }.
  */
 export interface PivotGroup {
-  pattern: string      // column-name prefix to match, e.g. "Item"
+  pattern: string      // column-name prefix to match, e.g. "Item", or a regular expression
   propertyName: string // output property name in each object, e.g. "Item"
+  regex?: boolean      // pattern is a regular expression with an index capture
 }
 
 export interface TablePivot {
   tableId: string
   arrayName: string    // name of the resulting array property, e.g. "Items"
   groups: PivotGroup[]
+  indexName?: string   // property holding each element's index (omitted when unset)
+}
+
+/**
+ * Fold the rows of a key/value table into one object when they are embedded:
+ * attributes(productId, name, value) under a product becomes
+ * { color: "red", size: "L" }. Repeated keys collect their values in an array.
+ */
+export interface TableUnpivot {
+  tableId: string
+  keyColumn: string
+  valueColumn: string
+}
+
+/**
+ * Nest flat columns into objects. With a `separator`, column names are read
+ * as paths: `address.street` and `address.city` become
+ * { address: { street, city } }. `paths` maps columns to dot paths
+ * explicitly (Address_Street → address.street) and wins over the separator.
+ * A column whose path collides with another value stays flat.
+ */
+export interface ObjectGrouping {
+  tableId: string
+  separator?: string               // e.g. "." or "_"; unset to use `paths` only
+  paths?: Record<string, string>   // column → dot path
 }
 
 // ── Helpers ──────────────────────────────────────────────────────────
 
+const pivotRegexes = new Map<string, RegExp>()
+
+function pivotRegex(pattern: string): RegExp {
+  let re = pivotRegexes.get(pattern)
+  if (!re) {
+    try {
+      re = new RegExp(pattern)
+    } catch (err) {
+      throw new Error(`Invalid pivot pattern /${pattern}/: ${(err as Error).message}`)
+    }
+    pivotRegexes.set(pattern, re)
+  }
+  return re
+}
+
+/** Why a regex pivot pattern cannot be used, or null when it can. */
+export function pivotPatternError(pattern: string): string | null {
+  let re: RegExp
+  try {
+    re = new RegExp(pattern)
+  } catch (err) {
+    return (err as Error).message
+  }
+  // A trailing alternative that never matches forces the capture-group count into view
+  const groups = new RegExp(`${re.source}|`).exec('')!.length - 1
+  return groups ? null : 'Pattern needs a capture group for the index, e.g. (?<index>\\d+)'
+}
+
 /**
  * Resolve which concrete columns a pivot group matches.
- * Returns a map: index (suffix) → columnName.
+ * Returns a map: index (suffix or captured index) → columnName.
  */
 export function matchGroupColumns(
   allColumns: string[],
   pattern: string,
+  regex = false,
 ): Map<string, string> {
   const result = new Map<string, string>()
+  const re = regex ? pivotRegex(pattern) : null
   for (const col of allColumns) {
-    if (col.startsWith(pattern)) {
+    if (re) {
+      const m = re.exec(col)
+      const index = m && (m.groups?.index ?? m[1])
+      if (index) result.set(index, col)
+    } else if (col.startsWith(pattern)) {
       const suffix = col.slice(pattern.length)
       if (suffix.length > 0) {
         result.set(suffix, col)
@@ -61,8 +144,149 @@ export function matchGroupColumns(
   return result
 }
 
+/**
+ * Parse pivot groups typed as comma-separated entries, each a column prefix
+ * (`Item`) or a `/regex/`, optionally named: `Phone=/^Phone_(?<index>\\w+)$/`.
+ * Unnamed regex groups are named after the pattern's literal text. Throws on
+ * an unterminated or unusable regex.
+ */
+export function parsePivotGroups(text: string): PivotGroup[] {
+  const groups: PivotGroup[] = []
+  let i = 0
+  while (i < text.length) {
+    const rest = text.slice(i)
+    const named = /^\s*([^,=/]+?)\s*=\s*/.exec(rest)
+    const start = i + (named ? named[0].length : rest.length - rest.trimStart().length)
+    if (text[start] === '/') {
+      // Regexes may contain commas: read up to the closing unescaped slash
+      let end = start + 1
+      while (end < text.length && text[end] !== '/') end += text[end] === '\\' ? 2 : 1
+      if (end >= text.length) throw new Error(`Unterminated pivot pattern ${text.slice(start)}`)
+      const pattern = text.slice(start + 1, end)
+      const error = pivotPatternError(pattern)
+      if (error) throw new Error(`Invalid pivot pattern /${pattern}/: ${error}`)
+      // Name unnamed groups after the pattern's literal text: drop groups, classes, quantifiers and escapes
+      const fallback = pattern.replace(/\([^)]*\)|\[[^\]]*\]|\{[^}]*\}|\\[a-zA-Z]|[^\p{L}\p{N}]+/gu, '')
+      groups.push({ pattern, propertyName: named?.[1] ?? (fallback || 'value'), regex: true })
+      const comma = text.indexOf(',', end)
+      i = comma < 0 ? text.length : comma + 1
+    } else {
+      const comma = text.indexOf(',', start)
+      const pattern = text.slice(start, comma < 0 ? undefined : comma).trim()
+      if (pattern) groups.push({ pattern, propertyName: named?.[1] ?? pattern })
+      i = comma < 0 ? text.length : comma + 1
+    }
+  }
+  return groups
+}
+
+/** Sort pivot indices naturally (1,2,10... or a,b,c...). */
+export function sortPivotIndices(indices: Iterable<string>): string[] {
+  return [...indices].sort((a, b) => {
+    const na = Number(a)
+    const nb = Number(b)
+    if (!isNaN(na) && !isNaN(nb)) return na - nb
+    return a.localeCompare(b)
+  })
+}
+
+/** Define an own property, so keys such as `__proto__` or `constructor` from the data stay plain properties. */
+function setOwn(obj: Record<string, unknown>, key: string, value: unknown) {
+  Object.defineProperty(obj, key, { value, writable: true, enumerable: true, configurable: true })
+}
+
+/** Fold key/value rows into one object; repeated keys collect their values in an array. */
+export function unpivotRows(rows: Record<string, unknown>[], unpivot: TableUnpivot): Record<string, unknown> {
+  const values = new Map<string, unknown>()
+  const repeated = new Set<string>()
+  for (const row of rows) {
+    const raw = row[unpivot.keyColumn]
+    if (raw === null || raw === undefined || raw === '') continue
+    const key = String(raw)
+    const value = row[unpivot.valueColumn]
+    if (!values.has(key)) {
+      values.set(key, value)
+    } else if (repeated.has(key)) {
+      (values.get(key) as unknown[]).push(value)
+    } else {
+      values.set(key, [values.get(key), value])
+      repeated.add(key)
+    }
+  }
+  const out: Record<string, unknown> = {}
+  for (const [key, value] of values) setOwn(out, key, value)
+  return out
+}
+
+/** Path a column is nested under, or null when it stays a top-level property. */
+export function objectPath(grouping: ObjectGrouping, column: string): string[] | null {
+  const explicit = grouping.paths?.[column]
+  const segments = explicit !== undefined
+    ? explicit.split('.')
+    : grouping.separator && column.includes(grouping.separator) ? column.split(grouping.separator) : []
+  const path = segments.map((s) => s.trim()).filter(Boolean)
+  return path.length && !(path.length === 1 && path[0] === column) ? path : null
+}
+
+/**
+ * Parse an explicit mapping typed as comma-separated `column=path` entries,
+ * e.g. `Address_Street=address.street, Address_City=address.city`.
+ */
+export function parseObjectPaths(text: string): Record<string, string> {
+  const paths: Record<string, string> = {}
+  for (const entry of text.split(',')) {
+    const eq = entry.indexOf('=')
+    if (eq < 0) continue
+    const column = entry.slice(0, eq).trim()
+    const path = entry.slice(eq + 1).split('.').map((s) => s.trim()).filter(Boolean).join('.')
+    if (column && path) paths[column] = path
+  }
+  return paths
+}
+
+/** Inverse of `parseObjectPaths`. */
+export function formatObjectPaths(paths: Record<string, string> | undefined): string {
+  return Object.entries(paths ?? {}).map(([column, path]) => `${column}=${path}`).join(', ')
+}
+
+const compiledExpressions = new Map<string, (row: Record<string, unknown>) => unknown>()
+
+function compiled(column: ComputedColumn) {
+  let fn = compiledExpressions.get(column.expression)
+  if (!fn) {
+    try {
+      fn = compileExpression(column.expression)
+    } catch (err) {
+      throw new Error(`Invalid computed column "${column.name}": ${(err as Error).message}`)
+    }
+    // Live editing compiles every keystroke; keep the cache from growing without bound
+    if (compiledExpressions.size >= 500) compiledExpressions.clear()
+    compiledExpressions.set(column.expression, fn)
+  }
+  return fn
+}
+
 // ── Public API ───────────────────────────────────────────────────────
 
+/**
+ * Apply computed-column transforms, evaluating each expression against
+ * `source` (defaults to the row itself). Columns are added in order, so
+ * later expressions cannot see earlier computed values; all read the source.
+ */
+export function applyComputed(
+  row: Record<string, unknown>,
+  computed: ComputedColumn[],
+  tableId: string,
+  source: Record<string, unknown> = row,
+): Record<string, unknown> {
+  const out = { ...row }
+  for (const column of computed) {
+    if (column.tableId !== tableId || !column.name) continue
+    out[column.name] = compiled(column)(source)
+  }
+  return out
+}
+
 /**
  * Apply column-split transforms to a projected row object (mutates a copy).
  */
@@ -99,7 +323,7 @@ export function applyPivots(
     // 1. Resolve columns per group
     const groupMaps = pivot.groups.map((g) => ({
       group: g,
-      cols: matchGroupColumns(allColumns, g.pattern),
+      cols: matchGroupColumns(allColumns, g.pattern, g.regex),
     }))
 
     // 2. Collect all unique indices across groups
@@ -109,17 +333,12 @@ export function applyPivots(
     }
 
     // 3. Sort indices naturally (1,2,3... or a,b,c...)
-    const sortedIndices = [...allIndices].sort((a, b) => {
-      const na = Number(a)
-      const nb = Number(b)
-      if (!isNaN(na) && !isNaN(nb)) return na - nb
-      return a.localeCompare(b)
-    })
+    const sortedIndices = sortPivotIndices(allIndices)
 
     // 4. Build array of objects
     const arr: Record<string, any>[] = []
     for (const idx of sortedIndices) {
-      const obj: Record<string, any> = {}
+      const obj: Record<string, any> = pivot.indexName ? { [pivot.indexName]: idx } : {}
       let hasValue = false
       for (const { group, cols } of groupMaps) {
         const colName = cols.get(idx)
@@ -145,7 +364,58 @@ export function applyPivots(
 }
 
 /**
- * Apply all transforms (splits then pivots) to a projected row.
+ * Nest a row's grouped columns into objects, keeping each object where its
+ * first column was. Top-level columns win over paths rooted at their name, and
+ * values are never written into objects the row already held.
+ */
+export function applyObjectGroupings(
+  row: Record<string, unknown>,
+  groupings: ObjectGrouping[],
+  tableId: string,
+): Record<string, unknown> {
+  const grouping = groupings.find((g) => g.tableId === tableId)
+  if (!grouping) return row
+  const paths = new Map<string, string[]>()
+  for (const key of Object.keys(row)) {
+    const path = objectPath(grouping, key)
+    if (path) paths.set(key, path)
+  }
+  if (!paths.size) return row
+
+  const out: Record<string, unknown> = {}
+  const created = new Set<object>()
+  const place = (path: string[], value: unknown): boolean => {
+    let target = out
+    for (const segment of path.slice(0, -1)) {
+      const next = Object.hasOwn(target, segment) ? target[segment] : undefined
+      if (next === undefined) {
+        if (target === out && Object.hasOwn(row, segment) && !paths.has(segment)) return false
+        const obj: Record<string, unknown> = {}
+        created.add(obj)
+        setOwn(target, segment, obj)
+        target = obj
+      } else if (created.has(next as object)) {
+        target = next as Record<string, unknown>
+      } else {
+        return false
+      }
+    }
+    const leaf = path[path.length - 1]
+    if (Object.hasOwn(target, leaf) || (target === out && Object.hasOwn(row, leaf) && !paths.has(leaf))) return false
+    setOwn(target, leaf, value)
+    return true
+  }
+  for (const [key, value] of Object.entries(row)) {
+    const path = paths.get(key)
+    if (path && place(path, value)) continue
+    if (!Object.hasOwn(out, key)) setOwn(out, key, value)
+  }
+  return out
+}
+
+/**
+ * Apply all transforms (computed columns, then splits, then pivots, then
+ * object grouping) to a projected row. `source` is the unprojected row computed columns read from.
  */
 export function applyTransforms(
   row: Record<string, any>,
@@ -153,8 +423,11 @@ export function applyTransforms(
   allColumns: string[],
   splits: ColumnSplit[],
   pivots: TablePivot[],
+  computed: ComputedColumn[] = [],
+  groupings: ObjectGrouping[] = [],
+  source: Record<string, unknown> = row,
 ): Record<string, any> {
-  let out = applySplits(row, splits, tableId)
+  let out = applySplits(applyComputed(row, computed, tableId, source), splits, tableId)
   out = applyPivots(out, pivots, tableId, allColumns)
-  return out
+  return applyObjectGroupings(out, groupings, tableId)
 }
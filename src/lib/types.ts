@@ -12,7 +12,22 @@ export interface TableData {
   columnRenames?: Record<string, string> // original -> current
   isDocumentRoot?: boolean
   primaryKeys?: string[]
-  columnTypes?: Record<string, { dataType?: string; isPrimaryKey?: boolean }>
+  columnTypes?: Record<string, ColumnTypeInfo>
+}
+
+export interface ColumnTypeInfo {
+  dataType?: string
+  isPrimaryKey?: boolean
+  nullable?: boolean
+  inferred?: boolean // profiled from values rather than declared by a schema or the user
+}
+
+/** Per-table re-parse options (delimited text, spreadsheet and JSON sources). */
+export interface TableParsingOptions {
+  delimiter?: 'auto' | 'csv' | 'tsv'
+  skipRows?: number
+  headerRow?: boolean // first row after skipRows holds column names (default true)
+  explodeNestedArrays?: boolean // JSON/JSONL: nested arrays were split into child tables on import
 }
 
 export interface ParseFileError {
@@ -23,13 +38,61 @@ export interface ParseFileError {
   sourceType?: string
 }
 
+/**
+ * How related rows appear in the joined document: embedded as an array or a
+ * single object, referenced by key values / summary columns only, or not at
+ * all when only the relationship's aggregate properties are wanted.
+ */
+export type RelationshipType = 'one-to-many' | 'one-to-one' | 'reference' | 'aggregate'
+
+/** How key values are compared when joining: see `joinKey` in matchModes.ts. */
+export type JoinMatchMode = 'strict' | 'loose' | 'case-insensitive' | 'trimmed'
+
+/**
+ * A many-to-many link table. The document builder never embeds its rows:
+ * reaching it through one relationship embeds the rows on the far side of its
+ * other relationships directly, with the chosen payload columns merged in.
+ */
+export interface JunctionTable {
+  tableId: string
+  payloadColumns?: string[] // junction columns copied into each embedded far-side object (e.g. role)
+}
+
+/** Ordering of embedded children; see the subset fields on RelationshipEdge. */
+export interface RelationshipOrder {
+  column: string
+  direction: 'asc' | 'desc'
+}
+
+export type AggregateFunction = 'count' | 'sum' | 'min' | 'max' | 'avg' | 'first' | 'last'
+
+/** A scalar computed from a relationship's matched rows; see aggregates.ts. */
+export interface RelationshipAggregate {
+  fn: AggregateFunction
+  column?: string       // child column; optional for count (counts rows)
+  propertyName?: string // property on the parent (defaults to e.g. reviewsCount, avgRating)
+}
+
+/** One column pairing of a relationship; composite keys have several. */
+export interface ColumnPair {
+  sourceColumn: string
+  targetColumn: string
+}
+
 export interface RelationshipEdge {
   sourceTableId: string
   targetTableId: string
   sourceColumn: string
   targetColumn: string
-  type?: 'one-to-many' | 'one-to-one'
-  includedColumns?: string[] // per-edge column filter for child table
+  additionalColumns?: ColumnPair[] // further pairs of a composite key, all matched together with sourceColumn/targetColumn
+  matchMode?: JoinMatchMode  // key comparison (defaults to strict ===)
+  type?: RelationshipType
+  includedColumns?: string[] // per-edge column filter for child table; for references, the summary columns
   maxDepth?: number          // recursion depth limit (0 = no recurse, undefined = default 1-level)
   propertyName?: string      // override property name in joined output (defaults to child table name)
+  // Subset pattern: children are filtered, then ordered, then cut to the first `limit`
+  filter?: string            // row predicate on the child table, e.g. status = 'active' (see expression.ts)
+  orderBy?: RelationshipOrder
+  limit?: number
+  aggregates?: RelationshipAggregate[] // computed over filtered, ordered children before the limit
 }
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import JSZip from 'jszip'
+import { readXlsxSheets, sheetRows, excelSerialToIso } from './xlsx'
+import { parseFiles, reparseSource } from './parseFiles'
+
+const zipOf = async (entries: Record<string, string | Uint8Array>) => {
+  const zip = new JSZip()
+  for (const [name, content] of Object.entries(entries)) zip.file(name, content)
+  return zip.generateAsync({ type: 'uint8array' })
+}
+const fileFromUint8Array = (name: string, content: Uint8Array) => new File([Uint8Array.from(content)], name)
+
+// Minimal two-sheet workbook: shared strings, rich text, inline strings, booleans, date style
+const makeWorkbook = () =>
+  zipOf({
+    'xl/workbook.xml': (`<?xml version="1.0"?><workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>
+      <sheet name="Customers" sheetId="1" r:id="rId1"/><sheet name="Q&amp;A" sheetId="2" r:id="rId2"/></sheets></workbook>`),
+    'xl/_rels/workbook.xml.rels': (`<Relationships>
+      <Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/>
+      <Relationship Id="rId2" Type="worksheet" Target="/xl/worksheets/sheet2.xml"/></Relationships>`),
+    'xl/sharedStrings.xml': ('<sst><si><t>id</t></si><si><t>name</t></si><si><r><t>Ali</t></r><r><t>ce</t></r></si><si><t>joined</t></si></sst>'),
+    'xl/styles.xml': ('<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14" applyNumberFormat="1"/></cellXfs></styleSheet>'),
+    'xl/worksheets/sheet1.xml': (`<worksheet><sheetData>
+      <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>3</v></c><c r="D1" t="inlineStr"><is><t>vip</t></is></c></row>
+      <row r="2"><c r="A2"><v>1</v></c><c r="B2" t="s"><v>2</v></c><c r="C2" s="1"><v>45292</v></c><c r="D2" t="b"><v>1</v></c></row>
+      <row r="4"><c r="A4"><v>2</v></c><c r="C4" s="1"><v>45293</v></c><c r="D4" t="b"><v>0</v></c></row>
+    </sheetData></worksheet>`),
+    'xl/worksheets/sheet2.xml': (`<worksheet><sheetData>
+      <row r="1"><c r="A1" t="inlineStr"><is><t>Report generated</t></is></c></row>
+      <row r="2"><c r="A2" t="inlineStr"><is><t>q</t></is></c><c r="B2" t="inlineStr"><is><t>a</t></is></c></row>
+      <row r="3"><c r="A3" t="str"><f>1+1</f><v>two</v></c><c r="B3"><v>2.5</v></c></row>
+    </sheetData></worksheet>`),
+  })
+
+describe('xlsx', () => {
+  it('reads every sheet in workbook order with names decoded', async () => {
+    const sheets = readXlsxSheets(await makeWorkbook())
+    expect(sheets.map((s) => s.name)).toEqual(['Customers', 'Q&A'])
+  })
+
+  it('resolves shared, rich, inline, boolean and date cells', async () => {
+    const [customers] = readXlsxSheets(await makeWorkbook())
+    const rows = sheetRows(customers.cells)
+    expect(rows).toEqual([
+      { id: 1, name: 'Alice', joined: '2024-01-01', vip: true },
+      { id: 2, name: null, joined: '2024-01-02', vip: false },
+    ])
+  })
+
+  it('honours skipRows and headerRow', async () => {
+    const [, qa] = readXlsxSheets(await makeWorkbook())
+    expect(sheetRows(qa.cells, { skipRows: 1 })).toEqual([{ q: 'two', a: 2.5 }])
+    expect(sheetRows(qa.cells, { skipRows: 1, headerRow: false })).toEqual([
+      { Column1: 'q', Column2: 'a' },
+      { Column1: 'two', Column2: 2.5 },
+    ])
+  })
+
+  it('de-duplicates and fills blank header names', () => {
+    const rows = sheetRows([['a', 'a', null], [1, 2, 3]])
+    expect(rows).toEqual([{ a: 1, a_2: 2, Column3: 3 }])
+  })
+
+  it('reads sheets with more rows than a call can take arguments', () => {
+    const cells = [['n'], ...Array.from({ length: 200_000 }, (_, i) => [i])]
+    const rows = sheetRows(cells)
+    expect(rows).toHaveLength(200_000)
+    expect(rows[199_999]).toEqual({ n: 199_999 })
+  })
+
+  it('converts serial dates with a time part to full ISO strings', () => {
+    expect(excelSerialToIso(45292.5)).toBe('2024-01-01T12:00:00.000Z')
+  })
+
+  it('rejects non-workbook archives', async () => {
+    const bytes = await zipOf({ 'a.txt': 'x' })
+    expect(() => readXlsxSheets(bytes)).toThrow(/workbook/)
+  })
+})
+
+describe('parseFiles xlsx', () => {
+  it('expands a workbook into one table per sheet', async () => {
+    const { tables, errors } = await parseFiles([fileFromUint8Array('book.xlsx', await makeWorkbook())])
+    expect(errors).toHaveLength(0)
+    expect(tables.map((t) => t.name)).toEqual(['book::Customers', 'book::Q&A'])
+    expect(tables[0].fileName).toBe('book.xlsx::Customers')
+    expect(tables[0].sourceType).toBe('xlsx')
+    expect(tables[0].columns).toEqual(['id', 'name', 'joined', 'vip'])
+  })
+
+  it('reads workbooks inside zip archives', async () => {
+    const zipBytes = await zipOf({ 'book.xlsx': await makeWorkbook() })
+    const { tables, errors } = await parseFiles([fileFromUint8Array('archive.zip', zipBytes)])
+    expect(errors).toHaveLength(0)
+    expect(tables.map((t) => t.name)).toEqual(['archive.zip::book::Customers', 'archive.zip::book::Q&A'])
+  })
+
+  it('re-parses a sheet from its stored source with skip rows', async () => {
+    const { tables } = await parseFiles([fileFromUint8Array('book.xlsx', await makeWorkbook())])
+    const rows = await reparseSource(tables[1].sourceText!, 'xlsx', { skipRows: 1 })
+    expect(rows).toEqual([{ q: 'two', a: 2.5 }])
+  })
+})
@@ -0,0 +1,215 @@
+import { unzipSync, strFromU8 } from 'fflate'
+import type { Row } from './types'
+
+/**
+ * Minimal XLSX (Office Open XML spreadsheet) reader.
+ *
+ * An .xlsx file is a ZIP of XML parts. We only need:
+ *   xl/workbook.xml            sheet names + relationship ids
+ *   xl/_rels/workbook.xml.rels relationship id → worksheet part
+ *   xl/sharedStrings.xml       string table referenced by t="s" cells
+ *   xl/styles.xml              number formats, to tell dates from numbers
+ *   xl/worksheets/sheetN.xml   the cells
+ *
+ * Parsing is regex-based (no DOMParser) so it also runs inside Web Workers.
+ */
+
+export type CellValue = string | number | boolean | null
+
+export interface SheetGrid {
+  name: string
+  cells: CellValue[][]
+}
+
+// ── XML helpers ──────────────────────────────────────────────────────
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_m, ent: string) => {
+    const lower = ent.toLowerCase()
+    if (lower === 'amp') return '&'
+    if (lower === 'lt') return '<'
+    if (lower === 'gt') return '>'
+    if (lower === 'quot') return '"'
+    if (lower === 'apos') return "'"
+    const code = lower.startsWith('#x') ? parseInt(lower.slice(2), 16) : parseInt(lower.slice(1), 10)
+    return Number.isFinite(code) ? String.fromCodePoint(code) : ''
+  })
+}
+
+function attrs(tag: string): Record<string, string> {
+  const out: Record<string, string> = {}
+  const re = /([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(tag))) out[m[1]] = decodeXml(m[2] ?? m[3] ?? '')
+  return out
+}
+
+/** Concatenate every <t> run inside a fragment (handles rich text <r><t>…</t></r>). */
+function textRuns(fragment: string): string {
+  let out = ''
+  const re = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g
+  let m: RegExpExecArray | null
+  while ((m = re.exec(fragment))) out += decodeXml(m[1])
+  return out
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/[^A-Z]/gi, '').toUpperCase()
+  let n = 0
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64)
+  return n - 1
+}
+
+// ── Dates ────────────────────────────────────────────────────────────
+
+// Built-in number formats that render as dates/times (ECMA-376 §18.8.30)
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+function isDateFormatCode(code: string): boolean {
+  const stripped = code.replace(/"[^"]*"/g, '').replace(/\[[^\]]*\]/g, '').replace(/\\./g, '')
+  return /[dmyhs]/i.test(stripped)
+}
+
+function dateStyleIndexes(stylesXml: string | undefined): Set<number> {
+  const result = new Set<number>()
+  if (!stylesXml) return result
+  const customDates = new Set<number>()
+  for (const m of stylesXml.matchAll(/<numFmt\s[^>]*\/?>/g)) {
+    const a = attrs(m[0])
+    if (isDateFormatCode(a.formatCode ?? '')) customDates.add(Number(a.numFmtId))
+  }
+  const cellXfs = /<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml)?.[1] ?? ''
+  let idx = 0
+  for (const m of cellXfs.matchAll(/<xf\s[^>]*?(?:\/>|>)/g)) {
+    const fmt = Number(attrs(m[0]).numFmtId ?? 0)
+    if (BUILTIN_DATE_FORMATS.has(fmt) || customDates.has(fmt)) result.add(idx)
+    idx++
+  }
+  return result
+}
+
+/** Excel serial date (1900 system) → ISO string. */
+export function excelSerialToIso(serial: number): string {
+  const ms = Math.round((serial - 25569) * 86400 * 1000)
+  const iso = new Date(ms).toISOString()
+  return serial % 1 === 0 ? iso.slice(0, 10) : iso
+}
+
+// ── Workbook ─────────────────────────────────────────────────────────
+
+function resolvePart(target: string): string {
+  if (target.startsWith('/')) return target.slice(1)
+  return target.startsWith('xl/') ? target : `xl/${target}`
+}
+
+function parseSheet(xml: string, shared: string[], dateStyles: Set<number>): CellValue[][] {
+  const grid: CellValue[][] = []
+  let nextRow = 0
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowAttrs = attrs(rowMatch[1])
+    const rowIdx = rowAttrs.r ? Number(rowAttrs.r) - 1 : nextRow
+    nextRow = rowIdx + 1
+    const cells: CellValue[] = []
+    let nextCol = 0
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const a = attrs(cellMatch[1])
+      const col = a.r ? columnIndex(a.r) : nextCol
+      nextCol = col + 1
+      const body = cellMatch[2] ?? ''
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1]
+      let value: CellValue = null
+      switch (a.t) {
+        case 's':
+          value = raw !== undefined ? shared[Number(raw)] ?? null : null
+          break
+        case 'inlineStr':
+          value = textRuns(body)
+          break
+        case 'str':
+          value = raw !== undefined ? decodeXml(raw) : null
+          break
+        case 'b':
+          value = raw === '1'
+          break
+        case 'e':
+          value = raw !== undefined ? decodeXml(raw) : null
+          break
+        case 'd':
+          value = raw !== undefined ? decodeXml(raw) : null
+          break
+        default:
+          if (raw !== undefined && raw !== '') {
+            const n = Number(raw)
+            value = Number.isFinite(n)
+              ? (a.s !== undefined && dateStyles.has(Number(a.s)) ? excelSerialToIso(n) : n)
+              : decodeXml(raw)
+          }
+      }
+      cells[col] = value
+    }
+    grid[rowIdx] = Array.from(cells, (v) => v ?? null)
+  }
+  return Array.from(grid, (r) => r ?? [])
+}
+
+/** Read every worksheet of an .xlsx workbook into a raw cell grid, in workbook order. */
+export function readXlsxSheets(bytes: Uint8Array): SheetGrid[] {
+  const parts = unzipSync(bytes, { filter: (f) => f.name.startsWith('xl/') })
+  const text = (name: string) => (parts[name] ? strFromU8(parts[name]) : undefined)
+
+  const workbook = text('xl/workbook.xml')
+  if (!workbook) throw new Error('Not an XLSX workbook (missing xl/workbook.xml)')
+
+  const rels = new Map<string, string>()
+  for (const m of (text('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\s[^>]*\/?>/g)) {
+    const a = attrs(m[0])
+    if (a.Id && a.Target) rels.set(a.Id, resolvePart(a.Target))
+  }
+
+  const shared: string[] = []
+  for (const m of (text('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)) shared.push(textRuns(m[1]))
+
+  const dateStyles = dateStyleIndexes(text('xl/styles.xml'))
+
+  const sheets: SheetGrid[] = []
+  let position = 1
+  for (const m of workbook.matchAll(/<sheet\s[^>]*\/?>/g)) {
+    const a = attrs(m[0])
+    const relId = a['r:id'] ?? Object.entries(a).find(([k]) => k.endsWith(':id'))?.[1]
+    const part = (relId && rels.get(relId)) ?? `xl/worksheets/sheet${position}.xml`
+    position++
+    const xml = text(part)
+    if (!xml) continue
+    sheets.push({ name: a.name ?? `Sheet${position - 1}`, cells: parseSheet(xml, shared, dateStyles) })
+  }
+  return sheets
+}
+
+/**
+ * Turn a cell grid into row objects. `skipRows` drops leading rows; with
+ * `headerRow` (default) the next row supplies column names, otherwise columns
+ * are named Column1..N. Fully empty rows are skipped.
+ */
+export function sheetRows(cells: CellValue[][], options?: { skipRows?: number; headerRow?: boolean }): Row[] {
+  const headerRow = options?.headerRow ?? true
+  const isEmpty = (r: CellValue[]) => r.every((v) => v === null || v === '')
+  const body = cells.slice(options?.skipRows ?? 0).filter((r) => r && !isEmpty(r))
+  if (!body.length) return []
+  const width = body.reduce((max, r) => Math.max(max, r.length), 0)
+  const header: string[] = []
+  const seen = new Map<string, number>()
+  const source = headerRow ? body[0] : []
+  for (let i = 0; i < width; i++) {
+    const raw = source[i]
+    let name = raw === null || raw === undefined || raw === '' ? `Column${i + 1}` : String(raw).trim()
+    const count = seen.get(name) ?? 0
+    seen.set(name, count + 1)
+    if (count) name = `${name}_${count + 1}`
+    header.push(name)
+  }
+  return (headerRow ? body.slice(1) : body).map((r) => {
+    const row: Row = {}
+    header.forEach((col, i) => { row[col] = r[i] ?? null })
+    return row
+  })
+}